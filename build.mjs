@@ -33,6 +33,7 @@ const build = async () => {
     entryPoints: {
       "sw/service_worker": path.join(SRC, "sw", "service_worker.ts"),
       "content/content_script": path.join(SRC, "content", "content_script.ts"),
+      "content/page_monitor": path.join(SRC, "content", "page_monitor.ts"),
       "options/options": path.join(SRC, "options", "options.ts")
     },
     bundle: true,
@@ -52,6 +53,7 @@ if (isWatch) {
     entryPoints: {
       "sw/service_worker": path.join(SRC, "sw", "service_worker.ts"),
       "content/content_script": path.join(SRC, "content", "content_script.ts"),
+      "content/page_monitor": path.join(SRC, "content", "page_monitor.ts"),
       "options/options": path.join(SRC, "options", "options.ts")
     },
     bundle: true,
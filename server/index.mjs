@@ -32,8 +32,10 @@ app.post("/generate-scenario", async (req, res) => {
       imageName,
       outerHTML,
       thenLine,
+      language,
       issueType,
     } = payload;
+    const gherkinLanguage = typeof language === "string" && language ? language : "en";
 
     const system = [
       "You are a test authoring assistant.",
@@ -64,11 +66,15 @@ app.post("/generate-scenario", async (req, res) => {
       `Outer HTML: ${outerHTML || ""}`,
       `Suggested Then: ${thenLine || ""}`,
       `Issue type: ${issueType || "Feature"}`,
+      `Gherkin language: ${gherkinLanguage}`,
       "Instruction: For Feature, write a full Scenario using the page title for Given when possible.",
       "If selected text exists, use it in a Then step.",
       "If role is link and name exists, use 'Then the link \"...\" should be visible'.",
       "If image name exists, use 'Then the image \"...\" should be visible'.",
       "For Bug, infer a likely issue from the selected text/element or leave a stub in the template.",
+      gherkinLanguage === "en"
+        ? "Write Gherkin keywords in English."
+        : `Start Gherkin with '# language: ${gherkinLanguage}' and write every keyword (Feature, Scenario, Given, When, Then, And, But) with the official Cucumber keywords for that language. Keep the step text of the suggested Then unchanged after its keyword.`,
     ].join("\n");
 
     const response = await client.responses.create({
@@ -0,0 +1,513 @@
+import {
+  getElementByIdInRoot,
+  getShadowHost,
+  isElementNode,
+  isHtmlElement,
+} from "./frames";
+
+/**
+ * WAI-ARIA roles we accept from an explicit `role` attribute. Unknown tokens
+ * are skipped so `role="foo button"` resolves to `button` as in browsers.
+ */
+const KNOWN_ROLES = new Set(
+  (
+    "alert alertdialog application article banner blockquote button caption " +
+    "cell checkbox code columnheader combobox complementary contentinfo " +
+    "definition deletion dialog directory document emphasis feed figure form " +
+    "generic grid gridcell group heading img insertion link list listbox " +
+    "listitem log main mark marquee math menu menubar menuitem " +
+    "menuitemcheckbox menuitemradio meter navigation none note option " +
+    "paragraph presentation progressbar radio radiogroup region row rowgroup " +
+    "rowheader scrollbar search searchbox separator slider spinbutton status " +
+    "strong subscript superscript switch tab table tablist tabpanel term " +
+    "textbox time timer toolbar tooltip tree treegrid treeitem"
+  ).split(" ")
+);
+
+/** Roles whose accessible name is computed from their content. */
+const NAME_FROM_CONTENT_ROLES = new Set(
+  (
+    "button cell checkbox columnheader gridcell heading link menuitem " +
+    "menuitemcheckbox menuitemradio option radio row rowheader switch tab " +
+    "tooltip treeitem"
+  ).split(" ")
+);
+
+const RANGE_ROLES = new Set([
+  "meter",
+  "progressbar",
+  "scrollbar",
+  "slider",
+  "spinbutton",
+]);
+
+const SECTIONING_ELEMENTS = new Set(["article", "aside", "main", "nav", "section"]);
+
+const SECTIONING_ROLES = new Set([
+  "article",
+  "complementary",
+  "main",
+  "navigation",
+  "region",
+]);
+
+const SIMPLE_TAG_ROLES: Record<string, string> = {
+  article: "article",
+  aside: "complementary",
+  blockquote: "blockquote",
+  button: "button",
+  caption: "caption",
+  code: "code",
+  datalist: "listbox",
+  dd: "definition",
+  del: "deletion",
+  details: "group",
+  dfn: "term",
+  dialog: "dialog",
+  dt: "term",
+  em: "emphasis",
+  fieldset: "group",
+  figure: "figure",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  hr: "separator",
+  html: "document",
+  ins: "insertion",
+  li: "listitem",
+  main: "main",
+  mark: "mark",
+  math: "math",
+  menu: "list",
+  meter: "meter",
+  nav: "navigation",
+  ol: "list",
+  optgroup: "group",
+  option: "option",
+  output: "status",
+  p: "paragraph",
+  progress: "progressbar",
+  search: "search",
+  strong: "strong",
+  sub: "subscript",
+  sup: "superscript",
+  svg: "img",
+  tbody: "rowgroup",
+  textarea: "textbox",
+  tfoot: "rowgroup",
+  thead: "rowgroup",
+  time: "time",
+  tr: "row",
+  ul: "list",
+};
+
+type NameOptions = {
+  visited: Set<Element>;
+  inLabelledBy: boolean;
+  recursing: boolean;
+  includeHidden: boolean;
+  root: Element;
+};
+
+export function getExplicitRole(element: Element): string | null {
+  const tokens = (element.getAttribute("role") || "")
+    .trim()
+    .toLowerCase()
+    .split(/\s+/);
+  const role = tokens.find((token) => KNOWN_ROLES.has(token));
+  if (!role) return null;
+  // Presentational roles are ignored on focusable elements (ARIA 1.2 §9.3).
+  if ((role === "none" || role === "presentation") && isFocusable(element)) {
+    return null;
+  }
+  return role;
+}
+
+export function getImplicitRole(element: Element): string | null {
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case "a":
+    case "area":
+      return element.hasAttribute("href") ? "link" : null;
+    case "footer":
+      return isScopedToSection(element) ? null : "contentinfo";
+    case "header":
+      return isScopedToSection(element) ? null : "banner";
+    case "form":
+      return hasOwnLabel(element) ? "form" : null;
+    case "section":
+      return hasOwnLabel(element) ? "region" : null;
+    case "img": {
+      const alt = element.getAttribute("alt");
+      return alt === "" && !element.hasAttribute("title") ? "presentation" : "img";
+    }
+    case "input":
+      return getInputRole(element as HTMLInputElement);
+    case "select": {
+      const select = element as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? "listbox" : "combobox";
+    }
+    case "td":
+      return element.closest("table")?.getAttribute("role") === "grid"
+        ? "gridcell"
+        : "cell";
+    case "th":
+      return getHeaderCellRole(element);
+    case "table":
+      return "table";
+  }
+
+  return SIMPLE_TAG_ROLES[tag] || null;
+}
+
+export function computeRole(element: Element): string | null {
+  return getExplicitRole(element) || getImplicitRole(element);
+}
+
+/**
+ * Accessible name following the W3C accname 1.2 computation: aria-labelledby,
+ * embedded control values, aria-label, host-language labels, name from
+ * content, and finally the tooltip attributes.
+ */
+export function computeAccessibleName(element: Element): string {
+  const name = computeTextAlternative(element, {
+    visited: new Set(),
+    inLabelledBy: false,
+    recursing: false,
+    includeHidden: false,
+    root: element,
+  });
+  return name.replace(/\s+/g, " ").trim();
+}
+
+export function isHiddenForAccessibility(element: Element): boolean {
+  let current: Element | null = element;
+  while (current) {
+    if (current.getAttribute("aria-hidden") === "true") return true;
+    if (current.hasAttribute("hidden") || current.hasAttribute("inert")) {
+      return true;
+    }
+    const style = getStyle(current);
+    if (style?.display === "none") return true;
+    current = current.parentElement || getShadowHost(current);
+  }
+  const style = getStyle(element);
+  return style?.visibility === "hidden" || style?.visibility === "collapse";
+}
+
+function computeTextAlternative(element: Element, options: NameOptions): string {
+  if (options.visited.has(element)) return "";
+  options.visited.add(element);
+
+  // 2A: hidden content is skipped unless it was referenced directly.
+  if (!options.includeHidden && isHiddenForAccessibility(element)) return "";
+
+  // 2B: aria-labelledby, not followed recursively. Each reference starts a
+  // fresh traversal so an element may reference itself.
+  if (!options.inLabelledBy) {
+    const labelledBy = (element.getAttribute("aria-labelledby") || "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((id) => getElementByIdInRoot(element, id))
+      .filter((ref): ref is Element => Boolean(ref));
+    if (labelledBy.length > 0) {
+      const text = labelledBy
+        .map((ref) =>
+          computeTextAlternative(ref, {
+            ...options,
+            visited: new Set(),
+            inLabelledBy: true,
+            recursing: true,
+            includeHidden: options.includeHidden || isHiddenForAccessibility(ref),
+          })
+        )
+        .join(" ")
+        .trim();
+      if (text) return text;
+    }
+  }
+
+  const role = computeRole(element);
+
+  // 2C: controls embedded in the label of another element contribute their value.
+  if (options.recursing && element !== options.root) {
+    const value = getEmbeddedControlValue(element, role);
+    if (value !== null) return value;
+  }
+
+  // 2D: aria-label.
+  const ariaLabel = (element.getAttribute("aria-label") || "").trim();
+  if (ariaLabel && !(options.recursing && role && isEmbeddedControlRole(role))) {
+    return ariaLabel;
+  }
+
+  // 2E: host-language label.
+  if (role !== "presentation" && role !== "none") {
+    const native = getNativeLabel(element, options);
+    if (native !== null) return native;
+  }
+
+  // 2F: name from content.
+  if (
+    options.recursing ||
+    (role !== null && NAME_FROM_CONTENT_ROLES.has(role))
+  ) {
+    const text = getContentText(element, { ...options, recursing: true });
+    if (text.trim()) return text;
+  }
+
+  // 2I: tooltip attribute.
+  return getTooltip(element);
+}
+
+function getNativeLabel(element: Element, options: NameOptions): string | null {
+  if (!isHtmlElement(element)) {
+    const svgTitle = Array.from(element.children).find(
+      (child) => child.tagName.toLowerCase() === "title"
+    );
+    return svgTitle?.textContent?.trim() || null;
+  }
+
+  const tag = element.tagName.toLowerCase();
+
+  if (tag === "input") {
+    const input = element as HTMLInputElement;
+    if (["button", "submit", "reset"].includes(input.type)) {
+      if (input.value) return input.value;
+      if (input.type === "submit") return "Submit";
+      if (input.type === "reset") return "Reset";
+    }
+    if (input.type === "image") {
+      return input.getAttribute("alt") || input.value || "Submit";
+    }
+  }
+
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    const text = Array.from(labels)
+      .map((label) => getContentText(label, { ...options, recursing: true }))
+      .join(" ")
+      .trim();
+    if (text) return text;
+  }
+
+  if (tag === "img" || tag === "area") {
+    const alt = element.getAttribute("alt");
+    if (alt !== null) return alt;
+  }
+
+  if (tag === "fieldset") {
+    const legend = Array.from(element.children).find(
+      (child) => child.tagName.toLowerCase() === "legend"
+    );
+    if (legend) {
+      const text = getContentText(legend, { ...options, recursing: true });
+      if (text.trim()) return text;
+    }
+  }
+
+  if (tag === "figure") {
+    const caption = Array.from(element.children).find(
+      (child) => child.tagName.toLowerCase() === "figcaption"
+    );
+    if (caption) {
+      const text = getContentText(caption, { ...options, recursing: true });
+      if (text.trim()) return text;
+    }
+  }
+
+  if (tag === "table") {
+    const caption = (element as HTMLTableElement).caption;
+    if (caption) {
+      const text = getContentText(caption, { ...options, recursing: true });
+      if (text.trim()) return text;
+    }
+  }
+
+  if ((tag === "input" || tag === "textarea") && !options.recursing) {
+    const title = element.getAttribute("title");
+    if (title?.trim()) return title;
+    const placeholder = element.getAttribute("placeholder");
+    if (placeholder?.trim()) return placeholder;
+  }
+
+  return null;
+}
+
+function getContentText(element: Element, options: NameOptions): string {
+  const parts: string[] = [];
+  const before = getPseudoContent(element, "::before");
+  if (before) parts.push(before);
+
+  const children: Node[] = element.shadowRoot
+    ? Array.from(element.shadowRoot.childNodes)
+    : Array.from(element.childNodes);
+  const slotted =
+    element.tagName.toLowerCase() === "slot"
+      ? (element as HTMLSlotElement).assignedNodes({ flatten: true })
+      : [];
+  const nodes = slotted.length > 0 ? slotted : children;
+
+  nodes.forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      parts.push(node.textContent || "");
+      return;
+    }
+    if (!isElementNode(node)) return;
+    const text = computeTextAlternative(node, options);
+    parts.push(isInline(node) ? text : ` ${text} `);
+  });
+
+  const after = getPseudoContent(element, "::after");
+  if (after) parts.push(after);
+  return parts.join("");
+}
+
+function getEmbeddedControlValue(
+  element: Element,
+  role: string | null
+): string | null {
+  if (!role) return null;
+  if (role === "textbox" || role === "searchbox") {
+    const field = element as HTMLInputElement;
+    return typeof field.value === "string" ? field.value : element.textContent || "";
+  }
+  if (role === "combobox" || role === "listbox") {
+    if (element.tagName.toLowerCase() === "select") {
+      return Array.from((element as HTMLSelectElement).selectedOptions)
+        .map((option) => option.textContent || "")
+        .join(" ");
+    }
+    const selected = element.querySelector("[aria-selected='true']");
+    if (selected) return selected.textContent || "";
+    const input = element as HTMLInputElement;
+    return typeof input.value === "string" ? input.value : "";
+  }
+  if (RANGE_ROLES.has(role)) {
+    const valueText = element.getAttribute("aria-valuetext");
+    if (valueText) return valueText;
+    const valueNow = element.getAttribute("aria-valuenow");
+    if (valueNow) return valueNow;
+    const input = element as HTMLInputElement;
+    return typeof input.value === "string" ? input.value : "";
+  }
+  return null;
+}
+
+function isEmbeddedControlRole(role: string): boolean {
+  return (
+    role === "textbox" ||
+    role === "searchbox" ||
+    role === "combobox" ||
+    role === "listbox" ||
+    RANGE_ROLES.has(role)
+  );
+}
+
+function getInputRole(input: HTMLInputElement): string | null {
+  const type = (input.getAttribute("type") || "text").toLowerCase();
+  const hasList = input.hasAttribute("list");
+  switch (type) {
+    case "hidden":
+      return null;
+    case "checkbox":
+      return "checkbox";
+    case "radio":
+      return "radio";
+    case "button":
+    case "submit":
+    case "reset":
+    case "image":
+      return "button";
+    case "range":
+      return "slider";
+    case "number":
+      return "spinbutton";
+    case "search":
+      return hasList ? "combobox" : "searchbox";
+    case "email":
+    case "tel":
+    case "text":
+    case "url":
+      return hasList ? "combobox" : "textbox";
+    case "color":
+    case "date":
+    case "datetime-local":
+    case "file":
+    case "month":
+    case "time":
+    case "week":
+      return null;
+    default:
+      return "textbox";
+  }
+}
+
+function getHeaderCellRole(element: Element): string {
+  const scope = element.getAttribute("scope");
+  if (scope === "row" || scope === "rowgroup") return "rowheader";
+  if (scope === "col" || scope === "colgroup") return "columnheader";
+  if (element.closest("thead")) return "columnheader";
+  const row = element.parentElement;
+  const isOnlyHeaderInRow =
+    row &&
+    Array.from(row.children).every((cell) => cell.tagName.toLowerCase() === "th");
+  if (isOnlyHeaderInRow) return "columnheader";
+  return row?.firstElementChild === element ? "rowheader" : "columnheader";
+}
+
+function isScopedToSection(element: Element): boolean {
+  let current = element.parentElement;
+  while (current) {
+    if (SECTIONING_ELEMENTS.has(current.tagName.toLowerCase())) return true;
+    const role = current.getAttribute("role");
+    if (role && SECTIONING_ROLES.has(role)) return true;
+    current = current.parentElement;
+  }
+  return false;
+}
+
+function hasOwnLabel(element: Element): boolean {
+  return Boolean(
+    element.getAttribute("aria-label")?.trim() ||
+      element.getAttribute("aria-labelledby")?.trim() ||
+      element.getAttribute("title")?.trim()
+  );
+}
+
+function getTooltip(element: Element): string {
+  return element.getAttribute("title") || "";
+}
+
+function isFocusable(element: Element): boolean {
+  if (!isHtmlElement(element)) return false;
+  if (element.hasAttribute("tabindex")) return true;
+  const tag = element.tagName.toLowerCase();
+  if (["button", "input", "select", "textarea"].includes(tag)) {
+    return !(element as HTMLButtonElement).disabled;
+  }
+  return tag === "a" && element.hasAttribute("href");
+}
+
+function isInline(element: Element): boolean {
+  const display = getStyle(element)?.display || "inline";
+  return display === "inline" || display === "contents";
+}
+
+function getPseudoContent(element: Element, pseudo: "::before" | "::after"): string {
+  const view = element.ownerDocument.defaultView;
+  if (!view) return "";
+  const content = view.getComputedStyle(element, pseudo).content;
+  if (!content || content === "none" || content === "normal") return "";
+  const match = content.match(/^"(.*)"$/);
+  return match ? match[1] : "";
+}
+
+function getStyle(element: Element): CSSStyleDeclaration | null {
+  const view = element.ownerDocument.defaultView;
+  return view ? view.getComputedStyle(element) : null;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { ASSERTION_OPTIONS, type AssertionKind } from "../shared/assertions";
+import { getAssertionStepIds, getStepSpecs } from "../shared/codegen/steps";
+import { compileCucumberExpression } from "../shared/cucumberExpression";
+import { buildThenLine, type AssertionCapture, type ElementState } from "./assertions";
+
+const state: ElementState = {
+  text: 'Total "incl. VAT"',
+  value: "2",
+  checked: false,
+  disabled: false,
+  attributes: [
+    { name: "href", value: "/cart" },
+    { name: "aria-label", value: "Cart" },
+  ],
+  count: 3,
+};
+
+const capture: AssertionCapture = {
+  elementKey: "link_cart",
+  url: "https://shop.test/cart",
+  title: "Cart | Shop",
+  selectedText: null,
+  imageName: null,
+  role: null,
+  name: null,
+  state,
+};
+
+describe("buildThenLine", () => {
+  it("fills each assertion with the captured values", () => {
+    const lines = Object.fromEntries(
+      ASSERTION_OPTIONS.map(({ kind }) => [kind, buildThenLine(capture, kind)])
+    );
+    expect(lines).toEqual({
+      visible: 'Then the "link_cart" should be visible',
+      hidden: 'Then the "link_cart" should not be visible',
+      hasText: 'Then the "link_cart" should have text "Total \\"incl. VAT\\""',
+      containsText: 'Then the "link_cart" should contain text "Total \\"incl. VAT\\""',
+      hasValue: 'Then the "link_cart" should have value "2"',
+      enabled: 'Then the "link_cart" should be enabled',
+      disabled: 'Then the "link_cart" should be disabled',
+      checked: 'Then the "link_cart" should not be checked',
+      hasAttribute: 'Then the "link_cart" should have attribute "href" with value "/cart"',
+      hasCount: 'Then the "link_cart" should have count 3',
+      tableContains: 'Then the table "link_cart" should contain:',
+      urlEquals: 'Then the page URL should be "https://shop.test/cart"',
+      titleEquals: 'Then the page title should be "Cart | Shop"',
+    });
+  });
+
+  it("pairs every Then line with one of the step stubs for its assertion", () => {
+    ASSERTION_OPTIONS.forEach(({ kind }) => {
+      const step = buildThenLine(capture, kind).replace(/^Then /, "");
+      const patterns = getStepSpecs(getAssertionStepIds(kind)).map((spec) => spec.pattern);
+      expect(
+        patterns.some((pattern) => compileCucumberExpression(pattern).test(step)),
+        `${kind}: ${step}`
+      ).toBe(true);
+    });
+  });
+
+  it("generates both checked stubs, since the captured state picks the line", () => {
+    expect(getAssertionStepIds("checked")).toEqual(["checked", "notChecked"]);
+    expect(buildThenLine({ ...capture, state: { ...state, checked: true } }, "checked")).toBe(
+      'Then the "link_cart" should be checked'
+    );
+  });
+
+  it("prefers the selected text for contains text", () => {
+    expect(buildThenLine({ ...capture, selectedText: "incl. VAT" }, "containsText")).toBe(
+      'Then the "link_cart" should contain text "incl. VAT"'
+    );
+  });
+
+  it("falls back to neutral values without a captured state", () => {
+    const bare = { ...capture, state: undefined };
+    const line = (kind: AssertionKind) => buildThenLine(bare, kind);
+    expect(line("hasText")).toBe('Then the "link_cart" should have text ""');
+    expect(line("hasAttribute")).toBe(
+      'Then the "link_cart" should have attribute "attribute" with value ""'
+    );
+    expect(line("hasCount")).toBe('Then the "link_cart" should have count 1');
+    expect(line("checked")).toBe('Then the "link_cart" should be checked');
+  });
+
+  it("describes visible text, images and links by what the user sees", () => {
+    expect(buildThenLine({ ...capture, selectedText: "Free delivery" })).toBe(
+      'Then the text "Free delivery" should be visible'
+    );
+    expect(buildThenLine({ ...capture, imageName: "logo.png" })).toBe(
+      'Then the image "logo.png" should be visible'
+    );
+    expect(buildThenLine({ ...capture, role: "link", name: "Cart" })).toBe(
+      'Then the link "Cart" should be visible'
+    );
+  });
+});
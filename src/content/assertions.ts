@@ -0,0 +1,178 @@
+import type { AssertionKind } from "../shared/assertions";
+import {
+  buildCssSelector,
+  cssEscape,
+  escapeDoubleQuotes,
+  formatSelector,
+  normalizeWhitespace,
+  type SelectorCandidate,
+} from "./element";
+import { isHtmlElement } from "./frames";
+import { buildTableStep, type TabularData } from "./table";
+
+export type ElementState = {
+  text: string;
+  value: string | null;
+  checked: boolean | null;
+  disabled: boolean;
+  attributes: { name: string; value: string }[];
+  count: number;
+};
+
+export type AssertionCapture = {
+  elementKey: string;
+  url: string;
+  title: string;
+  selectedText: string | null;
+  imageName: string | null;
+  role: string | null;
+  name: string | null;
+  state?: ElementState;
+  table?: TabularData | null;
+};
+
+const PREFERRED_ATTRIBUTES = [
+  "href",
+  "src",
+  "alt",
+  "type",
+  "name",
+  "placeholder",
+  "title",
+  "aria-label",
+  "aria-expanded",
+  "aria-selected",
+  "aria-current",
+];
+
+const IGNORED_ATTRIBUTES = new Set(["class", "style", "id"]);
+
+export function captureElementState(element: Element): ElementState {
+  const tag = element.tagName.toLowerCase();
+  const field = element as HTMLInputElement;
+  const isField =
+    isHtmlElement(element) && ["input", "textarea", "select"].includes(tag);
+
+  let checked: boolean | null = null;
+  if (tag === "input" && (field.type === "checkbox" || field.type === "radio")) {
+    checked = field.checked;
+  } else if (element.hasAttribute("aria-checked")) {
+    checked = element.getAttribute("aria-checked") === "true";
+  }
+
+  const attributes = Array.from(element.attributes)
+    .filter((attr) => !IGNORED_ATTRIBUTES.has(attr.name))
+    .map((attr) => ({ name: attr.name, value: attr.value }))
+    .sort((a, b) => attributeRank(a.name) - attributeRank(b.name));
+
+  return {
+    text: normalizeWhitespace(element.textContent || ""),
+    value: isField ? field.value : null,
+    checked,
+    disabled:
+      Boolean((element as HTMLButtonElement).disabled) ||
+      element.getAttribute("aria-disabled") === "true",
+    attributes,
+    count: getSimilarSiblings(element).length,
+  };
+}
+
+/**
+ * Locator for the group of siblings that look like `element` (same tag and
+ * leading classes), used by the "has count" assertion.
+ */
+export function buildGroupSelector(
+  element: Element,
+  selectors: SelectorCandidate[]
+): SelectorCandidate {
+  const tag = element.tagName.toLowerCase();
+  const classes = Array.from(element.classList).slice(0, 2).map(cssEscape);
+  const own = `${tag}${classes.length ? `.${classes.join(".")}` : ""}`;
+  const parent = element.parentElement;
+  const value = parent ? `${buildCssSelector(parent)} > ${own}` : own;
+  const frames = selectors.find((s) => s.frames?.length)?.frames;
+  const candidate = {
+    kind: "css" as const,
+    value,
+    reason: "Group of similar elements",
+    frames,
+    matchCount: getSimilarSiblings(element).length,
+  };
+  return { ...candidate, selector: formatSelector(candidate) };
+}
+
+export function buildThenLine(
+  capture: AssertionCapture,
+  kind: AssertionKind = "visible"
+): string {
+  const key = capture.elementKey;
+  const state = capture.state;
+  const quoted = (value: string) => `"${escapeDoubleQuotes(value)}"`;
+
+  switch (kind) {
+    case "visible":
+      if (capture.selectedText) {
+        return `Then the text "${capture.selectedText}" should be visible`;
+      }
+      if (capture.imageName) {
+        return `Then the image "${capture.imageName}" should be visible`;
+      }
+      if (capture.role === "link" && capture.name) {
+        return `Then the link "${capture.name}" should be visible`;
+      }
+      return `Then the "${key}" should be visible`;
+    case "hidden":
+      return `Then the "${key}" should not be visible`;
+    case "hasText":
+      return `Then the "${key}" should have text ${quoted(state?.text || "")}`;
+    case "containsText":
+      return `Then the "${key}" should contain text ${quoted(
+        capture.selectedText || state?.text || ""
+      )}`;
+    case "hasValue":
+      return `Then the "${key}" should have value ${quoted(state?.value || "")}`;
+    case "enabled":
+      return `Then the "${key}" should be enabled`;
+    case "disabled":
+      return `Then the "${key}" should be disabled`;
+    case "checked":
+      return state?.checked === false
+        ? `Then the "${key}" should not be checked`
+        : `Then the "${key}" should be checked`;
+    case "hasAttribute": {
+      const attribute = state?.attributes[0];
+      return `Then the "${key}" should have attribute ${quoted(
+        attribute?.name || "attribute"
+      )} with value ${quoted(attribute?.value || "")}`;
+    }
+    case "hasCount":
+      return `Then the "${key}" should have count ${state?.count ?? 1}`;
+    case "tableContains":
+      return capture.table
+        ? buildTableStep(key, capture.table)
+        : `Then the table "${key}" should contain:`;
+    case "urlEquals":
+      return `Then the page URL should be ${quoted(capture.url)}`;
+    case "titleEquals":
+      return `Then the page title should be ${quoted(capture.title)}`;
+  }
+}
+
+function getSimilarSiblings(element: Element): Element[] {
+  const parent = element.parentElement;
+  if (!parent) return [element];
+  const classes = Array.from(element.classList).slice(0, 2);
+  return Array.from(parent.children).filter(
+    (child) =>
+      child.tagName === element.tagName &&
+      classes.every((name) => child.classList.contains(name))
+  );
+}
+
+function attributeRank(name: string): number {
+  const index = PREFERRED_ATTRIBUTES.indexOf(name);
+  if (index >= 0) return index;
+  if (name.startsWith("aria-")) return PREFERRED_ATTRIBUTES.length;
+  if (name.startsWith("data-")) return PREFERRED_ATTRIBUTES.length + 1;
+  return PREFERRED_ATTRIBUTES.length + 2;
+}
@@ -0,0 +1,83 @@
+import {
+  isPageMonitorMessage,
+  PAGE_MONITOR_SOURCE,
+  type BugContext,
+  type BugEnvironment,
+} from "../shared/bugContext";
+import type { Redactor } from "../shared/redaction";
+
+const REPORT_TIMEOUT_MS = 500;
+
+/** Asks the page monitor for its buffers and adds the browser environment. */
+export async function collectBugContext(redactor: Redactor): Promise<BugContext> {
+  const report = await requestMonitorReport();
+  return {
+    url: redactor.redact(window.location.href),
+    collectedAt: new Date().toISOString(),
+    environment: getEnvironment(),
+    console: (report?.console || []).map((entry) => ({
+      ...entry,
+      message: redactor.redact(entry.message),
+      source: entry.source && redactor.redact(entry.source),
+      stack: entry.stack && redactor.redact(entry.stack),
+    })),
+    requests: (report?.requests || []).map((request) => ({
+      ...request,
+      url: redactor.redact(request.url),
+      statusText: redactor.redact(request.statusText),
+    })),
+    monitored: report !== null,
+  };
+}
+
+function requestMonitorReport(): Promise<Pick<BugContext, "console" | "requests"> | null> {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return new Promise((resolve) => {
+    const finish = (report: Pick<BugContext, "console" | "requests"> | null) => {
+      window.clearTimeout(timer);
+      window.removeEventListener("message", onMessage);
+      resolve(report);
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window || !isPageMonitorMessage(event.data)) return;
+      const data = event.data;
+      if (data.type !== "report" || data.id !== id) return;
+      finish({
+        console: Array.isArray(data.console) ? data.console : [],
+        requests: Array.isArray(data.requests) ? data.requests : [],
+      });
+    };
+    const timer = window.setTimeout(() => finish(null), REPORT_TIMEOUT_MS);
+    window.addEventListener("message", onMessage);
+    window.postMessage({ source: PAGE_MONITOR_SOURCE, type: "request", id }, "*");
+  });
+}
+
+function getEnvironment(): BugEnvironment {
+  const { locale, timeZone } = Intl.DateTimeFormat().resolvedOptions();
+  return {
+    browser: getBrowserVersion(navigator.userAgent),
+    userAgent: navigator.userAgent,
+    platform: navigator.platform,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    screen: { width: window.screen.width, height: window.screen.height },
+    devicePixelRatio: window.devicePixelRatio || 1,
+    locale: navigator.language || locale,
+    timezone: timeZone,
+  };
+}
+
+/** Edge and Opera also say Chrome, so they are checked first. */
+function getBrowserVersion(userAgent: string): string {
+  const browsers: [string, RegExp][] = [
+    ["Edge", /Edg\/([\d.]+)/],
+    ["Opera", /OPR\/([\d.]+)/],
+    ["Chrome", /Chrome\/([\d.]+)/],
+    ["Firefox", /Firefox\/([\d.]+)/],
+  ];
+  for (const [name, pattern] of browsers) {
+    const match = userAgent.match(pattern);
+    if (match) return `${name} ${match[1]}`;
+  }
+  return "Unknown";
+}
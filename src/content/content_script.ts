@@ -1,8 +1,119 @@
-type SelectorCandidate = {
-  kind: "byRole" | "byLabel" | "byPlaceholder" | "byTestId" | "byText" | "css";
-  selector: string;
-  reason: string;
-};
+import {
+  ASSERTION_OPTIONS,
+  isAssertionKind,
+  type AssertionKind,
+} from "../shared/assertions";
+import {
+  CODE_GENERATORS,
+  getAssertionStepIds,
+  getCodeGenerator,
+  loadCodegenConfig,
+  renderStepDefinitions,
+  saveCodegenConfig,
+  type StepId,
+} from "../shared/codegen";
+import {
+  getPageObjectLanguage,
+  renderPageObject,
+} from "../shared/codegen/pageObject";
+import { describeDynamicToken, findDynamicTokens } from "../shared/dynamicText";
+import {
+  formatStepKeyword,
+  getGherkinKeywords,
+  getLanguageHeader,
+  loadGherkinConfig,
+  translateGherkin,
+  type GherkinKeywords,
+} from "../shared/gherkin/keywords";
+import {
+  createJiraFieldForm,
+  getJiraFieldSources,
+  requestJiraCreateMeta,
+  type JiraCreateMeta,
+  type JiraFieldForm,
+} from "../shared/jiraFieldForm";
+import { type JiraIssueCandidate } from "../shared/jiraDuplicates";
+import {
+  buildJiraFieldPayload,
+  findMissingJiraFields,
+  loadJiraFieldDefaults,
+} from "../shared/jiraFields";
+import {
+  getSiteKey,
+  loadLocatorRepository,
+  replaceLocatorSelectors,
+  saveLocatorEntries,
+  yamlString,
+  type LocatorEntry,
+} from "../shared/locatorRepository";
+import {
+  createRedactor,
+  DEFAULT_REDACTION_CONFIG,
+  describeRedactions,
+  loadRedactionConfig,
+} from "../shared/redaction";
+import { compileStepLibrary, loadStepLibrary } from "../shared/stepLibrary";
+import {
+  buildGroupSelector,
+  buildThenLine,
+  captureElementState,
+  type ElementState,
+} from "./assertions";
+import { collectBugContext } from "./bugContext";
+import {
+  buildPageKey,
+  buildSelectors,
+  getAccessibleName,
+  getRole,
+  normalizeWhitespace,
+  type SelectorCandidate,
+} from "./element";
+import { parameterizeCapture, type ParameterizedCapture } from "./dynamicText";
+import {
+  buildElementKey,
+  getElementKeyContext,
+  resolveElementKeys,
+  trackElementKeyConfig,
+} from "./elementKeys";
+import { buildFormOutline, captureForm, findForm } from "./form";
+import {
+  collectElements,
+  getComposedTarget,
+  getTopLevelRect,
+  isTag,
+  listenAcrossFrames,
+} from "./frames";
+import { loadStepHistory, rememberSteps } from "./gherkinCompletion";
+import { attachGherkinEditor, confirmGherkinProblems } from "./gherkinEditor";
+import { rankSelectors } from "./locator";
+import {
+  buildRecordedStepLines,
+  getRecordedTargets,
+  isRecording,
+  resumeRecording,
+  startRecording,
+  stopRecording,
+  type RecordedTarget,
+  type RecorderState,
+} from "./recorder";
+import {
+  CAPTURE_MODES,
+  captureSnapshot,
+  loadCaptureMode,
+  saveCaptureMode,
+  type CaptureMode,
+} from "./screenshot";
+import { createSnapshotEditor, type Snapshot } from "./snapshotEditor";
+import {
+  buildTableStep,
+  createTablePicker,
+  findTabularRoot,
+  getDefaultSelection,
+  isTabularRoot,
+  readTabularData,
+  type TabularData,
+} from "./table";
+import { addToTray, isTrayOpen, resumeTray, toggleTray } from "./tray";
 
 type CaptureResult = {
   ok: boolean;
@@ -20,41 +131,233 @@ type CaptureResult = {
   };
 };
 
+const NOTICE_DURATION_MS = 5000;
+
 let lastRightClickedElement: Element | null = null;
 
-document.addEventListener(
-  "contextmenu",
-  (event) => {
-    if (event.target && event.target instanceof Element) {
-      lastRightClickedElement = event.target as Element;
-    }
-  },
-  true
-);
+listenAcrossFrames(document, "contextmenu", (event) => {
+  const target = getComposedTarget(event);
+  if (target) {
+    lastRightClickedElement = target;
+  }
+});
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message?.type === "content:ping") {
+    sendResponse({ ok: true });
+    return true;
+  }
+  if (message?.type === "content:activated") {
+    showPageNotice("Test Authoring Helper is active on this tab. Right-click the element again.");
+    sendResponse({ ok: true });
+    return true;
+  }
   if (message?.type === "capture-and-copy") {
-    void handleCaptureAndCopy()
+    const assertion = isAssertionKind(message.assertion)
+      ? message.assertion
+      : "visible";
+    void handleCaptureAndCopy(assertion)
+      .then((result) => sendResponse(result))
+      .catch((error) =>
+        sendResponse({ ok: false, error: error?.message || String(error) })
+      );
+    return true;
+  }
+  if (message?.type === "capture-form") {
+    void handleCaptureForm()
       .then((result) => sendResponse(result))
       .catch((error) =>
         sendResponse({ ok: false, error: error?.message || String(error) })
       );
     return true;
   }
+  if (message?.type === "tray:toggle") {
+    void toggleTray()
+      .then((open) => sendResponse({ ok: true, open }))
+      .catch((error) =>
+        sendResponse({ ok: false, error: error?.message || String(error) })
+      );
+    return true;
+  }
+  if (message?.type === "recorder:toggle") {
+    void toggleRecording()
+      .then((recording) => sendResponse({ ok: true, recording }))
+      .catch((error) =>
+        sendResponse({ ok: false, error: error?.message || String(error) })
+      );
+    return true;
+  }
   return false;
 });
 
-async function handleCaptureAndCopy(): Promise<CaptureResult> {
+trackElementKeyConfig();
+void resumeRecording(showRecordingOverlay);
+void resumeTray();
+
+async function toggleRecording(): Promise<boolean> {
+  if (isRecording()) {
+    const finished = await stopRecording();
+    if (finished) void showRecordingOverlay(finished);
+    return false;
+  }
+  document.getElementById("test-authoring-helper-overlay")?.remove();
+  await startRecording(showRecordingOverlay);
+  return true;
+}
+
+async function showRecordingOverlay(recording: RecorderState): Promise<void> {
+  const startPageKey = buildPageKey(recording.startUrl, recording.startTitle);
+  const stepTargets = recording.steps.flatMap((step) => (step.target ? [step.target] : []));
+  const keys = await resolveElementKeys(stepTargets);
+  stepTargets.forEach((target, index) => {
+    target.elementKey = keys[index];
+  });
+  const whenLines = buildRecordedStepLines(recording.steps);
+  const targets = getRecordedTargets(recording.steps);
+  const primary = targets[targets.length - 1];
+  const { language } = await loadGherkinConfig();
+  const keywords = getGherkinKeywords(language);
+  const output = translateGherkin(
+    [`Given I am on the "${startPageKey}" page`, ...whenLines].join("\n"),
+    keywords
+  );
+  void writeClipboard(output).catch(() => undefined);
+  const conflicts = await saveRecordedTargets(targets);
+  const addedToTray = isTrayOpen();
+  if (addedToTray) await addToTray(output, startPageKey, recording.startUrl);
+
+  showOverlay(output, {
+    title: primary?.title || document.title || "",
+    elementKey: primary?.elementKey || "recorded_flow",
+    url: recording.startUrl,
+    role: primary?.role || null,
+    name: primary?.name || null,
+    outerHTML: primary?.outerHTML || "",
+    selectors: primary?.selectors || [],
+    captureRect: null,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    devicePixelRatio: window.devicePixelRatio || 1,
+    snapshot: null,
+    captureTarget: null,
+    selectedText: null,
+    imageName: null,
+    thenLine: translateGherkin(whenLines[whenLines.length - 1] || "", keywords),
+    pageKey: startPageKey,
+    stepIds: recording.steps.map((step) => step.kind),
+    relatedElements: targets.slice(0, -1),
+    selectorConflicts: conflicts.map((entry) => entry.elementKey),
+    addedToTray,
+    language,
+  });
+}
+
+async function handleCaptureForm(): Promise<{ ok: boolean; error?: string }> {
   const target = pickTargetElement();
+  const form = target ? findForm(target) : null;
+  if (!form) {
+    return { ok: false, error: "No form around the clicked element." };
+  }
+
+  const capture = captureForm(form);
+  const url = window.location.href;
+  const pageKey = buildPageKey(url, document.title || "");
+  const targets = [
+    ...capture.fields.map((field) => field.target),
+    ...(capture.submit ? [capture.submit] : []),
+    capture.form,
+  ];
+  const keys = await resolveElementKeys(targets);
+  targets.forEach((target, index) => {
+    target.elementKey = keys[index];
+  });
+  const { language } = await loadGherkinConfig();
+  const keywords = getGherkinKeywords(language);
+  const outline = buildFormOutline(capture, pageKey);
+  const output = [
+    ...getLanguageHeader(language),
+    translateGherkin(outline.text, keywords),
+  ].join("\n");
+  await writeClipboard(output);
+  const conflicts = await saveRecordedTargets(targets);
+  const captureRect = getCaptureRect(form);
+  const snapshot = await requestSnapshot(form);
+
+  // The tray builds a single Scenario, which cannot hold an outline's
+  // Examples tables, so form captures are never added to it.
+  showOverlay(output, {
+    title: capture.form.title,
+    elementKey: capture.form.elementKey,
+    url,
+    role: capture.form.role,
+    name: capture.form.name,
+    outerHTML: capture.form.outerHTML,
+    selectors: capture.form.selectors,
+    captureRect,
+    viewport: { width: window.innerWidth, height: window.innerHeight },
+    devicePixelRatio: window.devicePixelRatio || 1,
+    snapshot,
+    captureTarget: form,
+    selectedText: null,
+    imageName: null,
+    thenLine: translateGherkin(
+      `Then the "${capture.form.elementKey}" form should be <validity>`,
+      keywords
+    ),
+    pageKey,
+    stepIds: outline.stepIds,
+    relatedElements: targets.slice(0, -1),
+    selectorConflicts: conflicts.map((entry) => entry.elementKey),
+    addedToTray: false,
+    language,
+  });
+  return { ok: true };
+}
+
+async function handleCaptureAndCopy(
+  requested: AssertionKind
+): Promise<CaptureResult> {
+  let target = pickTargetElement();
   if (!target) {
     return { ok: false, error: "No element found." };
   }
+  // A table or list says more through its rows than through being visible.
+  let assertion = requested;
+  if (assertion === "tableContains" || (assertion === "visible" && isTabularRoot(target))) {
+    const root = findTabularRoot(target);
+    if (!root) {
+      return { ok: false, error: "No table or list around the clicked element." };
+    }
+    target = root;
+    assertion = "tableContains";
+  }
 
-  const capture = buildCapture(target);
-  const output = formatClipboard(capture);
+  const capture = buildCapture(target, assertion);
+  [capture.elementKey] = await resolveElementKeys([capture]);
+  const { language } = await loadGherkinConfig();
+  const keywords = getGherkinKeywords(language);
+  const output = formatClipboard(capture, keywords);
   await writeClipboard(output);
+  // The hasCount group selector matches siblings, so the repository keeps the
+  // element's own selectors.
+  const conflicts = await saveLocatorEntries(capture.pageKey, capture.url, [
+    toLocatorEntry({
+      ...capture,
+      selectors:
+        assertion === "hasCount" ? capture.selectors.slice(1) : capture.selectors,
+    }),
+  ]);
+  const addedToTray = isTrayOpen();
+  if (addedToTray) await addToTray(output, capture.pageKey, capture.url);
   const captureRect = getCaptureRect(target);
-  const snapshotUrl = captureRect ? await requestSnapshot(captureRect) : null;
+  const snapshot = await requestSnapshot(target);
+  const stepIds = getAssertionStepIds(assertion);
+  const parameterized = parameterizeCapture(
+    target,
+    capture,
+    assertion,
+    buildThenLine(capture, assertion),
+    stepIds
+  );
   showOverlay(output, {
     title: capture.title,
     elementKey: capture.elementKey,
@@ -66,16 +369,76 @@ async function handleCaptureAndCopy(): Promise<CaptureResult> {
     captureRect,
     viewport: { width: window.innerWidth, height: window.innerHeight },
     devicePixelRatio: window.devicePixelRatio || 1,
-    snapshotUrl,
+    snapshot,
+    captureTarget: target,
     selectedText: capture.selectedText,
     imageName: capture.imageName,
-    thenLine: buildThenLine(capture),
+    thenLine: translateGherkin(buildThenLine(capture, assertion), keywords),
+    assertion,
+    pageKey: capture.pageKey,
+    stepIds,
+    table: capture.table,
+    parameterized,
+    selectorConflicts: conflicts.map((entry) => entry.elementKey),
+    addedToTray,
+    language,
   });
   return { ok: true, data: capture };
 }
 
+function toLocatorEntry(
+  target: RecordedTarget
+): Omit<LocatorEntry, "capturedAt" | "conflict"> {
+  return {
+    elementKey: target.elementKey,
+    prefer: target.selectors[0]?.selector || "",
+    fallback: target.selectors.slice(1).map((candidate) => candidate.selector),
+    meta: {
+      url: target.url,
+      title: target.title,
+      role: target.role,
+      name: target.name,
+      html: target.outerHTML,
+    },
+  };
+}
+
+async function saveRecordedTargets(targets: RecordedTarget[]): Promise<LocatorEntry[]> {
+  const conflicts: LocatorEntry[] = [];
+  for (const target of targets) {
+    conflicts.push(
+      ...(await saveLocatorEntries(
+        buildPageKey(target.url, target.title),
+        target.url,
+        [toLocatorEntry(target)]
+      ))
+    );
+  }
+  return conflicts;
+}
+
+/** A short-lived banner for pages where no overlay is open yet. */
+function showPageNotice(message: string): void {
+  const notice = document.createElement("div");
+  notice.textContent = message;
+  notice.style.position = "fixed";
+  notice.style.top = "16px";
+  notice.style.right = "16px";
+  notice.style.zIndex = "2147483647";
+  notice.style.maxWidth = "320px";
+  notice.style.padding = "10px 12px";
+  notice.style.borderRadius = "10px";
+  notice.style.background = "#1f1f1f";
+  notice.style.color = "#ffffff";
+  notice.style.boxShadow = "0 12px 32px rgba(0,0,0,0.25)";
+  notice.style.fontFamily = "system-ui, -apple-system, sans-serif";
+  notice.style.fontSize = "12px";
+  document.body.appendChild(notice);
+  window.setTimeout(() => notice.remove(), NOTICE_DURATION_MS);
+}
+
 function pickTargetElement(): Element | null {
-  if (lastRightClickedElement && document.contains(lastRightClickedElement)) {
+  if (lastRightClickedElement?.isConnected) {
     return lastRightClickedElement;
   }
   const active = document.activeElement;
@@ -83,19 +446,26 @@ function pickTargetElement(): Element | null {
   return document.body;
 }
 
-function buildCapture(element: Element) {
+function buildCapture(element: Element, assertion: AssertionKind = "visible") {
   const url = window.location.href;
   const title = document.title || "";
   const pageKey = buildPageKey(url, title);
-  const selectedText = getSelectedText();
+  const selectedText = getSelectedText(element);
   const imageName = getImageName(element);
   const role = getRole(element);
   const name = getAccessibleName(element);
   const outerHTML = getOuterHtmlSnippet(element);
 
-  const selectors = buildSelectors(element, role, name);
-  const elementKey = buildElementKey(element, role, name, selectors);
-  const warnings = buildWarnings(selectors, name, element);
+  const ranked = rankSelectors(element, buildSelectors(element, role, name));
+  const selectors =
+    assertion === "hasCount"
+      ? [buildGroupSelector(element, ranked), ...ranked]
+      : ranked;
+  const keyContext = getElementKeyContext(element);
+  const elementKey = buildElementKey(element, role, name, selectors, keyContext);
+  const warnings = buildWarnings(ranked, name, element);
+  const state = captureElementState(element);
+  const table = assertion === "tableContains" ? readTabularData(element) : null;
 
   return {
     url,
@@ -107,163 +477,15 @@ function buildCapture(element: Element) {
     name,
     outerHTML,
     elementKey,
+    keyContext,
     selectors,
     warnings,
+    state,
+    table,
+    assertion,
   };
 }
 
-function getRole(element: Element): string | null {
-  const explicit = element.getAttribute("role");
-  if (explicit) return explicit;
-
-  const tag = element.tagName.toLowerCase();
-  if (tag === "button") return "button";
-  if (tag === "a" && (element as HTMLAnchorElement).href) return "link";
-  if (tag === "img") return "img";
-  if (tag === "input") {
-    const type = (element as HTMLInputElement).type;
-    if (type === "checkbox") return "checkbox";
-    if (type === "radio") return "radio";
-    if (type === "submit" || type === "button") return "button";
-    return "textbox";
-  }
-  if (tag === "textarea") return "textbox";
-  if (tag === "select") return "combobox";
-  return null;
-}
-
-function getAccessibleName(element: Element): string | null {
-  const ariaLabel = element.getAttribute("aria-label");
-  if (ariaLabel) return normalizeWhitespace(ariaLabel);
-
-  const labelledBy = element.getAttribute("aria-labelledby");
-  if (labelledBy) {
-    const text = labelledBy
-      .split(/\s+/)
-      .map((id) => document.getElementById(id)?.textContent || "")
-      .join(" ")
-      .trim();
-    if (text) return normalizeWhitespace(text);
-  }
-
-  if (element instanceof HTMLImageElement) {
-    const alt = element.getAttribute("alt");
-    if (alt) return normalizeWhitespace(alt);
-  }
-
-  const labelText = findLabelText(element);
-  if (labelText) return normalizeWhitespace(labelText);
-
-  const placeholder = (element as HTMLInputElement).getAttribute?.("placeholder");
-  if (placeholder) return normalizeWhitespace(placeholder);
-
-  const title = element.getAttribute("title");
-  if (title) return normalizeWhitespace(title);
-
-  const text = element.textContent?.trim();
-  if (text) return normalizeWhitespace(text);
-
-  return null;
-}
-
-function findLabelText(element: Element): string | null {
-  if (!(element instanceof HTMLElement)) return null;
-  if (element.id) {
-    const label = document.querySelector(`label[for="${cssEscape(element.id)}"]`);
-    if (label?.textContent) return label.textContent;
-  }
-  const parentLabel = element.closest("label");
-  if (parentLabel?.textContent) return parentLabel.textContent;
-  return null;
-}
-
-function buildSelectors(
-  element: Element,
-  role: string | null,
-  name: string | null
-): SelectorCandidate[] {
-  const selectors: SelectorCandidate[] = [];
-
-  if (role && name) {
-    selectors.push({
-      kind: "byRole",
-      selector: `getByRole('${escapeQuotes(role)}', { name: '${escapeQuotes(name)}' })`,
-      reason: "Accessible role + name",
-    });
-  } else if (role) {
-    selectors.push({
-      kind: "byRole",
-      selector: `getByRole('${escapeQuotes(role)}')`,
-      reason: "Accessible role",
-    });
-  }
-
-  const labelText = findLabelText(element);
-  if (labelText) {
-    selectors.push({
-      kind: "byLabel",
-      selector: `getByLabel('${escapeQuotes(normalizeWhitespace(labelText))}')`,
-      reason: "Associated label",
-    });
-  }
-
-  const placeholder = (element as HTMLInputElement).getAttribute?.("placeholder");
-  if (placeholder) {
-    selectors.push({
-      kind: "byPlaceholder",
-      selector: `getByPlaceholder('${escapeQuotes(normalizeWhitespace(placeholder))}')`,
-      reason: "Placeholder text",
-    });
-  }
-
-  const testId =
-    element.getAttribute("data-testid") ||
-    element.getAttribute("data-test-id") ||
-    (element as HTMLElement).dataset?.testid;
-  if (testId) {
-    selectors.push({
-      kind: "byTestId",
-      selector: `getByTestId('${escapeQuotes(testId)}')`,
-      reason: "data-testid",
-    });
-  }
-
-  const textContent = normalizeWhitespace(element.textContent || "");
-  if (textContent) {
-    selectors.push({
-      kind: "byText",
-      selector: `getByText('${escapeQuotes(textContent)}')`,
-      reason: "Visible text",
-    });
-  }
-
-  selectors.push({
-    kind: "css",
-    selector: buildCssSelector(element),
-    reason: "CSS fallback",
-  });
-
-  return selectors;
-}
-
-function buildElementKey(
-  element: Element,
-  role: string | null,
-  name: string | null,
-  selectors: SelectorCandidate[]
-): string {
-  const id = (element as HTMLElement).id;
-  const text = name || id || element.tagName.toLowerCase();
-  const base = text.replace(/[^a-zA-Z0-9\s_-]/g, " ").trim();
-  const words = base.split(/\s+/).filter(Boolean);
-  const rolePrefix = role ? `${role}_` : "";
-  const raw = `${rolePrefix}${words.join("_")}`.toLowerCase();
-  const compact = raw.replace(/_+/g, "_").slice(0, 40);
-  if (compact.length > 0) return compact;
-  const fallback = selectors[0]?.kind || "element";
-  return `element_${fallback}`;
-}
-
 function buildWarnings(
   selectors: SelectorCandidate[],
   name: string | null,
@@ -273,66 +495,34 @@ function buildWarnings(
   const hasCss = selectors.some((s) => s.kind === "css");
   if (hasCss) warnings.push("A) CSS fallback included");
 
-  if (name && looksDynamicText(name)) {
-    warnings.push("B) Text looks dynamic (numbers or variable tokens)");
+  const dynamic = findDynamicTokens(name || "");
+  if (dynamic.length) {
+    warnings.push(`B) Text looks dynamic: ${dynamic.map(describeDynamicToken).join(", ")}`);
   }
 
   const textContent = normalizeWhitespace(element.textContent || "");
   if (textContent) {
-    const sameTextCount = countElementsByText(textContent);
+    const sameTextCount = countElementsByText(textContent, element);
     if (sameTextCount > 1) {
       warnings.push("C) Multiple elements share the same text");
     }
   }
 
-  return warnings;
-}
+  if (!selectors.some((s) => s.matchCount === 1 && (s.score ?? 0) > 0)) {
+    warnings.push("D) No locator resolves to exactly this element");
+  }
 
-function looksDynamicText(text: string): boolean {
-  return /\d{2,}/.test(text) || /#\d+/.test(text);
+  return warnings;
 }
 
-function countElementsByText(text: string): number {
-  const matches = Array.from(document.querySelectorAll("body *")).filter(
+function countElementsByText(text: string, element: Element): number {
+  const doc = element.ownerDocument;
+  const matches = collectElements(doc.body || doc).filter(
     (el) => normalizeWhitespace(el.textContent || "") === text
   );
   return matches.length;
 }
 
-function buildCssSelector(element: Element): string {
-  if (!(element instanceof Element)) return "";
-  const id = (element as HTMLElement).id;
-  if (id) return `#${cssEscape(id)}`;
-
-  const parts: string[] = [];
-  let current: Element | null = element;
-  let depth = 0;
-  while (current && current.tagName.toLowerCase() !== "html" && depth < 4) {
-    const tag = current.tagName.toLowerCase();
-    const className = current.className
-      ? `.${Array.from(current.classList)
-          .slice(0, 2)
-          .map(cssEscape)
-          .join(".")}`
-      : "";
-    const siblingIndex = getSiblingIndex(current);
-    const nth = siblingIndex > 0 ? `:nth-of-type(${siblingIndex})` : "";
-    parts.unshift(`${tag}${className}${nth}`);
-    current = current.parentElement;
-    depth += 1;
-  }
-  return parts.join(" > ") || element.tagName.toLowerCase();
-}
-
-function getSiblingIndex(element: Element): number {
-  if (!element.parentElement) return 0;
-  const siblings = Array.from(element.parentElement.children).filter(
-    (child) => child.tagName === element.tagName
-  );
-  const index = siblings.indexOf(element);
-  return index >= 0 ? index + 1 : 0;
-}
-
 function getOuterHtmlSnippet(element: Element): string {
   const html = element.outerHTML || "";
   const cleaned = html.replace(/\s+/g, " ").trim();
@@ -352,21 +542,17 @@ function formatClipboard(capture: {
   elementKey: string;
   selectors: SelectorCandidate[];
   warnings: string[];
-}): string {
-  return [
-    `Given I am on the "${capture.pageKey}" page`,
-    buildThenLine(capture),
-  ].join("\n");
-}
-
-function buildStepDefinitionStub(): string {
-  return [
-    "// Add once in your step definitions",
-    "Then('the {string} should be visible', async function (elementKey: string) {",
-    "  const locator = resolveLocator(this.page, elementKey);",
-    "  await expect(locator).toBeVisible();",
-    "});",
-  ].join("\n");
+  state: ElementState;
+  table: TabularData | null;
+  assertion: AssertionKind;
+}, keywords: GherkinKeywords): string {
+  return translateGherkin(
+    [
+      `Given I am on the "${capture.pageKey}" page`,
+      buildThenLine(capture, capture.assertion),
+    ].join("\n"),
+    keywords
+  );
 }
 
 function buildMappingBlock(capture: {
@@ -382,51 +568,34 @@ function buildMappingBlock(capture: {
   const fallbacks = capture.selectors.slice(1);
 
   return [
-    `${capture.elementKey}:`,
-    `  prefer: ${prefer ? `'${prefer.selector}'` : "''"}`,
-    `  fallback:`,
-    ...fallbacks.map((s) => `  - '${s.selector}'`),
+    `${yamlString(capture.elementKey)}:`,
+    `  prefer: ${prefer ? `${yamlString(prefer.selector)}${describeMatch(prefer)}` : '""'}`,
+    `  fallback:${fallbacks.length ? "" : " []"}`,
+    ...fallbacks.map((s) => `    - ${yamlString(s.selector)}${describeMatch(s)}`),
     `  meta:`,
-    `    url: '${escapeQuotes(capture.url)}'`,
-    `    title: '${escapeQuotes(capture.title)}'`,
-    `    role: '${escapeQuotes(capture.role || "")}'`,
-    `    name: '${escapeQuotes(capture.name || "")}'`,
-    `    html: '${escapeQuotes(capture.outerHTML)}'`,
+    `    url: ${yamlString(capture.url)}`,
+    `    title: ${yamlString(capture.title)}`,
+    `    role: ${yamlString(capture.role || "")}`,
+    `    name: ${yamlString(capture.name || "")}`,
+    `    html: ${yamlString(capture.outerHTML)}`,
   ].join("\n");
 }
 
-function buildPageKey(url: string, title: string): string {
-  const titleKey = normalizeWhitespace(title);
-  return titleKey || "home";
+function describeMatch(selector: SelectorCandidate): string {
+  if (typeof selector.matchCount !== "number") return "";
+  const matches = `${selector.matchCount} match${selector.matchCount === 1 ? "" : "es"}`;
+  return `  # ${matches}, stability ${selector.score ?? 0}`;
 }
 
-function buildThenLine(capture: {
-  elementKey: string;
-  selectedText: string | null;
-  imageName: string | null;
-  role: string | null;
-  name: string | null;
-}): string {
-  if (capture.selectedText) {
-    return `Then the text "${capture.selectedText}" should be visible`;
-  }
-  if (capture.imageName) {
-    return `Then the image "${capture.imageName}" should be visible`;
-  }
-  if (capture.role === "link" && capture.name) {
-    return `Then the link "${capture.name}" should be visible`;
-  }
-  return `Then the "${capture.elementKey}" should be visible`;
-}
-
-function getSelectedText(): string | null {
-  const selection = window.getSelection();
+function getSelectedText(element: Element): string | null {
+  const view = element.ownerDocument.defaultView || window;
+  const selection = view.getSelection();
   const text = selection?.toString().trim() || "";
   return text.length > 0 ? normalizeWhitespace(text) : null;
 }
 
 function getImageName(element: Element): string | null {
-  if (!(element instanceof HTMLImageElement)) return null;
+  if (!isTag(element, "img")) return null;
   const src = element.currentSrc || element.src;
   if (!src) return null;
   try {
@@ -443,8 +612,7 @@ function getImageName(element: Element): string | null {
 function getCaptureRect(
   element: Element
 ): { x: number; y: number; width: number; height: number } | null {
-  const selectionRect = getSelectionRect();
-  const rect = selectionRect || element.getBoundingClientRect();
+  const rect = getTargetRect(element);
   if (!rect || rect.width <= 0 || rect.height <= 0) return null;
 
   const viewportWidth = window.innerWidth;
@@ -461,8 +629,24 @@ function getCaptureRect(
   return { x, y, width, height };
 }
 
-function getSelectionRect(): DOMRect | null {
-  const selection = window.getSelection();
+/** The selected text inside the element, or the element itself, in top-level viewport pixels. */
+function getTargetRect(element: Element): DOMRect {
+  const elementRect = getTopLevelRect(element);
+  const localRect = element.getBoundingClientRect();
+  const selectionRect = getSelectionRect(
+    element.ownerDocument.defaultView || window,
+    elementRect.left - localRect.left,
+    elementRect.top - localRect.top
+  );
+  return selectionRect || elementRect;
+}
+
+function getSelectionRect(
+  view: Window,
+  offsetX: number,
+  offsetY: number
+): DOMRect | null {
+  const selection = view.getSelection();
   if (!selection || selection.rangeCount === 0 || selection.isCollapsed) {
     return null;
   }
@@ -471,7 +655,8 @@ function getSelectionRect(): DOMRect | null {
   const rects = Array.from(range.getClientRects());
   if (rects.length === 0) {
     const rect = range.getBoundingClientRect();
-    return rect.width > 0 && rect.height > 0 ? rect : null;
+    if (rect.width <= 0 || rect.height <= 0) return null;
+    return new DOMRect(rect.left + offsetX, rect.top + offsetY, rect.width, rect.height);
   }
 
   let left = rects[0].left;
@@ -486,39 +671,36 @@ function getSelectionRect(): DOMRect | null {
     bottom = Math.max(bottom, rect.bottom);
   });
 
-  return new DOMRect(left, top, right - left, bottom - top);
+  return new DOMRect(left + offsetX, top + offsetY, right - left, bottom - top);
 }
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
+/** Screenshots the page in the saved capture mode. */
 async function requestSnapshot(
-  rect: { x: number; y: number; width: number; height: number }
-): Promise<string | null> {
-  const dpr = window.devicePixelRatio || 1;
-  const scaled = {
-    x: rect.x * dpr,
-    y: rect.y * dpr,
-    width: rect.width * dpr,
-    height: rect.height * dpr,
-  };
-  return new Promise((resolve) => {
-    chrome.runtime.sendMessage(
-      { type: "capture:snapshot-preview", rect: scaled },
-      (response) => {
-        if (chrome.runtime.lastError) {
-          resolve(null);
-          return;
-        }
-        if (!response?.ok || !response?.dataUrl) {
-          resolve(null);
-          return;
-        }
-        resolve(response.dataUrl);
-      }
-    );
-  });
+  target: Element | null,
+  mode?: CaptureMode
+): Promise<Snapshot | null> {
+  const [captureMode, { rules }] = await Promise.all([
+    mode ? Promise.resolve(mode) : loadCaptureMode(),
+    loadRedactionConfig(),
+  ]);
+  try {
+    return await captureSnapshot({
+      mode: captureMode,
+      target,
+      getTargetRect: () => {
+        if (!target) return null;
+        const rect = getTargetRect(target);
+        return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+      },
+      maskInputs: rules.maskInputs,
+    });
+  } catch {
+    return null;
+  }
 }
 
 async function writeClipboard(text: string): Promise<void> {
@@ -538,18 +720,6 @@ async function writeClipboard(text: string): Promise<void> {
   document.body.removeChild(textarea);
 }
 
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
-function escapeQuotes(value: string): string {
-  return value.replace(/'/g, "\\'");
-}
-
-function cssEscape(value: string): string {
-  return value.replace(/[^a-zA-Z0-9_-]/g, (match) => `\\${match}`);
-}
-
 function showOverlay(
   text: string,
   meta: {
@@ -563,10 +733,22 @@ function showOverlay(
     captureRect: { x: number; y: number; width: number; height: number } | null;
     viewport: { width: number; height: number };
     devicePixelRatio: number;
-    snapshotUrl: string | null;
+    snapshot: Snapshot | null;
+    /** Recaptured when the snapshot mode changes; null for recordings. */
+    captureTarget: Element | null;
     selectedText: string | null;
     imageName: string | null;
     thenLine: string;
+    assertion?: AssertionKind;
+    pageKey: string;
+    stepIds: StepId[];
+    relatedElements?: RecordedTarget[];
+    selectorConflicts?: string[];
+    addedToTray?: boolean;
+    table?: TabularData | null;
+    parameterized?: ParameterizedCapture | null;
+    /** Gherkin language of the generated text and the keyword bar. */
+    language: string;
   }
 ): void {
   const existing = document.getElementById("test-authoring-helper-overlay");
@@ -600,25 +782,28 @@ function showOverlay(
   header.style.fontFamily = "system-ui, -apple-system, sans-serif";
   header.style.fontWeight = "600";
   header.style.cursor = "move";
-  header.textContent = "Copied to clipboard";
+  header.textContent = meta.addedToTray
+    ? "Copied to clipboard · added to capture tray"
+    : "Copied to clipboard";
 
   const body = document.createElement("div");
   body.style.padding = "12px 16px";
   body.style.overflow = "auto";
   body.style.background = "#f8f4ee";
 
+  const keywords = getGherkinKeywords(meta.language);
   const gherkinKeywords = [
-    "Feature",
-    "Rule",
-    "Background",
-    "Scenario",
-    "Scenario Outline",
-    "Examples",
-    "Given",
-    "When",
-    "Then",
-    "And",
-    "But",
+    keywords.feature[0],
+    keywords.rule[0],
+    keywords.background[0],
+    keywords.scenario[0],
+    keywords.scenarioOutline[0],
+    keywords.examples[0],
+    keywords.given[0],
+    keywords.when[0],
+    keywords.then[0],
+    keywords.and[0],
+    keywords.but[0],
   ];
 
   const textarea = document.createElement("textarea");
@@ -637,6 +822,8 @@ function showOverlay(
   textarea.style.border = "1px solid #e0d8cc";
   textarea.style.borderRadius = "8px";
   textarea.style.background = "#ffffff";
+  const editor = attachGherkinEditor(textarea);
+  editor.setLanguage(meta.language);
 
   const makeKeywordButton = (keyword: string) => {
     const button = document.createElement("button");
@@ -649,9 +836,8 @@ function showOverlay(
     button.style.cursor = "pointer";
     button.style.fontSize = "12px";
     button.addEventListener("click", () => {
-      insertAtCursor(textarea, `${keyword} `);
+      editor.insertText(formatStepKeyword(keyword));
       textarea.focus();
-      updateCopyState();
     });
     return button;
   };
@@ -705,7 +891,10 @@ function showOverlay(
   summaryInput.style.padding = "8px 10px";
   summaryInput.style.borderRadius = "8px";
   summaryInput.style.border = "1px solid #e0d8cc";
-  summaryInput.value = `UI: ${meta.elementKey} should be visible`;
+  const assertionOption = ASSERTION_OPTIONS.find(
+    (option) => option.kind === (meta.assertion || "visible")
+  );
+  summaryInput.value = `UI: ${meta.elementKey} ${assertionOption?.summary || ""}`.trim();
 
   const jiraStatus = document.createElement("div");
   jiraStatus.style.fontSize = "12px";
@@ -754,8 +943,54 @@ function showOverlay(
   jiraHeader.appendChild(jiraTitle);
   jiraHeader.appendChild(jiraStatusWrap);
 
+  const jiraFieldsWrap = document.createElement("div");
+  jiraFieldsWrap.style.fontFamily = "system-ui, -apple-system, sans-serif";
+  let jiraCreateMeta: JiraCreateMeta | null = null;
+  let jiraFieldForm: JiraFieldForm | null = null;
+  let jiraFieldsProject = "";
+  let jiraFieldsRequest = 0;
+  // Values typed so far survive switching between Feature and Bug.
+  const refreshJiraFields = async () => {
+    const projectKey = projectSelect.value;
+    const typed = projectKey === jiraFieldsProject ? jiraFieldForm?.getValues() || {} : {};
+    const request = (jiraFieldsRequest += 1);
+    jiraCreateMeta = null;
+    jiraFieldForm = null;
+    jiraFieldsProject = projectKey;
+    jiraFieldsWrap.replaceChildren();
+    if (!projectKey) return;
+    const [createMeta, defaults] = await Promise.all([
+      requestJiraCreateMeta(projectKey, issueTypeSelect.value),
+      loadJiraFieldDefaults(),
+    ]);
+    if (request !== jiraFieldsRequest) return;
+    if ("error" in createMeta) {
+      const note = document.createElement("div");
+      note.textContent = `Jira fields unavailable (${createMeta.error}). The ticket gets only the summary and description.`;
+      note.style.fontSize = "12px";
+      note.style.color = "#4b4b4b";
+      note.style.marginTop = "8px";
+      jiraFieldsWrap.appendChild(note);
+      return;
+    }
+    jiraCreateMeta = createMeta;
+    jiraFieldForm = createJiraFieldForm(
+      createMeta.fields,
+      { ...(defaults[projectKey] || {}), ...typed },
+      getJiraFieldSources(projectKey)
+    );
+    jiraFieldsWrap.appendChild(jiraFieldForm.element);
+  };
+  projectSelect.addEventListener("change", () => void refreshJiraFields());
+  issueTypeSelect.addEventListener("change", () => void refreshJiraFields());
+
   jiraPanel.appendChild(jiraHeader);
   jiraPanel.appendChild(jiraRow);
+  jiraPanel.appendChild(jiraFieldsWrap);
+
+  const jiraDuplicatesWrap = document.createElement("div");
+  jiraDuplicatesWrap.style.fontFamily = "system-ui, -apple-system, sans-serif";
+  jiraPanel.appendChild(jiraDuplicatesWrap);
 
   const keywordBar = document.createElement("div");
   keywordBar.style.display = "flex";
@@ -808,7 +1043,9 @@ function showOverlay(
 
   copyButton.addEventListener("click", async () => {
     if (copyButton.disabled) return;
+    if (!confirmGherkinProblems(editor.getProblems(), "Copy")) return;
     await writeClipboard(textarea.value);
+    void rememberSteps(textarea.value, editor.getKeywords());
     header.textContent = "Copied to clipboard";
     copyButton.textContent = "Copied";
     setTimeout(() => {
@@ -817,6 +1054,23 @@ function showOverlay(
     updateCopyState();
   });
 
+  const trayButton = document.createElement("button");
+  trayButton.textContent = meta.addedToTray ? "In tray" : "Add to tray";
+  trayButton.style.padding = "8px 14px";
+  trayButton.style.borderRadius = "8px";
+  trayButton.style.border = "1px solid #1f1f1f";
+  trayButton.style.background = "#ffffff";
+  trayButton.style.color = "#1f1f1f";
+  trayButton.style.cursor = "pointer";
+  trayButton.disabled = Boolean(meta.addedToTray);
+  trayButton.addEventListener("click", async () => {
+    await addToTray(textarea.value, meta.pageKey, meta.url);
+    void rememberSteps(textarea.value, editor.getKeywords());
+    trayButton.textContent = "In tray";
+    trayButton.disabled = true;
+    header.textContent = "Added to capture tray";
+  });
+
   const closeButton = document.createElement("button");
   closeButton.textContent = "Close";
   closeButton.style.padding = "8px 14px";
@@ -841,9 +1095,8 @@ function showOverlay(
     try {
       const scenario = await generateScenario(meta, issueTypeSelect.value);
       if (scenario) {
-        textarea.value = scenario;
+        editor.setValue(scenario);
         header.textContent = "AI scenario ready";
-        updateCopyState();
       } else {
         header.textContent = "AI generation failed";
       }
@@ -853,11 +1106,193 @@ function showOverlay(
     }
   });
 
+  const codegenRow = document.createElement("div");
+  codegenRow.style.display = "flex";
+  codegenRow.style.alignItems = "center";
+  codegenRow.style.gap = "8px";
+  codegenRow.style.marginTop = "10px";
+  codegenRow.style.fontSize = "12px";
+  codegenRow.style.color = "#4b4b4b";
+  codegenRow.style.fontFamily = "system-ui, -apple-system, sans-serif";
+
+  const codegenLabel = document.createElement("span");
+  codegenLabel.textContent = "Step definitions for";
+
+  const frameworkSelect = document.createElement("select");
+  frameworkSelect.style.padding = "6px 8px";
+  frameworkSelect.style.borderRadius = "8px";
+  frameworkSelect.style.border = "1px solid #e0d8cc";
+  CODE_GENERATORS.forEach((generator) => {
+    const option = document.createElement("option");
+    option.value = generator.id;
+    option.textContent = generator.label;
+    frameworkSelect.appendChild(option);
+  });
+  frameworkSelect.addEventListener("change", () => {
+    void saveCodegenConfig({ framework: getCodeGenerator(frameworkSelect.value).id });
+  });
+
+  const stepDefButton = document.createElement("button");
+  stepDefButton.textContent = "Copy step definitions";
+  stepDefButton.style.padding = "6px 10px";
+  stepDefButton.style.borderRadius = "8px";
+  stepDefButton.style.border = "1px solid #1f1f1f";
+  stepDefButton.style.background = "#ffffff";
+  stepDefButton.style.color = "#1f1f1f";
+  stepDefButton.style.cursor = "pointer";
+  stepDefButton.addEventListener("click", async () => {
+    const generator = getCodeGenerator(frameworkSelect.value);
+    await writeClipboard(
+      [
+        renderStepDefinitions(generator.id, meta.stepIds),
+        "// resolveLocator helper",
+        generator.renderResolveLocator(),
+      ].join("\n\n")
+    );
+    header.textContent = `${generator.label} step definitions copied`;
+  });
+
+  const pageObjectButton = document.createElement("button");
+  pageObjectButton.textContent = "Copy page object";
+  pageObjectButton.style.padding = "6px 10px";
+  pageObjectButton.style.borderRadius = "8px";
+  pageObjectButton.style.border = "1px solid #1f1f1f";
+  pageObjectButton.style.background = "#ffffff";
+  pageObjectButton.style.color = "#1f1f1f";
+  pageObjectButton.style.cursor = "pointer";
+  pageObjectButton.addEventListener("click", async () => {
+    const repository = await loadLocatorRepository();
+    const entry = repository[getSiteKey(meta.url)]?.[meta.pageKey];
+    if (!entry?.entries.length) {
+      header.textContent = "No captured elements for this page yet";
+      return;
+    }
+    const framework = getCodeGenerator(frameworkSelect.value).id;
+    await writeClipboard(renderPageObject(entry, getPageObjectLanguage(framework)));
+    header.textContent = `Page object copied (${entry.entries.length} elements)`;
+  });
+
+  codegenRow.appendChild(codegenLabel);
+  codegenRow.appendChild(frameworkSelect);
+  codegenRow.appendChild(stepDefButton);
+  codegenRow.appendChild(pageObjectButton);
+
   body.appendChild(jiraPanel);
   body.appendChild(keywordBar);
-  body.appendChild(textarea);
 
-  if (meta.snapshotUrl) {
+  if (meta.selectorConflicts?.length) {
+    const conflictNotice = document.createElement("div");
+    conflictNotice.style.display = "flex";
+    conflictNotice.style.alignItems = "center";
+    conflictNotice.style.justifyContent = "space-between";
+    conflictNotice.style.gap = "8px";
+    conflictNotice.style.marginBottom = "10px";
+    conflictNotice.style.padding = "8px 10px";
+    conflictNotice.style.borderRadius = "8px";
+    conflictNotice.style.border = "1px solid #e3b341";
+    conflictNotice.style.background = "#fff8e1";
+    conflictNotice.style.fontSize = "12px";
+    conflictNotice.style.fontFamily = "system-ui, -apple-system, sans-serif";
+
+    const conflictText = document.createElement("span");
+    conflictText.textContent = `Saved locators differ for ${meta.selectorConflicts.join(
+      ", "
+    )}. The new selectors are waiting in the locator repository.`;
+
+    const reviewButton = document.createElement("button");
+    reviewButton.textContent = "Review";
+    reviewButton.style.padding = "4px 10px";
+    reviewButton.style.borderRadius = "8px";
+    reviewButton.style.border = "1px solid #1f1f1f";
+    reviewButton.style.background = "#ffffff";
+    reviewButton.style.color = "#1f1f1f";
+    reviewButton.style.cursor = "pointer";
+    reviewButton.addEventListener("click", () => {
+      chrome.runtime.sendMessage({ type: "open-options" });
+    });
+
+    conflictNotice.appendChild(conflictText);
+    conflictNotice.appendChild(reviewButton);
+    body.appendChild(conflictNotice);
+  }
+
+  if (meta.parameterized) {
+    const parameterized = meta.parameterized;
+    const dynamicNotice = document.createElement("div");
+    dynamicNotice.style.display = "flex";
+    dynamicNotice.style.alignItems = "center";
+    dynamicNotice.style.justifyContent = "space-between";
+    dynamicNotice.style.gap = "8px";
+    dynamicNotice.style.marginBottom = "10px";
+    dynamicNotice.style.padding = "8px 10px";
+    dynamicNotice.style.borderRadius = "8px";
+    dynamicNotice.style.border = "1px solid #e3b341";
+    dynamicNotice.style.background = "#fff8e1";
+    dynamicNotice.style.fontSize = "12px";
+    dynamicNotice.style.fontFamily = "system-ui, -apple-system, sans-serif";
+
+    const dynamicText = document.createElement("span");
+    dynamicText.textContent = `Dynamic text: ${parameterized.tokens
+      .map(describeDynamicToken)
+      .join(", ")}.`;
+
+    const parameterizeButton = document.createElement("button");
+    parameterizeButton.textContent = "Use parameters";
+    parameterizeButton.style.padding = "4px 10px";
+    parameterizeButton.style.borderRadius = "8px";
+    parameterizeButton.style.border = "1px solid #1f1f1f";
+    parameterizeButton.style.background = "#ffffff";
+    parameterizeButton.style.color = "#1f1f1f";
+    parameterizeButton.style.cursor = "pointer";
+    parameterizeButton.addEventListener("click", async () => {
+      const thenLine = translateGherkin(parameterized.thenLine, keywords);
+      if (thenLine !== meta.thenLine) {
+        if (!textarea.value.includes(meta.thenLine)) {
+          header.textContent = "The Then step was edited; replace the dynamic values by hand";
+          return;
+        }
+        editor.setValue(textarea.value.replace(meta.thenLine, () => thenLine));
+      }
+      meta.thenLine = thenLine;
+      meta.stepIds = parameterized.stepIds;
+      meta.selectors = parameterized.selectors;
+      // The repository never keeps the hasCount group selector.
+      const saved =
+        meta.assertion === "hasCount" ? parameterized.selectors.slice(1) : parameterized.selectors;
+      await replaceLocatorSelectors(meta.pageKey, meta.url, meta.elementKey, {
+        prefer: saved[0]?.selector || "",
+        fallback: saved.slice(1).map((candidate) => candidate.selector),
+      });
+      parameterizeButton.textContent = "Parameters used";
+      parameterizeButton.disabled = true;
+      header.textContent = "Dynamic values replaced with parameters";
+    });
+
+    dynamicNotice.appendChild(dynamicText);
+    dynamicNotice.appendChild(parameterizeButton);
+    body.appendChild(dynamicNotice);
+  }
+
+  if (meta.table) {
+    const table = meta.table;
+    let tableStep = translateGherkin(buildTableStep(meta.elementKey, table), keywords);
+    const picker = createTablePicker(table, getDefaultSelection(table), (selection) => {
+      const next = translateGherkin(buildTableStep(meta.elementKey, table, selection), keywords);
+      if (!textarea.value.includes(tableStep)) {
+        header.textContent = "The table step was edited; the picker no longer updates it";
+        return;
+      }
+      editor.setValue(textarea.value.replace(tableStep, () => next));
+      tableStep = next;
+    });
+    body.appendChild(picker);
+  }
+
+  body.appendChild(editor.element);
+  body.appendChild(codegenRow);
+
+  let snapshotEditor = meta.snapshot ? createSnapshotEditor(meta.snapshot) : null;
+  if (snapshotEditor || meta.captureTarget) {
     const previewWrap = document.createElement("div");
     previewWrap.style.marginTop = "10px";
     previewWrap.style.border = "1px dashed #e0d8cc";
@@ -865,27 +1300,159 @@ function showOverlay(
     previewWrap.style.padding = "8px";
     previewWrap.style.background = "#faf7f2";
 
+    const previewHeader = document.createElement("div");
+    previewHeader.style.display = "flex";
+    previewHeader.style.alignItems = "center";
+    previewHeader.style.justifyContent = "space-between";
+    previewHeader.style.gap = "8px";
+    previewHeader.style.marginBottom = "6px";
+
     const previewLabel = document.createElement("div");
-    previewLabel.textContent = "Snapshot preview";
+    previewLabel.textContent = "Snapshot: annotate or adjust the crop before creating the ticket";
     previewLabel.style.fontSize = "12px";
     previewLabel.style.color = "#4b4b4b";
-    previewLabel.style.marginBottom = "6px";
 
-    const img = document.createElement("img");
-    img.src = meta.snapshotUrl;
-    img.alt = "Selection snapshot preview";
-    img.style.maxWidth = "100%";
-    img.style.borderRadius = "6px";
-    img.style.border = "1px solid #e0d8cc";
+    const modeSelect = document.createElement("select");
+    modeSelect.title = "What the snapshot covers";
+    modeSelect.style.padding = "4px 6px";
+    modeSelect.style.borderRadius = "8px";
+    modeSelect.style.border = "1px solid #e0d8cc";
+    modeSelect.style.fontSize = "12px";
+    CAPTURE_MODES.forEach((mode) => {
+      const option = document.createElement("option");
+      option.value = mode.id;
+      option.textContent = mode.label;
+      modeSelect.appendChild(option);
+    });
+    void loadCaptureMode().then((mode) => {
+      modeSelect.value = mode;
+    });
+
+    const editorSlot = document.createElement("div");
+    const showSnapshotMessage = (message: string) => {
+      const note = document.createElement("div");
+      note.textContent = message;
+      note.style.fontSize = "12px";
+      note.style.color = "#4b4b4b";
+      editorSlot.replaceChildren(note);
+    };
+    if (snapshotEditor) editorSlot.appendChild(snapshotEditor.element);
+    else showSnapshotMessage("No snapshot. Pick another mode to try again.");
+
+    // The overlay is hidden while the page is captured again, and the
+    // annotations are dropped because they belong to the old image.
+    modeSelect.addEventListener("change", async () => {
+      const mode = CAPTURE_MODES.find((option) => option.id === modeSelect.value)?.id;
+      if (!mode) return;
+      void saveCaptureMode(mode);
+      modeSelect.disabled = true;
+      showSnapshotMessage("Capturing…");
+      overlay.style.visibility = "hidden";
+      const snapshot = await requestSnapshot(meta.captureTarget, mode);
+      overlay.style.visibility = "";
+      modeSelect.disabled = false;
+      snapshotEditor = snapshot ? createSnapshotEditor(snapshot) : null;
+      if (snapshotEditor) editorSlot.replaceChildren(snapshotEditor.element);
+      else showSnapshotMessage("The snapshot could not be taken.");
+    });
 
-    previewWrap.appendChild(previewLabel);
-    previewWrap.appendChild(img);
+    previewHeader.appendChild(previewLabel);
+    previewHeader.appendChild(modeSelect);
+    previewWrap.appendChild(previewHeader);
+    previewWrap.appendChild(editorSlot);
     body.appendChild(previewWrap);
   }
 
+  let redactionConfig = DEFAULT_REDACTION_CONFIG;
+  // Everything sent to Jira goes through one redactor, so the preview shows
+  // exactly what leaves the browser.
+  const buildJiraPayload = () => {
+    const redactor = createRedactor(redactionConfig, meta.url);
+    const mappingBlock = [
+      buildMappingBlock({
+        url: meta.url,
+        title: meta.title,
+        role: meta.role,
+        name: meta.name,
+        outerHTML: meta.outerHTML,
+        elementKey: meta.elementKey,
+        selectors: meta.selectors,
+      }),
+      ...(meta.relatedElements || []).map(buildMappingBlock),
+    ].join("\n\n");
+    return {
+      summary: redactor.redact(summaryInput.value.trim()),
+      description: redactor.redact(textarea.value.trim()),
+      url: redactor.redact(meta.url),
+      elementKey: redactor.redact(meta.elementKey),
+      selectedText: meta.selectedText ? redactor.redact(meta.selectedText) : null,
+      mapping: redactor.redactHtml(mappingBlock),
+      findings: redactor.findings(),
+    };
+  };
+
+  const redactionNotice = document.createElement("div");
+  redactionNotice.style.display = "none";
+  redactionNotice.style.marginTop = "10px";
+  redactionNotice.style.padding = "8px 10px";
+  redactionNotice.style.borderRadius = "8px";
+  redactionNotice.style.border = "1px solid #c5d9ec";
+  redactionNotice.style.background = "#eef5fb";
+  redactionNotice.style.fontSize = "12px";
+  redactionNotice.style.fontFamily = "system-ui, -apple-system, sans-serif";
+
+  const redactionText = document.createElement("span");
+  const redactionToggle = document.createElement("button");
+  redactionToggle.textContent = "Show";
+  redactionToggle.style.marginLeft = "8px";
+  redactionToggle.style.padding = "2px 8px";
+  redactionToggle.style.borderRadius = "6px";
+  redactionToggle.style.border = "1px solid #1f1f1f";
+  redactionToggle.style.background = "#ffffff";
+  redactionToggle.style.cursor = "pointer";
+  const redactionPreview = document.createElement("pre");
+  redactionPreview.style.display = "none";
+  redactionPreview.style.margin = "6px 0 0";
+  redactionPreview.style.maxHeight = "160px";
+  redactionPreview.style.overflow = "auto";
+  redactionPreview.style.whiteSpace = "pre-wrap";
+  redactionPreview.style.wordBreak = "break-word";
+  redactionPreview.style.fontSize = "11px";
+  redactionToggle.addEventListener("click", () => {
+    const open = redactionPreview.style.display === "none";
+    redactionPreview.style.display = open ? "block" : "none";
+    redactionToggle.textContent = open ? "Hide" : "Show";
+  });
+
+  const renderRedactionPreview = () => {
+    const payload = buildJiraPayload();
+    redactionNotice.style.display = payload.findings.length > 0 ? "block" : "none";
+    redactionText.textContent = `Redacted before sending to Jira or the AI server: ${describeRedactions(
+      payload.findings
+    )}.`;
+    redactionPreview.textContent = [
+      payload.summary,
+      payload.description,
+      `URL: ${payload.url}`,
+      payload.mapping,
+    ].join("\n\n");
+  };
+  summaryInput.addEventListener("input", renderRedactionPreview);
+  textarea.addEventListener("input", renderRedactionPreview);
+  void loadRedactionConfig().then((config) => {
+    redactionConfig = config;
+    renderRedactionPreview();
+  });
+
+  redactionNotice.appendChild(redactionText);
+  redactionNotice.appendChild(redactionToggle);
+  redactionNotice.appendChild(redactionPreview);
+  body.appendChild(redactionNotice);
+
   footerLeft.appendChild(optionsButton);
   footerLeft.appendChild(jiraButton);
   footerLeft.appendChild(aiButton);
+  footerRight.appendChild(trayButton);
   footerRight.appendChild(copyButton);
   footerRight.appendChild(closeButton);
   footer.appendChild(footerLeft);
@@ -898,78 +1465,209 @@ function showOverlay(
 
   makeDraggable(header, card, overlay);
 
+  void loadCodegenConfig().then((config) => {
+    frameworkSelect.value = config.framework;
+  });
+
+  void loadStepLibrary().then((library) => {
+    editor.setStepLibrary(compileStepLibrary(library));
+  });
+
+  void rememberSteps(text, editor.getKeywords())
+    .then(() => Promise.all([loadStepHistory(), loadLocatorRepository()]))
+    .then(([steps, repository]) => {
+      const sitePages = Object.values(repository[getSiteKey(meta.url)] || {});
+      editor.setCompletionSources({
+        steps,
+        elementKeys: sitePages.flatMap((page) => page.entries.map((entry) => entry.elementKey)),
+      });
+    });
+
   void loadJiraProjects(projectSelect, jiraStatus).then((defaultKey) => {
     if (defaultKey) {
       projectSelect.value = defaultKey;
     }
+    void refreshJiraFields();
   });
 
-  jiraButton.addEventListener("click", () => {
+  jiraButton.addEventListener("click", async () => {
     const projectKey = projectSelect.value;
-    const summary = summaryInput.value.trim();
-    const description = `${text}\\n\\nURL: ${meta.url}`;
-    const mappingBlock = buildMappingBlock({
-      url: meta.url,
-      title: meta.title,
-      role: meta.role,
-      name: meta.name,
-      outerHTML: meta.outerHTML,
-      elementKey: meta.elementKey,
-      selectors: meta.selectors,
-    });
-    const stepDef = buildStepDefinitionStub();
+    const {
+      summary,
+      description,
+      url,
+      elementKey,
+      selectedText,
+      mapping: mappingBlock,
+    } = buildJiraPayload();
+    const generator = getCodeGenerator(frameworkSelect.value);
+    const stepDef = renderStepDefinitions(generator.id, meta.stepIds);
 
     if (!projectKey) {
       jiraStatus.textContent = "Choose Jira project";
       return;
     }
+    const fieldValues = jiraFieldForm?.getValues() || {};
+    const missingFields = jiraCreateMeta
+      ? findMissingJiraFields(jiraCreateMeta.fields, fieldValues)
+      : [];
+    if (missingFields.length > 0) {
+      jiraStatus.textContent = `Fill in ${missingFields.map((field) => field.name).join(", ")}`;
+      return;
+    }
+    if (!confirmGherkinProblems(editor.getProblems(), "Create the Jira ticket")) return;
+    void rememberSteps(textarea.value, editor.getKeywords());
 
-    jiraStatus.textContent = "Creating ticket...";
     jiraLink.style.display = "none";
-    chrome.runtime.sendMessage(
-      {
-        type: "jira:create-issue",
-        projectKey,
-        summary,
-        description,
-        stepDef,
-        mapping: mappingBlock,
-        issueType: issueTypeSelect.value,
-        snapshotDataUrl: meta.snapshotUrl,
-        captureRect: meta.captureRect,
-        viewport: meta.viewport,
-        devicePixelRatio: meta.devicePixelRatio,
-      },
-      async (response) => {
+    const isBug = issueTypeSelect.value === "Bug";
+    if (isBug) jiraStatus.textContent = "Collecting bug context...";
+    const bugContext = isBug
+      ? await collectBugContext(createRedactor(redactionConfig, meta.url))
+      : null;
+    const issue = {
+      projectKey,
+      summary,
+      description,
+      url,
+      language: meta.language,
+      elementKey,
+      selectedText,
+      stepDef,
+      stepDefLanguage: generator.language,
+      mapping: mappingBlock,
+      issueType: issueTypeSelect.value,
+      snapshotDataUrl: snapshotEditor?.toDataUrl() ?? null,
+      // The service worker's fallback screenshot cannot mask input fields.
+      captureRect: redactionConfig.rules.maskInputs ? null : meta.captureRect,
+      viewport: meta.viewport,
+      devicePixelRatio: meta.devicePixelRatio,
+      bugContext,
+      issueTypeId: jiraCreateMeta?.issueTypeId ?? null,
+      fields: jiraCreateMeta ? buildJiraFieldPayload(jiraCreateMeta.fields, fieldValues) : {},
+    };
+
+    const send = (message: Record<string, unknown>, done: string) => {
+      jiraDuplicatesWrap.replaceChildren();
+      chrome.runtime.sendMessage({ ...issue, ...message }, async (response) => {
         if (chrome.runtime.lastError) {
           jiraStatus.textContent = chrome.runtime.lastError.message;
           return;
         }
+        const baseUrl = await getJiraBaseUrl();
+        if (response?.duplicates?.length) {
+          jiraStatus.textContent = "Similar open issues found";
+          jiraDuplicatesWrap.appendChild(
+            createJiraDuplicateList(response.duplicates, baseUrl, (choice, issueKey) => {
+              if (choice === "comment") {
+                jiraStatus.textContent = `Commenting on ${issueKey}...`;
+                send({ type: "jira:comment-issue", issueKey }, "Commented on");
+                return;
+              }
+              jiraStatus.textContent = "Creating ticket...";
+              send(
+                {
+                  type: "jira:create-issue",
+                  skipDuplicateCheck: true,
+                  relatedIssueKey: choice === "link" ? issueKey : null,
+                },
+                "Created"
+              );
+            })
+          );
+          return;
+        }
         if (!response?.ok) {
           jiraStatus.textContent = response?.error || "Failed to create issue";
           return;
         }
-        jiraStatus.textContent = `Created ${response.key}`;
-        const baseUrl = await getJiraBaseUrl();
+        // A failed issue link is reported next to the created key.
+        jiraStatus.textContent = response.error || `${done} ${response.key}`;
         if (baseUrl) {
           jiraLink.href = `${baseUrl}/browse/${response.key}`;
           jiraLink.textContent = "Open";
           jiraLink.style.display = "inline";
         }
-      }
-    );
+      });
+    };
+
+    jiraStatus.textContent = "Checking for similar issues...";
+    send({ type: "jira:create-issue" }, "Created");
   });
 }
 
-function insertAtCursor(textarea: HTMLTextAreaElement, insertText: string): void {
-  const start = textarea.selectionStart ?? textarea.value.length;
-  const end = textarea.selectionEnd ?? textarea.value.length;
-  const before = textarea.value.slice(0, start);
-  const after = textarea.value.slice(end);
-  textarea.value = `${before}${insertText}${after}`;
-  const cursor = start + insertText.length;
-  textarea.selectionStart = cursor;
-  textarea.selectionEnd = cursor;
+type JiraDuplicateChoice = "create" | "comment" | "link";
+
+/**
+ * Open issues that mention the same element, page or text, each with a link,
+ * what it matched and buttons to comment on or link to it. "Create anyway"
+ * creates the ticket without another search.
+ */
+function createJiraDuplicateList(
+  candidates: JiraIssueCandidate[],
+  baseUrl: string | null,
+  onChoose: (choice: JiraDuplicateChoice, issueKey: string | null) => void
+): HTMLElement {
+  const list = document.createElement("div");
+  list.style.marginTop = "8px";
+  list.style.padding = "8px 10px";
+  list.style.borderRadius = "8px";
+  list.style.border = "1px solid #e3b341";
+  list.style.background = "#fff8e1";
+  list.style.fontSize = "12px";
+
+  const intro = document.createElement("div");
+  intro.textContent = "These open issues may already cover this:";
+  intro.style.marginBottom = "6px";
+  list.appendChild(intro);
+
+  const createButton = (label: string, onClick: () => void) => {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.padding = "4px 10px";
+    button.style.borderRadius = "8px";
+    button.style.border = "1px solid #1f1f1f";
+    button.style.background = "#ffffff";
+    button.style.color = "#1f1f1f";
+    button.style.cursor = "pointer";
+    button.addEventListener("click", onClick);
+    return button;
+  };
+
+  candidates.forEach((candidate) => {
+    const row = document.createElement("div");
+    row.style.display = "flex";
+    row.style.alignItems = "center";
+    row.style.gap = "8px";
+    row.style.flexWrap = "wrap";
+    row.style.marginBottom = "6px";
+
+    const link = document.createElement(baseUrl ? "a" : "span");
+    link.textContent = candidate.key;
+    link.style.fontWeight = "600";
+    link.style.color = "#1f1f1f";
+    if (link instanceof HTMLAnchorElement && baseUrl) {
+      link.href = `${baseUrl}/browse/${candidate.key}`;
+      link.target = "_blank";
+      link.style.textDecoration = "underline";
+    }
+
+    const details = document.createElement("span");
+    details.style.flex = "1 1 200px";
+    details.style.color = "#4b4b4b";
+    const matched = candidate.matches.length
+      ? ` · mentions ${candidate.matches.map((term) => `"${term}"`).join(", ")}`
+      : "";
+    details.textContent = `${candidate.summary}${candidate.status ? ` (${candidate.status})` : ""}${matched}`;
+
+    row.appendChild(link);
+    row.appendChild(details);
+    row.appendChild(createButton("Add as comment", () => onChoose("comment", candidate.key)));
+    row.appendChild(createButton("Link as related", () => onChoose("link", candidate.key)));
+    list.appendChild(row);
+  });
+
+  list.appendChild(createButton("Create anyway", () => onChoose("create", null)));
+  return list;
 }
 
 async function loadJiraProjects(
@@ -1128,24 +1826,28 @@ async function generateScenario(
     imageName: string | null;
     outerHTML: string;
     thenLine: string;
+    language: string;
   },
   issueType: string
 ): Promise<string | null> {
   const serverUrl = await getAiServerUrl();
+  const redactor = createRedactor(await loadRedactionConfig(), meta.url);
+  const redactOptional = (value: string | null) => (value === null ? null : redactor.redact(value));
   try {
     const response = await fetch(`${serverUrl.replace(/\/+$/, "")}/generate-scenario`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
-        url: meta.url,
-        title: meta.title,
-        elementKey: meta.elementKey,
-        role: meta.role,
-        name: meta.name,
-        selectedText: meta.selectedText,
-        imageName: meta.imageName,
-        outerHTML: meta.outerHTML,
-        thenLine: meta.thenLine,
+        url: redactor.redact(meta.url),
+        title: redactor.redact(meta.title),
+        elementKey: redactor.redact(meta.elementKey),
+        role: redactOptional(meta.role),
+        name: redactOptional(meta.name),
+        selectedText: redactOptional(meta.selectedText),
+        imageName: redactOptional(meta.imageName),
+        outerHTML: redactor.redactHtml(meta.outerHTML),
+        thenLine: redactor.redact(meta.thenLine),
+        language: meta.language,
         issueType,
       }),
     });
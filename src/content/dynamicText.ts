@@ -0,0 +1,112 @@
+import type { AssertionKind } from "../shared/assertions";
+import type { StepId } from "../shared/codegen";
+import {
+  buildTextPattern,
+  buildTextTemplate,
+  findDynamicTokens,
+  type DynamicToken,
+} from "../shared/dynamicText";
+import type { ElementState } from "./assertions";
+import { escapeDoubleQuotes, formatSelector, type SelectorCandidate } from "./element";
+import { rankSelectors } from "./locator";
+
+/** A capture rewritten so that prices, dates, counts and ids may change. */
+export type ParameterizedCapture = {
+  tokens: DynamicToken[];
+  thenLine: string;
+  stepIds: StepId[];
+  selectors: SelectorCandidate[];
+};
+
+type DynamicCapture = {
+  elementKey: string;
+  selectedText: string | null;
+  state?: ElementState;
+  selectors: SelectorCandidate[];
+};
+
+/**
+ * Replaces dynamic values in the asserted text with `{int}`, `{float}` and
+ * `{string}` template parameters, and in role names and visible text
+ * selectors with regular expressions. Null when nothing looks dynamic.
+ */
+export function parameterizeCapture(
+  element: Element,
+  capture: DynamicCapture,
+  assertion: AssertionKind,
+  thenLine: string,
+  stepIds: StepId[]
+): ParameterizedCapture | null {
+  const tokens: DynamicToken[] = [];
+  const key = capture.elementKey;
+  let nextLine = thenLine;
+  let nextStepIds = stepIds;
+
+  const asserted = getAssertedText(capture, assertion);
+  const assertedTokens = asserted ? findDynamicTokens(asserted.text) : [];
+  if (asserted && assertedTokens.length) {
+    tokens.push(...assertedTokens);
+    const template = escapeDoubleQuotes(buildTextTemplate(asserted.text, assertedTokens));
+    nextLine = asserted.whole
+      ? `Then the "${key}" should have text matching "${template}"`
+      : `Then the "${key}" should contain text matching "${template}"`;
+    nextStepIds = [asserted.whole ? "hasTextMatching" : "containsTextMatching"];
+  } else if (assertion === "visible" && /^Then the (?:link|text|image) /.test(thenLine)) {
+    // The named forms bake the text into the step; the key and a pattern
+    // selector say the same without it.
+    nextLine = `Then the "${key}" should be visible`;
+  }
+
+  let changedSelectors = false;
+  const selectors = capture.selectors.map((candidate) => {
+    const text =
+      candidate.kind === "byRole"
+        ? candidate.name
+        : candidate.kind === "byText"
+          ? candidate.value
+          : null;
+    if (!text || candidate.regex) return candidate;
+    const found = findDynamicTokens(text);
+    if (!found.length) return candidate;
+    changedSelectors = true;
+    found.forEach((token) => {
+      if (!tokens.some((other) => other.text === token.text)) tokens.push(token);
+    });
+    const pattern = buildTextPattern(text, found);
+    const next = {
+      ...candidate,
+      exact: undefined,
+      regex: true,
+      ...(candidate.kind === "byRole" ? { name: pattern } : { value: pattern }),
+    };
+    return { ...next, selector: formatSelector(next) };
+  });
+
+  if (!tokens.length) return null;
+  return {
+    tokens,
+    thenLine: nextLine,
+    stepIds: nextStepIds,
+    // The hasCount group selector has to stay first.
+    selectors:
+      changedSelectors && assertion !== "hasCount" ? rankSelectors(element, selectors) : selectors,
+  };
+}
+
+function getAssertedText(
+  capture: DynamicCapture,
+  assertion: AssertionKind
+): { text: string; whole: boolean } | null {
+  switch (assertion) {
+    case "hasText":
+      return capture.state?.text ? { text: capture.state.text, whole: true } : null;
+    case "containsText": {
+      const text = capture.selectedText || capture.state?.text;
+      return text ? { text, whole: false } : null;
+    }
+    case "visible":
+      return capture.selectedText ? { text: capture.selectedText, whole: false } : null;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { selectorParserSource } from "../shared/codegen/parser";
+import { formatSelector } from "./element";
+
+type SelectorCall = {
+  method: string;
+  value: string;
+  name?: string;
+  exact: boolean;
+  regex: boolean;
+};
+
+const parseSelector = new Function(
+  `${selectorParserSource(false).replace(/^export /gm, "")}\nreturn parseSelector;`
+)() as (selector: string) => SelectorCall[];
+
+describe("formatSelector", () => {
+  it("writes Playwright locator calls for each kind", () => {
+    expect(formatSelector({ kind: "byRole", value: "button", name: "Add", reason: "" })).toBe(
+      "getByRole('button', { name: 'Add' })"
+    );
+    expect(formatSelector({ kind: "byRole", value: "main", reason: "" })).toBe("getByRole('main')");
+    expect(formatSelector({ kind: "byLabel", value: "Email", exact: true, reason: "" })).toBe(
+      "getByLabel('Email', { exact: true })"
+    );
+    expect(formatSelector({ kind: "byPlaceholder", value: "Search", reason: "" })).toBe(
+      "getByPlaceholder('Search')"
+    );
+    expect(formatSelector({ kind: "byTestId", value: "checkout", reason: "" })).toBe(
+      "getByTestId('checkout')"
+    );
+    expect(formatSelector({ kind: "css", value: "#cart > li:nth-of-type(2)", reason: "" })).toBe(
+      "#cart > li:nth-of-type(2)"
+    );
+  });
+
+  it("escapes single quotes and keeps regular expressions unquoted", () => {
+    expect(formatSelector({ kind: "byText", value: "It's done", reason: "" })).toBe(
+      "getByText('It\\'s done')"
+    );
+    const heading = { kind: "byRole", value: "heading", name: "Order \\d+", regex: true } as const;
+    expect(formatSelector({ ...heading, reason: "" })).toBe(
+      "getByRole('heading', { name: /Order \\d+/ })"
+    );
+    expect(formatSelector({ kind: "byText", value: "\\d+ items", regex: true, reason: "" })).toBe(
+      "getByText(/\\d+ items/)"
+    );
+  });
+
+  it("chains frame locators before the element locator", () => {
+    const frames = ["iframe#pay", "iframe[name='card']"];
+    expect(formatSelector({ kind: "byLabel", value: "Card number", frames, reason: "" })).toBe(
+      "frameLocator('iframe#pay').frameLocator('iframe[name=\\'card\\']').getByLabel('Card number')"
+    );
+    expect(formatSelector({ kind: "css", value: "input.cvc", frames, reason: "" })).toBe(
+      "frameLocator('iframe#pay').frameLocator('iframe[name=\\'card\\']').locator('input.cvc')"
+    );
+  });
+
+  it("writes strings the generated resolveLocator helpers parse back", () => {
+    expect(
+      parseSelector(
+        formatSelector({
+          kind: "byRole",
+          value: "button",
+          name: "Don't buy",
+          exact: true,
+          frames: ["iframe"],
+          reason: "",
+        })
+      )
+    ).toEqual([
+      { method: "frameLocator", value: "iframe", name: undefined, exact: false, regex: false },
+      { method: "getByRole", value: "button", name: "Don't buy", exact: true, regex: false },
+    ]);
+    const items = formatSelector({ kind: "byText", value: "\\d+ items", regex: true, reason: "" });
+    expect(parseSelector(items)).toEqual([
+      expect.objectContaining({ method: "getByText", value: "\\d+ items", regex: true }),
+    ]);
+    const search = { kind: "byPlaceholder", value: "Search", exact: true, reason: "" } as const;
+    expect(parseSelector(formatSelector(search))).toEqual([
+      { method: "getByPlaceholder", value: "Search", name: undefined, exact: true, regex: false },
+    ]);
+  });
+});
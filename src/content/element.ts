@@ -0,0 +1,255 @@
+import { computeAccessibleName, computeRole } from "./aria";
+import {
+  getFrameChain,
+  getShadowHost,
+  isElementNode,
+  isHtmlElement,
+} from "./frames";
+
+export type SelectorCandidate = {
+  kind: "byRole" | "byLabel" | "byPlaceholder" | "byTestId" | "byText" | "css";
+  selector: string;
+  reason: string;
+  value: string;
+  name?: string;
+  exact?: boolean;
+  /** The name (byRole) or value (byText) is a regular expression source. */
+  regex?: boolean;
+  frames?: string[];
+  matchCount?: number;
+  /** The target element is among the matches. */
+  includesTarget?: boolean;
+  score?: number;
+};
+
+export function getRole(element: Element): string | null {
+  const role = computeRole(element);
+  if (role === "none" || role === "presentation" || role === "generic") {
+    return null;
+  }
+  return role;
+}
+
+export function getAccessibleName(element: Element): string | null {
+  const name = computeAccessibleName(element);
+  return name ? normalizeWhitespace(name) : null;
+}
+
+export function findLabelText(element: Element): string | null {
+  if (!isHtmlElement(element)) return null;
+  if (element.id) {
+    const root = element.getRootNode() as Document | ShadowRoot;
+    const label = root.querySelector(`label[for="${cssEscape(element.id)}"]`);
+    if (label?.textContent) return label.textContent;
+  }
+  const parentLabel = element.closest("label");
+  if (parentLabel?.textContent) return parentLabel.textContent;
+  return null;
+}
+
+export function buildSelectors(
+  element: Element,
+  role: string | null,
+  name: string | null
+): SelectorCandidate[] {
+  const selectors: SelectorCandidate[] = [];
+  const frameChain = getFrameChain(element).map(buildCssSelector);
+  const frames = frameChain.length > 0 ? frameChain : undefined;
+
+  if (role && name) {
+    selectors.push(
+      withSelector({
+        kind: "byRole",
+        value: role,
+        name,
+        reason: "Accessible role + name",
+        frames,
+      })
+    );
+  } else if (role) {
+    selectors.push(
+      withSelector({
+        kind: "byRole",
+        value: role,
+        reason: "Accessible role",
+        frames,
+      })
+    );
+  }
+
+  const labelText = findLabelText(element);
+  if (labelText) {
+    selectors.push(
+      withSelector({
+        kind: "byLabel",
+        value: normalizeWhitespace(labelText),
+        reason: "Associated label",
+        frames,
+      })
+    );
+  }
+
+  const placeholder = (element as HTMLInputElement).getAttribute?.("placeholder");
+  if (placeholder) {
+    selectors.push(
+      withSelector({
+        kind: "byPlaceholder",
+        value: normalizeWhitespace(placeholder),
+        reason: "Placeholder text",
+        frames,
+      })
+    );
+  }
+
+  const testId =
+    element.getAttribute("data-testid") ||
+    element.getAttribute("data-test-id") ||
+    (element as HTMLElement).dataset?.testid;
+  if (testId) {
+    selectors.push(
+      withSelector({
+        kind: "byTestId",
+        value: testId,
+        reason: "data-testid",
+        frames,
+      })
+    );
+  }
+
+  const textContent = normalizeWhitespace(element.textContent || "");
+  if (textContent) {
+    selectors.push(
+      withSelector({
+        kind: "byText",
+        value: textContent,
+        reason: "Visible text",
+        frames,
+      })
+    );
+  }
+
+  selectors.push(
+    withSelector({
+      kind: "css",
+      value: buildCssSelector(element),
+      reason: "CSS fallback",
+      frames,
+    })
+  );
+
+  return selectors;
+}
+
+export function formatSelector(
+  candidate: Omit<SelectorCandidate, "selector">
+): string {
+  const locator = formatLocator(candidate);
+  if (!candidate.frames?.length) return locator;
+  const frames = candidate.frames
+    .map((frame) => `frameLocator('${escapeQuotes(frame)}')`)
+    .join(".");
+  return candidate.kind === "css"
+    ? `${frames}.locator('${escapeQuotes(locator)}')`
+    : `${frames}.${locator}`;
+}
+
+function formatLocator(candidate: Omit<SelectorCandidate, "selector">): string {
+  const value = escapeQuotes(candidate.value);
+  const exact = candidate.exact ? ", exact: true" : "";
+  switch (candidate.kind) {
+    case "byRole":
+      if (candidate.name && candidate.regex) {
+        return `getByRole('${value}', { name: /${candidate.name}/ })`;
+      }
+      return candidate.name
+        ? `getByRole('${value}', { name: '${escapeQuotes(candidate.name)}'${exact} })`
+        : `getByRole('${value}')`;
+    case "byLabel":
+      return `getByLabel('${value}'${candidate.exact ? ", { exact: true }" : ""})`;
+    case "byPlaceholder":
+      return `getByPlaceholder('${value}'${candidate.exact ? ", { exact: true }" : ""})`;
+    case "byTestId":
+      return `getByTestId('${value}')`;
+    case "byText":
+      if (candidate.regex) return `getByText(/${candidate.value}/)`;
+      return `getByText('${value}'${candidate.exact ? ", { exact: true }" : ""})`;
+    case "css":
+      return candidate.value;
+  }
+}
+
+function withSelector(
+  candidate: Omit<SelectorCandidate, "selector">
+): SelectorCandidate {
+  return { ...candidate, selector: formatSelector(candidate) };
+}
+
+/**
+ * CSS for `element`, one segment per shadow tree joined with Playwright's `>>`
+ * chaining so the selector resolves through open shadow roots.
+ */
+export function buildCssSelector(element: Element): string {
+  if (!isElementNode(element)) return "";
+  const segments: string[] = [];
+  let current: Element | null = element;
+  while (current) {
+    segments.unshift(buildCssSegment(current));
+    current = getShadowHost(current);
+  }
+  return segments.join(" >> ");
+}
+
+function buildCssSegment(element: Element): string {
+  const id = (element as HTMLElement).id;
+  if (id) return `#${cssEscape(id)}`;
+
+  const parts: string[] = [];
+  let current: Element | null = element;
+  let depth = 0;
+  while (current && current.tagName.toLowerCase() !== "html" && depth < 4) {
+    const tag = current.tagName.toLowerCase();
+    const className = current.className
+      ? `.${Array.from(current.classList)
+          .slice(0, 2)
+          .map(cssEscape)
+          .join(".")}`
+      : "";
+    const siblingIndex = getSiblingIndex(current);
+    const nth = siblingIndex > 0 ? `:nth-of-type(${siblingIndex})` : "";
+    parts.unshift(`${tag}${className}${nth}`);
+    current = current.parentElement;
+    depth += 1;
+  }
+  return parts.join(" > ") || element.tagName.toLowerCase();
+}
+
+function getSiblingIndex(element: Element): number {
+  if (!element.parentElement) return 0;
+  const siblings = Array.from(element.parentElement.children).filter(
+    (child) => child.tagName === element.tagName
+  );
+  const index = siblings.indexOf(element);
+  return index >= 0 ? index + 1 : 0;
+}
+
+/** Pages are keyed by their title; untitled pages share "home". */
+export function buildPageKey(url: string, title: string): string {
+  const titleKey = normalizeWhitespace(title);
+  return titleKey || "home";
+}
+
+export function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+export function escapeQuotes(value: string): string {
+  return value.replace(/'/g, "\\'");
+}
+
+export function escapeDoubleQuotes(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+export function cssEscape(value: string): string {
+  return value.replace(/[^a-zA-Z0-9_-]/g, (match) => `\\${match}`);
+}
@@ -0,0 +1,173 @@
+import {
+  DEFAULT_ELEMENT_KEY_CONFIG,
+  formatElementKey,
+  qualifyElementKey,
+  splitKeyWords,
+  watchElementKeyConfig,
+  type ElementKeyConfig,
+} from "../shared/elementKeys";
+import { getSiteKey, loadLocatorRepository } from "../shared/locatorRepository";
+import {
+  buildPageKey,
+  getAccessibleName,
+  getRole,
+  normalizeWhitespace,
+  type SelectorCandidate,
+} from "./element";
+import { getShadowHost } from "./frames";
+
+/** Where an element sits on the page, used to prefix and disambiguate keys. */
+export type ElementKeyContext = {
+  landmark: string | null;
+  heading: string | null;
+};
+
+export type KeyedTarget = {
+  elementKey: string;
+  selectors: SelectorCandidate[];
+  url: string;
+  title: string;
+  keyContext?: ElementKeyContext;
+};
+
+const LANDMARK_ROLES = new Set([
+  "banner",
+  "complementary",
+  "contentinfo",
+  "form",
+  "main",
+  "navigation",
+  "region",
+  "search",
+]);
+const HEADINGS = "h1, h2, h3, h4, h5, h6, [role='heading']";
+/** Numbered suffixes tried after the landmark and heading qualifiers. */
+const MAX_NUMBERED_KEYS = 50;
+
+let config: ElementKeyConfig = DEFAULT_ELEMENT_KEY_CONFIG;
+
+/** Keeps the naming settings current; keys are built synchronously in event handlers. */
+export function trackElementKeyConfig(): void {
+  watchElementKeyConfig((next) => {
+    config = next;
+  });
+}
+
+export function buildElementKey(
+  element: Element,
+  role: string | null,
+  name: string | null,
+  selectors: SelectorCandidate[],
+  context: ElementKeyContext = getElementKeyContext(element)
+): string {
+  const id = (element as HTMLElement).id;
+  const content = normalizeWhitespace(element.textContent || "").slice(0, 60);
+  const text = name || id || content || element.tagName.toLowerCase();
+  const prefix =
+    config.prefix === "page"
+      ? buildPageKey(window.location.href, document.title || "")
+      : config.prefix === "landmark"
+        ? context.landmark || ""
+        : "";
+  const key = formatElementKey(
+    [...splitKeyWords(prefix), ...splitKeyWords(role || ""), ...splitKeyWords(text)],
+    config
+  );
+  if (key.length > 0) return key;
+  return formatElementKey(["element", ...splitKeyWords(selectors[0]?.kind || "")], config);
+}
+
+/** The nearest landmark around `element` and the nearest heading before it. */
+export function getElementKeyContext(element: Element): ElementKeyContext {
+  let landmark: string | null = null;
+  let current: Element | null = element.parentElement || getShadowHost(element);
+  while (current && !landmark) {
+    const role = getRole(current);
+    if (role && LANDMARK_ROLES.has(role)) landmark = getAccessibleName(current) || role;
+    current = current.parentElement || getShadowHost(current);
+  }
+
+  const root = element.getRootNode() as Document | ShadowRoot;
+  const preceding = Array.from(root.querySelectorAll(HEADINGS)).filter(
+    (heading) =>
+      heading !== element &&
+      !heading.contains(element) &&
+      Boolean(heading.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING)
+  );
+  const nearest = preceding[preceding.length - 1];
+  const heading = nearest ? normalizeWhitespace(nearest.textContent || "").slice(0, 60) : "";
+  return { landmark, heading: heading || null };
+}
+
+/**
+ * Final keys for `targets`, in order. A key already saved for the same page
+ * under a different element, or claimed by another target in the batch, is
+ * qualified with the nearest heading, then the landmark, then a number.
+ * Targets sharing a uniquely matching selector are the same element and keep
+ * the same key.
+ */
+export async function resolveElementKeys(targets: KeyedTarget[]): Promise<string[]> {
+  const repository = await loadLocatorRepository();
+  const claimed: { pageKey: string; key: string; target: KeyedTarget }[] = [];
+
+  return targets.map((target) => {
+    const pageKey = buildPageKey(target.url, target.title);
+    const entries = repository[getSiteKey(target.url)]?.[pageKey]?.entries || [];
+    const isFree = (key: string) =>
+      entries.every(
+        (entry) =>
+          entry.elementKey !== key || isStoredElement(target, [entry.prefer, ...entry.fallback])
+      ) &&
+      claimed.every(
+        (other) => other.pageKey !== pageKey || other.key !== key || isSameTarget(other.target, target)
+      );
+    const key = pickFreeKey(target, isFree);
+    claimed.push({ pageKey, key, target });
+    return key;
+  });
+}
+
+function pickFreeKey(target: KeyedTarget, isFree: (key: string) => boolean): string {
+  if (isFree(target.elementKey)) return target.elementKey;
+  const context = target.keyContext;
+  const qualifiers = [
+    context?.heading,
+    config.prefix === "landmark" ? null : context?.landmark,
+  ]
+    .map((text) => splitKeyWords(text || ""))
+    .filter((words) => words.length > 0);
+  for (const words of qualifiers) {
+    const key = qualifyElementKey(target.elementKey, words, config);
+    if (isFree(key)) return key;
+  }
+  for (let index = 2; index < MAX_NUMBERED_KEYS; index += 1) {
+    const key = qualifyElementKey(target.elementKey, [String(index)], config);
+    if (isFree(key)) return key;
+  }
+  return target.elementKey;
+}
+
+/**
+ * A saved entry is this element when it holds one of the target's unique
+ * selectors. When it shares no selector at all the element most likely
+ * changed, which the repository reports as a selector conflict instead.
+ */
+function isStoredElement(target: KeyedTarget, stored: string[]): boolean {
+  const selectors = target.selectors.map((candidate) => candidate.selector);
+  return (
+    getUniqueSelectors(target).some((selector) => stored.includes(selector)) ||
+    !stored.some((selector) => selectors.includes(selector))
+  );
+}
+
+function isSameTarget(a: KeyedTarget, b: KeyedTarget): boolean {
+  if (a.selectors[0]?.selector === b.selectors[0]?.selector) return true;
+  const unique = getUniqueSelectors(a);
+  return getUniqueSelectors(b).some((selector) => unique.includes(selector));
+}
+
+function getUniqueSelectors(target: KeyedTarget): string[] {
+  return target.selectors
+    .filter((candidate) => candidate.matchCount === 1)
+    .map((candidate) => candidate.selector);
+}
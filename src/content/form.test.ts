@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { lintGherkin } from "../shared/gherkin/lint";
+import {
+  buildFormOutline,
+  type FormCapture,
+  type FormField,
+  type FormFieldConstraints,
+} from "./form";
+import type { RecordedTarget } from "./recorder";
+
+function target(elementKey: string): RecordedTarget {
+  return {
+    elementKey,
+    role: null,
+    name: null,
+    outerHTML: "",
+    selectors: [],
+    url: "https://shop.test/signup",
+    title: "Sign up",
+  };
+}
+
+function field(
+  elementKey: string,
+  overrides: Omit<Partial<FormField>, "constraints"> &
+    Pick<FormField, "type" | "column"> & { constraints?: Partial<FormFieldConstraints> }
+): FormField {
+  return {
+    target: target(elementKey),
+    label: elementKey,
+    value: "",
+    checked: false,
+    valid: true,
+    ...overrides,
+    constraints: {
+      required: false,
+      pattern: null,
+      minLength: null,
+      maxLength: null,
+      min: null,
+      max: null,
+      ...overrides.constraints,
+    },
+  };
+}
+
+const capture: FormCapture = {
+  form: target("form_signup"),
+  name: 'Sign "up"',
+  submit: target("button_create"),
+  fields: [
+    field("textbox_email", {
+      type: "email",
+      column: "email",
+      label: "Email",
+      value: "me@example.com",
+      constraints: { required: true },
+    }),
+    field("spinbutton_age", {
+      type: "number",
+      column: "age",
+      label: "Age",
+      value: "",
+      valid: false,
+      constraints: { min: "18", max: "99" },
+    }),
+    field("combobox_plan", { type: "select", column: "plan", label: "Plan", value: "Pro" }),
+    field("checkbox_terms", { type: "checkbox", column: null, checked: true }),
+  ],
+};
+
+describe("buildFormOutline", () => {
+  const { text, stepIds } = buildFormOutline(capture, "signup");
+
+  it("fills each field from an Examples column and checks validity", () => {
+    expect(text.split("\n").slice(0, 13)).toEqual([
+      'Feature: Sign \\"up\\" form',
+      "",
+      '  Scenario Outline: Sign \\"up\\" form validation',
+      '    Given I am on the "signup" page',
+      '    When I fill "textbox_email" with "<email>"',
+      '    And I fill "spinbutton_age" with "<age>"',
+      '    And I select "<plan>" from "combobox_plan"',
+      '    And I check "checkbox_terms"',
+      '    And I click the "button_create"',
+      '    Then the "form_signup" form should be <validity>',
+      "",
+      "    Examples: Current values",
+      "      | email          | age | plan | validity |",
+    ]);
+    expect(text).toContain("      | me@example.com |     | Pro  | invalid  |");
+    expect(stepIds).toEqual(["fill", "fill", "select", "check", "click", "formValid", "formInvalid"]);
+  });
+
+  it("breaks one constraint per row, keeping valid values elsewhere", () => {
+    const violations = text.slice(text.indexOf("    Examples: Constraint violations")).split("\n");
+    expect(violations).toEqual([
+      "    Examples: Constraint violations",
+      "      | email          | age | plan | validity |",
+      "      # Email: required, left empty",
+      "      |                | 18  | Pro  | invalid  |",
+      "      # Email: not an email address",
+      "      | not-an-email   | 18  | Pro  | invalid  |",
+      "      # Age: above max 99",
+      "      | me@example.com | 100 | Pro  | invalid  |",
+      "      # Age: below min 18",
+      "      | me@example.com | 17  | Pro  | invalid  |",
+    ]);
+  });
+
+  it("lints clean as a feature", () => {
+    expect(lintGherkin(text)).toEqual([]);
+  });
+
+  it("submits the form when it has no submit button", () => {
+    const outline = buildFormOutline({ ...capture, submit: null }, "signup");
+    expect(outline.text).toContain('    And I submit the "form_signup"');
+    expect(outline.stepIds).toContain("submit");
+  });
+});
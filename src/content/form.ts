@@ -0,0 +1,336 @@
+import type { StepId } from "../shared/codegen";
+import { formatTableRows } from "../shared/gherkin/format";
+import {
+  escapeDoubleQuotes,
+  findLabelText,
+  getAccessibleName,
+  normalizeWhitespace,
+} from "./element";
+import { isTag } from "./frames";
+import { describeTarget, type RecordedTarget } from "./recorder";
+
+export type FormFieldConstraints = {
+  required: boolean;
+  pattern: string | null;
+  minLength: number | null;
+  maxLength: number | null;
+  min: string | null;
+  max: string | null;
+};
+
+export type FormField = {
+  target: RecordedTarget;
+  label: string;
+  /** Input type, or "select" / "textarea". */
+  type: string;
+  /** Examples column; null for checkboxes and radios, which become fixed steps. */
+  column: string | null;
+  value: string;
+  checked: boolean;
+  valid: boolean;
+  constraints: FormFieldConstraints;
+};
+
+export type FormCapture = {
+  form: RecordedTarget;
+  name: string;
+  fields: FormField[];
+  submit: RecordedTarget | null;
+};
+
+type BoundaryRow = {
+  description: string;
+  values: Record<string, string>;
+};
+
+type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+const SKIPPED_INPUT_TYPES = new Set(["hidden", "submit", "button", "reset", "image", "file"]);
+const SAMPLE_VALUES: Record<string, string> = {
+  email: "user@example.com",
+  url: "https://example.com",
+  tel: "+15555550100",
+  password: "Secret123!",
+  date: "2024-01-15",
+  time: "09:30",
+  "datetime-local": "2024-01-15T09:30",
+  month: "2024-01",
+  week: "2024-W03",
+  color: "#336699",
+};
+const INVALID_CANDIDATES = ["!", "invalid value", "0", "a", "-"];
+
+export function findForm(element: Element): HTMLFormElement | null {
+  if (isTag(element, "form")) return element;
+  const form = element.closest("form");
+  if (form) return form;
+  // Fields can point at a form elsewhere in the document via `form=`.
+  const owner = (element as Partial<FieldElement>).form;
+  return owner || null;
+}
+
+/**
+ * Reads every user-editable control of `form`. Password values are never
+ * read; they are replaced by a sample that passes the field's constraints.
+ */
+export function captureForm(form: HTMLFormElement): FormCapture {
+  const usedColumns = new Set<string>();
+  const seenRadios = new Set<string>();
+  const fields: FormField[] = [];
+
+  Array.from(form.elements).forEach((element) => {
+    if (!isFieldElement(element) || element.disabled) return;
+    if (isTag(element, "input") && SKIPPED_INPUT_TYPES.has(element.type)) return;
+
+    const type = isTag(element, "input") ? element.type : element.tagName.toLowerCase();
+    const isToggle = type === "checkbox" || type === "radio";
+    if (type === "radio") {
+      // One step per group: the radio that is currently checked.
+      if (seenRadios.has(element.name)) return;
+      const group = Array.from(form.elements).filter(
+        (other) => isTag(other, "input") && other.type === "radio" && other.name === element.name
+      ) as HTMLInputElement[];
+      seenRadios.add(element.name);
+      const checked = group.find((radio) => radio.checked);
+      if (!checked) return;
+      fields.push(buildField(checked, type, null));
+      return;
+    }
+
+    const label = getFieldLabel(element);
+    const column = isToggle ? null : uniqueColumn(label, usedColumns);
+    fields.push(buildField(element, type, column));
+  });
+
+  const submitter =
+    Array.from(form.elements).find(
+      (element) =>
+        (isTag(element, "button") && (element.type === "submit" || !element.getAttribute("type"))) ||
+        (isTag(element, "input") && (element.type === "submit" || element.type === "image"))
+    ) ||
+    Array.from(document.querySelectorAll(`[form="${CSS.escape(form.id || "\u0000")}"]`)).find(
+      (element) => isTag(element, "button") && element.type === "submit"
+    );
+
+  const formTarget = describeTarget(form);
+  return {
+    form: formTarget,
+    name:
+      getAccessibleName(form) ||
+      form.getAttribute("name") ||
+      form.id ||
+      formTarget.elementKey,
+    fields,
+    submit: submitter ? describeTarget(submitter) : null,
+  };
+}
+
+/**
+ * A feature with one Scenario Outline that fills every field from an
+ * Examples column, submits, and expects the form to be valid or invalid. The
+ * first Examples table holds the current values; the second breaks one HTML
+ * constraint per row while the other fields keep values that satisfy theirs.
+ */
+export function buildFormOutline(
+  capture: FormCapture,
+  pageKey: string
+): { text: string; stepIds: StepId[] } {
+  const stepIds: StepId[] = [];
+  const columns = capture.fields.filter((field) => field.column);
+  const steps: string[] = [];
+
+  capture.fields.forEach((field) => {
+    const key = field.target.elementKey;
+    if (!field.column) {
+      const kind = field.checked ? "check" : "uncheck";
+      stepIds.push(kind);
+      steps.push(`I ${kind} "${key}"`);
+    } else if (field.type === "select") {
+      stepIds.push("select");
+      steps.push(`I select "<${field.column}>" from "${key}"`);
+    } else {
+      stepIds.push("fill");
+      steps.push(`I fill "${key}" with "<${field.column}>"`);
+    }
+  });
+  if (capture.submit) {
+    stepIds.push("click");
+    steps.push(`I click the "${capture.submit.elementKey}"`);
+  } else {
+    stepIds.push("submit");
+    steps.push(`I submit the "${capture.form.elementKey}"`);
+  }
+  stepIds.push("formValid", "formInvalid");
+
+  const header = [...columns.map((field) => field.column as string), "validity"];
+  const current = columns.map((field) => field.value);
+  const currentValid = capture.fields.every((field) => field.valid);
+  const baseline = Object.fromEntries(
+    columns.map((field) => [field.column as string, getValidSample(field)])
+  );
+  const boundaries = columns.flatMap((field) => buildBoundaryRows(field, baseline));
+
+  const name = escapeDoubleQuotes(capture.name);
+  const lines = [
+    `Feature: ${name} form`,
+    "",
+    `  Scenario Outline: ${name} form validation`,
+    `    Given I am on the "${pageKey}" page`,
+    ...steps.map((step, index) => `    ${index === 0 ? "When" : "And"} ${step}`),
+    `    Then the "${capture.form.elementKey}" form should be <validity>`,
+    "",
+    "    Examples: Current values",
+    ...formatTableRows([header, [...current, currentValid ? "valid" : "invalid"]], "      "),
+  ];
+  if (boundaries.length) {
+    const rows = formatTableRows(
+      [
+        header,
+        ...boundaries.map((row) => [...header.slice(0, -1).map((column) => row.values[column]), "invalid"]),
+      ],
+      "      "
+    );
+    lines.push("", "    Examples: Constraint violations", rows[0]);
+    boundaries.forEach((row, index) => {
+      lines.push(`      # ${row.description}`, rows[index + 1]);
+    });
+  }
+  return { text: lines.join("\n"), stepIds };
+}
+
+function buildField(element: FieldElement, type: string, column: string | null): FormField {
+  const constraints: FormFieldConstraints = {
+    required: element.required,
+    pattern: element.getAttribute("pattern"),
+    minLength: readLength(element, "minlength"),
+    maxLength: readLength(element, "maxlength"),
+    min: element.getAttribute("min"),
+    max: element.getAttribute("max"),
+  };
+  const field: FormField = {
+    target: describeTarget(element),
+    label: getFieldLabel(element),
+    type,
+    column,
+    value: "",
+    checked: isTag(element, "input") && element.checked,
+    // `validity` reads state without firing `invalid` events on the page.
+    valid: element.validity.valid,
+    constraints,
+  };
+  if (isTag(element, "select")) {
+    field.value = element.selectedOptions[0]?.textContent?.trim() || "";
+  } else if (type === "password") {
+    field.value = getValidSample(field);
+  } else {
+    field.value = element.value;
+  }
+  return field;
+}
+
+function buildBoundaryRows(field: FormField, baseline: Record<string, string>): BoundaryRow[] {
+  const column = field.column as string;
+  const { constraints, label } = field;
+  const rows: BoundaryRow[] = [];
+  const add = (value: string, description: string) =>
+    rows.push({ description: `${label}: ${description}`, values: { ...baseline, [column]: value } });
+
+  if (constraints.required && field.type !== "select") add("", "required, left empty");
+  if (field.type === "email") add("not-an-email", "not an email address");
+  if (field.type === "url") add("not a url", "not a URL");
+  if (constraints.pattern) {
+    const invalid = findPatternViolation(constraints.pattern);
+    if (invalid !== null) add(invalid, `does not match pattern ${constraints.pattern}`);
+  }
+  if (constraints.maxLength !== null) {
+    add(
+      "a".repeat(constraints.maxLength + 1),
+      `maxlength ${constraints.maxLength} + 1 (browsers stop typing at the limit, so this checks the app's own validation)`
+    );
+  }
+  if (constraints.minLength !== null && constraints.minLength > 1) {
+    add("a".repeat(constraints.minLength - 1), `shorter than minlength ${constraints.minLength}`);
+  }
+  if (field.type === "number" || field.type === "range") {
+    if (constraints.max !== null && Number.isFinite(Number(constraints.max))) {
+      add(String(Number(constraints.max) + 1), `above max ${constraints.max}`);
+    }
+    if (constraints.min !== null && Number.isFinite(Number(constraints.min))) {
+      add(String(Number(constraints.min) - 1), `below min ${constraints.min}`);
+    }
+  }
+  return rows;
+}
+
+/** The current value when it is valid, otherwise a sample for the field type. */
+function getValidSample(field: FormField): string {
+  if (field.type !== "password" && field.valid && field.value) return field.value;
+  const { minLength, maxLength, min, max } = field.constraints;
+  if (field.type === "select") return field.value;
+  if (field.type === "number" || field.type === "range") {
+    const low = min !== null && Number.isFinite(Number(min)) ? Number(min) : null;
+    const high = max !== null && Number.isFinite(Number(max)) ? Number(max) : null;
+    return String(low ?? (high !== null ? Math.min(1, high) : 1));
+  }
+  let sample = SAMPLE_VALUES[field.type] || "Sample text";
+  if (minLength !== null && sample.length < minLength) sample = sample.padEnd(minLength, "x");
+  if (maxLength !== null && sample.length > maxLength) sample = sample.slice(0, maxLength);
+  if (field.constraints.pattern && !matchesPattern(field.constraints.pattern, sample)) {
+    return field.value;
+  }
+  return sample;
+}
+
+function findPatternViolation(pattern: string): string | null {
+  return INVALID_CANDIDATES.find((candidate) => matchesPattern(pattern, candidate) === false) ?? null;
+}
+
+/** HTML `pattern` semantics: the whole value must match. Null if it does not compile. */
+function matchesPattern(pattern: string, value: string): boolean | null {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "v").test(value);
+  } catch {
+    try {
+      return new RegExp(`^(?:${pattern})$`, "u").test(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+function getFieldLabel(element: FieldElement): string {
+  // A wrapping <label> also contains the options of a select or the text of a textarea.
+  const own = element.textContent || "";
+  const labelText = findLabelText(element);
+  const label =
+    (own && labelText?.includes(own) ? labelText.replace(own, "") : labelText)?.trim() ||
+    getAccessibleName(element) ||
+    element.getAttribute("placeholder") ||
+    element.getAttribute("name") ||
+    element.id ||
+    element.tagName.toLowerCase();
+  return normalizeWhitespace(label).replace(/\s*\*$/, "");
+}
+
+function uniqueColumn(label: string, used: Set<string>): string {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "")
+      .slice(0, 30) || "field";
+  let column = base;
+  for (let index = 2; used.has(column); index += 1) column = `${base}_${index}`;
+  used.add(column);
+  return column;
+}
+
+function readLength(element: FieldElement, attribute: string): number | null {
+  const value = element.getAttribute(attribute);
+  if (value === null || !/^\d+$/.test(value.trim())) return null;
+  return Number(value);
+}
+
+function isFieldElement(element: Element): element is FieldElement {
+  return isTag(element, "input") || isTag(element, "select") || isTag(element, "textarea");
+}
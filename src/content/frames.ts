@@ -0,0 +1,171 @@
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+type Listener = (event: MouseEvent) => void;
+
+const watchedDocuments = new WeakSet<Document>();
+
+/**
+ * Element checks that work across frames. `instanceof` compares against the
+ * constructors of the top window, which fails for nodes owned by an iframe.
+ */
+export function isElementNode(value: unknown): value is Element {
+  return Boolean(value) && (value as Node).nodeType === Node.ELEMENT_NODE;
+}
+
+export function isHtmlElement(value: unknown): value is HTMLElement {
+  return isElementNode(value) && value.namespaceURI === XHTML_NAMESPACE;
+}
+
+export function isTag<K extends keyof HTMLElementTagNameMap>(
+  value: unknown,
+  tag: K
+): value is HTMLElementTagNameMap[K] {
+  return isHtmlElement(value) && value.tagName.toLowerCase() === tag;
+}
+
+/**
+ * Returns the innermost target of an event, looking through open shadow roots
+ * that retarget the event to their host.
+ */
+export function getComposedTarget(event: Event): Element | null {
+  const path = event.composedPath();
+  const first = path.find((node) => isElementNode(node));
+  if (isElementNode(first)) return first;
+  return isElementNode(event.target) ? event.target : null;
+}
+
+/**
+ * Adds `listener` for `type` to `root` and every same-origin iframe below it,
+ * including frames that are inserted or navigated later.
+ */
+export function listenAcrossFrames(
+  root: Document,
+  type: "contextmenu",
+  listener: Listener
+): void {
+  if (watchedDocuments.has(root)) return;
+  watchedDocuments.add(root);
+  root.addEventListener(type, listener, true);
+
+  const attachFrame = (frame: HTMLIFrameElement) => {
+    const tryAttach = () => {
+      const doc = getFrameDocument(frame);
+      if (doc) listenAcrossFrames(doc, type, listener);
+    };
+    tryAttach();
+    frame.addEventListener("load", tryAttach);
+  };
+
+  root.querySelectorAll("iframe").forEach((frame) => attachFrame(frame));
+
+  const observer = new MutationObserver((mutations) => {
+    mutations.forEach((mutation) => {
+      mutation.addedNodes.forEach((node) => {
+        if (!isElementNode(node)) return;
+        if (isTag(node, "iframe")) attachFrame(node);
+        node.querySelectorAll?.("iframe").forEach((frame) => attachFrame(frame));
+      });
+    });
+  });
+  if (root.documentElement) {
+    observer.observe(root.documentElement, { childList: true, subtree: true });
+  }
+}
+
+export function getFrameDocument(frame: HTMLIFrameElement): Document | null {
+  try {
+    return frame.contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The iframes (outermost first) that contain `element`. Empty for elements in
+ * the top document.
+ */
+export function getFrameChain(element: Element): HTMLIFrameElement[] {
+  const chain: HTMLIFrameElement[] = [];
+  let view = element.ownerDocument.defaultView;
+  while (view && view !== view.parent) {
+    const frame = view.frameElement;
+    if (!isTag(frame, "iframe")) break;
+    chain.unshift(frame);
+    view = frame.ownerDocument.defaultView;
+  }
+  return chain;
+}
+
+/**
+ * Bounding rect of `element` in top-level viewport coordinates, accounting for
+ * the offsets of any iframes it lives in.
+ */
+export function getTopLevelRect(element: Element): DOMRect {
+  const rect = element.getBoundingClientRect();
+  let left = rect.left;
+  let top = rect.top;
+  getFrameChain(element)
+    .reverse()
+    .forEach((frame) => {
+      const frameRect = frame.getBoundingClientRect();
+      left += frameRect.left + frame.clientLeft;
+      top += frameRect.top + frame.clientTop;
+    });
+  return new DOMRect(left, top, rect.width, rect.height);
+}
+
+/**
+ * Every element under `scope`, descending into open shadow roots.
+ */
+export function collectElements(scope: ParentNode): Element[] {
+  const result: Element[] = [];
+  const visit = (node: ParentNode) => {
+    Array.from(node.children).forEach((child) => {
+      result.push(child);
+      if (child.shadowRoot) visit(child.shadowRoot);
+      visit(child);
+    });
+  };
+  if (isElementNode(scope) && scope.shadowRoot) visit(scope.shadowRoot);
+  visit(scope);
+  return result;
+}
+
+/**
+ * `querySelectorAll` that also matches inside open shadow roots, mirroring how
+ * Playwright's CSS engine pierces shadow DOM.
+ */
+export function queryDeepAll(scope: ParentNode, selector: string): Element[] {
+  const roots: ParentNode[] = [scope];
+  collectElements(scope).forEach((el) => {
+    if (el.shadowRoot) roots.push(el.shadowRoot);
+  });
+  if (isElementNode(scope) && scope.shadowRoot) roots.push(scope.shadowRoot);
+
+  const matches = new Set<Element>();
+  roots.forEach((root) => {
+    root.querySelectorAll(selector).forEach((el) => matches.add(el));
+  });
+  return Array.from(matches);
+}
+
+/**
+ * The shadow host of the tree `element` lives in, or null in a document.
+ */
+export function getShadowHost(element: Element): Element | null {
+  const root = element.getRootNode();
+  if (root.nodeType !== Node.DOCUMENT_FRAGMENT_NODE) return null;
+  const host = (root as ShadowRoot).host;
+  return isElementNode(host) ? host : null;
+}
+
+/**
+ * Looks up an element by id in the same tree (document or shadow root).
+ */
+export function getElementByIdInRoot(element: Element, id: string): Element | null {
+  const root = element.getRootNode() as Document | ShadowRoot;
+  if (typeof root.getElementById === "function") {
+    return root.getElementById(id);
+  }
+  return element.ownerDocument.getElementById(id);
+}
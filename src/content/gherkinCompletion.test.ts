@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { GHERKIN_LANGUAGES } from "../shared/gherkin/keywords";
+import { getCompletions, type CompletionSources } from "./gherkinCompletion";
+
+const sources: CompletionSources = {
+  steps: [
+    'I click "button_buy"',
+    'I am on the "cart" page',
+    'the "total" should have text "3"',
+    'I click "link_home"',
+  ],
+  elementKeys: ["button_buy", "button_pay", "link_home"],
+};
+
+function complete(value: string, force = false) {
+  return getCompletions(value, value.length, sources, force);
+}
+
+describe("getCompletions", () => {
+  it("completes element keys inside an open quote", () => {
+    expect(complete('  When I click "butt')).toEqual({
+      from: 16,
+      to: 20,
+      items: [
+        { label: "button_buy", insert: 'button_buy"' },
+        { label: "button_pay", insert: 'button_pay"' },
+      ],
+    });
+  });
+
+  it("does not add a closing quote that is already there", () => {
+    const value = 'When I click "li"';
+    expect(getCompletions(value, 16, sources)?.items).toEqual([
+      { label: "link_home", insert: "link_home" },
+    ]);
+  });
+
+  it("completes keywords at the start of a line", () => {
+    expect(complete("  Sc")?.items.map((item) => item.insert)).toEqual([
+      "Scenario: ",
+      "Scenario Outline: ",
+      "Scenario Template: ",
+      "Scenarios: ",
+    ]);
+    expect(complete("  ")).toBeNull();
+    expect(complete("  ", true)?.items).toHaveLength(8);
+  });
+
+  it("completes known steps after a step keyword, prefix matches first", () => {
+    expect(complete("    When I c")).toEqual({
+      from: 9,
+      to: 12,
+      items: [
+        { label: 'I click "button_buy"', insert: 'I click "button_buy"' },
+        { label: 'I click "link_home"', insert: 'I click "link_home"' },
+        { label: 'I am on the "cart" page', insert: 'I am on the "cart" page' },
+      ],
+    });
+    expect(complete("Then total text")?.items.map((item) => item.label)).toEqual([
+      'the "total" should have text "3"',
+    ]);
+  });
+
+  it("waits for two characters unless forced", () => {
+    expect(complete("When I")).toBeNull();
+    expect(complete("When ", true)?.items).toHaveLength(4);
+  });
+
+  it("replaces the rest of the line and skips the step already typed", () => {
+    const value = 'When I click "button_buy"';
+    const result = getCompletions(value, 8, sources);
+    expect(result).toMatchObject({ from: 5, to: value.length });
+    expect(result?.items.map((item) => item.label)).toEqual([
+      'I click "link_home"',
+      'I am on the "cart" page',
+    ]);
+  });
+
+  it("uses the keywords of the feature's language", () => {
+    const result = getCompletions("Angen", 5, sources, false, GHERKIN_LANGUAGES.de.keywords);
+    expect(result?.items).toEqual([{ label: "Angenommen", insert: "Angenommen " }]);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  ENGLISH_KEYWORDS,
+  formatStepKeyword,
+  getStepKeywords,
+  type GherkinKeywords,
+} from "../shared/gherkin/keywords";
+import { tokenizeLine } from "../shared/gherkin/parser";
+
+export type CompletionSources = {
+  /** Step texts without keyword, most relevant first. */
+  steps: string[];
+  elementKeys: string[];
+};
+
+export type Completion = {
+  label: string;
+  insert: string;
+};
+
+/** Completions replacing the text between `from` and `to`. */
+export type CompletionResult = {
+  from: number;
+  to: number;
+  items: Completion[];
+};
+
+const HISTORY_KEY = "stepHistory";
+const HISTORY_LIMIT = 300;
+const MAX_ITEMS = 8;
+
+export async function loadStepHistory(): Promise<string[]> {
+  const data = await chrome.storage.local.get(HISTORY_KEY);
+  return (data[HISTORY_KEY] as string[] | undefined) || [];
+}
+
+/** Moves the steps of `text` to the front of the step history. */
+export async function rememberSteps(
+  text: string,
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): Promise<void> {
+  const steps = text.split("\n").flatMap((line) => {
+    const token = tokenizeLine(line, keywords);
+    return token.type === "step" && token.text ? [token.text] : [];
+  });
+  if (!steps.length) return;
+  const history = await loadStepHistory();
+  const next = Array.from(new Set([...steps, ...history])).slice(0, HISTORY_LIMIT);
+  await chrome.storage.local.set({ [HISTORY_KEY]: next });
+}
+
+/**
+ * Completions at `caret`: element keys inside an open quote, keywords while
+ * the first word of a line is typed, and known steps after a step keyword.
+ * Without `force`, step completion waits for two typed characters.
+ */
+export function getCompletions(
+  value: string,
+  caret: number,
+  sources: CompletionSources,
+  force = false,
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): CompletionResult | null {
+  const lineStart = value.lastIndexOf("\n", caret - 1) + 1;
+  const lineEndIndex = value.indexOf("\n", caret);
+  const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+  const before = value.slice(lineStart, caret);
+  const trimmedBefore = before.trimStart();
+
+  const quotes = before.match(/"/g)?.length || 0;
+  if (quotes % 2 === 1) {
+    const prefix = before.slice(before.lastIndexOf('"') + 1);
+    const closed = value[caret] === '"';
+    const items = rankMatches(sources.elementKeys, prefix).map((key) => ({
+      label: key,
+      insert: closed ? key : `${key}"`,
+    }));
+    return result(caret - prefix.length, caret, items, prefix, force);
+  }
+
+  if (!/\s/.test(trimmedBefore)) {
+    if (!trimmedBefore && !force) return null;
+    const headers = [
+      ...keywords.feature,
+      ...keywords.rule,
+      ...keywords.background,
+      ...keywords.scenario,
+      ...keywords.scenarioOutline,
+      ...keywords.examples,
+    ].map((keyword) => ({ label: `${keyword}:`, insert: `${keyword}: ` }));
+    const steps = getStepKeywords(keywords)
+      .filter(({ keyword }) => keyword !== "*")
+      .map(({ keyword }) => ({ label: keyword, insert: formatStepKeyword(keyword) }));
+    const lower = trimmedBefore.toLowerCase();
+    const items = [...steps, ...headers].filter(
+      (item) => item.label.toLowerCase().startsWith(lower) && item.label !== trimmedBefore
+    );
+    return result(caret - trimmedBefore.length, caret, items, trimmedBefore, true);
+  }
+
+  const step = getStepKeywords(keywords).find(({ keyword }) =>
+    trimmedBefore.startsWith(formatStepKeyword(keyword))
+  );
+  if (!step) return null;
+  const from =
+    lineStart + (before.length - trimmedBefore.length) + formatStepKeyword(step.keyword).length;
+  const query = value.slice(from, caret);
+  if (query.trim().length < 2 && !force) return null;
+  const current = value.slice(from, lineEnd);
+  const items = rankMatches(sources.steps, query)
+    .filter((text) => text !== current)
+    .map((text) => ({ label: text, insert: text }));
+  return result(from, lineEnd, items, query, true);
+}
+
+function result(
+  from: number,
+  to: number,
+  items: Completion[],
+  query: string,
+  force: boolean
+): CompletionResult | null {
+  if (!items.length || (!query && !force)) return null;
+  return { from, to, items: items.slice(0, MAX_ITEMS) };
+}
+
+/** Prefix matches first, then entries containing every typed word. */
+function rankMatches(candidates: string[], query: string): string[] {
+  const lower = query.trim().toLowerCase();
+  const words = lower.split(/\s+/).filter(Boolean);
+  const unique = Array.from(new Set(candidates));
+  const prefixed = unique.filter((candidate) => candidate.toLowerCase().startsWith(lower));
+  const containing = unique.filter((candidate) => {
+    const text = candidate.toLowerCase();
+    return !text.startsWith(lower) && words.every((word) => text.includes(word));
+  });
+  return [...prefixed, ...containing];
+}
@@ -0,0 +1,506 @@
+import { alignAllTables, alignTableAt, getNextLineIndent } from "../shared/gherkin/format";
+import { resolveGherkinKeywords, type GherkinKeywords } from "../shared/gherkin/keywords";
+import { hasGherkinErrors, lintGherkin } from "../shared/gherkin/lint";
+import type { GherkinProblem } from "../shared/gherkin/parser";
+import {
+  describeStepDefinition,
+  lintStepLibrary,
+  type CompiledStep,
+} from "../shared/stepLibrary";
+import {
+  getCompletions,
+  type CompletionResult,
+  type CompletionSources,
+} from "./gherkinCompletion";
+import { highlightGherkin } from "./gherkinHighlight";
+
+export type GherkinEditor = {
+  /** Wrapper holding the textarea, its highlight layer and the problem list. */
+  element: HTMLElement;
+  /** Re-lints after the textarea value was changed from code. */
+  refresh: () => void;
+  getProblems: () => GherkinProblem[];
+  /** Also flags steps that no imported step definition matches. */
+  setStepLibrary: (library: CompiledStep[]) => void;
+  setCompletionSources: (sources: Partial<CompletionSources>) => void;
+  /** Language used when the text has no `# language:` line. */
+  setLanguage: (language: string) => void;
+  /** Keywords currently in effect, after `# language:` detection. */
+  getKeywords: () => GherkinKeywords;
+  /** Replaces the text as one undoable edit. */
+  setValue: (value: string) => void;
+  /** Inserts at the caret as one undoable edit. */
+  insertText: (text: string) => void;
+};
+
+type Snapshot = { value: string; start: number; end: number };
+
+const ERROR_COLOR = "#d1242f";
+const WARNING_COLOR = "#b58100";
+const UNDO_LIMIT = 200;
+const TYPING_MERGE_MS = 800;
+
+/**
+ * Turns the textarea into a small Gherkin editor. The textarea keeps the
+ * caret, selection and input handling; its text is transparent over a
+ * backdrop with identical metrics that renders syntax colours and problem
+ * underlines. Undo/redo is kept here because programmatic edits (completion,
+ * auto-indent, table alignment) would otherwise reset the native undo stack.
+ */
+export function attachGherkinEditor(textarea: HTMLTextAreaElement): GherkinEditor {
+  const wrap = document.createElement("div");
+  const field = document.createElement("div");
+  field.style.position = "relative";
+
+  const backdrop = document.createElement("div");
+  backdrop.setAttribute("aria-hidden", "true");
+  backdrop.style.position = "absolute";
+  backdrop.style.inset = "0";
+  backdrop.style.overflow = "hidden";
+  backdrop.style.pointerEvents = "none";
+  backdrop.style.boxSizing = "border-box";
+  backdrop.style.padding = textarea.style.padding;
+  backdrop.style.border = "1px solid transparent";
+  backdrop.style.borderRadius = textarea.style.borderRadius;
+  backdrop.style.background = textarea.style.background;
+  backdrop.style.whiteSpace = "pre-wrap";
+  backdrop.style.wordBreak = "break-word";
+  backdrop.style.fontFamily = textarea.style.fontFamily;
+  backdrop.style.fontSize = textarea.style.fontSize;
+  backdrop.style.lineHeight = "1.5";
+  backdrop.style.color = textarea.style.color;
+
+  // Host page stylesheets reach into the overlay, so every metric the
+  // backdrop depends on is pinned inline on both layers.
+  [backdrop, textarea].forEach((layer) => {
+    layer.style.letterSpacing = "normal";
+    layer.style.wordSpacing = "normal";
+    layer.style.textTransform = "none";
+    layer.style.textAlign = "left";
+    layer.style.tabSize = "2";
+    layer.style.fontWeight = "400";
+  });
+  textarea.style.position = "relative";
+  textarea.style.display = "block";
+  textarea.style.boxSizing = "border-box";
+  textarea.style.lineHeight = "1.5";
+  textarea.style.background = "transparent";
+  textarea.style.color = "transparent";
+  textarea.style.caretColor = "#1f1f1f";
+  textarea.spellcheck = false;
+
+  const popup = document.createElement("div");
+  popup.style.position = "absolute";
+  popup.style.zIndex = "1";
+  popup.style.display = "none";
+  popup.style.minWidth = "220px";
+  popup.style.maxWidth = "calc(100% - 20px)";
+  popup.style.maxHeight = "200px";
+  popup.style.overflow = "auto";
+  popup.style.background = "#ffffff";
+  popup.style.border = "1px solid #e0d8cc";
+  popup.style.borderRadius = "8px";
+  popup.style.boxShadow = "0 8px 20px rgba(0,0,0,0.15)";
+  popup.style.fontFamily = textarea.style.fontFamily;
+  popup.style.fontSize = "12px";
+  popup.style.color = "#1f1f1f";
+
+  const list = document.createElement("div");
+  list.style.marginTop = "6px";
+  list.style.display = "flex";
+  list.style.flexDirection = "column";
+  list.style.gap = "2px";
+  list.style.fontSize = "12px";
+  list.style.fontFamily = "system-ui, -apple-system, sans-serif";
+
+  field.appendChild(backdrop);
+  field.appendChild(textarea);
+  field.appendChild(popup);
+  wrap.appendChild(field);
+  wrap.appendChild(list);
+
+  // Keep host page shortcuts (e.g. "/" to search) from firing while typing.
+  ["keydown", "keyup", "keypress"].forEach((type) =>
+    wrap.addEventListener(type, (event) => event.stopPropagation())
+  );
+
+  let problems: GherkinProblem[] = [];
+  let stepLibrary: CompiledStep[] = [];
+  let historySteps: string[] = [];
+  let librarySteps: string[] = [];
+  let elementKeys: string[] = [];
+  let completion: CompletionResult | null = null;
+  let activeItem = 0;
+  let silent = false;
+  let language = "en";
+  const keywords = () => resolveGherkinKeywords(textarea.value, language);
+
+  const undoStack: Snapshot[] = [snapshot(textarea)];
+  const redoStack: Snapshot[] = [];
+  let lastTypedAt = 0;
+
+  const record = (typing: boolean) => {
+    const now = Date.now();
+    const current = snapshot(textarea);
+    if (typing && now - lastTypedAt < TYPING_MERGE_MS && undoStack.length > 1) {
+      undoStack[undoStack.length - 1] = current;
+    } else {
+      undoStack.push(current);
+      if (undoStack.length > UNDO_LIMIT) undoStack.shift();
+    }
+    lastTypedAt = typing ? now : 0;
+    redoStack.length = 0;
+  };
+
+  // Lets listeners outside the editor (dirty state, copy button) follow
+  // programmatic edits without them being recorded as typing.
+  const notify = () => {
+    silent = true;
+    textarea.dispatchEvent(new Event("input"));
+    silent = false;
+  };
+
+  const restore = (state: Snapshot) => {
+    textarea.value = state.value;
+    textarea.setSelectionRange(state.start, state.end);
+    lastTypedAt = 0;
+    notify();
+  };
+
+  const commit = (value: string, start: number, end = start) => {
+    textarea.value = value;
+    textarea.setSelectionRange(start, end);
+    record(false);
+    notify();
+  };
+
+  const replaceRange = (from: number, to: number, text: string) => {
+    const value = textarea.value;
+    commit(`${value.slice(0, from)}${text}${value.slice(to)}`, from + text.length);
+  };
+
+  const renderBackdrop = () => {
+    const byLine = new Map<number, GherkinProblem["severity"]>();
+    problems.forEach((problem) => {
+      if (byLine.get(problem.line) !== "error") byLine.set(problem.line, problem.severity);
+    });
+    backdrop.innerHTML = "";
+    highlightGherkin(textarea.value, keywords()).forEach((span, index) => {
+      // A space keeps empty problem lines visible.
+      if (!span.textContent) span.textContent = " ";
+      const severity = byLine.get(index + 1);
+      if (severity) {
+        const color = severity === "error" ? ERROR_COLOR : WARNING_COLOR;
+        span.style.background = severity === "error" ? "#ffebe9" : "#fff8e1";
+        span.style.textDecorationLine = "underline";
+        span.style.textDecorationStyle = "wavy";
+        span.style.textDecorationColor = color;
+      }
+      backdrop.appendChild(span);
+      backdrop.appendChild(document.createTextNode("\n"));
+    });
+    backdrop.scrollTop = textarea.scrollTop;
+  };
+
+  const renderList = () => {
+    list.innerHTML = "";
+    problems.forEach((problem) => {
+      const item = document.createElement("button");
+      item.type = "button";
+      item.textContent = `Line ${problem.line} · ${problem.message}`;
+      item.style.textAlign = "left";
+      item.style.padding = "2px 0";
+      item.style.border = "none";
+      item.style.background = "transparent";
+      item.style.cursor = "pointer";
+      item.style.fontSize = "12px";
+      item.style.color = problem.severity === "error" ? ERROR_COLOR : WARNING_COLOR;
+      item.addEventListener("click", () => selectLine(textarea, problem.line));
+      list.appendChild(item);
+      problem.suggestions?.forEach((suggestion) => {
+        const apply = document.createElement("button");
+        apply.type = "button";
+        apply.textContent = `Use: ${suggestion}`;
+        apply.title = "Replace the step text, keeping its keyword";
+        apply.style.textAlign = "left";
+        apply.style.margin = "0 0 0 16px";
+        apply.style.padding = "2px 6px";
+        apply.style.border = "1px solid #e0d8cc";
+        apply.style.borderRadius = "6px";
+        apply.style.background = "#ffffff";
+        apply.style.color = "#1f1f1f";
+        apply.style.cursor = "pointer";
+        apply.style.fontSize = "12px";
+        apply.style.fontFamily = textarea.style.fontFamily;
+        apply.addEventListener("click", () => {
+          const range = getStepTextRange(textarea.value, problem.line);
+          if (range) replaceRange(range.from, range.to, suggestion);
+        });
+        list.appendChild(apply);
+      });
+    });
+  };
+
+  const refresh = () => {
+    const current = keywords();
+    problems = [
+      ...lintGherkin(textarea.value, current),
+      ...lintStepLibrary(textarea.value, stepLibrary, current),
+    ].sort((a, b) => a.line - b.line);
+    renderBackdrop();
+    renderList();
+  };
+
+  const closeCompletion = () => {
+    completion = null;
+    popup.style.display = "none";
+  };
+
+  const renderCompletion = () => {
+    if (!completion) return;
+    popup.innerHTML = "";
+    completion.items.forEach((item, index) => {
+      const row = document.createElement("div");
+      row.textContent = item.label;
+      row.style.padding = "4px 8px";
+      row.style.cursor = "pointer";
+      row.style.whiteSpace = "nowrap";
+      row.style.overflow = "hidden";
+      row.style.textOverflow = "ellipsis";
+      row.style.background = index === activeItem ? "#f0ebe3" : "#ffffff";
+      // mousedown keeps focus (and the caret) in the textarea.
+      row.addEventListener("mousedown", (event) => {
+        event.preventDefault();
+        acceptCompletion(index);
+      });
+      popup.appendChild(row);
+    });
+    popup.style.display = "block";
+    // scrollIntoView would also scroll the host page.
+    const active = popup.children[activeItem] as HTMLElement | undefined;
+    if (active && active.offsetTop < popup.scrollTop) {
+      popup.scrollTop = active.offsetTop;
+    } else if (active && active.offsetTop + active.offsetHeight > popup.scrollTop + popup.clientHeight) {
+      popup.scrollTop = active.offsetTop + active.offsetHeight - popup.clientHeight;
+    }
+  };
+
+  const openCompletion = (force: boolean) => {
+    if (textarea.selectionStart !== textarea.selectionEnd) {
+      closeCompletion();
+      return;
+    }
+    completion = getCompletions(
+      textarea.value,
+      textarea.selectionStart,
+      { steps: [...historySteps, ...librarySteps], elementKeys },
+      force,
+      keywords()
+    );
+    if (!completion) {
+      closeCompletion();
+      return;
+    }
+    activeItem = 0;
+    const caret = measureCaret(backdrop, field, textarea.value, textarea.selectionStart);
+    popup.style.top = `${caret.top}px`;
+    popup.style.left = `${Math.min(caret.left, Math.max(0, field.clientWidth - 240))}px`;
+    renderCompletion();
+  };
+
+  const acceptCompletion = (index = activeItem) => {
+    const item = completion?.items[index];
+    if (!completion || !item) return;
+    const { from, to } = completion;
+    closeCompletion();
+    replaceRange(from, to, item.insert);
+  };
+
+  const insertNewline = () => {
+    const { selectionStart: start, selectionEnd: end, value } = textarea;
+    const lineStart = value.lastIndexOf("\n", start - 1) + 1;
+    const lineEndIndex = value.indexOf("\n", end);
+    const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+    const before = value.slice(lineStart, start);
+    const indent = getNextLineIndent(before, keywords());
+
+    if (start === end && start === lineEnd && before.trim().startsWith("|")) {
+      const lines = value.split("\n");
+      const lineIndex = value.slice(0, start).split("\n").length - 1;
+      const aligned = alignTableAt(lines, lineIndex);
+      const offset = aligned.slice(0, lineIndex + 1).join("\n").length;
+      const next = aligned.join("\n");
+      commit(`${next.slice(0, offset)}\n${indent}${next.slice(offset)}`, offset + 1 + indent.length);
+      return;
+    }
+    replaceRange(start, end, `\n${indent}`);
+  };
+
+  textarea.addEventListener("input", () => {
+    refresh();
+    if (silent) return;
+    record(true);
+    openCompletion(false);
+  });
+
+  textarea.addEventListener("keydown", (event) => {
+    const modifier = event.ctrlKey || event.metaKey;
+    if (completion) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const count = completion.items.length;
+        activeItem = (activeItem + (event.key === "ArrowDown" ? 1 : count - 1)) % count;
+        renderCompletion();
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        acceptCompletion();
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        closeCompletion();
+        return;
+      }
+    }
+    if (modifier && event.key === " ") {
+      event.preventDefault();
+      openCompletion(true);
+      return;
+    }
+    if (modifier && (event.key.toLowerCase() === "z" || event.key.toLowerCase() === "y")) {
+      event.preventDefault();
+      closeCompletion();
+      const redo = event.key.toLowerCase() === "y" || event.shiftKey;
+      if (redo) {
+        const state = redoStack.pop();
+        if (!state) return;
+        undoStack.push(state);
+        restore(state);
+      } else {
+        if (undoStack.length < 2) return;
+        redoStack.push(undoStack.pop() as Snapshot);
+        restore(undoStack[undoStack.length - 1]);
+      }
+      return;
+    }
+    if (event.altKey && event.shiftKey && event.code === "KeyF") {
+      event.preventDefault();
+      const start = textarea.selectionStart;
+      const value = alignAllTables(textarea.value);
+      commit(value, Math.min(start, value.length));
+      return;
+    }
+    if (event.key === "Enter" && !modifier && !event.altKey && !event.shiftKey) {
+      event.preventDefault();
+      insertNewline();
+    }
+  });
+
+  textarea.addEventListener("scroll", () => {
+    backdrop.scrollTop = textarea.scrollTop;
+    closeCompletion();
+  });
+  textarea.addEventListener("blur", closeCompletion);
+  textarea.addEventListener("mousedown", closeCompletion);
+  refresh();
+
+  return {
+    element: wrap,
+    refresh,
+    getProblems: () => problems,
+    setStepLibrary: (library) => {
+      stepLibrary = library;
+      librarySteps = library.map(({ definition }) => describeStepDefinition(definition));
+      refresh();
+    },
+    setCompletionSources: (sources) => {
+      if (sources.steps) historySteps = sources.steps;
+      if (sources.elementKeys) elementKeys = sources.elementKeys;
+    },
+    setLanguage: (next) => {
+      language = next;
+      refresh();
+    },
+    getKeywords: keywords,
+    setValue: (value) => commit(value, value.length),
+    insertText: (text) => replaceRange(textarea.selectionStart, textarea.selectionEnd, text),
+  };
+}
+
+/**
+ * Asks before an action that hands the text to Cucumber users while it still
+ * contains errors. Warnings never block.
+ */
+export function confirmGherkinProblems(problems: GherkinProblem[], action: string): boolean {
+  if (!hasGherkinErrors(problems)) return true;
+  const errors = problems.filter((problem) => problem.severity === "error");
+  const listed = errors
+    .slice(0, 5)
+    .map((problem) => `Line ${problem.line}: ${problem.message}`);
+  if (errors.length > listed.length) listed.push(`…and ${errors.length - listed.length} more`);
+  return window.confirm(
+    `This Gherkin will not parse in Cucumber:\n\n${listed.join("\n")}\n\n${action} anyway?`
+  );
+}
+
+function snapshot(textarea: HTMLTextAreaElement): Snapshot {
+  return {
+    value: textarea.value,
+    start: textarea.selectionStart,
+    end: textarea.selectionEnd,
+  };
+}
+
+function selectLine(textarea: HTMLTextAreaElement, line: number): void {
+  const lines = textarea.value.split("\n");
+  const start = lines.slice(0, line - 1).reduce((total, text) => total + text.length + 1, 0);
+  const end = start + (lines[line - 1]?.length || 0);
+  textarea.focus();
+  textarea.setSelectionRange(start, end);
+}
+
+/** Offsets of the text after the step keyword on `line` (1-based). */
+function getStepTextRange(value: string, line: number): { from: number; to: number } | null {
+  const lines = value.split("\n");
+  const current = lines[line - 1];
+  if (current === undefined) return null;
+  const start = lines.slice(0, line - 1).reduce((total, text) => total + text.length + 1, 0);
+  const prefix = current.match(/^\s*\S+\s/)?.[0] || "";
+  return { from: start + prefix.length, to: start + current.length };
+}
+
+/**
+ * Caret position relative to `field`, read from the backdrop which mirrors
+ * the textarea's layout (including wrapped lines).
+ */
+function measureCaret(
+  backdrop: HTMLElement,
+  field: HTMLElement,
+  value: string,
+  caret: number
+): { top: number; left: number } {
+  const lineIndex = value.slice(0, caret).split("\n").length - 1;
+  const column = caret - (value.lastIndexOf("\n", caret - 1) + 1);
+  const lineSpan = backdrop.querySelectorAll(":scope > span")[lineIndex];
+  const fieldRect = field.getBoundingClientRect();
+  if (!lineSpan) return { top: 24, left: 10 };
+
+  const walker = document.createTreeWalker(lineSpan, NodeFilter.SHOW_TEXT);
+  let remaining = column;
+  let node = walker.nextNode() as Text | null;
+  while (node && remaining > node.length) {
+    remaining -= node.length;
+    node = walker.nextNode() as Text | null;
+  }
+  const range = document.createRange();
+  if (node) range.setStart(node, Math.min(remaining, node.length));
+  else range.setStart(lineSpan, 0);
+  range.collapse(true);
+  const rect = range.getBoundingClientRect();
+  return {
+    top: rect.bottom - fieldRect.top + 2,
+    left: Math.max(0, rect.left - fieldRect.left),
+  };
+}
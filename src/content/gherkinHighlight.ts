@@ -0,0 +1,94 @@
+import { ENGLISH_KEYWORDS, type GherkinKeywords } from "../shared/gherkin/keywords";
+import { tokenizeLine } from "../shared/gherkin/parser";
+
+const COLORS = {
+  header: "#8250df",
+  step: "#0550ae",
+  tag: "#953800",
+  comment: "#6e7781",
+  string: "#0a3069",
+  placeholder: "#bc4c00",
+  pipe: "#8c959f",
+  text: "#1f1f1f",
+};
+
+/**
+ * One span per line of `text`, coloured by Gherkin token. The spans contain
+ * exactly the line's characters so they can sit under a transparent textarea.
+ */
+export function highlightGherkin(
+  text: string,
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): HTMLSpanElement[] {
+  let docString: string | null = null;
+  return text.split("\n").map((line) => {
+    const span = document.createElement("span");
+    const token = tokenizeLine(line, keywords);
+
+    if (docString) {
+      if (token.type === "docString" && token.delimiter === docString) docString = null;
+      span.appendChild(colored(line, COLORS.string));
+      return span;
+    }
+
+    const indent = line.match(/^\s*/)?.[0] || "";
+    const rest = line.slice(indent.length);
+    if (indent) span.appendChild(document.createTextNode(indent));
+
+    switch (token.type) {
+      case "comment":
+        span.appendChild(colored(rest, COLORS.comment));
+        break;
+      case "tags":
+        rest.split(/(\s+)/).forEach((part) => {
+          span.appendChild(part.startsWith("@") ? colored(part, COLORS.tag) : plain(part));
+        });
+        break;
+      case "docString":
+        docString = token.delimiter;
+        span.appendChild(colored(rest, COLORS.string));
+        break;
+      case "header":
+        span.appendChild(colored(`${token.keyword}:`, COLORS.header));
+        appendInline(span, rest.slice(token.keyword.length + 1));
+        break;
+      case "step":
+        span.appendChild(colored(token.keyword, COLORS.step));
+        appendInline(span, rest.slice(token.keyword.length));
+        break;
+      case "row":
+        rest.split(/((?<!\\)\|)/).forEach((part) => {
+          if (part === "|") span.appendChild(colored(part, COLORS.pipe));
+          else appendInline(span, part);
+        });
+        break;
+      default:
+        appendInline(span, rest);
+    }
+    return span;
+  });
+}
+
+function appendInline(span: HTMLSpanElement, value: string): void {
+  value.split(/("[^"]*"|<[^<>\s][^<>]*>)/).forEach((part) => {
+    if (!part) return;
+    if (part.startsWith('"') && part.endsWith('"') && part.length > 1) {
+      span.appendChild(colored(part, COLORS.string));
+    } else if (part.startsWith("<") && part.endsWith(">")) {
+      span.appendChild(colored(part, COLORS.placeholder));
+    } else {
+      span.appendChild(plain(part));
+    }
+  });
+}
+
+function colored(value: string, color: string): HTMLSpanElement {
+  const span = document.createElement("span");
+  span.style.color = color;
+  span.textContent = value;
+  return span;
+}
+
+function plain(value: string): Text {
+  return document.createTextNode(value);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { formatSelector, type SelectorCandidate } from "./element";
+import { rankSelectors } from "./locator";
+
+const target = { id: "target" } as unknown as Element;
+const span = { id: "span" } as unknown as Element;
+const other = { id: "other" } as unknown as Element;
+
+function candidate(fields: Omit<SelectorCandidate, "selector" | "reason">): SelectorCandidate {
+  return { ...fields, reason: "", selector: formatSelector({ ...fields, reason: "" }) };
+}
+
+/** Resolves candidates from a table keyed by selector, with `exact` variants marked by `!`. */
+function stubQuery(matches: Record<string, Element[]>) {
+  return (next: SelectorCandidate) => matches[`${next.selector}${next.exact ? "!" : ""}`] || [];
+}
+
+describe("rankSelectors", () => {
+  it("puts locators that match only the target first", () => {
+    const byText = candidate({ kind: "byText", value: "Add" });
+    const byRole = candidate({ kind: "byRole", value: "button" });
+    const css = candidate({ kind: "css", value: "button.add" });
+    const ranked = rankSelectors(
+      target,
+      [byText, byRole, css],
+      stubQuery({
+        [byText.selector]: [span],
+        [byRole.selector]: [target, other, other],
+        [css.selector]: [target],
+      })
+    );
+    expect(
+      ranked.map((item) => [item.selector, item.matchCount, item.includesTarget, item.score])
+    ).toEqual([
+      ["button.add", 1, true, 35],
+      ["getByRole('button')", 3, true, 30],
+      ["getByText('Add')", 1, false, 0],
+    ]);
+  });
+
+  it("tightens loose names with exact when that narrows the matches", () => {
+    const byRole = candidate({ kind: "byRole", value: "button", name: "Add" });
+    const byLabel = candidate({ kind: "byLabel", value: "Qty" });
+    const [first, second] = rankSelectors(
+      target,
+      [byLabel, byRole],
+      stubQuery({
+        [byRole.selector]: [target, other],
+        [`${byRole.selector}!`]: [target],
+        [byLabel.selector]: [target, other],
+      })
+    );
+    expect(first).toMatchObject({
+      selector: "getByRole('button', { name: 'Add', exact: true })",
+      exact: true,
+      matchCount: 1,
+      score: 90,
+    });
+    expect(second).toMatchObject({ selector: "getByLabel('Qty')", matchCount: 2, score: 75 });
+  });
+
+  it("scores stable attributes above text with numbers or generated ids", () => {
+    const ranked = rankSelectors(
+      target,
+      [
+        candidate({ kind: "byText", value: "Order 10423" }),
+        candidate({ kind: "css", value: "#item-48213" }),
+        candidate({ kind: "css", value: "#checkout" }),
+        candidate({ kind: "byTestId", value: "checkout" }),
+      ],
+      () => [target]
+    );
+    expect(ranked.map((item) => [item.selector, item.score])).toEqual([
+      ["getByTestId('checkout')", 95],
+      ["#checkout", 70],
+      ["getByText('Order 10423')", 35],
+      ["#item-48213", 35],
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  formatSelector,
+  getAccessibleName,
+  getRole,
+  normalizeWhitespace,
+  type SelectorCandidate,
+} from "./element";
+import { isHiddenForAccessibility } from "./aria";
+import { collectElements, getElementByIdInRoot, queryDeepAll } from "./frames";
+
+const BASE_SCORES: Record<SelectorCandidate["kind"], number> = {
+  byTestId: 95,
+  byRole: 90,
+  byLabel: 85,
+  byPlaceholder: 75,
+  byText: 60,
+  css: 35,
+};
+
+const SKIPPED_TAGS = new Set(["script", "style", "noscript", "template", "head"]);
+
+/**
+ * Resolves every candidate against the live DOM the way Playwright would and
+ * orders them so the first entry is the most stable locator that resolves to
+ * exactly the target element. `query` defaults to the target's document.
+ */
+export function rankSelectors(
+  target: Element,
+  candidates: SelectorCandidate[],
+  query: (candidate: SelectorCandidate) => Element[] = (candidate) =>
+    queryCandidate(target.ownerDocument, candidate)
+): SelectorCandidate[] {
+  const scored = candidates.map((candidate) => scoreCandidate(target, candidate, query));
+  return scored
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => {
+      const aUnique = isUniqueMatch(a.candidate) ? 1 : 0;
+      const bUnique = isUniqueMatch(b.candidate) ? 1 : 0;
+      if (aUnique !== bUnique) return bUnique - aUnique;
+      const diff = (b.candidate.score ?? 0) - (a.candidate.score ?? 0);
+      return diff !== 0 ? diff : a.index - b.index;
+    })
+    .map(({ candidate }) => candidate);
+}
+
+function isUniqueMatch(candidate: SelectorCandidate): boolean {
+  return Boolean(candidate.includesTarget) && candidate.matchCount === 1;
+}
+
+function scoreCandidate(
+  target: Element,
+  candidate: SelectorCandidate,
+  query: (candidate: SelectorCandidate) => Element[]
+): SelectorCandidate {
+  let resolved = candidate;
+  let matches = query(resolved);
+
+  // Playwright matches names and text as case-insensitive substrings by
+  // default, so a loose match can often be tightened with `exact: true`.
+  if (matches.length > 1 && supportsExact(candidate)) {
+    const exact = { ...candidate, exact: true };
+    const exactMatches = query(exact);
+    if (exactMatches.length >= 1 && exactMatches.length < matches.length) {
+      resolved = { ...exact, selector: formatSelector(exact) };
+      matches = exactMatches;
+    }
+  }
+
+  const matchCount = matches.length;
+  const includesTarget = matches.includes(target);
+  return {
+    ...resolved,
+    matchCount,
+    includesTarget,
+    score: includesTarget ? stabilityScore(resolved, matchCount) : 0,
+  };
+}
+
+function stabilityScore(candidate: SelectorCandidate, matchCount: number): number {
+  let score = BASE_SCORES[candidate.kind];
+
+  if (candidate.kind === "byRole" && !candidate.name) score -= 40;
+  if (candidate.kind === "css") {
+    if (/^#[^\s>]+$/.test(candidate.value) && !/\d{3,}/.test(candidate.value)) {
+      score += 35;
+    }
+    if (candidate.value.includes(":nth-of-type")) score -= 10;
+    score -= Math.max(0, candidate.value.split(">").length - 2) * 5;
+  }
+
+  const text = candidate.kind === "byRole" ? candidate.name || "" : candidate.value;
+  if (candidate.kind !== "css" && candidate.kind !== "byTestId") {
+    if (/\d{2,}|#\d+/.test(text)) score -= 25;
+    if (text.length > 60) score -= 15;
+  }
+
+  if (matchCount > 1) score -= Math.min(40, (matchCount - 1) * 10);
+  return clampScore(score);
+}
+
+function supportsExact(candidate: SelectorCandidate): boolean {
+  if (candidate.exact || candidate.regex) return false;
+  if (candidate.kind === "byRole") return Boolean(candidate.name);
+  return (
+    candidate.kind === "byLabel" ||
+    candidate.kind === "byPlaceholder" ||
+    candidate.kind === "byText"
+  );
+}
+
+/**
+ * Resolves a candidate inside `root`, the document of the target's frame. Like
+ * Playwright, every engine except the testid lookup pierces open shadow roots.
+ */
+function queryCandidate(root: Document, candidate: SelectorCandidate): Element[] {
+  switch (candidate.kind) {
+    case "byRole":
+      return queryByRole(root, candidate.value, candidate.name, candidate.exact, candidate.regex);
+    case "byLabel":
+      return queryByLabel(root, candidate.value, candidate.exact);
+    case "byPlaceholder":
+      return allElements(root).filter((el) => {
+        const placeholder = el.getAttribute("placeholder");
+        if (placeholder === null) return false;
+        return textMatches(placeholder, candidate.value, candidate.exact);
+      });
+    case "byTestId":
+      return allElements(root).filter(
+        (el) => el.getAttribute("data-testid") === candidate.value
+      );
+    case "byText":
+      return queryByText(root, candidate.value, candidate.exact, candidate.regex);
+    case "css":
+      return queryCssChain(root, candidate.value);
+  }
+}
+
+function queryCssChain(root: Document, selector: string): Element[] {
+  try {
+    let scopes: ParentNode[] = [root];
+    selector.split(" >> ").forEach((part) => {
+      const next = new Set<Element>();
+      scopes.forEach((scope) => {
+        queryDeepAll(scope, part).forEach((el) => next.add(el));
+      });
+      scopes = Array.from(next);
+    });
+    return scopes as Element[];
+  } catch {
+    return [];
+  }
+}
+
+function queryByRole(
+  root: Document,
+  role: string,
+  name?: string,
+  exact?: boolean,
+  regex?: boolean
+): Element[] {
+  return allElements(root).filter((el) => {
+    if (getRole(el) !== role) return false;
+    if (isHiddenForAccessibility(el)) return false;
+    if (!name) return true;
+    return textMatches(getAccessibleName(el) || "", name, exact, regex);
+  });
+}
+
+function queryByLabel(root: Document, label: string, exact?: boolean): Element[] {
+  return allElements(root).filter((el) => {
+    const labels: string[] = [];
+    const ariaLabel = el.getAttribute("aria-label");
+    if (ariaLabel) labels.push(ariaLabel);
+    const labelledBy = el.getAttribute("aria-labelledby");
+    if (labelledBy) {
+      labels.push(
+        labelledBy
+          .split(/\s+/)
+          .map((id) => getElementByIdInRoot(el, id)?.textContent || "")
+          .join(" ")
+      );
+    }
+    const labelable = el as HTMLInputElement;
+    if (labelable.labels) {
+      Array.from(labelable.labels).forEach((item) =>
+        labels.push(item.textContent || "")
+      );
+    }
+    return labels.some((text) => textMatches(text, label, exact));
+  });
+}
+
+function queryByText(
+  root: Document,
+  text: string,
+  exact?: boolean,
+  regex?: boolean
+): Element[] {
+  const matching = new Set(
+    allElements(root).filter((el) => textMatches(el.textContent || "", text, exact, regex))
+  );
+  // Like Playwright, keep only the innermost elements that carry the text.
+  return Array.from(matching).filter(
+    (el) => !Array.from(el.children).some((child) => matching.has(child))
+  );
+}
+
+function textMatches(
+  actual: string,
+  expected: string,
+  exact?: boolean,
+  regex?: boolean
+): boolean {
+  const normalizedActual = normalizeWhitespace(actual);
+  if (regex) {
+    try {
+      return new RegExp(expected).test(normalizedActual);
+    } catch {
+      return false;
+    }
+  }
+  const normalizedExpected = normalizeWhitespace(expected);
+  if (exact) return normalizedActual === normalizedExpected;
+  return normalizedActual.toLowerCase().includes(normalizedExpected.toLowerCase());
+}
+
+function allElements(root: Document): Element[] {
+  return collectElements(root.body || root).filter(
+    (el) =>
+      !SKIPPED_TAGS.has(el.tagName.toLowerCase()) &&
+      !el.closest(
+        "#test-authoring-helper-overlay, #test-authoring-helper-recorder, #test-authoring-helper-tray"
+      )
+  );
+}
+
+function clampScore(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
@@ -0,0 +1,179 @@
+import {
+  isPageMonitorMessage,
+  PAGE_MONITOR_LIMIT,
+  PAGE_MONITOR_SOURCE,
+  type ConsoleEntry,
+  type FailedRequest,
+} from "../shared/bugContext";
+
+/**
+ * Runs in the page's own JavaScript world from document_start, where it can
+ * see console.error, uncaught errors and the page's fetch/XHR calls. The
+ * content script cannot, so it asks for the buffers over window.postMessage
+ * when a Bug ticket is created.
+ */
+
+const MAX_TEXT_LENGTH = 2000;
+const INSTALLED_FLAG = "__testAuthoringHelperMonitor";
+
+type XhrInfo = { method: string; url: string; started: number };
+
+const consoleEntries: ConsoleEntry[] = [];
+const failedRequests: FailedRequest[] = [];
+
+const flags = window as unknown as Record<string, boolean>;
+if (!flags[INSTALLED_FLAG]) {
+  flags[INSTALLED_FLAG] = true;
+  watchConsole();
+  watchFetch();
+  watchXhr();
+  window.addEventListener("message", (event) => {
+    if (event.source !== window || !isPageMonitorMessage(event.data)) return;
+    if (event.data.type !== "request") return;
+    window.postMessage(
+      {
+        source: PAGE_MONITOR_SOURCE,
+        type: "report",
+        id: event.data.id,
+        console: consoleEntries,
+        requests: failedRequests,
+      },
+      window.location.origin === "null" ? "*" : window.location.origin
+    );
+  });
+}
+
+function watchConsole() {
+  const original = console.error;
+  console.error = function (...args: unknown[]) {
+    push(consoleEntries, {
+      kind: "console",
+      message: args.map(describeValue).join(" "),
+      source: null,
+      stack: args.find((arg): arg is Error => arg instanceof Error)?.stack || null,
+      time: new Date().toISOString(),
+    });
+    return original.apply(this, args);
+  };
+
+  window.addEventListener("error", (event) => {
+    // Failed <img> and <script> loads fire here too, without a message.
+    if (!event.message) return;
+    push(consoleEntries, {
+      kind: "error",
+      message: event.message,
+      source: event.filename ? `${event.filename}:${event.lineno}:${event.colno}` : null,
+      stack: event.error instanceof Error ? event.error.stack || null : null,
+      time: new Date().toISOString(),
+    });
+  });
+
+  window.addEventListener("unhandledrejection", (event) => {
+    push(consoleEntries, {
+      kind: "rejection",
+      message: describeValue(event.reason),
+      source: null,
+      stack: event.reason instanceof Error ? event.reason.stack || null : null,
+      time: new Date().toISOString(),
+    });
+  });
+}
+
+function watchFetch() {
+  const original = window.fetch;
+  if (typeof original !== "function") return;
+  window.fetch = async function (input: RequestInfo | URL, init?: RequestInit) {
+    const started = Date.now();
+    const method = (init?.method || (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const url = input instanceof Request ? input.url : String(input);
+    try {
+      const response = await original.call(this, input, init);
+      if (!response.ok) {
+        recordFailure("fetch", method, url, started, response.status, response.statusText);
+      }
+      return response;
+    } catch (error) {
+      recordFailure("fetch", method, url, started, 0, describeValue(error));
+      throw error;
+    }
+  };
+}
+
+function watchXhr() {
+  const requests = new WeakMap<XMLHttpRequest, XhrInfo>();
+  const open = XMLHttpRequest.prototype.open;
+  const send = XMLHttpRequest.prototype.send;
+
+  XMLHttpRequest.prototype.open = function (
+    this: XMLHttpRequest,
+    method: string,
+    url: string | URL,
+    ...rest: unknown[]
+  ) {
+    requests.set(this, { method: method.toUpperCase(), url: String(url), started: 0 });
+    return (open as (...args: unknown[]) => void).call(this, method, url, ...rest);
+  } as typeof XMLHttpRequest.prototype.open;
+
+  XMLHttpRequest.prototype.send = function (
+    this: XMLHttpRequest,
+    body?: Document | XMLHttpRequestBodyInit | null
+  ) {
+    const info = requests.get(this);
+    if (info) {
+      info.started = Date.now();
+      this.addEventListener("loadend", () => {
+        // Status 0 covers network errors, CORS failures, timeouts and aborts.
+        if (this.status > 0 && this.status < 400) return;
+        recordFailure("xhr", info.method, info.url, info.started, this.status, this.statusText);
+      });
+    }
+    return send.call(this, body);
+  };
+}
+
+function recordFailure(
+  api: FailedRequest["api"],
+  method: string,
+  url: string,
+  started: number,
+  status: number,
+  statusText: string
+) {
+  push(failedRequests, {
+    api,
+    method,
+    url: toAbsoluteUrl(url),
+    status,
+    statusText: truncate(statusText),
+    durationMs: Date.now() - started,
+    time: new Date(started).toISOString(),
+  });
+}
+
+/** Keeps the newest entries only. */
+function push<T>(buffer: T[], entry: T) {
+  buffer.push(entry);
+  if (buffer.length > PAGE_MONITOR_LIMIT) buffer.splice(0, buffer.length - PAGE_MONITOR_LIMIT);
+}
+
+function describeValue(value: unknown): string {
+  if (value instanceof Error) return truncate(`${value.name}: ${value.message}`);
+  if (typeof value === "string") return truncate(value);
+  try {
+    return truncate(JSON.stringify(value) ?? String(value));
+  } catch {
+    return truncate(String(value));
+  }
+}
+
+function toAbsoluteUrl(url: string): string {
+  try {
+    return new URL(url, window.location.href).href;
+  } catch {
+    return url;
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
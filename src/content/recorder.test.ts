@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRecordedStepLines,
+  getRecordedTargets,
+  type RecordedStep,
+  type RecordedTarget,
+} from "./recorder";
+
+const PAGE_URL = "https://shop.test/cart";
+
+function target(elementKey: string): RecordedTarget {
+  return {
+    elementKey,
+    role: null,
+    name: null,
+    outerHTML: "",
+    selectors: [],
+    url: PAGE_URL,
+    title: "Cart",
+  };
+}
+
+describe("buildRecordedStepLines", () => {
+  it("writes one When line per recorded step", () => {
+    const steps: RecordedStep[] = [
+      { kind: "click", url: PAGE_URL, target: target("button_add") },
+      { kind: "fill", url: PAGE_URL, target: target("textbox_qty"), value: "2" },
+      { kind: "select", url: PAGE_URL, target: target("combobox_size"), value: "Large" },
+      { kind: "check", url: PAGE_URL, target: target("checkbox_gift") },
+      { kind: "uncheck", url: PAGE_URL, target: target("checkbox_news") },
+      { kind: "submit", url: PAGE_URL, target: target("form_cart") },
+      { kind: "navigate", url: PAGE_URL, value: "/checkout" },
+    ];
+    expect(buildRecordedStepLines(steps)).toEqual([
+      'When I click the "button_add"',
+      'When I fill "textbox_qty" with "2"',
+      'When I select "Large" from "combobox_size"',
+      'When I check "checkbox_gift"',
+      'When I uncheck "checkbox_news"',
+      'When I submit the "form_cart"',
+      'When I navigate to "/checkout"',
+    ]);
+  });
+
+  it("escapes quotes and backslashes in typed values", () => {
+    expect(
+      buildRecordedStepLines([
+        { kind: "fill", url: PAGE_URL, target: target("textbox_note"), value: 'Say "hi" C:\\temp' },
+        { kind: "fill", url: PAGE_URL, target: target("textbox_note") },
+      ])
+    ).toEqual([
+      'When I fill "textbox_note" with "Say \\"hi\\" C:\\\\temp"',
+      'When I fill "textbox_note" with ""',
+    ]);
+  });
+});
+
+describe("getRecordedTargets", () => {
+  it("lists each element once in the order it was first used", () => {
+    const add = target("button_add");
+    const qty = target("textbox_qty");
+    expect(
+      getRecordedTargets([
+        { kind: "click", url: PAGE_URL, target: add },
+        { kind: "fill", url: PAGE_URL, target: qty, value: "1" },
+        { kind: "navigate", url: PAGE_URL, value: "/checkout" },
+        { kind: "click", url: PAGE_URL, target: target("button_add") },
+      ])
+    ).toEqual([add, qty]);
+  });
+});
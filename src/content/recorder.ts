@@ -0,0 +1,472 @@
+import {
+  buildSelectors,
+  escapeDoubleQuotes,
+  getAccessibleName,
+  getRole,
+  type SelectorCandidate,
+} from "./element";
+import {
+  buildElementKey,
+  getElementKeyContext,
+  type ElementKeyContext,
+} from "./elementKeys";
+import { getComposedTarget, isElementNode } from "./frames";
+import { rankSelectors } from "./locator";
+
+export type RecordedTarget = {
+  elementKey: string;
+  role: string | null;
+  name: string | null;
+  outerHTML: string;
+  selectors: SelectorCandidate[];
+  url: string;
+  title: string;
+  keyContext?: ElementKeyContext;
+};
+
+export type RecordedStep = {
+  kind: "click" | "fill" | "select" | "check" | "uncheck" | "submit" | "navigate";
+  url: string;
+  target?: RecordedTarget;
+  value?: string;
+};
+
+export type RecorderState = {
+  active: boolean;
+  startUrl: string;
+  startTitle: string;
+  lastUrl: string;
+  steps: RecordedStep[];
+};
+
+/** Followed by the recording tab's ID, so other tabs do not resume it. */
+const STORAGE_KEY_PREFIX = "recorderState:";
+const INDICATOR_ID = "test-authoring-helper-recorder";
+const OVERLAY_ID = "test-authoring-helper-overlay";
+const TRAY_ID = "test-authoring-helper-tray";
+const ROUTE_POLL_MS = 500;
+/** Typing is saved once the user pauses; other steps are saved right away. */
+const FILL_SAVE_DELAY_MS = 400;
+
+const INTERACTIVE_SELECTOR = [
+  "a[href]",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "summary",
+  "label",
+  "[role]",
+  "[onclick]",
+  "[tabindex]",
+].join(",");
+
+const TEXT_INPUT_TYPES = new Set([
+  "text",
+  "email",
+  "password",
+  "search",
+  "tel",
+  "url",
+  "number",
+  "date",
+  "datetime-local",
+  "month",
+  "week",
+  "time",
+]);
+
+let state: RecorderState | null = null;
+let onStopCallback: ((state: RecorderState) => void) | null = null;
+let routeTimer: number | null = null;
+let storageKey: Promise<string | null> | null = null;
+let saveTimer: number | null = null;
+/** The field of the last fill step, so further typing only updates its value. */
+let fillElement: Element | null = null;
+
+export function isRecording(): boolean {
+  return Boolean(state?.active);
+}
+
+export async function startRecording(
+  onStop: (state: RecorderState) => void
+): Promise<void> {
+  state = {
+    active: true,
+    startUrl: window.location.href,
+    startTitle: document.title || "",
+    lastUrl: window.location.href,
+    steps: [],
+  };
+  onStopCallback = onStop;
+  await saveState();
+  attachListeners();
+  renderIndicator();
+  notifyRecordingState(true);
+}
+
+export async function resumeRecording(
+  onStop: (state: RecorderState) => void
+): Promise<void> {
+  const key = await getStorageKey();
+  if (!key) return;
+  const stored = (await chrome.storage.local.get(key)) as Record<string, RecorderState | undefined>;
+  if (!stored[key]?.active) return;
+
+  state = stored[key];
+  onStopCallback = onStop;
+  if (state.lastUrl !== window.location.href) {
+    pushNavigation(window.location.href);
+  }
+  attachListeners();
+  renderIndicator();
+}
+
+export async function stopRecording(): Promise<RecorderState | null> {
+  const finished = state;
+  state = null;
+  fillElement = null;
+  cancelScheduledSave();
+  detachListeners();
+  document.getElementById(INDICATOR_ID)?.remove();
+  const key = await getStorageKey();
+  if (key) await chrome.storage.local.remove(key);
+  notifyRecordingState(false);
+  if (!finished) return null;
+  return { ...finished, active: false };
+}
+
+export function buildRecordedStepLines(steps: RecordedStep[]): string[] {
+  return steps.map((step) => {
+    const key = step.target?.elementKey || "";
+    const value = escapeDoubleQuotes(step.value || "");
+    switch (step.kind) {
+      case "click":
+        return `When I click the "${key}"`;
+      case "fill":
+        return `When I fill "${key}" with "${value}"`;
+      case "select":
+        return `When I select "${value}" from "${key}"`;
+      case "check":
+        return `When I check "${key}"`;
+      case "uncheck":
+        return `When I uncheck "${key}"`;
+      case "submit":
+        return `When I submit the "${key}"`;
+      case "navigate":
+        return `When I navigate to "${value}"`;
+    }
+  });
+}
+
+export function getRecordedTargets(steps: RecordedStep[]): RecordedTarget[] {
+  const seen = new Map<string, RecordedTarget>();
+  steps.forEach((step) => {
+    if (step.target && !seen.has(step.target.elementKey)) {
+      seen.set(step.target.elementKey, step.target);
+    }
+  });
+  return Array.from(seen.values());
+}
+
+function attachListeners(): void {
+  document.addEventListener("click", onClick, true);
+  document.addEventListener("input", onInput, true);
+  document.addEventListener("change", onChange, true);
+  document.addEventListener("submit", onSubmit, true);
+  window.addEventListener("popstate", onRouteChange);
+  window.addEventListener("hashchange", onRouteChange);
+  window.addEventListener("pagehide", onPageHide);
+  // pushState/replaceState run in the page's world and cannot be patched from
+  // the isolated content script, so poll for SPA route changes instead.
+  routeTimer = window.setInterval(onRouteChange, ROUTE_POLL_MS);
+}
+
+function detachListeners(): void {
+  document.removeEventListener("click", onClick, true);
+  document.removeEventListener("input", onInput, true);
+  document.removeEventListener("change", onChange, true);
+  document.removeEventListener("submit", onSubmit, true);
+  window.removeEventListener("popstate", onRouteChange);
+  window.removeEventListener("hashchange", onRouteChange);
+  window.removeEventListener("pagehide", onPageHide);
+  if (routeTimer !== null) {
+    window.clearInterval(routeTimer);
+    routeTimer = null;
+  }
+}
+
+function onClick(event: MouseEvent): void {
+  const element = resolveEventTarget(event);
+  if (!element) return;
+
+  const clickable = element.closest(INTERACTIVE_SELECTOR) || element;
+  if (isFormField(clickable)) return;
+  if (clickable instanceof HTMLLabelElement && isFormField(clickable.control)) {
+    return;
+  }
+
+  pushStep({ kind: "click", target: describeTarget(clickable) });
+}
+
+function onInput(event: Event): void {
+  const element = resolveEventTarget(event);
+  if (!element || !isTextField(element)) return;
+  recordFill(element);
+}
+
+function onChange(event: Event): void {
+  const element = resolveEventTarget(event);
+  if (!element) return;
+
+  if (element instanceof HTMLSelectElement) {
+    const selected = Array.from(element.selectedOptions)
+      .map((option) => option.textContent?.trim() || option.value)
+      .join(", ");
+    pushStep({
+      kind: "select",
+      target: describeTarget(element),
+      value: selected,
+    });
+    return;
+  }
+
+  if (
+    element instanceof HTMLInputElement &&
+    (element.type === "checkbox" || element.type === "radio")
+  ) {
+    pushStep({
+      kind: element.checked ? "check" : "uncheck",
+      target: describeTarget(element),
+    });
+    return;
+  }
+
+  if (isTextField(element)) {
+    recordFill(element);
+  }
+}
+
+function onSubmit(event: SubmitEvent): void {
+  const form = resolveEventTarget(event);
+  if (!(form instanceof HTMLFormElement) || !state) return;
+
+  const last = state.steps[state.steps.length - 1];
+  const submitter = event.submitter;
+  if (
+    last?.kind === "click" &&
+    submitter &&
+    last.target?.elementKey === describeTarget(submitter).elementKey
+  ) {
+    return;
+  }
+
+  pushStep({ kind: "submit", target: describeTarget(form) });
+}
+
+function onRouteChange(): void {
+  if (!state || state.lastUrl === window.location.href) return;
+  pushNavigation(window.location.href);
+}
+
+/** Saves typing that is still waiting for a pause. */
+function onPageHide(): void {
+  if (saveTimer !== null) void saveState();
+}
+
+function recordFill(element: HTMLInputElement | HTMLTextAreaElement | HTMLElement) {
+  if (!state) return;
+  const value =
+    element instanceof HTMLInputElement && element.type === "password"
+      ? "<password>"
+      : getFieldValue(element);
+
+  // Describing the field ranks selectors against the whole page, so it is
+  // done once per field rather than on every keystroke.
+  const last = state.steps[state.steps.length - 1];
+  const lastFill = last?.kind === "fill" ? last : null;
+  const target = lastFill && element === fillElement ? lastFill.target : describeTarget(element);
+  if (lastFill && lastFill.target?.elementKey === target?.elementKey) {
+    fillElement = element;
+    lastFill.value = value;
+    scheduleSave();
+    renderIndicator();
+    return;
+  }
+
+  pushStep({ kind: "fill", target, value });
+  fillElement = element;
+}
+
+function pushNavigation(href: string): void {
+  if (!state) return;
+  const url = new URL(href);
+  const previous = new URL(state.lastUrl);
+  state.lastUrl = href;
+  if (url.href === previous.href) return;
+  const path =
+    url.origin === previous.origin
+      ? `${url.pathname}${url.search}${url.hash}`
+      : href;
+  pushStep({ kind: "navigate", value: path });
+}
+
+function pushStep(step: Omit<RecordedStep, "url">): void {
+  if (!state) return;
+  state.steps.push({ ...step, url: window.location.href });
+  state.lastUrl = window.location.href;
+  fillElement = null;
+  void saveState();
+  renderIndicator();
+}
+
+function scheduleSave(): void {
+  cancelScheduledSave();
+  saveTimer = window.setTimeout(() => void saveState(), FILL_SAVE_DELAY_MS);
+}
+
+function cancelScheduledSave(): void {
+  if (saveTimer === null) return;
+  window.clearTimeout(saveTimer);
+  saveTimer = null;
+}
+
+async function saveState(): Promise<void> {
+  cancelScheduledSave();
+  if (!state) return;
+  const key = await getStorageKey();
+  if (key && state) await chrome.storage.local.set({ [key]: state });
+}
+
+/** Content scripts cannot read their own tab ID, so the service worker reports it. */
+function getStorageKey(): Promise<string | null> {
+  storageKey =
+    storageKey ||
+    chrome.runtime
+      .sendMessage({ type: "recorder:tab" })
+      .then((response) =>
+        typeof response?.tabId === "number" ? `${STORAGE_KEY_PREFIX}${response.tabId}` : null
+      )
+      .catch(() => null);
+  return storageKey;
+}
+
+export function describeTarget(element: Element): RecordedTarget {
+  const role = getRole(element);
+  const name = getAccessibleName(element);
+  const selectors = rankSelectors(element, buildSelectors(element, role, name));
+  const html = (element.outerHTML || "").replace(/\s+/g, " ").trim();
+  const keyContext = getElementKeyContext(element);
+  return {
+    elementKey: buildElementKey(element, role, name, selectors, keyContext),
+    role,
+    name,
+    outerHTML: html.length <= 200 ? html : `${html.slice(0, 200)}…`,
+    selectors,
+    url: window.location.href,
+    title: document.title || "",
+    keyContext,
+  };
+}
+
+function resolveEventTarget(event: Event): Element | null {
+  const target = getComposedTarget(event);
+  if (!isElementNode(target)) return null;
+  if (target.closest(`#${INDICATOR_ID}, #${OVERLAY_ID}, #${TRAY_ID}`)) return null;
+  return target;
+}
+
+function isFormField(element: Element | null): boolean {
+  if (!element) return false;
+  return (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLOptionElement ||
+    (element instanceof HTMLElement && element.isContentEditable)
+  );
+}
+
+function isTextField(
+  element: Element
+): element is HTMLInputElement | HTMLTextAreaElement | HTMLElement {
+  if (element instanceof HTMLTextAreaElement) return true;
+  if (element instanceof HTMLInputElement) {
+    return TEXT_INPUT_TYPES.has(element.type);
+  }
+  return element instanceof HTMLElement && element.isContentEditable;
+}
+
+function getFieldValue(element: HTMLElement): string {
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement
+  ) {
+    return element.value;
+  }
+  return element.textContent?.trim() || "";
+}
+
+function notifyRecordingState(recording: boolean): void {
+  chrome.runtime.sendMessage({ type: "recorder:state", recording }, () => {
+    void chrome.runtime.lastError;
+  });
+}
+
+function renderIndicator(): void {
+  if (!state) return;
+  let indicator = document.getElementById(INDICATOR_ID);
+  if (!indicator) {
+    indicator = document.createElement("div");
+    indicator.id = INDICATOR_ID;
+    indicator.style.position = "fixed";
+    indicator.style.right = "16px";
+    indicator.style.bottom = "16px";
+    indicator.style.zIndex = "2147483647";
+    indicator.style.display = "flex";
+    indicator.style.alignItems = "center";
+    indicator.style.gap = "10px";
+    indicator.style.padding = "8px 12px";
+    indicator.style.borderRadius = "999px";
+    indicator.style.background = "#1f1f1f";
+    indicator.style.color = "#ffffff";
+    indicator.style.fontFamily = "system-ui, -apple-system, sans-serif";
+    indicator.style.fontSize = "12px";
+    indicator.style.boxShadow = "0 8px 20px rgba(0,0,0,0.25)";
+
+    const dot = document.createElement("span");
+    dot.style.width = "8px";
+    dot.style.height = "8px";
+    dot.style.borderRadius = "50%";
+    dot.style.background = "#e5484d";
+
+    const label = document.createElement("span");
+    label.dataset.role = "label";
+
+    const stopButton = document.createElement("button");
+    stopButton.textContent = "Stop";
+    stopButton.style.padding = "4px 10px";
+    stopButton.style.borderRadius = "999px";
+    stopButton.style.border = "1px solid #ffffff";
+    stopButton.style.background = "#ffffff";
+    stopButton.style.color = "#1f1f1f";
+    stopButton.style.cursor = "pointer";
+    stopButton.style.fontSize = "12px";
+    stopButton.addEventListener("click", async () => {
+      const callback = onStopCallback;
+      const finished = await stopRecording();
+      if (finished && callback) callback(finished);
+    });
+
+    indicator.appendChild(dot);
+    indicator.appendChild(label);
+    indicator.appendChild(stopButton);
+    document.body.appendChild(indicator);
+  }
+
+  const label = indicator.querySelector("[data-role='label']");
+  if (label) {
+    const count = state.steps.length;
+    label.textContent = `Recording · ${count} step${count === 1 ? "" : "s"}`;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { clampRect, intersect, pad, toRect, union } from "./rects";
+
+describe("toRect", () => {
+  it("spans two corners dragged in any direction", () => {
+    const rect = { x: 10, y: 20, width: 30, height: 40 };
+    expect(toRect({ x: 10, y: 20 }, { x: 40, y: 60 })).toEqual(rect);
+    expect(toRect({ x: 40, y: 60 }, { x: 10, y: 20 })).toEqual(rect);
+    expect(toRect({ x: 40, y: 20 }, { x: 10, y: 60 })).toEqual(rect);
+  });
+});
+
+describe("clampRect", () => {
+  it("keeps rectangles inside the image", () => {
+    expect(clampRect({ x: 10, y: 10, width: 20, height: 20 }, 100, 50)).toEqual({
+      x: 10,
+      y: 10,
+      width: 20,
+      height: 20,
+    });
+    expect(clampRect({ x: -10, y: 40, width: 30, height: 30 }, 100, 50)).toEqual({
+      x: 0,
+      y: 40,
+      width: 20,
+      height: 10,
+    });
+  });
+
+  it("collapses rectangles outside the image", () => {
+    expect(clampRect({ x: 120, y: -40, width: 10, height: 20 }, 100, 50)).toEqual({
+      x: 100,
+      y: 0,
+      width: 0,
+      height: 0,
+    });
+  });
+});
+
+describe("pad, union and intersect", () => {
+  const viewport = { x: 0, y: 800, width: 1200, height: 700 };
+  const page = { x: 0, y: 0, width: 1200, height: 3000 };
+
+  it("widens an element crop by the context padding", () => {
+    expect(pad({ x: 100, y: 900, width: 200, height: 50 }, 48)).toEqual({
+      x: 52,
+      y: 852,
+      width: 296,
+      height: 146,
+    });
+  });
+
+  it("keeps a crop near the page edge inside the page", () => {
+    const crop = intersect(pad({ x: 10, y: 2980, width: 100, height: 20 }, 48), page);
+    expect(crop).toEqual({ x: 0, y: 2932, width: 158, height: 68 });
+    expect(intersect(union(viewport, crop), page)).toEqual({
+      x: 0,
+      y: 800,
+      width: 1200,
+      height: 2200,
+    });
+  });
+
+  it("is empty for rectangles that do not overlap", () => {
+    const a = { x: 0, y: 0, width: 10, height: 10 };
+    const b = { x: 20, y: 20, width: 5, height: 5 };
+    expect(intersect(a, b)).toEqual({ x: 20, y: 20, width: 0, height: 0 });
+  });
+});
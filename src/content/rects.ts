@@ -0,0 +1,59 @@
+import type { SnapshotRect } from "./snapshotEditor";
+
+export type Point = { x: number; y: number };
+
+/** The rectangle spanned by two corners given in any order. */
+export function toRect(from: Point, to: Point): SnapshotRect {
+  return {
+    x: Math.min(from.x, to.x),
+    y: Math.min(from.y, to.y),
+    width: Math.abs(to.x - from.x),
+    height: Math.abs(to.y - from.y),
+  };
+}
+
+/** The part of `rect` inside the area from 0,0 to `maxWidth`,`maxHeight`. */
+export function clampRect(rect: SnapshotRect, maxWidth: number, maxHeight: number): SnapshotRect {
+  const x = Math.min(Math.max(0, rect.x), maxWidth);
+  const y = Math.min(Math.max(0, rect.y), maxHeight);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(rect.x + rect.width, maxWidth) - x),
+    height: Math.max(0, Math.min(rect.y + rect.height, maxHeight) - y),
+  };
+}
+
+/** `rect` grown by `padding` on every side. */
+export function pad(rect: SnapshotRect, padding: number): SnapshotRect {
+  return {
+    x: rect.x - padding,
+    y: rect.y - padding,
+    width: rect.width + padding * 2,
+    height: rect.height + padding * 2,
+  };
+}
+
+/** The smallest rectangle containing both. */
+export function union(a: SnapshotRect, b: SnapshotRect): SnapshotRect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/** The overlap of both, empty when they do not touch. */
+export function intersect(a: SnapshotRect, b: SnapshotRect): SnapshotRect {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+}
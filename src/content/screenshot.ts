@@ -0,0 +1,229 @@
+import { intersect, pad, union } from "./rects";
+import type { Snapshot, SnapshotRect } from "./snapshotEditor";
+
+export type CaptureMode = "element" | "context" | "viewport" | "fullPage";
+
+export const CAPTURE_MODES: { id: CaptureMode; label: string }[] = [
+  { id: "element", label: "Element" },
+  { id: "context", label: "Element with context" },
+  { id: "viewport", label: "Viewport" },
+  { id: "fullPage", label: "Full page" },
+];
+
+type CaptureOptions = {
+  mode: CaptureMode;
+  /** Scrolled into view first; unused for viewport and full page captures. */
+  target: Element | null;
+  /** The target's area in viewport pixels, measured after scrolling. */
+  getTargetRect: () => SnapshotRect | null;
+  /** Pixelate input fields from the start. */
+  maskInputs: boolean;
+};
+
+const CONFIG_KEY = "snapshotConfig";
+const DEFAULT_CAPTURE_MODE: CaptureMode = "element";
+/** Space kept around the element in the "with context" mode, in CSS pixels. */
+const CONTEXT_PADDING = 48;
+/** captureVisibleTab allows two calls per second. */
+const CAPTURE_INTERVAL_MS = 550;
+/** Chrome refuses larger canvases; taller pages are cut off at the bottom. */
+const MAX_CANVAS_SIZE = 16384;
+const MASKED_FIELDS = [
+  "input:not([type='hidden']):not([type='checkbox']):not([type='radio'])",
+  ":not([type='submit']):not([type='button']):not([type='reset']):not([type='image'])",
+  ":not([type='range']):not([type='color'])",
+].join("") + ", textarea, select, [contenteditable='true']";
+
+let lastCaptureAt = 0;
+
+export async function loadCaptureMode(): Promise<CaptureMode> {
+  const data = await chrome.storage.local.get(CONFIG_KEY);
+  const mode = (data[CONFIG_KEY] as { mode?: string } | undefined)?.mode;
+  return CAPTURE_MODES.find((option) => option.id === mode)?.id || DEFAULT_CAPTURE_MODE;
+}
+
+export async function saveCaptureMode(mode: CaptureMode): Promise<void> {
+  await chrome.storage.local.set({ [CONFIG_KEY]: { mode } });
+}
+
+/**
+ * Screenshots the page for the snapshot editor. The visible tab is captured
+ * slice by slice while scrolling and stitched together, so element crops are
+ * never clipped by the viewport and full pages fit in one image. The source
+ * always covers at least the viewport, leaving room to widen the crop. Every
+ * slice is scaled by its own width against the viewport, which keeps crops
+ * right under any devicePixelRatio or zoom level. The scroll position is
+ * restored afterwards.
+ */
+export async function captureSnapshot(options: CaptureOptions): Promise<Snapshot | null> {
+  const startX = window.scrollX;
+  const startY = window.scrollY;
+  try {
+    if (options.target && (options.mode === "element" || options.mode === "context")) {
+      await scrollIntoViewIfNeeded(options.target);
+    }
+    const originX = window.scrollX;
+    const originY = window.scrollY;
+    const toPage = (rect: SnapshotRect) => ({ ...rect, x: rect.x + originX, y: rect.y + originY });
+    const limit = Math.floor(MAX_CANVAS_SIZE / (window.devicePixelRatio || 1));
+    const page = getPageRect(limit);
+    const viewport = { x: originX, y: originY, ...getViewportSize() };
+
+    let region: SnapshotRect;
+    let crop: SnapshotRect;
+    if (options.mode === "fullPage") {
+      region = page;
+      crop = page;
+    } else if (options.mode === "viewport") {
+      region = viewport;
+      crop = viewport;
+    } else {
+      const rect = options.getTargetRect();
+      if (!rect || rect.width <= 0 || rect.height <= 0) return null;
+      const area = toPage(rect);
+      crop = intersect(
+        options.mode === "context" ? pad(area, CONTEXT_PADDING) : area,
+        page
+      );
+      region = intersect(union(viewport, crop), page);
+    }
+    if (crop.width <= 0 || crop.height <= 0) return null;
+
+    const masks = options.maskInputs ? getInputFieldRects().map(toPage) : [];
+    const stitched = await captureRegion(region);
+    if (!stitched) return null;
+    const toImage = (rect: SnapshotRect) => ({
+      x: (rect.x - region.x) * stitched.scale,
+      y: (rect.y - region.y) * stitched.scale,
+      width: rect.width * stitched.scale,
+      height: rect.height * stitched.scale,
+    });
+    return { source: stitched.dataUrl, crop: toImage(crop), masks: masks.map(toImage) };
+  } finally {
+    window.scrollTo({ left: startX, top: startY, behavior: "instant" });
+  }
+}
+
+async function captureRegion(
+  region: SnapshotRect
+): Promise<{ dataUrl: string; scale: number } | null> {
+  const view = getViewportSize();
+  const hidden: { element: HTMLElement; visibility: string }[] = [];
+  let canvas: HTMLCanvasElement | null = null;
+  let scale = 1;
+  try {
+    for (let top = region.y; top < region.y + region.height; top += view.height) {
+      for (let left = region.x; left < region.x + region.width; left += view.width) {
+        // Fixed headers and sticky bars would repeat in every later slice.
+        if (canvas && hidden.length === 0) hideFixedElements(hidden);
+        window.scrollTo({ left, top, behavior: "instant" });
+        await waitForPaint();
+        const image = await loadImage(await requestVisibleTab());
+        if (!image) return null;
+        if (!canvas) {
+          scale = image.width / window.innerWidth;
+          canvas = document.createElement("canvas");
+          canvas.width = Math.max(1, Math.round(region.width * scale));
+          canvas.height = Math.max(1, Math.round(region.height * scale));
+        }
+        // Scrollbars are left out; the slice lands where it sits on the page.
+        canvas
+          .getContext("2d")
+          ?.drawImage(
+            image,
+            0,
+            0,
+            view.width * scale,
+            view.height * scale,
+            (window.scrollX - region.x) * scale,
+            (window.scrollY - region.y) * scale,
+            view.width * scale,
+            view.height * scale
+          );
+      }
+    }
+  } finally {
+    hidden.forEach(({ element, visibility }) => {
+      element.style.visibility = visibility;
+    });
+  }
+  return canvas ? { dataUrl: canvas.toDataURL("image/png"), scale } : null;
+}
+
+async function scrollIntoViewIfNeeded(element: Element): Promise<void> {
+  const rect = element.getBoundingClientRect();
+  const view = getViewportSize();
+  const visible = rect.top >= 0 && rect.left >= 0 && rect.bottom <= view.height && rect.right <= view.width;
+  if (visible) return;
+  element.scrollIntoView({
+    block: rect.height > view.height ? "start" : "center",
+    inline: "nearest",
+    behavior: "instant",
+  });
+  await waitForPaint();
+}
+
+async function requestVisibleTab(): Promise<string | null> {
+  const wait = lastCaptureAt + CAPTURE_INTERVAL_MS - Date.now();
+  if (wait > 0) await new Promise((resolve) => window.setTimeout(resolve, wait));
+  lastCaptureAt = Date.now();
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ type: "capture:visible-tab" }, (response) => {
+      if (chrome.runtime.lastError || !response?.ok || !response?.dataUrl) {
+        resolve(null);
+        return;
+      }
+      resolve(response.dataUrl);
+    });
+  });
+}
+
+function loadImage(source: string | null): Promise<HTMLImageElement | null> {
+  if (!source) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.addEventListener("load", () => resolve(image));
+    image.addEventListener("error", () => resolve(null));
+    image.src = source;
+  });
+}
+
+function waitForPaint(): Promise<void> {
+  return new Promise((resolve) =>
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()))
+  );
+}
+
+function hideFixedElements(hidden: { element: HTMLElement; visibility: string }[]): void {
+  document.querySelectorAll<HTMLElement>("body *").forEach((element) => {
+    const position = getComputedStyle(element).position;
+    if (position !== "fixed" && position !== "sticky") return;
+    hidden.push({ element, visibility: element.style.visibility });
+    element.style.visibility = "hidden";
+  });
+}
+
+/** Visible text fields in viewport pixels. */
+function getInputFieldRects(): SnapshotRect[] {
+  return Array.from(document.querySelectorAll(MASKED_FIELDS))
+    .map((field) => field.getBoundingClientRect())
+    .filter((rect) => rect.width > 0 && rect.height > 0)
+    .map((rect) => ({ x: rect.left, y: rect.top, width: rect.width, height: rect.height }));
+}
+
+function getViewportSize(): { width: number; height: number } {
+  return {
+    width: document.documentElement.clientWidth || window.innerWidth,
+    height: document.documentElement.clientHeight || window.innerHeight,
+  };
+}
+
+function getPageRect(limit: number): SnapshotRect {
+  const root = document.documentElement;
+  return {
+    x: 0,
+    y: 0,
+    width: Math.min(limit, Math.max(root.scrollWidth, document.body?.scrollWidth || 0)),
+    height: Math.min(limit, Math.max(root.scrollHeight, document.body?.scrollHeight || 0)),
+  };
+}
@@ -0,0 +1,369 @@
+import { clampRect, toRect, type Point } from "./rects";
+
+export type SnapshotRect = { x: number; y: number; width: number; height: number };
+
+/** A visible-tab screenshot and the region of it to attach, in image pixels. */
+export type Snapshot = {
+  source: string;
+  crop: SnapshotRect;
+  /** Areas pixelated from the start, such as input fields. */
+  masks: SnapshotRect[];
+};
+
+export type SnapshotEditor = {
+  /** Toolbar and canvas. */
+  element: HTMLElement;
+  /** The cropped, annotated PNG, or null while the screenshot is loading. */
+  toDataUrl: () => string | null;
+};
+
+type Tool = "crop" | "rect" | "arrow" | "pen" | "text" | "blur";
+
+type Shape =
+  | { tool: "rect" | "arrow" | "blur"; from: Point; to: Point; color: string; width: number }
+  | { tool: "pen"; points: Point[]; color: string; width: number }
+  | { tool: "text"; at: Point; text: string; color: string; width: number };
+
+const TOOLS: { id: Tool; label: string; title: string }[] = [
+  { id: "rect", label: "▭", title: "Rectangle" },
+  { id: "arrow", label: "↗", title: "Arrow" },
+  { id: "pen", label: "✎", title: "Freehand" },
+  { id: "text", label: "T", title: "Text callout" },
+  { id: "blur", label: "▦", title: "Pixelate sensitive data" },
+  { id: "crop", label: "⛶", title: "Adjust the crop" },
+];
+const DEFAULT_COLOR = "#e53935";
+/** Share of the crop size shown around it while annotating. */
+const VIEW_MARGIN = 0.25;
+const MIN_VIEW_MARGIN = 40;
+const MIN_CROP_SIZE = 8;
+/** Pixelation keeps at most this many blocks across the box's shorter side. */
+const BLUR_BLOCKS = 6;
+const MIN_BLUR_BLOCK = 8;
+
+/**
+ * Annotation editor for the snapshot attached to Jira. Shapes are kept in
+ * screenshot coordinates and drawn again on every change, so the crop can
+ * move without losing them; `toDataUrl` renders only the crop. Blur boxes
+ * pixelate the screenshot itself before anything else is drawn.
+ */
+export function createSnapshotEditor(snapshot: Snapshot): SnapshotEditor {
+  const image = new Image();
+  const maskShapes = (): Shape[] =>
+    snapshot.masks.map((mask) => ({
+      tool: "blur",
+      from: { x: mask.x, y: mask.y },
+      to: { x: mask.x + mask.width, y: mask.y + mask.height },
+      color: DEFAULT_COLOR,
+      width: 0,
+    }));
+  const shapes: Shape[] = maskShapes();
+  let crop = { ...snapshot.crop };
+  let tool: Tool = "rect";
+  let color = DEFAULT_COLOR;
+  let draft: Shape | null = null;
+  let cropStart: Point | null = null;
+  let cropDraft: SnapshotRect | null = null;
+  let loaded = false;
+
+  const panel = document.createElement("div");
+  panel.style.fontFamily = "system-ui, -apple-system, sans-serif";
+  panel.style.fontSize = "12px";
+
+  const toolbar = document.createElement("div");
+  toolbar.style.display = "flex";
+  toolbar.style.flexWrap = "wrap";
+  toolbar.style.alignItems = "center";
+  toolbar.style.gap = "4px";
+  toolbar.style.marginBottom = "6px";
+
+  const toolButtons = new Map<Tool, HTMLButtonElement>();
+  TOOLS.forEach((option) => {
+    const button = makeToolbarButton(option.label, option.title);
+    button.addEventListener("click", () => selectTool(option.id));
+    toolButtons.set(option.id, button);
+    toolbar.appendChild(button);
+  });
+
+  const colorInput = document.createElement("input");
+  colorInput.type = "color";
+  colorInput.value = DEFAULT_COLOR;
+  colorInput.title = "Colour";
+  colorInput.style.width = "28px";
+  colorInput.style.height = "24px";
+  colorInput.style.padding = "0";
+  colorInput.style.border = "1px solid #e0d8cc";
+  colorInput.style.borderRadius = "6px";
+  colorInput.addEventListener("input", () => {
+    color = colorInput.value;
+  });
+  toolbar.appendChild(colorInput);
+
+  const undoButton = makeToolbarButton("Undo", "Remove the last annotation");
+  undoButton.addEventListener("click", () => {
+    shapes.pop();
+    render();
+  });
+  const resetButton = makeToolbarButton("Reset", "Remove all annotations and restore the crop");
+  resetButton.addEventListener("click", () => {
+    shapes.splice(0, shapes.length, ...maskShapes());
+    crop = { ...snapshot.crop };
+    render();
+  });
+  toolbar.appendChild(undoButton);
+  toolbar.appendChild(resetButton);
+
+  const canvas = document.createElement("canvas");
+  canvas.style.display = "block";
+  canvas.style.maxWidth = "100%";
+  canvas.style.maxHeight = "360px";
+  canvas.style.borderRadius = "6px";
+  canvas.style.border = "1px solid #e0d8cc";
+  canvas.style.cursor = "crosshair";
+  canvas.style.touchAction = "none";
+
+  panel.appendChild(toolbar);
+  panel.appendChild(canvas);
+
+  const strokeWidth = () =>
+    Math.round(Math.min(4, Math.max(1, Math.max(crop.width, crop.height) / 400)) * 3);
+
+  const getView = (): SnapshotRect => {
+    if (tool === "crop") return { x: 0, y: 0, width: image.width, height: image.height };
+    const marginX = Math.max(MIN_VIEW_MARGIN, crop.width * VIEW_MARGIN);
+    const marginY = Math.max(MIN_VIEW_MARGIN, crop.height * VIEW_MARGIN);
+    const x = Math.max(0, crop.x - marginX);
+    const y = Math.max(0, crop.y - marginY);
+    return {
+      x,
+      y,
+      width: Math.min(image.width, crop.x + crop.width + marginX) - x,
+      height: Math.min(image.height, crop.y + crop.height + marginY) - y,
+    };
+  };
+
+  const toImagePoint = (event: PointerEvent): Point => {
+    const view = getView();
+    const bounds = canvas.getBoundingClientRect();
+    return {
+      x: view.x + ((event.clientX - bounds.left) * view.width) / Math.max(1, bounds.width),
+      y: view.y + ((event.clientY - bounds.top) * view.height) / Math.max(1, bounds.height),
+    };
+  };
+
+  function selectTool(next: Tool) {
+    tool = next;
+    toolButtons.forEach((button, id) => {
+      button.style.background = id === tool ? "#1f1f1f" : "#ffffff";
+      button.style.color = id === tool ? "#ffffff" : "#1f1f1f";
+    });
+    render();
+  }
+
+  function render() {
+    if (!loaded) return;
+    const view = getView();
+    canvas.width = Math.max(1, Math.round(view.width));
+    canvas.height = Math.max(1, Math.round(view.height));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.save();
+    ctx.translate(-view.x, -view.y);
+    drawScene(ctx, image, draft ? [...shapes, draft] : shapes);
+    // Everything outside the crop is dimmed; it is not attached.
+    const shown = cropDraft || crop;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.45)";
+    ctx.beginPath();
+    ctx.rect(view.x, view.y, view.width, view.height);
+    ctx.rect(shown.x, shown.y, shown.width, shown.height);
+    ctx.fill("evenodd");
+    ctx.strokeStyle = "#ffffff";
+    ctx.lineWidth = Math.max(1, view.width / 600);
+    ctx.setLineDash([6, 4]);
+    ctx.strokeRect(shown.x, shown.y, shown.width, shown.height);
+    ctx.restore();
+  }
+
+  canvas.addEventListener("pointerdown", (event) => {
+    if (!loaded || event.button !== 0) return;
+    event.preventDefault();
+    const point = toImagePoint(event);
+    if (tool === "text") {
+      const text = window.prompt("Callout text");
+      if (text?.trim()) {
+        shapes.push({ tool: "text", at: point, text: text.trim(), color, width: strokeWidth() });
+        render();
+      }
+      return;
+    }
+    canvas.setPointerCapture(event.pointerId);
+    if (tool === "crop") {
+      cropStart = point;
+      return;
+    }
+    draft =
+      tool === "pen"
+        ? { tool, points: [point], color, width: strokeWidth() }
+        : { tool, from: point, to: point, color, width: strokeWidth() };
+  });
+
+  canvas.addEventListener("pointermove", (event) => {
+    if (!draft && !cropStart) return;
+    const point = toImagePoint(event);
+    if (cropStart) {
+      cropDraft = clampRect(toRect(cropStart, point), image.width, image.height);
+    } else if (draft?.tool === "pen") {
+      draft.points.push(point);
+    } else if (draft && draft.tool !== "text") {
+      draft.to = point;
+    }
+    render();
+  });
+
+  const finish = () => {
+    if (cropStart) {
+      if (cropDraft && cropDraft.width >= MIN_CROP_SIZE && cropDraft.height >= MIN_CROP_SIZE) {
+        crop = cropDraft;
+      }
+      cropStart = null;
+      cropDraft = null;
+    } else if (draft) {
+      if (draft.tool === "pen" ? draft.points.length > 1 : hasSize(draft)) shapes.push(draft);
+      draft = null;
+    }
+    render();
+  };
+  canvas.addEventListener("pointerup", finish);
+  canvas.addEventListener("pointercancel", finish);
+
+  image.addEventListener("load", () => {
+    loaded = true;
+    crop = clampRect(crop, image.width, image.height);
+    selectTool(tool);
+  });
+  image.src = snapshot.source;
+
+  return {
+    element: panel,
+    toDataUrl: () => {
+      if (!loaded) return null;
+      const output = document.createElement("canvas");
+      output.width = Math.max(1, Math.round(crop.width));
+      output.height = Math.max(1, Math.round(crop.height));
+      const ctx = output.getContext("2d");
+      if (!ctx) return null;
+      ctx.translate(-crop.x, -crop.y);
+      drawScene(ctx, image, shapes);
+      return output.toDataURL("image/png");
+    },
+  };
+}
+
+function drawScene(ctx: CanvasRenderingContext2D, image: HTMLImageElement, shapes: Shape[]): void {
+  ctx.drawImage(image, 0, 0);
+  shapes.forEach((shape) => {
+    if (shape.tool === "blur") pixelate(ctx, image, toRect(shape.from, shape.to));
+  });
+  shapes.forEach((shape) => {
+    ctx.save();
+    ctx.strokeStyle = shape.color;
+    ctx.fillStyle = shape.color;
+    ctx.lineWidth = shape.width;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    switch (shape.tool) {
+      case "rect": {
+        const rect = toRect(shape.from, shape.to);
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+        break;
+      }
+      case "arrow":
+        drawArrow(ctx, shape.from, shape.to, shape.width);
+        break;
+      case "pen":
+        ctx.beginPath();
+        shape.points.forEach((point, index) =>
+          index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)
+        );
+        ctx.stroke();
+        break;
+      case "text":
+        drawCallout(ctx, shape.at, shape.text, shape.color, shape.width);
+        break;
+      case "blur":
+        break;
+    }
+    ctx.restore();
+  });
+}
+
+/** Scales the box down to a few blocks and back up, so the text cannot be read. */
+function pixelate(ctx: CanvasRenderingContext2D, image: HTMLImageElement, rect: SnapshotRect): void {
+  const box = clampRect(rect, image.width, image.height);
+  if (box.width < 1 || box.height < 1) return;
+  const block = Math.max(MIN_BLUR_BLOCK, Math.min(box.width, box.height) / BLUR_BLOCKS);
+  const small = document.createElement("canvas");
+  small.width = Math.max(1, Math.ceil(box.width / block));
+  small.height = Math.max(1, Math.ceil(box.height / block));
+  const smallCtx = small.getContext("2d");
+  if (!smallCtx) return;
+  smallCtx.drawImage(image, box.x, box.y, box.width, box.height, 0, 0, small.width, small.height);
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, box.x, box.y, box.width, box.height);
+  ctx.restore();
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, width: number): void {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const head = width * 4 + 6;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 7), to.y - head * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 7), to.y - head * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+}
+
+function drawCallout(
+  ctx: CanvasRenderingContext2D,
+  at: Point,
+  text: string,
+  color: string,
+  width: number
+): void {
+  const size = width * 5 + 4;
+  const padding = size / 3;
+  ctx.font = `600 ${size}px system-ui, -apple-system, sans-serif`;
+  ctx.textBaseline = "top";
+  const textWidth = ctx.measureText(text).width;
+  ctx.fillStyle = color;
+  ctx.fillRect(at.x, at.y, textWidth + padding * 2, size + padding * 2);
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText(text, at.x + padding, at.y + padding);
+}
+
+function hasSize(shape: Shape): boolean {
+  if (shape.tool === "pen" || shape.tool === "text") return true;
+  return Math.abs(shape.to.x - shape.from.x) > 2 || Math.abs(shape.to.y - shape.from.y) > 2;
+}
+
+function makeToolbarButton(label: string, title: string): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.textContent = label;
+  button.title = title;
+  button.style.minWidth = "28px";
+  button.style.padding = "3px 8px";
+  button.style.borderRadius = "6px";
+  button.style.border = "1px solid #e0d8cc";
+  button.style.background = "#ffffff";
+  button.style.color = "#1f1f1f";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+  return button;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { buildTableStep, getDefaultSelection, type TabularData } from "./table";
+
+const data: TabularData = {
+  kind: "table",
+  headers: ["name", "price"],
+  rows: Array.from({ length: 25 }, (_, index) => [`Item ${index + 1}`, String(index)]),
+};
+
+describe("getDefaultSelection", () => {
+  it("selects every column and the first 20 rows", () => {
+    const selection = getDefaultSelection(data);
+    expect(selection.columns).toEqual([0, 1]);
+    expect(selection.rows).toHaveLength(20);
+  });
+});
+
+describe("buildTableStep", () => {
+  it("writes the selected cells as a data table", () => {
+    expect(buildTableStep('grid "orders"', data, { columns: [1, 0], rows: [0, 9] })).toBe(
+      [
+        'Then the table "grid \\"orders\\"" should contain:',
+        "  | price | name    |",
+        "  | 0     | Item 1  |",
+        "  | 9     | Item 10 |",
+      ].join("\n")
+    );
+  });
+
+  it("writes lists as a single item column", () => {
+    const list: TabularData = { kind: "list", headers: ["item"], rows: [["Tea | milk"]] };
+    expect(buildTableStep("list_drinks", list)).toBe(
+      'Then the table "list_drinks" should contain:\n  | item        |\n  | Tea \\| milk |'
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import { formatTableRows } from "../shared/gherkin/format";
+import { escapeDoubleQuotes, normalizeWhitespace } from "./element";
+
+export type TabularData = {
+  kind: "table" | "list";
+  /** Column names: header cells, `column N` when missing, `item` for lists. */
+  headers: string[];
+  rows: string[][];
+};
+
+export type TableSelection = {
+  columns: number[];
+  rows: number[];
+};
+
+const TABLE_ROOTS = "table, [role='table'], [role='grid'], [role='treegrid']";
+const LIST_ROOTS = "ul, ol, [role='list']";
+const CELL_ROLES = ["cell", "gridcell", "columnheader", "rowheader"];
+/** Rows kept by default; the overlay picker can add the rest back. */
+const DEFAULT_ROW_LIMIT = 20;
+
+export function isTabularRoot(element: Element): boolean {
+  return element.matches(`${TABLE_ROOTS}, ${LIST_ROOTS}`);
+}
+
+/** The nearest table, grid or list around `element`, preferring tables. */
+export function findTabularRoot(element: Element): Element | null {
+  return element.closest(TABLE_ROOTS) || element.closest(LIST_ROOTS);
+}
+
+/**
+ * Reads a table, ARIA grid or list the way the generated `readTableRows`
+ * helper does, so the captured data table matches what the step compares.
+ */
+export function readTabularData(root: Element): TabularData {
+  const text = (node: Element) => normalizeWhitespace(node.textContent || "");
+  const role = (node: Element) => node.getAttribute("role") || "";
+
+  if (root.matches(LIST_ROOTS) && !root.matches(TABLE_ROOTS)) {
+    const items = Array.from(root.children).filter(
+      (child) => child.tagName.toLowerCase() === "li" || role(child) === "listitem"
+    );
+    return { kind: "list", headers: ["item"], rows: items.map((item) => [text(item)]) };
+  }
+
+  const rows = Array.from(root.querySelectorAll("tr, [role='row']"))
+    .filter((row) => row.closest(TABLE_ROOTS) === root)
+    .map((row) =>
+      Array.from(row.children).filter(
+        (cell) =>
+          ["td", "th"].includes(cell.tagName.toLowerCase()) || CELL_ROLES.includes(role(cell))
+      )
+    )
+    .filter((cells) => cells.length > 0);
+  const isHeader = (cell: Element) =>
+    cell.tagName.toLowerCase() === "th" || role(cell) === "columnheader";
+  const headerCells = rows.length > 1 && rows[0].every(isHeader) ? rows.shift() : null;
+  const width = Math.max(headerCells?.length || 0, ...rows.map((cells) => cells.length));
+  const seen: Record<string, number> = {};
+  const headers = Array.from({ length: width }, (_, index) => {
+    const name = (headerCells?.[index] && text(headerCells[index])) || `column ${index + 1}`;
+    seen[name] = (seen[name] || 0) + 1;
+    return seen[name] > 1 ? `${name} ${seen[name]}` : name;
+  });
+  return {
+    kind: "table",
+    headers,
+    rows: rows.map((cells) => headers.map((_, index) => (cells[index] ? text(cells[index]) : ""))),
+  };
+}
+
+export function getDefaultSelection(data: TabularData): TableSelection {
+  return {
+    columns: data.headers.map((_, index) => index),
+    rows: data.rows.slice(0, DEFAULT_ROW_LIMIT).map((_, index) => index),
+  };
+}
+
+/** `Then the table "…" should contain:` followed by the selected cells. */
+export function buildTableStep(
+  elementKey: string,
+  data: TabularData,
+  selection: TableSelection = getDefaultSelection(data)
+): string {
+  const pick = (cells: string[]) => selection.columns.map((column) => cells[column] ?? "");
+  return [
+    `Then the table "${escapeDoubleQuotes(elementKey)}" should contain:`,
+    ...formatTableRows(
+      [pick(data.headers), ...selection.rows.map((row) => pick(data.rows[row]))],
+      "  "
+    ),
+  ].join("\n");
+}
+
+/**
+ * Checkboxes for the columns and rows of a captured table. At least one
+ * column always stays selected.
+ */
+export function createTablePicker(
+  data: TabularData,
+  selection: TableSelection,
+  onChange: (selection: TableSelection) => void
+): HTMLElement {
+  const columns = new Set(selection.columns);
+  const rows = new Set(selection.rows);
+  const emit = () =>
+    onChange({
+      columns: Array.from(columns).sort((a, b) => a - b),
+      rows: Array.from(rows).sort((a, b) => a - b),
+    });
+
+  const panel = document.createElement("div");
+  panel.style.marginBottom = "10px";
+  panel.style.padding = "8px 10px";
+  panel.style.borderRadius = "8px";
+  panel.style.border = "1px solid #e0d8cc";
+  panel.style.background = "#ffffff";
+  panel.style.fontSize = "12px";
+  panel.style.fontFamily = "system-ui, -apple-system, sans-serif";
+
+  const makeToggle = (label: string, set: Set<number>, index: number, keepOne: boolean) => {
+    const wrap = document.createElement("label");
+    wrap.style.display = "inline-flex";
+    wrap.style.alignItems = "center";
+    wrap.style.gap = "4px";
+    wrap.style.marginRight = "10px";
+    wrap.style.whiteSpace = "nowrap";
+    wrap.style.cursor = "pointer";
+    const box = document.createElement("input");
+    box.type = "checkbox";
+    box.checked = set.has(index);
+    box.addEventListener("change", () => {
+      if (box.checked) set.add(index);
+      else if (keepOne && set.size === 1) box.checked = true;
+      else set.delete(index);
+      emit();
+    });
+    const text = document.createElement("span");
+    text.textContent = label;
+    wrap.appendChild(box);
+    wrap.appendChild(text);
+    return { wrap, box };
+  };
+
+  if (data.kind === "table") {
+    const columnRow = document.createElement("div");
+    columnRow.style.marginBottom = "6px";
+    const title = document.createElement("strong");
+    title.textContent = "Columns ";
+    columnRow.appendChild(title);
+    data.headers.forEach((header, index) => {
+      columnRow.appendChild(makeToggle(header, columns, index, true).wrap);
+    });
+    panel.appendChild(columnRow);
+  }
+
+  const rowHeader = document.createElement("div");
+  rowHeader.style.display = "flex";
+  rowHeader.style.alignItems = "center";
+  rowHeader.style.gap = "8px";
+  rowHeader.style.marginBottom = "4px";
+  const rowTitle = document.createElement("strong");
+  rowTitle.textContent = `Rows (${data.rows.length})`;
+  rowHeader.appendChild(rowTitle);
+
+  const rowList = document.createElement("div");
+  rowList.style.maxHeight = "140px";
+  rowList.style.overflow = "auto";
+  const rowBoxes = data.rows.map((cells, index) => {
+    const preview = cells.join(" · ");
+    const toggle = makeToggle(
+      preview.length > 80 ? `${preview.slice(0, 80)}…` : preview || "(empty)",
+      rows,
+      index,
+      false
+    );
+    toggle.wrap.style.display = "flex";
+    rowList.appendChild(toggle.wrap);
+    return toggle.box;
+  });
+
+  const makeBulkButton = (label: string, checked: boolean) => {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.padding = "2px 8px";
+    button.style.borderRadius = "8px";
+    button.style.border = "1px solid #1f1f1f";
+    button.style.background = "#ffffff";
+    button.style.color = "#1f1f1f";
+    button.style.cursor = "pointer";
+    button.style.fontSize = "11px";
+    button.addEventListener("click", () => {
+      rowBoxes.forEach((box, index) => {
+        box.checked = checked;
+        if (checked) rows.add(index);
+        else rows.delete(index);
+      });
+      emit();
+    });
+    return button;
+  };
+  rowHeader.appendChild(makeBulkButton("All", true));
+  rowHeader.appendChild(makeBulkButton("None", false));
+
+  panel.appendChild(rowHeader);
+  panel.appendChild(rowList);
+  return panel;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { resolveGherkinKeywords } from "../shared/gherkin/keywords";
+import { lintGherkin } from "../shared/gherkin/lint";
+import { buildTrayFeature, type TrayState } from "./tray";
+
+function trayOf(texts: string[], names: Partial<TrayState> = {}): TrayState {
+  return {
+    open: true,
+    featureName: "",
+    scenarioName: "",
+    ...names,
+    steps: texts.map((text, index) => ({
+      id: String(index),
+      text,
+      pageKey: "cart",
+      url: "https://shop.test/cart",
+    })),
+  };
+}
+
+describe("buildTrayFeature", () => {
+  it("wraps captured steps in a scenario and collapses repeated keywords", () => {
+    const tray = trayOf([
+      'Given I am on the "cart" page',
+      'When I click "button_buy"',
+      'Then the "heading_thanks" should be visible',
+      'Then the "link_receipt" should be visible',
+      'And the "button_close" should be enabled',
+    ]);
+    expect(buildTrayFeature(tray)).toBe(
+      [
+        "Feature: Captured flow",
+        "",
+        "  Scenario: Captured flow",
+        '    Given I am on the "cart" page',
+        '    When I click "button_buy"',
+        '    Then the "heading_thanks" should be visible',
+        '    And the "link_receipt" should be visible',
+        '    And the "button_close" should be enabled',
+      ].join("\n")
+    );
+  });
+
+  it("uses the names typed into the tray", () => {
+    const feature = buildTrayFeature(
+      trayOf(['When I click "button_buy"'], { featureName: " Checkout ", scenarioName: "Buy" })
+    );
+    expect(feature).toContain("Feature: Checkout\n");
+    expect(feature).toContain("  Scenario: Buy\n");
+  });
+
+  it("writes keywords in the configured language", () => {
+    const feature = buildTrayFeature(trayOf(['Angenommen I am on the "cart" page']), "de");
+    expect(feature.split("\n").slice(0, 4)).toEqual([
+      "# language: de",
+      "Funktionalität: Captured flow",
+      "",
+      "  Szenario: Captured flow",
+    ]);
+    expect(lintGherkin(feature, resolveGherkinKeywords(feature, "en"))).toEqual([]);
+  });
+});
@@ -0,0 +1,355 @@
+import {
+  formatStepKeyword,
+  getGherkinKeywords,
+  getLanguageHeader,
+  loadGherkinConfig,
+  resolveGherkinKeywords,
+  translateGherkin,
+  type GherkinKeywords,
+  type StepKeywordType,
+} from "../shared/gherkin/keywords";
+import { tokenizeLine } from "../shared/gherkin/parser";
+
+export type TrayStep = {
+  id: string;
+  text: string;
+  pageKey: string;
+  url: string;
+};
+
+export type TrayState = {
+  open: boolean;
+  featureName: string;
+  scenarioName: string;
+  steps: TrayStep[];
+};
+
+const STORAGE_KEY = "captureTray";
+const TRAY_ID = "test-authoring-helper-tray";
+const PAGE_STEP_PATTERN = /^I am on the "(.*)" page$/;
+const LANGUAGE_LINE_PATTERN = /^#\s*language\s*:/;
+
+let state: TrayState | null = null;
+
+export function isTrayOpen(): boolean {
+  return Boolean(state?.open);
+}
+
+export async function resumeTray(): Promise<void> {
+  state = await loadState();
+  if (state.open) {
+    renderTray();
+    notifyTrayState(true);
+  }
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "local" || !(STORAGE_KEY in changes)) return;
+    const next = (changes[STORAGE_KEY].newValue as TrayState | undefined) || emptyState();
+    // Our own writes echo back here; re-rendering them would steal focus
+    // from the step being edited.
+    if (JSON.stringify(next) === JSON.stringify(state)) return;
+    state = next;
+    if (state.open) renderTray();
+    else document.getElementById(TRAY_ID)?.remove();
+    notifyTrayState(state.open);
+  });
+}
+
+export async function toggleTray(): Promise<boolean> {
+  const current = state || (await loadState());
+  state = { ...current, open: !current.open };
+  await saveState();
+  if (state.open) renderTray();
+  else document.getElementById(TRAY_ID)?.remove();
+  notifyTrayState(state.open);
+  return state.open;
+}
+
+/**
+ * Appends the Gherkin lines of a capture to the draft scenario. A page step is
+ * inserted whenever the capture comes from a different page than the previous
+ * one, so multi-page flows read as one scenario. Steps are stored with the
+ * keywords of the configured Gherkin language.
+ */
+export async function addToTray(text: string, pageKey: string, url: string): Promise<void> {
+  const current = state || (await loadState());
+  const { language } = await loadGherkinConfig();
+  const keywords = getGherkinKeywords(language);
+  state = { ...current, open: true, steps: [...current.steps] };
+  const steps = state.steps;
+  const pushPage = (key: string) => {
+    if (getCurrentPageKey(steps, keywords) === key) return;
+    const keyword = steps.length ? keywords.and[0] : keywords.given[0];
+    steps.push(createStep(`${formatStepKeyword(keyword)}I am on the "${key}" page`, key, url));
+  };
+
+  pushPage(pageKey);
+  translateGherkin(text, keywords, resolveGherkinKeywords(text, language))
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !LANGUAGE_LINE_PATTERN.test(line))
+    .forEach((line) => {
+      const page = getPageKey(line, keywords);
+      if (page) pushPage(page);
+      else steps.push(createStep(line, getCurrentPageKey(steps, keywords) || pageKey, url));
+    });
+
+  await saveState();
+  renderTray();
+  notifyTrayState(true);
+}
+
+export function buildTrayFeature(tray: TrayState, language = "en"): string {
+  const keywords = getGherkinKeywords(language);
+  let previous: StepKeywordType | null = null;
+  const lines = tray.steps.map((step) => {
+    const token = tokenizeLine(step.text, keywords);
+    if (token.type !== "step") return `    ${step.text}`;
+    const collapsed =
+      token.keywordType !== "conjunction" && token.keywordType === previous
+        ? keywords.and[0]
+        : token.keyword;
+    if (token.keywordType !== "conjunction") previous = token.keywordType;
+    return `    ${formatStepKeyword(collapsed)}${token.text}`;
+  });
+  return [
+    ...getLanguageHeader(language),
+    `${keywords.feature[0]}: ${tray.featureName.trim() || "Captured flow"}`,
+    "",
+    `  ${keywords.scenario[0]}: ${tray.scenarioName.trim() || "Captured flow"}`,
+    ...lines,
+  ].join("\n");
+}
+
+function getPageKey(line: string, keywords: GherkinKeywords): string | null {
+  const token = tokenizeLine(line, keywords);
+  return token.type === "step" ? token.text.match(PAGE_STEP_PATTERN)?.[1] ?? null : null;
+}
+
+function getCurrentPageKey(steps: TrayStep[], keywords: GherkinKeywords): string | null {
+  for (let index = steps.length - 1; index >= 0; index -= 1) {
+    const page = getPageKey(steps[index].text, keywords);
+    if (page) return page;
+  }
+  return null;
+}
+
+function createStep(text: string, pageKey: string, url: string): TrayStep {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    text,
+    pageKey,
+    url,
+  };
+}
+
+function emptyState(): TrayState {
+  return { open: false, featureName: "", scenarioName: "", steps: [] };
+}
+
+async function loadState(): Promise<TrayState> {
+  const stored = (await chrome.storage.local.get(STORAGE_KEY)) as {
+    captureTray?: TrayState;
+  };
+  return { ...emptyState(), ...stored.captureTray };
+}
+
+async function saveState(): Promise<void> {
+  if (!state) return;
+  await chrome.storage.local.set({ [STORAGE_KEY]: state });
+}
+
+async function updateState(update: (tray: TrayState) => void): Promise<void> {
+  if (!state) return;
+  state = { ...state, steps: [...state.steps] };
+  update(state);
+  await saveState();
+}
+
+function notifyTrayState(open: boolean): void {
+  chrome.runtime.sendMessage({ type: "tray:state", open }, () => {
+    void chrome.runtime.lastError;
+  });
+}
+
+function renderTray(): void {
+  if (!state) return;
+  document.getElementById(TRAY_ID)?.remove();
+  const tray = state;
+
+  const panel = document.createElement("div");
+  panel.id = TRAY_ID;
+  panel.style.position = "fixed";
+  panel.style.left = "16px";
+  panel.style.bottom = "16px";
+  panel.style.zIndex = "2147483646";
+  panel.style.width = "min(420px, 90vw)";
+  panel.style.maxHeight = "60vh";
+  panel.style.display = "flex";
+  panel.style.flexDirection = "column";
+  panel.style.background = "#ffffff";
+  panel.style.border = "1px solid #e0d8cc";
+  panel.style.borderRadius = "12px";
+  panel.style.boxShadow = "0 12px 32px rgba(0,0,0,0.25)";
+  panel.style.fontFamily = "system-ui, -apple-system, sans-serif";
+  panel.style.fontSize = "12px";
+  panel.style.color = "#1f1f1f";
+  panel.style.overflow = "hidden";
+
+  const header = document.createElement("div");
+  header.style.display = "flex";
+  header.style.alignItems = "center";
+  header.style.justifyContent = "space-between";
+  header.style.gap = "8px";
+  header.style.padding = "8px 12px";
+  header.style.background = "#1f1f1f";
+  header.style.color = "#ffffff";
+  header.style.fontWeight = "600";
+
+  const title = document.createElement("span");
+  const count = tray.steps.length;
+  title.textContent = `Capture tray · ${count} step${count === 1 ? "" : "s"}`;
+
+  const headerActions = document.createElement("div");
+  headerActions.style.display = "flex";
+  headerActions.style.gap = "6px";
+
+  const copyButton = makeButton("Copy scenario", true);
+  copyButton.addEventListener("click", async () => {
+    if (!state) return;
+    const { language } = await loadGherkinConfig();
+    await navigator.clipboard.writeText(buildTrayFeature(state, language));
+    copyButton.textContent = "Copied";
+    setTimeout(() => {
+      copyButton.textContent = "Copy scenario";
+    }, 1200);
+  });
+
+  const clearButton = makeButton("Clear", true);
+  clearButton.addEventListener("click", async () => {
+    await updateState((draft) => {
+      draft.steps = [];
+    });
+    renderTray();
+  });
+
+  const closeButton = makeButton("×", true);
+  closeButton.title = "Close tray (steps are kept)";
+  closeButton.addEventListener("click", () => {
+    void toggleTray();
+  });
+
+  headerActions.appendChild(copyButton);
+  headerActions.appendChild(clearButton);
+  headerActions.appendChild(closeButton);
+  header.appendChild(title);
+  header.appendChild(headerActions);
+
+  const body = document.createElement("div");
+  body.style.padding = "10px 12px";
+  body.style.overflow = "auto";
+  body.style.display = "flex";
+  body.style.flexDirection = "column";
+  body.style.gap = "6px";
+  body.style.background = "#f8f4ee";
+
+  const featureInput = makeInput(tray.featureName, "Feature name");
+  featureInput.addEventListener("change", () => {
+    void updateState((draft) => {
+      draft.featureName = featureInput.value;
+    });
+  });
+  const scenarioInput = makeInput(tray.scenarioName, "Scenario name");
+  scenarioInput.addEventListener("change", () => {
+    void updateState((draft) => {
+      draft.scenarioName = scenarioInput.value;
+    });
+  });
+  body.appendChild(featureInput);
+  body.appendChild(scenarioInput);
+
+  if (!tray.steps.length) {
+    const empty = document.createElement("div");
+    empty.style.color = "#4b4b4b";
+    empty.textContent = "Right-click elements to add steps. The tray stays open across pages.";
+    body.appendChild(empty);
+  }
+
+  tray.steps.forEach((step, index) => {
+    const row = document.createElement("div");
+    row.style.display = "flex";
+    row.style.gap = "4px";
+    row.style.alignItems = "center";
+
+    const input = makeInput(step.text, "Step");
+    input.style.flex = "1";
+    input.style.fontFamily =
+      "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, \"Liberation Mono\", \"Courier New\", monospace";
+    input.title = step.url;
+    input.addEventListener("change", () => {
+      void updateState((draft) => {
+        draft.steps[index] = { ...step, text: input.value.trim() };
+      });
+    });
+
+    const move = (offset: number) => async () => {
+      const target = index + offset;
+      if (target < 0 || target >= tray.steps.length) return;
+      await updateState((draft) => {
+        const [moved] = draft.steps.splice(index, 1);
+        draft.steps.splice(target, 0, moved);
+      });
+      renderTray();
+    };
+    const upButton = makeButton("↑");
+    upButton.disabled = index === 0;
+    upButton.addEventListener("click", move(-1));
+    const downButton = makeButton("↓");
+    downButton.disabled = index === tray.steps.length - 1;
+    downButton.addEventListener("click", move(1));
+    const deleteButton = makeButton("×");
+    deleteButton.title = "Delete step";
+    deleteButton.addEventListener("click", async () => {
+      await updateState((draft) => {
+        draft.steps.splice(index, 1);
+      });
+      renderTray();
+    });
+
+    row.appendChild(input);
+    row.appendChild(upButton);
+    row.appendChild(downButton);
+    row.appendChild(deleteButton);
+    body.appendChild(row);
+  });
+
+  panel.appendChild(header);
+  panel.appendChild(body);
+  document.body.appendChild(panel);
+}
+
+function makeButton(label: string, inverted = false): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.textContent = label;
+  button.style.padding = "3px 8px";
+  button.style.borderRadius = "6px";
+  button.style.border = inverted ? "1px solid #ffffff" : "1px solid #e0d8cc";
+  button.style.background = inverted ? "transparent" : "#ffffff";
+  button.style.color = inverted ? "#ffffff" : "#1f1f1f";
+  button.style.cursor = "pointer";
+  button.style.fontSize = "12px";
+  return button;
+}
+
+function makeInput(value: string, placeholder: string): HTMLInputElement {
+  const input = document.createElement("input");
+  input.type = "text";
+  input.value = value;
+  input.placeholder = placeholder;
+  input.style.padding = "6px 8px";
+  input.style.borderRadius = "6px";
+  input.style.border = "1px solid #e0d8cc";
+  input.style.fontSize = "12px";
+  input.style.background = "#ffffff";
+  input.style.color = "#1f1f1f";
+  return input;
+}
@@ -1,3 +1,81 @@
+import {
+  CODE_GENERATORS,
+  getCodeGenerator,
+  loadCodegenConfig,
+  saveCodegenConfig,
+} from "../shared/codegen";
+import {
+  buildPageObjectClassName,
+  PAGE_OBJECT_LANGUAGES,
+  renderPageObject,
+  type PageObjectLanguage,
+} from "../shared/codegen/pageObject";
+import {
+  ELEMENT_KEY_CASES,
+  ELEMENT_KEY_PREFIXES,
+  loadElementKeyConfig,
+  saveElementKeyConfig,
+  type ElementKeyCase,
+  type ElementKeyPrefix,
+} from "../shared/elementKeys";
+import {
+  GHERKIN_LANGUAGES,
+  loadGherkinConfig,
+  resolveGherkinKeywords,
+  saveGherkinConfig,
+} from "../shared/gherkin/keywords";
+import { tokenizeLine } from "../shared/gherkin/parser";
+import {
+  createJiraFieldForm,
+  getJiraFieldSources,
+  requestJiraCreateMeta,
+  type JiraFieldForm,
+} from "../shared/jiraFieldForm";
+import {
+  loadJiraFieldDefaults,
+  saveJiraFieldDefaults,
+  type JiraField,
+} from "../shared/jiraFields";
+import {
+  buildLocatorsJson,
+  buildLocatorsYaml,
+  listLocatorPages,
+  loadLocatorRepository,
+  removeDuplicateEntries,
+  removeLocatorPage,
+  saveLocatorRepository,
+  type LocatorPage,
+  type LocatorRepository,
+} from "../shared/locatorRepository";
+import {
+  formatCustomRedactions,
+  loadRedactionConfig,
+  parseCustomRedactions,
+  REDACTION_RULES,
+  saveRedactionConfig,
+  type RedactionRuleId,
+} from "../shared/redaction";
+import {
+  coversOrigin,
+  getSiteMatchPatterns,
+  loadSiteConfig,
+  parseSites,
+  saveSiteConfig,
+  toMatchPatterns,
+} from "../shared/sites";
+import {
+  addStepSource,
+  compileStepLibrary,
+  findStepMatches,
+  importStepFile,
+  loadStepLibrary,
+  removeStepSource,
+  saveStepLibrary,
+  suggestSteps,
+  type StepLibrary,
+} from "../shared/stepLibrary";
+import { renderRepositoryEntries } from "./repository";
+
 type JiraConfig = {
   baseUrl: string;
   email: string;
@@ -9,6 +87,14 @@ type AiConfig = {
   serverUrl: string;
 };
 
+const sitesEl = document.getElementById("sites") as HTMLTextAreaElement;
+const sitesAccessEl = document.getElementById("sitesAccess") as HTMLDivElement;
+const sitesStatusEl = document.getElementById("sitesStatus") as HTMLSpanElement;
+const saveSitesButton = document.getElementById("saveSites") as HTMLButtonElement;
+const redactionRulesEl = document.getElementById("redactionRules") as HTMLDivElement;
+const customRedactionsEl = document.getElementById("customRedactions") as HTMLTextAreaElement;
+const redactionStatusEl = document.getElementById("redactionStatus") as HTMLSpanElement;
+const saveRedactionButton = document.getElementById("saveRedaction") as HTMLButtonElement;
 const baseUrlEl = document.getElementById("baseUrl") as HTMLInputElement;
 const emailEl = document.getElementById("email") as HTMLInputElement;
 const tokenEl = document.getElementById("token") as HTMLInputElement;
@@ -16,9 +102,66 @@ const mappingEl = document.getElementById("mapping") as HTMLTextAreaElement;
 const statusEl = document.getElementById("status") as HTMLSpanElement;
 const saveButton = document.getElementById("save") as HTMLButtonElement;
 const testButton = document.getElementById("test") as HTMLButtonElement;
+const fieldDefaultsProjectEl = document.getElementById(
+  "fieldDefaultsProject"
+) as HTMLSelectElement;
+const fieldDefaultsIssueTypeEl = document.getElementById(
+  "fieldDefaultsIssueType"
+) as HTMLSelectElement;
+const fieldDefaultsEl = document.getElementById("fieldDefaults") as HTMLDivElement;
+const fieldDefaultsStatusEl = document.getElementById("fieldDefaultsStatus") as HTMLSpanElement;
+const saveFieldDefaultsButton = document.getElementById(
+  "saveFieldDefaults"
+) as HTMLButtonElement;
 const aiServerEl = document.getElementById("aiServer") as HTMLInputElement;
 const aiStatusEl = document.getElementById("aiStatus") as HTMLSpanElement;
 const saveAiButton = document.getElementById("saveAi") as HTMLButtonElement;
+const gherkinLanguageEl = document.getElementById("gherkinLanguage") as HTMLSelectElement;
+const gherkinStatusEl = document.getElementById("gherkinStatus") as HTMLSpanElement;
+const saveGherkinButton = document.getElementById("saveGherkin") as HTMLButtonElement;
+const keyCaseEl = document.getElementById("keyCase") as HTMLSelectElement;
+const keyPrefixEl = document.getElementById("keyPrefix") as HTMLSelectElement;
+const keyMaxLengthEl = document.getElementById("keyMaxLength") as HTMLInputElement;
+const keysStatusEl = document.getElementById("keysStatus") as HTMLSpanElement;
+const saveKeysButton = document.getElementById("saveKeys") as HTMLButtonElement;
+const frameworkEl = document.getElementById("framework") as HTMLSelectElement;
+const resolverEl = document.getElementById("resolver") as HTMLTextAreaElement;
+const codegenStatusEl = document.getElementById("codegenStatus") as HTMLSpanElement;
+const saveCodegenButton = document.getElementById("saveCodegen") as HTMLButtonElement;
+const copyResolverButton = document.getElementById("copyResolver") as HTMLButtonElement;
+const pageObjectPageEl = document.getElementById("pageObjectPage") as HTMLSelectElement;
+const pageObjectLanguageEl = document.getElementById(
+  "pageObjectLanguage"
+) as HTMLSelectElement;
+const pageObjectCodeEl = document.getElementById("pageObjectCode") as HTMLTextAreaElement;
+const pageObjectStatusEl = document.getElementById("pageObjectStatus") as HTMLSpanElement;
+const copyPageObjectButton = document.getElementById("copyPageObject") as HTMLButtonElement;
+const downloadPageObjectButton = document.getElementById(
+  "downloadPageObject"
+) as HTMLButtonElement;
+const removePageObjectButton = document.getElementById(
+  "removePageObject"
+) as HTMLButtonElement;
+
+const stepFilesEl = document.getElementById("stepFiles") as HTMLInputElement;
+const stepSourcesEl = document.getElementById("stepSources") as HTMLDivElement;
+const stepCheckEl = document.getElementById("stepCheck") as HTMLInputElement;
+const stepCheckResultEl = document.getElementById("stepCheckResult") as HTMLPreElement;
+const stepLibraryStatusEl = document.getElementById("stepLibraryStatus") as HTMLSpanElement;
+const clearStepsButton = document.getElementById("clearSteps") as HTMLButtonElement;
+const repoSiteEl = document.getElementById("repoSite") as HTMLSelectElement;
+const repoFilterEl = document.getElementById("repoFilter") as HTMLInputElement;
+const repoEntriesEl = document.getElementById("repoEntries") as HTMLDivElement;
+const repoStatusEl = document.getElementById("repoStatus") as HTMLSpanElement;
+const exportYamlButton = document.getElementById("exportYaml") as HTMLButtonElement;
+const exportJsonButton = document.getElementById("exportJson") as HTMLButtonElement;
+const dedupeRepoButton = document.getElementById("dedupeRepo") as HTMLButtonElement;
+
+let repository: LocatorRepository = {};
+let fieldDefaultsForm: JiraFieldForm | null = null;
+let fieldDefaultsFields: JiraField[] = [];
+let fieldDefaultsRequest = 0;
+let stepLibrary: StepLibrary = { definitions: [], importedAt: {} };
 
 const setStatus = (message: string, isError = false) => {
   statusEl.textContent = message;
@@ -46,6 +189,93 @@ const mappingToText = (mapping: Record<string, string>): string => {
     .join("\n");
 };
 
+/** Resolves to whether every origin is granted. Must start inside a click handler. */
+const requestOrigins = (origins: string[]): Promise<boolean> => {
+  if (origins.length === 0) return Promise.resolve(true);
+  return chrome.permissions.request({ origins }).catch(() => false);
+};
+
+const getJiraOrigins = (baseUrl: string): string[] => {
+  try {
+    return [`${new URL(baseUrl.trim()).origin}/*`];
+  } catch {
+    return [];
+  }
+};
+
+/** Saved Jira and AI server URLs, whose host access must outlive the site list. */
+const getConfiguredServerUrls = async (): Promise<string[]> => {
+  const stored = (await chrome.storage.local.get(["jiraConfig", "aiConfig"])) as {
+    jiraConfig?: Partial<JiraConfig>;
+    aiConfig?: Partial<AiConfig>;
+  };
+  return [stored.jiraConfig?.baseUrl, stored.aiConfig?.serverUrl].filter(
+    (url): url is string => Boolean(url?.trim())
+  );
+};
+
+const renderSiteAccess = async () => {
+  const waiting: string[] = [];
+  for (const site of parseSites(sitesEl.value)) {
+    const origins = toMatchPatterns(site);
+    if (origins && !(await chrome.permissions.contains({ origins }))) waiting.push(site);
+  }
+  sitesAccessEl.textContent = waiting.length
+    ? `Waiting for access: ${waiting.join(", ")}. Save again to ask Chrome.`
+    : "";
+};
+
+const loadFieldDefaultsProjects = async () => {
+  const selected = fieldDefaultsProjectEl.value;
+  const response = await chrome.runtime
+    .sendMessage({ type: "jira:list-projects" })
+    .catch(() => null);
+  fieldDefaultsProjectEl.innerHTML = "";
+  const placeholder = document.createElement("option");
+  placeholder.value = "";
+  placeholder.textContent = response?.ok ? "Select project" : "Configure Jira above first";
+  fieldDefaultsProjectEl.appendChild(placeholder);
+  const projects = (response?.ok ? response.projects : []) as { key: string; name: string }[];
+  projects.forEach((project) => {
+    const option = document.createElement("option");
+    option.value = project.key;
+    option.textContent = `${project.key} — ${project.name}`;
+    fieldDefaultsProjectEl.appendChild(option);
+  });
+  if (projects.some((project) => project.key === selected)) fieldDefaultsProjectEl.value = selected;
+  await renderFieldDefaults();
+};
+
+const renderFieldDefaults = async () => {
+  const projectKey = fieldDefaultsProjectEl.value;
+  const request = (fieldDefaultsRequest += 1);
+  fieldDefaultsForm = null;
+  fieldDefaultsFields = [];
+  fieldDefaultsEl.innerHTML = "";
+  fieldDefaultsStatusEl.textContent = "";
+  if (!projectKey) return;
+  fieldDefaultsStatusEl.textContent = "Loading fields...";
+  const [createMeta, defaults] = await Promise.all([
+    requestJiraCreateMeta(projectKey, fieldDefaultsIssueTypeEl.value),
+    loadJiraFieldDefaults(),
+  ]);
+  if (request !== fieldDefaultsRequest) return;
+  if ("error" in createMeta) {
+    fieldDefaultsStatusEl.textContent = createMeta.error;
+    fieldDefaultsStatusEl.style.color = "#b00020";
+    return;
+  }
+  fieldDefaultsFields = createMeta.fields;
+  fieldDefaultsForm = createJiraFieldForm(
+    createMeta.fields,
+    defaults[projectKey] || {},
+    getJiraFieldSources(projectKey)
+  );
+  fieldDefaultsEl.appendChild(fieldDefaultsForm.element);
+  fieldDefaultsStatusEl.textContent = `Fields for ${createMeta.issueTypeName}`;
+  fieldDefaultsStatusEl.style.color = "#1f1f1f";
+};
+
 const loadConfig = async () => {
   const stored = (await chrome.storage.local.get([
     "jiraConfig",
@@ -54,6 +284,13 @@ const loadConfig = async () => {
     jiraConfig?: JiraConfig;
     aiConfig?: AiConfig;
   };
+  sitesEl.value = (await loadSiteConfig()).sites.join("\n");
+  await renderSiteAccess();
+  const redactionConfig = await loadRedactionConfig();
+  redactionRuleInputs.forEach((input, id) => {
+    input.checked = redactionConfig.rules[id];
+  });
+  customRedactionsEl.value = formatCustomRedactions(redactionConfig.custom);
   const config = stored.jiraConfig;
   if (config) {
     baseUrlEl.value = config.baseUrl || "";
@@ -65,8 +302,186 @@ const loadConfig = async () => {
   if (aiConfig) {
     aiServerEl.value = aiConfig.serverUrl || "";
   }
+  const gherkinConfig = await loadGherkinConfig();
+  gherkinLanguageEl.value = gherkinConfig.language;
+  const keyConfig = await loadElementKeyConfig();
+  keyCaseEl.value = keyConfig.case;
+  keyPrefixEl.value = keyConfig.prefix;
+  keyMaxLengthEl.value = String(keyConfig.maxLength);
+  const codegenConfig = await loadCodegenConfig();
+  frameworkEl.value = codegenConfig.framework;
+  pageObjectLanguageEl.value =
+    codegenConfig.framework === "selenium-java" ? "java" : "typescript";
+  renderResolver();
+  stepLibrary = await loadStepLibrary();
+  renderStepLibrary();
+  await loadRepository();
+  void loadFieldDefaultsProjects();
+};
+
+const loadRepository = async () => {
+  repository = await loadLocatorRepository();
+  renderRepository();
 };
 
+const renderRepository = () => {
+  const selectedSite = repoSiteEl.value;
+  repoSiteEl.innerHTML = "";
+  ["", ...Object.keys(repository).sort()].forEach((site) => {
+    const option = document.createElement("option");
+    option.value = site;
+    option.textContent = site || "All sites";
+    repoSiteEl.appendChild(option);
+  });
+  if (repository[selectedSite]) repoSiteEl.value = selectedSite;
+  renderRepositoryEntries(
+    repoEntriesEl,
+    repository,
+    { site: repoSiteEl.value, text: repoFilterEl.value },
+    async (message) => {
+      await saveLocatorRepository(repository);
+      repoStatusEl.textContent = message;
+      renderRepository();
+    }
+  );
+
+  const selectedPage = pageObjectPageEl.value;
+  pageObjectPageEl.innerHTML = "";
+  listLocatorPages(repository).forEach((page) => {
+    const option = document.createElement("option");
+    option.value = JSON.stringify([page.site, page.pageKey]);
+    option.textContent = `${page.site} › ${page.pageKey} (${page.entries.length})`;
+    pageObjectPageEl.appendChild(option);
+  });
+  if (getSelectedPage(selectedPage)) pageObjectPageEl.value = selectedPage;
+  renderPageObjectPreview();
+};
+
+const getSelectedPage = (value = pageObjectPageEl.value): LocatorPage | null => {
+  if (!value) return null;
+  const [site, pageKey] = JSON.parse(value) as [string, string];
+  return repository[site]?.[pageKey] || null;
+};
+
+const renderPageObjectPreview = () => {
+  const page = getSelectedPage();
+  pageObjectCodeEl.value = page
+    ? renderPageObject(page, pageObjectLanguageEl.value as PageObjectLanguage)
+    : "";
+  pageObjectStatusEl.textContent = page ? "" : "No captures yet";
+};
+
+const downloadFile = (filename: string, text: string, type: string) => {
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([text], { type }));
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
+
+const renderStepLibrary = () => {
+  stepSourcesEl.innerHTML = "";
+  Object.keys(stepLibrary.importedAt)
+    .sort()
+    .forEach((source) => {
+      const count = stepLibrary.definitions.filter(
+        (definition) => definition.source === source
+      ).length;
+      const row = document.createElement("div");
+      row.className = "step-source";
+      const label = document.createElement("span");
+      label.textContent = `${source} · ${count} step${count === 1 ? "" : "s"}`;
+      const remove = document.createElement("button");
+      remove.textContent = "Remove";
+      remove.className = "secondary";
+      remove.addEventListener("click", async () => {
+        stepLibrary = removeStepSource(stepLibrary, source);
+        await saveStepLibrary(stepLibrary);
+        stepLibraryStatusEl.textContent = `Removed ${source}`;
+        renderStepLibrary();
+      });
+      row.appendChild(label);
+      row.appendChild(remove);
+      stepSourcesEl.appendChild(row);
+    });
+  renderStepCheck();
+};
+
+const renderStepCheck = () => {
+  const line = stepCheckEl.value.trim();
+  const token = tokenizeLine(line, resolveGherkinKeywords(line, gherkinLanguageEl.value));
+  const text = token.type === "step" ? token.text : line;
+  if (!text) {
+    stepCheckResultEl.textContent = "";
+    return;
+  }
+  const compiled = compileStepLibrary(stepLibrary);
+  const matches = findStepMatches(compiled, text);
+  if (matches.length) {
+    stepCheckResultEl.textContent = matches
+      .map((match) => `Matches ${match.pattern} (${match.source}:${match.line})`)
+      .join("\n");
+    return;
+  }
+  const suggestions = suggestSteps(compiled, text);
+  stepCheckResultEl.textContent = suggestions.length
+    ? ["Undefined. Closest existing steps:", ...suggestions].join("\n")
+    : "Undefined. Nothing in the library is close.";
+};
+
+const renderResolver = () => {
+  resolverEl.value = getCodeGenerator(frameworkEl.value).renderResolveLocator();
+};
+
+Object.entries(GHERKIN_LANGUAGES)
+  .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+  .forEach(([code, language]) => {
+    const option = document.createElement("option");
+    option.value = code;
+    option.textContent = `${language.name} (${language.native})`;
+    gherkinLanguageEl.appendChild(option);
+  });
+
+const redactionRuleInputs = new Map<RedactionRuleId, HTMLInputElement>();
+REDACTION_RULES.forEach((rule) => {
+  const label = document.createElement("label");
+  label.className = "check";
+  const input = document.createElement("input");
+  input.type = "checkbox";
+  label.appendChild(input);
+  label.appendChild(document.createTextNode(rule.label));
+  redactionRulesEl.appendChild(label);
+  redactionRuleInputs.set(rule.id, input);
+});
+
+ELEMENT_KEY_CASES.forEach((keyCase) => {
+  const option = document.createElement("option");
+  option.value = keyCase.id;
+  option.textContent = keyCase.label;
+  keyCaseEl.appendChild(option);
+});
+
+ELEMENT_KEY_PREFIXES.forEach((prefix) => {
+  const option = document.createElement("option");
+  option.value = prefix.id;
+  option.textContent = prefix.label;
+  keyPrefixEl.appendChild(option);
+});
+
+CODE_GENERATORS.forEach((generator) => {
+  const option = document.createElement("option");
+  option.value = generator.id;
+  option.textContent = generator.label;
+  frameworkEl.appendChild(option);
+});
+
+PAGE_OBJECT_LANGUAGES.forEach((language) => {
+  const option = document.createElement("option");
+  option.value = language.id;
+  option.textContent = language.label;
+  pageObjectLanguageEl.appendChild(option);
+});
+
 const saveConfig = async () => {
   const config: JiraConfig = {
     baseUrl: baseUrlEl.value.trim(),
@@ -84,9 +499,81 @@ const saveAiConfig = async () => {
   await chrome.storage.local.set({ aiConfig: config });
 };
 
+saveSitesButton.addEventListener("click", async () => {
+  const sites = parseSites(sitesEl.value);
+  const unreadable = sites.filter((site) => !toMatchPatterns(site));
+  sitesStatusEl.style.color = "#b00020";
+  if (unreadable.length > 0) {
+    sitesStatusEl.textContent = `Not a site: ${unreadable.join(", ")}`;
+    return;
+  }
+  const access = requestOrigins(getSiteMatchPatterns(sites));
+  const previous = getSiteMatchPatterns((await loadSiteConfig()).sites);
+  const granted = await access;
+  await saveSiteConfig({ sites });
+  // Access to removed sites is given back; the manifest's own hosts cannot be,
+  // and patterns that also cover the Jira or AI server are kept for them.
+  const kept = new Set(getSiteMatchPatterns(sites));
+  const inUse = await getConfiguredServerUrls();
+  const dropped = previous.filter(
+    (origin) => !kept.has(origin) && !inUse.some((url) => coversOrigin(origin, url))
+  );
+  if (dropped.length > 0) await chrome.permissions.remove({ origins: dropped }).catch(() => false);
+  sitesEl.value = sites.join("\n");
+  await renderSiteAccess();
+  sitesStatusEl.style.color = granted ? "#1f1f1f" : "#b00020";
+  sitesStatusEl.textContent = granted
+    ? "Saved. Reload open tabs to use the helper there."
+    : "Saved, but Chrome did not grant access.";
+});
+
+saveRedactionButton.addEventListener("click", async () => {
+  const { rules: custom, invalid } = parseCustomRedactions(customRedactionsEl.value);
+  if (invalid.length > 0) {
+    redactionStatusEl.textContent = `Not a valid pattern: ${invalid.join(", ")}`;
+    redactionStatusEl.style.color = "#b00020";
+    return;
+  }
+  const rules = Object.fromEntries(
+    Array.from(redactionRuleInputs, ([id, input]) => [id, input.checked])
+  ) as Record<RedactionRuleId, boolean>;
+  await saveRedactionConfig({ rules, custom });
+  customRedactionsEl.value = formatCustomRedactions(custom);
+  redactionStatusEl.textContent = "Saved";
+  redactionStatusEl.style.color = "#1f1f1f";
+});
+
 saveButton.addEventListener("click", async () => {
+  // Jira Cloud is in the manifest; a self-hosted Jira needs access granted.
+  const access = requestOrigins(getJiraOrigins(baseUrlEl.value));
   await saveConfig();
-  setStatus("Saved");
+  const granted = await access;
+  setStatus(granted ? "Saved" : "Saved, but Chrome did not grant access to the Jira URL.", !granted);
+  void loadFieldDefaultsProjects();
+});
+
+fieldDefaultsProjectEl.addEventListener("change", () => void renderFieldDefaults());
+fieldDefaultsIssueTypeEl.addEventListener("change", () => void renderFieldDefaults());
+
+// Only the fields on screen are updated, so defaults saved for the other
+// issue type's fields are kept.
+saveFieldDefaultsButton.addEventListener("click", async () => {
+  const projectKey = fieldDefaultsProjectEl.value;
+  if (!projectKey || !fieldDefaultsForm) {
+    fieldDefaultsStatusEl.textContent = "Choose a project first";
+    fieldDefaultsStatusEl.style.color = "#b00020";
+    return;
+  }
+  const values = fieldDefaultsForm.getValues();
+  const defaults = await loadJiraFieldDefaults();
+  const project = { ...(defaults[projectKey] || {}) };
+  fieldDefaultsFields.forEach((field) => {
+    if (values[field.key]) project[field.key] = values[field.key];
+    else delete project[field.key];
+  });
+  await saveJiraFieldDefaults({ ...defaults, [projectKey]: project });
+  fieldDefaultsStatusEl.textContent = "Saved";
+  fieldDefaultsStatusEl.style.color = "#1f1f1f";
 });
 
 saveAiButton.addEventListener("click", async () => {
@@ -94,6 +581,119 @@ saveAiButton.addEventListener("click", async () => {
   aiStatusEl.textContent = "Saved";
 });
 
+saveGherkinButton.addEventListener("click", async () => {
+  await saveGherkinConfig({ language: gherkinLanguageEl.value });
+  gherkinStatusEl.textContent = "Saved";
+});
+
+gherkinLanguageEl.addEventListener("change", renderStepCheck);
+
+saveKeysButton.addEventListener("click", async () => {
+  await saveElementKeyConfig({
+    case: keyCaseEl.value as ElementKeyCase,
+    prefix: keyPrefixEl.value as ElementKeyPrefix,
+    maxLength: Number(keyMaxLengthEl.value),
+  });
+  keyMaxLengthEl.value = String((await loadElementKeyConfig()).maxLength);
+  keysStatusEl.textContent = "Saved";
+});
+
+frameworkEl.addEventListener("change", renderResolver);
+
+saveCodegenButton.addEventListener("click", async () => {
+  await saveCodegenConfig({ framework: getCodeGenerator(frameworkEl.value).id });
+  codegenStatusEl.textContent = "Saved";
+});
+
+copyResolverButton.addEventListener("click", async () => {
+  await navigator.clipboard.writeText(resolverEl.value);
+  codegenStatusEl.textContent = "Copied";
+});
+
+stepFilesEl.addEventListener("change", async () => {
+  const files = Array.from(stepFilesEl.files || []);
+  if (!files.length) return;
+  const warnings: string[] = [];
+  let imported = 0;
+  for (const file of files) {
+    const result = importStepFile(file.name, await file.text());
+    warnings.push(...result.warnings);
+    if (!result.definitions.length) continue;
+    imported += result.definitions.length;
+    stepLibrary = addStepSource(stepLibrary, file.name, result.definitions);
+  }
+  await saveStepLibrary(stepLibrary);
+  stepFilesEl.value = "";
+  stepLibraryStatusEl.textContent = [
+    `Imported ${imported} step${imported === 1 ? "" : "s"}`,
+    ...warnings,
+  ].join(" · ");
+  renderStepLibrary();
+});
+
+stepCheckEl.addEventListener("input", renderStepCheck);
+
+clearStepsButton.addEventListener("click", async () => {
+  stepLibrary = { definitions: [], importedAt: {} };
+  await saveStepLibrary(stepLibrary);
+  stepLibraryStatusEl.textContent = "Cleared";
+  renderStepLibrary();
+});
+
+pageObjectPageEl.addEventListener("change", renderPageObjectPreview);
+pageObjectLanguageEl.addEventListener("change", renderPageObjectPreview);
+
+copyPageObjectButton.addEventListener("click", async () => {
+  if (!pageObjectCodeEl.value) return;
+  await navigator.clipboard.writeText(pageObjectCodeEl.value);
+  pageObjectStatusEl.textContent = "Copied";
+});
+
+downloadPageObjectButton.addEventListener("click", () => {
+  const page = getSelectedPage();
+  if (!pageObjectCodeEl.value || !page) return;
+  const extension = pageObjectLanguageEl.value === "java" ? "java" : "ts";
+  downloadFile(
+    `${buildPageObjectClassName(page.pageKey)}.${extension}`,
+    pageObjectCodeEl.value,
+    "text/plain"
+  );
+});
+
+removePageObjectButton.addEventListener("click", async () => {
+  const page = getSelectedPage();
+  if (!page) return;
+  removeLocatorPage(repository, page.site, page.pageKey);
+  await saveLocatorRepository(repository);
+  renderRepository();
+});
+
+repoSiteEl.addEventListener("change", renderRepository);
+repoFilterEl.addEventListener("input", renderRepository);
+
+exportYamlButton.addEventListener("click", () => {
+  downloadFile(
+    "locators.yaml",
+    buildLocatorsYaml(repository, repoSiteEl.value || undefined),
+    "application/yaml"
+  );
+});
+
+exportJsonButton.addEventListener("click", () => {
+  downloadFile(
+    "locators.json",
+    buildLocatorsJson(repository, repoSiteEl.value || undefined),
+    "application/json"
+  );
+});
+
+dedupeRepoButton.addEventListener("click", async () => {
+  const removed = removeDuplicateEntries(repository);
+  await saveLocatorRepository(repository);
+  repoStatusEl.textContent = `Removed ${removed} duplicate${removed === 1 ? "" : "s"}`;
+  renderRepository();
+});
+
 testButton.addEventListener("click", async () => {
   setStatus("Testing...");
   await saveConfig();
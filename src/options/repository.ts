@@ -0,0 +1,216 @@
+import {
+  removeLocatorEntry,
+  resolveConflict,
+  type ConflictResolution,
+  type LocatorEntry,
+  type LocatorPage,
+  type LocatorRepository,
+  type LocatorSelectors,
+} from "../shared/locatorRepository";
+
+export type RepositoryFilter = {
+  site: string;
+  text: string;
+};
+
+/**
+ * Renders the editable entry list of the locator repository. Edits mutate
+ * `repository` in place and hand it to `onChange`, which persists it.
+ */
+export function renderRepositoryEntries(
+  container: HTMLElement,
+  repository: LocatorRepository,
+  filter: RepositoryFilter,
+  onChange: (message: string) => Promise<void>
+): void {
+  container.innerHTML = "";
+  const text = filter.text.trim().toLowerCase();
+  const pages = Object.values(repository)
+    .flatMap((sitePages) => Object.values(sitePages))
+    .filter((page) => !filter.site || page.site === filter.site)
+    .sort((a, b) => a.site.localeCompare(b.site) || a.pageKey.localeCompare(b.pageKey));
+
+  let shown = 0;
+  pages.forEach((page) => {
+    const entries = page.entries.filter(
+      (entry) =>
+        !text ||
+        [page.pageKey, entry.elementKey, entry.prefer, ...entry.fallback].some((value) =>
+          value.toLowerCase().includes(text)
+        )
+    );
+    if (!entries.length) return;
+    shown += entries.length;
+
+    const heading = document.createElement("div");
+    heading.className = "repo-page";
+    heading.textContent = `${page.site} › ${page.pageKey}`;
+    container.appendChild(heading);
+
+    entries.forEach((entry) => {
+      container.appendChild(
+        renderEntry(repository, page, entry, findOtherPages(repository, page, entry), onChange)
+      );
+    });
+  });
+
+  if (!shown) {
+    const empty = document.createElement("div");
+    empty.className = "hint";
+    empty.textContent = "No saved locators match.";
+    container.appendChild(empty);
+  }
+}
+
+function renderEntry(
+  repository: LocatorRepository,
+  page: LocatorPage,
+  entry: LocatorEntry,
+  otherPages: string[],
+  onChange: (message: string) => Promise<void>
+): HTMLElement {
+  const wrap = document.createElement("div");
+  wrap.className = entry.conflict ? "repo-entry conflict" : "repo-entry";
+
+  const head = document.createElement("div");
+  head.className = "repo-entry-head";
+  const key = document.createElement("strong");
+  key.textContent = entry.elementKey;
+  const info = document.createElement("span");
+  info.className = "hint";
+  info.textContent = [
+    entry.meta.role,
+    entry.meta.name ? `"${entry.meta.name}"` : "",
+    new Date(entry.capturedAt).toLocaleString(),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+  head.appendChild(key);
+  head.appendChild(info);
+  wrap.appendChild(head);
+
+  if (otherPages.length) {
+    const duplicate = document.createElement("div");
+    duplicate.className = "hint";
+    duplicate.textContent = `Also saved on: ${otherPages.join(", ")}`;
+    wrap.appendChild(duplicate);
+  }
+
+  if (entry.conflict) {
+    wrap.appendChild(renderConflict(entry, onChange));
+  }
+
+  const preferLabel = document.createElement("label");
+  preferLabel.textContent = "Prefer";
+  const prefer = document.createElement("input");
+  prefer.value = entry.prefer;
+
+  const fallbackLabel = document.createElement("label");
+  fallbackLabel.textContent = "Fallback (one per line)";
+  const fallback = document.createElement("textarea");
+  fallback.value = entry.fallback.join("\n");
+  fallback.style.minHeight = "60px";
+
+  const row = document.createElement("div");
+  row.className = "row";
+  const save = document.createElement("button");
+  save.textContent = "Save";
+  save.addEventListener("click", async () => {
+    if (!prefer.value.trim()) return;
+    entry.prefer = prefer.value.trim();
+    entry.fallback = fallback.value
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+    await onChange(`Saved ${entry.elementKey}`);
+  });
+  const remove = document.createElement("button");
+  remove.textContent = "Delete";
+  remove.className = "secondary";
+  remove.addEventListener("click", async () => {
+    removeLocatorEntry(repository, page.site, page.pageKey, entry.elementKey);
+    await onChange(`Deleted ${entry.elementKey}`);
+  });
+  row.appendChild(save);
+  row.appendChild(remove);
+
+  wrap.appendChild(preferLabel);
+  wrap.appendChild(prefer);
+  wrap.appendChild(fallbackLabel);
+  wrap.appendChild(fallback);
+  wrap.appendChild(row);
+  return wrap;
+}
+
+function renderConflict(
+  entry: LocatorEntry,
+  onChange: (message: string) => Promise<void>
+): HTMLElement {
+  const conflict = entry.conflict as NonNullable<LocatorEntry["conflict"]>;
+  const panel = document.createElement("div");
+  panel.className = "repo-conflict";
+
+  const title = document.createElement("div");
+  title.textContent = "Recaptured with different selectors";
+  title.style.fontWeight = "600";
+  panel.appendChild(title);
+
+  const columns = document.createElement("div");
+  columns.className = "repo-columns";
+  columns.appendChild(renderSelectors("Saved", entry, entry.capturedAt));
+  columns.appendChild(renderSelectors("Recaptured", conflict, conflict.capturedAt));
+  panel.appendChild(columns);
+
+  const row = document.createElement("div");
+  row.className = "row";
+  const actions: { label: string; resolution: ConflictResolution }[] = [
+    { label: "Keep Saved", resolution: "keep" },
+    { label: "Use Recaptured", resolution: "replace" },
+    { label: "Merge", resolution: "merge" },
+  ];
+  actions.forEach(({ label, resolution }) => {
+    const button = document.createElement("button");
+    button.textContent = label;
+    if (resolution !== "merge") button.className = "secondary";
+    button.addEventListener("click", async () => {
+      resolveConflict(entry, resolution);
+      await onChange(`Resolved ${entry.elementKey}`);
+    });
+    row.appendChild(button);
+  });
+  panel.appendChild(row);
+  return panel;
+}
+
+function renderSelectors(
+  label: string,
+  selectors: LocatorSelectors,
+  capturedAt: number
+): HTMLElement {
+  const column = document.createElement("div");
+  const heading = document.createElement("div");
+  heading.className = "hint";
+  heading.textContent = `${label} · ${new Date(capturedAt).toLocaleString()}`;
+  const code = document.createElement("pre");
+  code.textContent = [
+    `prefer: ${selectors.prefer}`,
+    ...selectors.fallback.map((selector) => `- ${selector}`),
+  ].join("\n");
+  column.appendChild(heading);
+  column.appendChild(code);
+  return column;
+}
+
+function findOtherPages(
+  repository: LocatorRepository,
+  page: LocatorPage,
+  entry: LocatorEntry
+): string[] {
+  return Object.values(repository[page.site] || {})
+    .filter(
+      (other) =>
+        other.pageKey !== page.pageKey &&
+        other.entries.some((candidate) => candidate.elementKey === entry.elementKey)
+    )
+    .map((other) => other.pageKey);
+}
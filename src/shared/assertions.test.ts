@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { ASSERTION_OPTIONS, isAssertionKind } from "./assertions";
+import { getAssertionStepIds, STEP_SPECS } from "./codegen/steps";
+
+describe("ASSERTION_OPTIONS", () => {
+  it("lists each kind once, with a Then step for each", () => {
+    const kinds = ASSERTION_OPTIONS.map((option) => option.kind);
+    expect(new Set(kinds).size).toBe(kinds.length);
+    kinds.forEach((kind) => {
+      getAssertionStepIds(kind).forEach((id) => expect(STEP_SPECS[id].keyword).toBe("Then"));
+    });
+  });
+});
+
+describe("isAssertionKind", () => {
+  it("accepts only known kinds", () => {
+    expect(isAssertionKind("hasCount")).toBe(true);
+    expect(isAssertionKind("notChecked")).toBe(false);
+    expect(isAssertionKind(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+export type AssertionKind =
+  | "visible"
+  | "hidden"
+  | "hasText"
+  | "containsText"
+  | "hasValue"
+  | "enabled"
+  | "disabled"
+  | "checked"
+  | "hasAttribute"
+  | "hasCount"
+  | "tableContains"
+  | "urlEquals"
+  | "titleEquals";
+
+export type AssertionOption = {
+  kind: AssertionKind;
+  title: string;
+  summary: string;
+};
+
+/**
+ * Context menu entries under "Generate test step…", in display order. The
+ * summary is appended to the element key to form the default Jira summary.
+ */
+export const ASSERTION_OPTIONS: AssertionOption[] = [
+  { kind: "visible", title: "Assert visible", summary: "should be visible" },
+  { kind: "hidden", title: "Assert hidden", summary: "should not be visible" },
+  { kind: "hasText", title: "Assert has text", summary: "should have text" },
+  {
+    kind: "containsText",
+    title: "Assert contains text",
+    summary: "should contain text",
+  },
+  { kind: "hasValue", title: "Assert has value", summary: "should have value" },
+  { kind: "enabled", title: "Assert enabled", summary: "should be enabled" },
+  { kind: "disabled", title: "Assert disabled", summary: "should be disabled" },
+  { kind: "checked", title: "Assert checked", summary: "checked state" },
+  {
+    kind: "hasAttribute",
+    title: "Assert has attribute",
+    summary: "should have attribute",
+  },
+  { kind: "hasCount", title: "Assert has count", summary: "should have count" },
+  {
+    kind: "tableContains",
+    title: "Assert table/list contents",
+    summary: "should contain rows",
+  },
+  { kind: "urlEquals", title: "Assert URL equals", summary: "page URL" },
+  { kind: "titleEquals", title: "Assert title equals", summary: "page title" },
+];
+
+export function isAssertionKind(value: unknown): value is AssertionKind {
+  return ASSERTION_OPTIONS.some((option) => option.kind === value);
+}
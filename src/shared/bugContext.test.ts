@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  isPageMonitorMessage,
+  PAGE_MONITOR_SOURCE,
+  summarizeBugContext,
+  type BugContext,
+  type ConsoleEntry,
+} from "./bugContext";
+
+function consoleEntry(message: string): ConsoleEntry {
+  return { kind: "error", message, source: null, stack: null, time: "10:00:00" };
+}
+
+const context: BugContext = {
+  url: "https://shop.test/cart",
+  collectedAt: "2026-10-19T10:00:00.000Z",
+  environment: {
+    browser: "Chrome 130",
+    userAgent: "Mozilla/5.0",
+    platform: "macOS",
+    viewport: { width: 1280, height: 720 },
+    screen: { width: 1920, height: 1080 },
+    devicePixelRatio: 2,
+    locale: "en-GB",
+    timezone: "Europe/London",
+  },
+  console: [],
+  requests: [],
+  monitored: true,
+};
+
+describe("summarizeBugContext", () => {
+  it("describes the environment, console errors and failed requests", () => {
+    expect(
+      summarizeBugContext({
+        ...context,
+        console: [consoleEntry("TypeError: x is undefined\n    at cart.js:1")],
+        requests: [
+          {
+            api: "fetch",
+            method: "POST",
+            url: "https://shop.test/api/cart",
+            status: 500,
+            statusText: "Internal Server Error",
+            durationMs: 120,
+            time: "10:00:01",
+          },
+          {
+            api: "xhr",
+            method: "GET",
+            url: "https://cdn.test/a.js",
+            status: 0,
+            statusText: "",
+            durationMs: 3,
+            time: "10:00:02",
+          },
+        ],
+      })
+    ).toEqual([
+      "Browser: Chrome 130 (macOS)",
+      "Viewport: 1280×720 at devicePixelRatio 2, screen 1920×1080",
+      "Locale: en-GB, timezone Europe/London",
+      "User agent: Mozilla/5.0",
+      "Console errors: 1",
+      "  10:00:00 [error] TypeError: x is undefined",
+      "Failed requests: 2",
+      "  10:00:01 POST https://shop.test/api/cart → 500 Internal Server Error (120 ms)",
+      "  10:00:02 GET https://cdn.test/a.js → network error (3 ms)",
+    ]);
+  });
+
+  it("lists only the last five entries and shortens long messages", () => {
+    const lines = summarizeBugContext({
+      ...context,
+      console: [1, 2, 3, 4, 5, 6].map((index) => consoleEntry(`error ${index}`)),
+    });
+    expect(lines).toContain("Console errors: 6");
+    expect(lines).not.toContain("  10:00:00 [error] error 1");
+    expect(lines).toContain("  10:00:00 [error] error 6");
+
+    const long = summarizeBugContext({ ...context, console: [consoleEntry("x".repeat(300))] });
+    expect(long[5]).toBe(`  10:00:00 [error] ${"x".repeat(199)}…`);
+  });
+
+  it("says so when the page was not monitored", () => {
+    expect(summarizeBugContext({ ...context, monitored: false }).slice(4)).toEqual([
+      "Console errors and failed requests were not recorded; reload the page with the helper active.",
+    ]);
+  });
+});
+
+describe("isPageMonitorMessage", () => {
+  it("accepts only messages from the page monitor", () => {
+    expect(isPageMonitorMessage({ source: PAGE_MONITOR_SOURCE, type: "request", id: "1" })).toBe(
+      true
+    );
+    expect(isPageMonitorMessage({ source: "other", type: "request" })).toBe(false);
+    expect(isPageMonitorMessage(null)).toBe(false);
+    expect(isPageMonitorMessage("test-authoring-helper-monitor")).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+export type ConsoleEntry = {
+  kind: "console" | "error" | "rejection";
+  message: string;
+  /** `file:line:column` for uncaught errors. */
+  source: string | null;
+  stack: string | null;
+  time: string;
+};
+
+export type FailedRequest = {
+  api: "fetch" | "xhr";
+  method: string;
+  url: string;
+  /** 0 when the request never got a response. */
+  status: number;
+  statusText: string;
+  durationMs: number;
+  time: string;
+};
+
+export type BugEnvironment = {
+  browser: string;
+  userAgent: string;
+  platform: string;
+  viewport: { width: number; height: number };
+  screen: { width: number; height: number };
+  devicePixelRatio: number;
+  locale: string;
+  timezone: string;
+};
+
+export type BugContext = {
+  url: string;
+  collectedAt: string;
+  environment: BugEnvironment;
+  console: ConsoleEntry[];
+  requests: FailedRequest[];
+  /** False when the page monitor did not answer, e.g. on a page loaded before the helper. */
+  monitored: boolean;
+};
+
+/** window.postMessage channel between the page monitor and the content script. */
+export const PAGE_MONITOR_SOURCE = "test-authoring-helper-monitor";
+export const PAGE_MONITOR_LIMIT = 50;
+
+export type PageMonitorMessage =
+  | { source: typeof PAGE_MONITOR_SOURCE; type: "request"; id: string }
+  | {
+      source: typeof PAGE_MONITOR_SOURCE;
+      type: "report";
+      id: string;
+      console: ConsoleEntry[];
+      requests: FailedRequest[];
+    };
+
+export function isPageMonitorMessage(data: unknown): data is PageMonitorMessage {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === PAGE_MONITOR_SOURCE
+  );
+}
+
+/** Lines for the ticket description; the full entries go into the JSON attachment. */
+export function summarizeBugContext(context: BugContext): string[] {
+  const env = context.environment;
+  const lines = [
+    `Browser: ${env.browser}${env.platform ? ` (${env.platform})` : ""}`,
+    `Viewport: ${env.viewport.width}×${env.viewport.height} at devicePixelRatio ${env.devicePixelRatio}, screen ${env.screen.width}×${env.screen.height}`,
+    `Locale: ${env.locale}, timezone ${env.timezone}`,
+    `User agent: ${env.userAgent}`,
+  ];
+  if (!context.monitored) {
+    lines.push("Console errors and failed requests were not recorded; reload the page with the helper active.");
+    return lines;
+  }
+  lines.push(`Console errors: ${context.console.length}`);
+  context.console.slice(-5).forEach((entry) => {
+    lines.push(`  ${entry.time} [${entry.kind}] ${firstLine(entry.message)}`);
+  });
+  lines.push(`Failed requests: ${context.requests.length}`);
+  context.requests.slice(-5).forEach((request) => {
+    const status = request.status ? `${request.status} ${request.statusText}`.trim() : "network error";
+    lines.push(`  ${request.time} ${request.method} ${request.url} → ${status} (${request.durationMs} ms)`);
+  });
+  return lines;
+}
+
+function firstLine(text: string): string {
+  const line = text.split("\n")[0];
+  return line.length > 200 ? `${line.slice(0, 199)}…` : line;
+}
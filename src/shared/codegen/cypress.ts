@@ -0,0 +1,137 @@
+import { selectorParserSource } from "./parser";
+import { usesElementKey } from "./steps";
+import { tableHelperSource } from "./table";
+import { textTemplateSource, usesTextTemplate } from "./textTemplate";
+import type { CodeGenerator, StepBodies } from "./types";
+
+const BODIES: StepBodies = {
+  visible: ['resolveLocator(elementKey).should("be.visible");'],
+  hidden: ['resolveLocator(elementKey).should("not.be.visible");'],
+  hasText: ['resolveLocator(elementKey).should("have.text", text);'],
+  containsText: ['resolveLocator(elementKey).should("contain.text", text);'],
+  hasTextMatching: [
+    'resolveLocator(elementKey).invoke("text").should("match", textTemplatePattern(template, true));',
+  ],
+  containsTextMatching: [
+    'resolveLocator(elementKey).invoke("text").should("match", textTemplatePattern(template, false));',
+  ],
+  hasValue: ['resolveLocator(elementKey).should("have.value", value);'],
+  enabled: ['resolveLocator(elementKey).should("be.enabled");'],
+  disabled: ['resolveLocator(elementKey).should("be.disabled");'],
+  checked: ['resolveLocator(elementKey).should("be.checked");'],
+  notChecked: ['resolveLocator(elementKey).should("not.be.checked");'],
+  hasAttribute: ['resolveLocator(elementKey).should("have.attr", name, value);'],
+  hasCount: ['resolveLocator(elementKey).should("have.length", count);'],
+  tableContains: [
+    "resolveLocator(elementKey).should(($root) => {",
+    '  expect(findTableMismatch(readTableRows($root[0]), dataTable.raw())).to.equal("");',
+    "});",
+  ],
+  urlEquals: ['cy.url().should("eq", url);'],
+  titleEquals: ['cy.title().should("eq", title);'],
+  click: ["resolveLocator(elementKey).click();"],
+  fill: ["resolveLocator(elementKey).clear().type(value);"],
+  select: ["resolveLocator(elementKey).select(option);"],
+  check: ["resolveLocator(elementKey).check();"],
+  uncheck: ["resolveLocator(elementKey).uncheck();"],
+  submit: ["resolveLocator(elementKey).submit();"],
+  navigate: ["cy.visit(path);"],
+  formValid: [`cy.get(":invalid, [aria-invalid='true']").should("not.exist");`],
+  formInvalid: [`resolveLocator(elementKey).find(":invalid, [aria-invalid='true']").should("exist");`],
+};
+
+export const cypressCucumber: CodeGenerator = {
+  id: "cypress-cucumber",
+  label: "Cypress + cucumber-preprocessor",
+  language: "javascript",
+  renderStepDefinitions: (specs) => {
+    const blocks = specs.map((spec) =>
+      [
+        `${spec.keyword}("${spec.pattern}", (${spec.params
+          .map((param) => param.name)
+          .join(", ")}) => {`,
+        ...BODIES[spec.id].map((line) => `  ${line}`),
+        "});",
+      ].join("\n")
+    );
+    const needsLocator = specs.some(usesElementKey);
+    const keywords = Array.from(new Set(specs.map((spec) => spec.keyword)));
+    return [
+      "// Add once in your step definitions",
+      `import { ${keywords.join(", ")} } from "@badeball/cypress-cucumber-preprocessor";`,
+      ...(needsLocator ? ['import { resolveLocator } from "../support/resolveLocator";'] : []),
+      "",
+      blocks.join("\n\n"),
+      ...(specs.some((spec) => spec.id === "tableContains") ? ["", tableHelperSource(false)] : []),
+      ...(usesTextTemplate(specs) ? ["", textTemplateSource(false)] : []),
+    ].join("\n");
+  },
+  renderResolveLocator: () =>
+    [
+      "// Requires @testing-library/cypress for the findBy* commands.",
+      'import yaml from "js-yaml";',
+      "",
+      selectorParserSource(false),
+      "",
+      "function escapeRegExp(value) {",
+      '  return value.replace(/[.*+?^${}()|[\\]\\\\]/g, "\\\\$&");',
+      "}",
+      "",
+      "function textMatcher(value, exact, regex) {",
+      "  if (regex) return new RegExp(value);",
+      '  return exact ? value : new RegExp(escapeRegExp(value), "i");',
+      "}",
+      "",
+      "/** A quoted CSS string, so quotes and backslashes in the value stay literal. */",
+      "function cssString(value) {",
+      '  return `"${value.replace(/["\\\\]/g, "\\\\$&")}"`;',
+      "}",
+      "",
+      "function findCss(chain, selector) {",
+      '  return selector.split(" >> ").reduce((current, part) => {',
+      "    const options = { includeShadowDom: true };",
+      "    return current ? current.find(part, options) : cy.get(part, options);",
+      "  }, chain);",
+      "}",
+      "",
+      "function applyCall(chain, call) {",
+      "  const scope = chain || cy;",
+      "  switch (call.method) {",
+      '    case "frameLocator":',
+      "      return findCss(chain, call.value)",
+      '        .its("0.contentDocument.body")',
+      '        .should("not.be.empty")',
+      "        .then(cy.wrap);",
+      '    case "getByRole":',
+      "      return scope.findByRole(",
+      "        call.value,",
+      "        call.name ? { name: textMatcher(call.name, call.exact, call.regex) } : {}",
+      "      );",
+      '    case "getByLabel":',
+      "      return scope.findByLabelText(textMatcher(call.value, call.exact));",
+      '    case "getByPlaceholder":',
+      "      return scope.findByPlaceholderText(textMatcher(call.value, call.exact));",
+      '    case "getByTestId":',
+      "      return findCss(chain, `[data-testid=${cssString(call.value)}]`);",
+      '    case "getByText":',
+      "      return scope.findByText(textMatcher(call.value, call.exact, call.regex));",
+      "    default:",
+      "      return findCss(chain, call.value);",
+      "  }",
+      "}",
+      "",
+      "/**",
+      " * Resolves an elementKey from locators.yaml to a Cypress chain, using",
+      " * `prefer` and falling back to the first fallback entry.",
+      " */",
+      "export function resolveLocator(elementKey) {",
+      '  const file = Cypress.env("LOCATORS_FILE") || "locators.yaml";',
+      "  return cy.readFile(file).then((text) => {",
+      "    const entry = (yaml.load(text) || {})[elementKey];",
+      "    const selector = entry?.prefer || entry?.fallback?.[0];",
+      "    if (!selector) throw new Error(`No locator mapped for \"${elementKey}\"`);",
+      "    return parseSelector(selector).reduce(applyCall, null);",
+      "  });",
+      "}",
+    ].join("\n"),
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { CODE_GENERATORS, getCodeGenerator, renderStepDefinitions } from "./index";
+import { selectorParserSource } from "./parser";
+
+/** Pulls a top-level JavaScript function out of generated helper source. */
+function extractFunction(source: string, name: string): string {
+  const start = source.indexOf(`function ${name}(`);
+  const end = source.indexOf("\n}\n", start);
+  return source.slice(start, end + 2);
+}
+
+function evaluate<T>(source: string, name: string): T {
+  return new Function(`${source.replace(/^export /gm, "")}\nreturn ${name};`)() as T;
+}
+
+describe("getCodeGenerator", () => {
+  it("falls back to the first generator for unknown ids", () => {
+    expect(getCodeGenerator("nope").id).toBe(CODE_GENERATORS[0].id);
+    expect(getCodeGenerator("selenium-java").id).toBe("selenium-java");
+  });
+});
+
+describe("renderStepDefinitions", () => {
+  it("types Playwright TypeScript steps with a World", () => {
+    const source = renderStepDefinitions("playwright-cucumber-ts", ["visible", "fill"]);
+    expect(source).toContain('import { Then, When } from "@cucumber/cucumber";');
+    expect(source).toContain('import { expect, type Page } from "@playwright/test";');
+    expect(source).toContain('import { resolveLocator } from "./resolveLocator";');
+    expect(source).toContain("interface World {");
+    expect(source).toContain(
+      "Then('the {string} should be visible', async function (this: World, elementKey: string) {"
+    );
+    expect(source).toContain(
+      "When('I fill {string} with {string}', async function (this: World, elementKey: string, value: string) {"
+    );
+  });
+
+  it("leaves Playwright JavaScript steps untyped", () => {
+    const source = renderStepDefinitions("playwright-cucumber-js", ["visible"]);
+    expect(source).not.toContain("World");
+    expect(source).toContain('import { Then } from "@cucumber/cucumber";');
+    expect(source).toContain('import { expect } from "@playwright/test";');
+    expect(source).toContain("async function (elementKey) {");
+  });
+
+  it("imports resolveLocator only when a step uses an element", () => {
+    const source = renderStepDefinitions("playwright-cucumber-js", ["urlEquals"]);
+    expect(source).not.toContain("resolveLocator");
+  });
+
+  it("writes each step once", () => {
+    const source = renderStepDefinitions("playwright-cucumber-js", ["visible", "visible"]);
+    expect(source.match(/should be visible/g)).toHaveLength(1);
+  });
+
+  it("annotates Selenium steps with the Cucumber expression", () => {
+    const source = renderStepDefinitions("selenium-java", ["visible"]);
+    expect(source).toContain('@Then("the {string} should be visible")');
+    expect(source).toContain("public void theElementShouldBeVisible(String elementKey) {");
+  });
+});
+
+describe("renderResolveLocator", () => {
+  it.each(["cypress-cucumber", "webdriverio"])("quotes CSS values for %s", (id) => {
+    const source = getCodeGenerator(id).renderResolveLocator();
+    const cssString = evaluate<(value: string) => string>(
+      extractFunction(source, "cssString"),
+      "cssString"
+    );
+    expect(cssString('say "hi"')).toBe('"say \\"hi\\""');
+    expect(cssString("a\\b")).toBe('"a\\\\b"');
+  });
+
+  it("quotes CSS values for Selenium", () => {
+    const source = getCodeGenerator("selenium-java").renderResolveLocator();
+    expect(source).toContain("private static String cssString(String value) {");
+    expect(source).toContain('By.cssSelector("[data-testid=" + cssString(value) + "]")');
+  });
+});
+
+describe("selectorParserSource", () => {
+  type SelectorCall = { method: string; value: string; name?: string; exact: boolean; regex: boolean };
+  const parseSelector = evaluate<(selector: string) => SelectorCall[]>(
+    selectorParserSource(false),
+    "parseSelector"
+  );
+
+  it("splits chained calls", () => {
+    expect(
+      parseSelector("frameLocator('iframe').getByRole('button', { name: 'Add', exact: true })")
+    ).toEqual([
+      { method: "frameLocator", value: "iframe", name: undefined, exact: false, regex: false },
+      { method: "getByRole", value: "button", name: "Add", exact: true, regex: false },
+    ]);
+  });
+
+  it("keeps escaped quotes and regular expressions", () => {
+    expect(parseSelector("getByText('It\\'s done')")[0].value).toBe("It's done");
+    expect(parseSelector("getByText(/total \\d+/)")[0]).toMatchObject({
+      value: "total \\d+",
+      regex: true,
+    });
+  });
+
+  it("treats anything else as CSS", () => {
+    expect(parseSelector("#main >> button")).toEqual([
+      { method: "locator", value: "#main >> button", exact: false, regex: false },
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { cypressCucumber } from "./cypress";
+import { playwrightCucumberJs, playwrightCucumberTs, playwrightTest } from "./playwright";
+import { seleniumJava } from "./selenium";
+import { getStepSpecs, type StepId } from "./steps";
+import type { CodeGenerator, FrameworkId } from "./types";
+import { webdriverIo } from "./webdriverio";
+
+export { getAssertionStepIds, type StepId } from "./steps";
+export type { CodeGenerator, FrameworkId } from "./types";
+
+export type CodegenConfig = {
+  framework: FrameworkId;
+};
+
+export const DEFAULT_FRAMEWORK: FrameworkId = "playwright-cucumber-ts";
+
+export const CODE_GENERATORS: CodeGenerator[] = [
+  playwrightCucumberTs,
+  playwrightCucumberJs,
+  playwrightTest,
+  cypressCucumber,
+  webdriverIo,
+  seleniumJava,
+];
+
+export function getCodeGenerator(id?: string): CodeGenerator {
+  return (
+    CODE_GENERATORS.find((generator) => generator.id === id) ||
+    CODE_GENERATORS[0]
+  );
+}
+
+export function renderStepDefinitions(framework: string | undefined, ids: StepId[]): string {
+  return getCodeGenerator(framework).renderStepDefinitions(getStepSpecs(ids));
+}
+
+export async function loadCodegenConfig(): Promise<CodegenConfig> {
+  const data = await chrome.storage.local.get("codegenConfig");
+  const stored = data.codegenConfig as Partial<CodegenConfig> | undefined;
+  return { framework: getCodeGenerator(stored?.framework).id };
+}
+
+export async function saveCodegenConfig(config: CodegenConfig): Promise<void> {
+  await chrome.storage.local.set({ codegenConfig: config });
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { LocatorEntry, LocatorPage } from "../locatorRepository";
+import {
+  buildPageObjectClassName,
+  getPageObjectLanguage,
+  renderPageObject,
+} from "./pageObject";
+
+function entry(elementKey: string, role: string | null, prefer: string): LocatorEntry {
+  return {
+    elementKey,
+    prefer,
+    fallback: [],
+    capturedAt: 0,
+    meta: { url: "https://shop.test/cart", title: "Cart", role, name: null, html: "" },
+  };
+}
+
+const page: LocatorPage = {
+  site: "shop.test",
+  pageKey: "cart",
+  url: "https://shop.test/cart",
+  updatedAt: 0,
+  entries: [
+    entry("button_add_to_cart", "button", "getByRole('button', { name: 'Add to cart' })"),
+    entry("textbox_quantity", "textbox", "#qty"),
+    entry("combobox_size", "combobox", "getByLabel('Size')"),
+    entry("checkbox_gift", "checkbox", "input[name='gift']"),
+    entry("heading_total", "heading", "h2"),
+  ],
+};
+
+describe("buildPageObjectClassName", () => {
+  it("turns page keys into class names ending in Page", () => {
+    expect(buildPageObjectClassName("checkout-summary")).toBe("CheckoutSummaryPage");
+    expect(buildPageObjectClassName("LoginPage")).toBe("LoginPage");
+    expect(buildPageObjectClassName("404")).toBe("Page404Page");
+    expect(buildPageObjectClassName("")).toBe("HomePage");
+  });
+});
+
+describe("getPageObjectLanguage", () => {
+  it("uses Java only for Selenium", () => {
+    expect(getPageObjectLanguage("selenium-java")).toBe("java");
+    expect(getPageObjectLanguage("cypress-cucumber")).toBe("typescript");
+  });
+});
+
+describe("renderPageObject", () => {
+  it("renders Playwright getters and actions by role", () => {
+    const source = renderPageObject(page, "typescript");
+    expect(source).toContain("export class CartPage {");
+    expect(source).toContain("return this.page.getByRole('button', { name: 'Add to cart' });");
+    expect(source).toContain("return this.page.locator('input[name=\\'gift\\']');");
+    expect(source).toContain("async clickAddToCart(): Promise<void> {");
+    expect(source).toContain("async fillQuantity(value: string): Promise<void> {");
+    expect(source).toContain("await this.comboboxSize.selectOption({ label: option });");
+    expect(source).toContain("async uncheckGift(): Promise<void> {");
+    expect(source).not.toMatch(/async \w+Total\(/);
+  });
+
+  it("renders Selenium page objects that resolve through the repository", () => {
+    const source = renderPageObject(page, "java");
+    expect(source).toContain("import org.openqa.selenium.support.ui.Select;");
+    expect(source).toContain("public class CartPage {");
+    expect(source).toContain('return locators.find(driver, "button_add_to_cart");');
+    expect(source).toContain("new Select(comboboxSize()).selectByVisibleText(option);");
+    expect(source).toContain("if (!checkboxGift().isSelected()) checkboxGift().click();");
+  });
+
+  it("gives clashing element names distinct getters", () => {
+    const source = renderPageObject(
+      { ...page, entries: [entry("save", "button", "#a"), entry("Save", "button", "#b")] },
+      "typescript"
+    );
+    expect(source).toContain("get save(): Locator {");
+    expect(source).toContain("get save2(): Locator {");
+  });
+
+  it("keeps comment terminators out of the header", () => {
+    const source = renderPageObject({ ...page, pageKey: "a*/b" }, "typescript");
+    expect(source).toContain("/** a*\\/b (https://shop.test/cart) */");
+  });
+});
@@ -0,0 +1,248 @@
+import type { LocatorEntry, LocatorPage } from "../locatorRepository";
+import type { FrameworkId } from "./types";
+
+export type PageObjectLanguage = "typescript" | "java";
+
+export const PAGE_OBJECT_LANGUAGES: { id: PageObjectLanguage; label: string }[] = [
+  { id: "typescript", label: "TypeScript (Playwright)" },
+  { id: "java", label: "Java (Selenium)" },
+];
+
+type ActionKind = "click" | "fill" | "select" | "check";
+
+const ROLE_ACTIONS: Record<string, ActionKind> = {
+  button: "click",
+  link: "click",
+  menuitem: "click",
+  menuitemcheckbox: "click",
+  menuitemradio: "click",
+  option: "click",
+  tab: "click",
+  treeitem: "click",
+  textbox: "fill",
+  searchbox: "fill",
+  spinbutton: "fill",
+  combobox: "select",
+  listbox: "select",
+  checkbox: "check",
+  radio: "check",
+  switch: "check",
+};
+
+type NamedElement = {
+  element: LocatorEntry;
+  getter: string;
+  /** Suffix for action methods, e.g. `AddToCart` in `clickAddToCart`. */
+  action: string;
+  kind: ActionKind | null;
+};
+
+/** Java gets Selenium page objects; every other framework gets Playwright's. */
+export function getPageObjectLanguage(framework: FrameworkId): PageObjectLanguage {
+  return framework === "selenium-java" ? "java" : "typescript";
+}
+
+export function renderPageObject(
+  page: LocatorPage,
+  language: PageObjectLanguage
+): string {
+  return language === "java"
+    ? renderJavaPageObject(page)
+    : renderPlaywrightPageObject(page);
+}
+
+export function buildPageObjectClassName(pageKey: string): string {
+  const base = toPascalCase(pageKey) || "Home";
+  const name = /^[0-9]/.test(base) ? `Page${base}` : base;
+  return name.endsWith("Page") ? name : `${name}Page`;
+}
+
+function renderPlaywrightPageObject(page: LocatorPage): string {
+  const elements = nameElements(page.entries);
+  const getters = elements.map(({ element, getter }) =>
+    [
+      `  get ${getter}(): Locator {`,
+      `    return this.page.${toPlaywrightCall(element.prefer)};`,
+      "  }",
+    ].join("\n")
+  );
+  const actions = elements.flatMap(({ getter, action, kind }) => {
+    switch (kind) {
+      case "click":
+        return [method(`async click${action}(): Promise<void>`, `await this.${getter}.click();`)];
+      case "fill":
+        return [
+          method(
+            `async fill${action}(value: string): Promise<void>`,
+            `await this.${getter}.fill(value);`
+          ),
+        ];
+      case "select":
+        return [
+          method(
+            `async select${action}(option: string): Promise<void>`,
+            `await this.${getter}.selectOption({ label: option });`
+          ),
+        ];
+      case "check":
+        return [
+          method(`async check${action}(): Promise<void>`, `await this.${getter}.check();`),
+          method(`async uncheck${action}(): Promise<void>`, `await this.${getter}.uncheck();`),
+        ];
+      default:
+        return [];
+    }
+  });
+
+  return [
+    'import type { Locator, Page } from "@playwright/test";',
+    "",
+    `/** ${escapeComment(page.pageKey)} (${escapeComment(page.url)}) */`,
+    `export class ${buildPageObjectClassName(page.pageKey)} {`,
+    "  constructor(private readonly page: Page) {}",
+    "",
+    [...getters, ...actions].join("\n\n"),
+    "}",
+  ].join("\n");
+}
+
+function renderJavaPageObject(page: LocatorPage): string {
+  const elements = nameElements(page.entries);
+  const getters = elements.map(({ element, getter }) =>
+    [
+      `    /** ${escapeComment(element.prefer)} */`,
+      `    public WebElement ${getter}() {`,
+      `        return locators.find(driver, ${JSON.stringify(element.elementKey)});`,
+      "    }",
+    ].join("\n")
+  );
+  const javaMethod = (signature: string, body: string) =>
+    method(signature, body, "    ");
+  const actions = elements.flatMap(({ getter, action, kind }) => {
+    switch (kind) {
+      case "click":
+        return [javaMethod(`public void click${action}()`, `${getter}().click();`)];
+      case "fill":
+        return [
+          javaMethod(
+            `public void fill${action}(String value)`,
+            `WebElement element = ${getter}();\nelement.clear();\nelement.sendKeys(value);`
+          ),
+        ];
+      case "select":
+        return [
+          javaMethod(
+            `public void select${action}(String option)`,
+            `new Select(${getter}()).selectByVisibleText(option);`
+          ),
+        ];
+      case "check":
+        return [
+          javaMethod(
+            `public void check${action}()`,
+            `if (!${getter}().isSelected()) ${getter}().click();`
+          ),
+          javaMethod(
+            `public void uncheck${action}()`,
+            `if (${getter}().isSelected()) ${getter}().click();`
+          ),
+        ];
+      default:
+        return [];
+    }
+  });
+  const className = buildPageObjectClassName(page.pageKey);
+
+  return [
+    "import org.openqa.selenium.WebDriver;",
+    "import org.openqa.selenium.WebElement;",
+    ...(elements.some(({ kind }) => kind === "select")
+      ? ["import org.openqa.selenium.support.ui.Select;"]
+      : []),
+    "",
+    "/**",
+    ` * ${escapeComment(page.pageKey)} (${escapeComment(page.url)})`,
+    " * Elements resolve through LocatorRepository and the exported locators.yaml.",
+    " */",
+    `public class ${className} {`,
+    "    private final WebDriver driver;",
+    "    private final LocatorRepository locators;",
+    "",
+    `    public ${className}(WebDriver driver, LocatorRepository locators) {`,
+    "        this.driver = driver;",
+    "        this.locators = locators;",
+    "    }",
+    "",
+    [...getters, ...actions].join("\n\n"),
+    "}",
+  ].join("\n");
+}
+
+function method(signature: string, body: string, indent = "  "): string {
+  return [
+    `${indent}${signature} {`,
+    ...body.split("\n").map((line) => `${indent}${indent}${line}`),
+    `${indent}}`,
+  ].join("\n");
+}
+
+function nameElements(elements: LocatorEntry[]): NamedElement[] {
+  const used = new Set<string>();
+  const unique = (name: string) => {
+    let candidate = name;
+    for (let index = 2; used.has(candidate); index += 1) {
+      candidate = `${name}${index}`;
+    }
+    used.add(candidate);
+    return candidate;
+  };
+  return elements.map((element) => {
+    const getter = unique(toCamelCase(element.elementKey) || "element");
+    const role = element.meta.role;
+    const rolePrefix = role ? `${role}_` : "";
+    const label = element.elementKey.startsWith(rolePrefix)
+      ? element.elementKey.slice(rolePrefix.length)
+      : element.elementKey;
+    const action = toPascalCase(label) || toPascalCase(getter);
+    return {
+      element,
+      getter,
+      action,
+      kind: (role && ROLE_ACTIONS[role]) || null,
+    };
+  });
+}
+
+/**
+ * Stored selectors are Playwright locator expressions
+ * (`getByRole(...)`, `frameLocator(...).locator(...)`) or bare CSS.
+ */
+function toPlaywrightCall(selector: string): string {
+  if (/^(frameLocator|getBy[A-Za-z]+)\(/.test(selector)) return selector;
+  return `locator('${selector.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}')`;
+}
+
+function toWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function toPascalCase(value: string): string {
+  return toWords(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+}
+
+function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  if (!pascal) return "";
+  const camel = pascal[0].toLowerCase() + pascal.slice(1);
+  return /^[0-9]/.test(camel) ? `element${pascal}` : camel;
+}
+
+function escapeComment(value: string): string {
+  return value.replace(/\*\//g, "*\\/");
+}
@@ -0,0 +1,102 @@
+/**
+ * Source of the selector parser embedded in every JavaScript/TypeScript
+ * `resolveLocator` helper. It splits the strings written by `formatSelector`
+ * (`frameLocator('iframe').getByRole('button', { name: 'Add' })`, bare CSS,
+ * `host >> inner` shadow chains) into a list of calls. A `/…/` name or text
+ * is a regular expression source; `regex` is set and the source is kept as is.
+ */
+export function selectorParserSource(typed: boolean): string {
+  const t = (annotation: string) => (typed ? annotation : "");
+  return [
+    ...(typed
+      ? [
+          "type SelectorCall = {",
+          "  method: string;",
+          "  value: string;",
+          "  name?: string;",
+          "  exact: boolean;",
+          "  regex: boolean;",
+          "};",
+          "",
+        ]
+      : []),
+    "const CALL_PATTERN =",
+    "  /^(frameLocator|getByRole|getByLabel|getByPlaceholder|getByTestId|getByText|locator)\\(/;",
+    "",
+    `function unescape(value${t(": string")})${t(": string")} {`,
+    '  return value.replace(/\\\\(.)/g, "$1");',
+    "}",
+    "",
+    `export function parseSelector(selector${t(": string")})${t(": SelectorCall[]")} {`,
+    `  const calls${t(": SelectorCall[]")} = [];`,
+    "  let rest = selector.trim();",
+    "  let match = rest.match(CALL_PATTERN);",
+    "  while (match) {",
+    "    const method = match[1];",
+    "    let index = method.length + 1;",
+    "    let quoted = false;",
+    "    let pattern = false;",
+    "    let depth = 1;",
+    "    for (; index < rest.length && depth > 0; index += 1) {",
+    "      const char = rest[index];",
+    '      if (char === "\\\\") {',
+    "        index += 1;",
+    "        continue;",
+    "      }",
+    `      if (char === "'" && !pattern) quoted = !quoted;`,
+    '      else if (char === "/" && !quoted) pattern = !pattern;',
+    '      else if (!quoted && !pattern && char === "(") depth += 1;',
+    '      else if (!quoted && !pattern && char === ")") depth -= 1;',
+    "    }",
+    "    const args = rest.slice(method.length + 1, index - 1);",
+    "    const value = args.match(/^(?:'((?:\\\\.|[^'\\\\])*)'|\\/((?:\\\\.|[^/\\\\])*)\\/)/);",
+    "    const name = args.match(/name:\\s*(?:'((?:\\\\.|[^'\\\\])*)'|\\/((?:\\\\.|[^/\\\\])*)\\/)/);",
+    "    calls.push({",
+    "      method,",
+    '      value: value ? value[2] ?? unescape(value[1]) : "",',
+    "      name: name ? name[2] ?? unescape(name[1]) : undefined,",
+    "      exact: /exact:\\s*true/.test(args),",
+    "      regex: value?.[2] !== undefined || name?.[2] !== undefined,",
+    "    });",
+    '    rest = rest.slice(index).replace(/^\\./, "");',
+    "    match = rest.match(CALL_PATTERN);",
+    "  }",
+    '  if (rest) calls.push({ method: "locator", value: rest, exact: false, regex: false });',
+    "  return calls;",
+    "}",
+  ].join("\n");
+}
+
+/**
+ * Source of the YAML loader shared by the Node-based helpers. The mapping
+ * file is the `locators.yaml` exported from the extension (or the mapping
+ * blocks attached to Jira tickets, concatenated).
+ */
+export function repositoryLoaderSource(typed: boolean): string {
+  const t = (annotation: string) => (typed ? annotation : "");
+  return [
+    ...(typed
+      ? [
+          "type LocatorEntry = {",
+          "  prefer?: string;",
+          "  fallback?: string[];",
+          "};",
+          "",
+        ]
+      : []),
+    `let repository${t(": Record<string, LocatorEntry> | null")} = null;`,
+    "",
+    `export function getSelectors(elementKey${t(": string")})${t(": string[]")} {`,
+    "  if (!repository) {",
+    '    const file = process.env.LOCATORS_FILE || "locators.yaml";',
+    `    repository = (yaml.load(fs.readFileSync(file, "utf-8")) || {})${t(
+      " as Record<\n      string,\n      LocatorEntry\n    >"
+    )};`,
+    "  }",
+    "  const entry = repository[elementKey];",
+    "  if (!entry) throw new Error(`No locator mapped for \"${elementKey}\"`);",
+    "  return [entry.prefer, ...(entry.fallback || [])].filter(Boolean)" +
+      `${t(" as string[]")};`,
+    "}",
+  ].join("\n");
+}
@@ -0,0 +1,209 @@
+import { repositoryLoaderSource, selectorParserSource } from "./parser";
+import { usesElementKey, type StepSpec } from "./steps";
+import { tableHelperSource } from "./table";
+import { textTemplateSource, usesTextTemplate } from "./textTemplate";
+import type { CodeGenerator, StepBodies } from "./types";
+
+const HEADER = "// Add once in your step definitions";
+
+/**
+ * Bodies for Cucumber steps (`this.page`, `dataTable.raw()`) and plain
+ * functions (`page`, rows passed as `string[][]`).
+ */
+function playwrightBodies(page: string, typed: boolean, rows: string): StepBodies {
+  const asForm = typed ? " as HTMLFormElement" : "";
+  return {
+    visible: ["await expect(locator).toBeVisible();"],
+    hidden: ["await expect(locator).toBeHidden();"],
+    hasText: ["await expect(locator).toHaveText(text);"],
+    containsText: ["await expect(locator).toContainText(text);"],
+    hasTextMatching: ["await expect(locator).toHaveText(textTemplatePattern(template, true));"],
+    containsTextMatching: ["await expect(locator).toHaveText(textTemplatePattern(template, false));"],
+    hasValue: ["await expect(locator).toHaveValue(value);"],
+    enabled: ["await expect(locator).toBeEnabled();"],
+    disabled: ["await expect(locator).toBeDisabled();"],
+    checked: ["await expect(locator).toBeChecked();"],
+    notChecked: ["await expect(locator).not.toBeChecked();"],
+    hasAttribute: ["await expect(locator).toHaveAttribute(name, value);"],
+    hasCount: ["await expect(locator).toHaveCount(count);"],
+    tableContains: [
+      `await expect.poll(async () => findTableMismatch(await locator.evaluate(readTableRows), ${rows})).toBe("");`,
+    ],
+    urlEquals: [`await expect(${page}).toHaveURL(url);`],
+    titleEquals: [`await expect(${page}).toHaveTitle(title);`],
+    click: ["await locator.click();"],
+    fill: ["await locator.fill(value);"],
+    select: ["await locator.selectOption({ label: option });"],
+    check: ["await locator.check();"],
+    uncheck: ["await locator.uncheck();"],
+    submit: [`await locator.evaluate((form) => (form${asForm}).requestSubmit());`],
+    navigate: [`await ${page}.goto(path);`],
+    formValid: [`await expect(${page}.locator(":invalid, [aria-invalid='true']")).toHaveCount(0);`],
+    formInvalid: [`await expect(locator.locator(":invalid, [aria-invalid='true']")).not.toHaveCount(0);`],
+  };
+}
+
+function renderParams(spec: StepSpec, typed: boolean, tableType = "DataTable"): string {
+  return spec.params
+    .map((param) => {
+      if (!typed) return param.name;
+      if (param.type === "table") return `${param.name}: ${tableType}`;
+      return `${param.name}: ${param.type === "int" ? "number" : "string"}`;
+    })
+    .join(", ");
+}
+
+function renderHelpers(specs: StepSpec[], typed: boolean): string[] {
+  return [
+    ...(specs.some((spec) => spec.id === "tableContains") ? ["", tableHelperSource(typed)] : []),
+    ...(usesTextTemplate(specs) ? ["", textTemplateSource(typed)] : []),
+  ];
+}
+
+/**
+ * Step callbacks read the page from Cucumber's World. TypeScript needs that
+ * spelled out as a `this` parameter, or `strict` rejects the implicit `any`.
+ */
+const WORLD_SOURCE = [
+  "// Replace with your own World type if you have one.",
+  "interface World {",
+  "  page: Page;",
+  "}",
+  "",
+].join("\n");
+
+function renderCucumberSteps(specs: StepSpec[], typed: boolean): string {
+  const bodies = playwrightBodies("this.page", typed, "dataTable.raw()");
+  const blocks = specs.map((spec) => {
+    const params = [...(typed ? ["this: World"] : []), renderParams(spec, typed)]
+      .filter(Boolean)
+      .join(", ");
+    return [
+      `${spec.keyword}('${spec.pattern}', async function (${params}) {`,
+      ...(usesElementKey(spec)
+        ? ["  const locator = resolveLocator(this.page, elementKey);"]
+        : []),
+      ...bodies[spec.id].map((line) => `  ${line}`),
+      "});",
+    ].join("\n");
+  });
+  const keywords = Array.from(new Set(specs.map((spec) => spec.keyword)));
+  return [
+    HEADER,
+    `import { ${keywords.join(", ")} } from "@cucumber/cucumber";`,
+    typed
+      ? 'import { expect, type Page } from "@playwright/test";'
+      : 'import { expect } from "@playwright/test";',
+    ...(specs.some(usesElementKey) ? ['import { resolveLocator } from "./resolveLocator";'] : []),
+    "",
+    ...(typed ? [WORLD_SOURCE] : []),
+    blocks.join("\n\n"),
+    ...renderHelpers(specs, typed),
+  ].join("\n");
+}
+
+function renderPlaywrightResolver(typed: boolean): string {
+  const t = (annotation: string) => (typed ? annotation : "");
+  return [
+    'import fs from "node:fs";',
+    'import yaml from "js-yaml";',
+    ...(typed
+      ? ['import type { FrameLocator, Locator, Page } from "@playwright/test";']
+      : []),
+    "",
+    repositoryLoaderSource(typed),
+    "",
+    selectorParserSource(typed),
+    "",
+    "/**",
+    " * Resolves an elementKey from locators.yaml to a Playwright locator,",
+    " * using `prefer` and falling back to the first fallback entry.",
+    " */",
+    `export function resolveLocator(page${t(": Page")}, elementKey${t(
+      ": string"
+    )})${t(": Locator")} {`,
+    "  const [selector] = getSelectors(elementKey);",
+    `  let scope${t(": Page | FrameLocator | Locator")} = page;`,
+    "  for (const call of parseSelector(selector)) {",
+    "    const options = call.exact ? { exact: true } : undefined;",
+    "    switch (call.method) {",
+    '      case "frameLocator":',
+    "        scope = scope.frameLocator(call.value);",
+    "        break;",
+    '      case "getByRole":',
+    `        scope = scope.getByRole(call.value${t(
+      ' as Parameters<Page["getByRole"]>[0]'
+    )}, {`,
+    "          name: call.regex && call.name ? new RegExp(call.name) : call.name,",
+    "          exact: call.exact || undefined,",
+    "        });",
+    "        break;",
+    '      case "getByLabel":',
+    "        scope = scope.getByLabel(call.value, options);",
+    "        break;",
+    '      case "getByPlaceholder":',
+    "        scope = scope.getByPlaceholder(call.value, options);",
+    "        break;",
+    '      case "getByTestId":',
+    "        scope = scope.getByTestId(call.value);",
+    "        break;",
+    '      case "getByText":',
+    "        scope = scope.getByText(call.regex ? new RegExp(call.value) : call.value, options);",
+    "        break;",
+    "      default:",
+    "        scope = scope.locator(call.value);",
+    "    }",
+    "  }",
+    `  return scope${t(" as Locator")};`,
+    "}",
+  ].join("\n");
+}
+
+export const playwrightCucumberTs: CodeGenerator = {
+  id: "playwright-cucumber-ts",
+  label: "Playwright + Cucumber (TypeScript)",
+  language: "typescript",
+  renderStepDefinitions: (specs) => renderCucumberSteps(specs, true),
+  renderResolveLocator: () => renderPlaywrightResolver(true),
+};
+
+export const playwrightCucumberJs: CodeGenerator = {
+  id: "playwright-cucumber-js",
+  label: "Playwright + Cucumber (JavaScript)",
+  language: "javascript",
+  renderStepDefinitions: (specs) => renderCucumberSteps(specs, false),
+  renderResolveLocator: () => renderPlaywrightResolver(false),
+};
+
+/**
+ * Plain Playwright Test has no step registry, so every step becomes a named
+ * helper that specs can call directly.
+ */
+export const playwrightTest: CodeGenerator = {
+  id: "playwright-test",
+  label: "Playwright Test",
+  language: "typescript",
+  renderStepDefinitions: (specs) => {
+    const bodies = playwrightBodies("page", true, "dataTable");
+    const blocks = specs.map((spec) =>
+      [
+        `// ${spec.keyword} ${spec.pattern}`,
+        `export async function ${spec.method}(page: Page, ${renderParams(spec, true, "string[][]")}) {`,
+        ...(usesElementKey(spec)
+          ? ["  const locator = resolveLocator(page, elementKey);"]
+          : []),
+        ...bodies[spec.id].map((line) => `  ${line}`),
+        "}",
+      ].join("\n")
+    );
+    return [
+      HEADER,
+      'import { expect, type Page } from "@playwright/test";',
+      'import { resolveLocator } from "./resolveLocator";',
+      "",
+      blocks.join("\n\n"),
+      ...renderHelpers(specs, true),
+    ].join("\n");
+  },
+  renderResolveLocator: () => renderPlaywrightResolver(true),
+};
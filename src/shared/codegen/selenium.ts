@@ -0,0 +1,310 @@
+import type { StepSpec } from "./steps";
+import { readTableRowsJavaLiteral } from "./table";
+import { TEXT_TEMPLATE_JAVA, usesTextTemplate } from "./textTemplate";
+import type { CodeGenerator, StepBodies } from "./types";
+
+const ELEMENT = "WebElement element = locators.find(driver, elementKey);";
+
+const BODIES: StepBodies = {
+  visible: [ELEMENT, "assertTrue(element.isDisplayed());"],
+  hidden: [
+    "assertTrue(locators.findAll(driver, elementKey).stream().noneMatch(WebElement::isDisplayed));",
+  ],
+  hasText: [ELEMENT, "assertEquals(text, element.getText().trim());"],
+  containsText: [ELEMENT, "assertTrue(element.getText().contains(text));"],
+  hasTextMatching: [ELEMENT, "assertTrue(textTemplatePattern(template, true).matcher(element.getText()).find());"],
+  containsTextMatching: [
+    ELEMENT,
+    "assertTrue(textTemplatePattern(template, false).matcher(element.getText()).find());",
+  ],
+  hasValue: [ELEMENT, 'assertEquals(value, element.getDomProperty("value"));'],
+  enabled: [ELEMENT, "assertTrue(element.isEnabled());"],
+  disabled: [ELEMENT, "assertFalse(element.isEnabled());"],
+  checked: [ELEMENT, "assertTrue(element.isSelected());"],
+  notChecked: [ELEMENT, "assertFalse(element.isSelected());"],
+  hasAttribute: [ELEMENT, "assertEquals(value, element.getDomAttribute(name));"],
+  hasCount: ["assertEquals(count, locators.findAll(driver, elementKey).size());"],
+  tableContains: [
+    ELEMENT,
+    "@SuppressWarnings(\"unchecked\")",
+    "List<List<String>> actual = (List<List<String>>) ((JavascriptExecutor) driver).executeScript(READ_TABLE_ROWS, element);",
+    'assertEquals("", findTableMismatch(actual, dataTable.asLists()));',
+  ],
+  urlEquals: ["assertEquals(url, driver.getCurrentUrl());"],
+  titleEquals: ["assertEquals(title, driver.getTitle());"],
+  click: [ELEMENT, "element.click();"],
+  fill: [ELEMENT, "element.clear();", "element.sendKeys(value);"],
+  select: [ELEMENT, "new Select(element).selectByVisibleText(option);"],
+  check: [ELEMENT, "if (!element.isSelected()) element.click();"],
+  uncheck: [ELEMENT, "if (element.isSelected()) element.click();"],
+  submit: [ELEMENT, "element.submit();"],
+  navigate: ['driver.navigate().to(System.getenv().getOrDefault("BASE_URL", "") + path);'],
+  formValid: [`assertTrue(driver.findElements(By.cssSelector(":invalid, [aria-invalid='true']")).isEmpty());`],
+  formInvalid: [ELEMENT, `assertFalse(element.findElements(By.cssSelector(":invalid, [aria-invalid='true']")).isEmpty());`],
+};
+
+const PARAM_TYPES = { string: "String", int: "int", table: "DataTable" };
+
+/**
+ * Same comparison as the JavaScript `findTableMismatch`. Cucumber-JVM turns
+ * empty data table cells into null, so null is compared as "".
+ */
+const TABLE_HELPERS = [
+  `    private static final String READ_TABLE_ROWS = ${readTableRowsJavaLiteral()};`,
+  "",
+  "    private static String findTableMismatch(List<List<String>> actual, List<List<String>> expected) {",
+  "        List<String> actualHeader = actual.get(0);",
+  "        List<String> expectedHeader = expected.get(0);",
+  "        int[] columns = new int[expectedHeader.size()];",
+  "        for (int cell = 0; cell < columns.length; cell++) {",
+  "            columns[cell] = actualHeader.indexOf(expectedHeader.get(cell));",
+  "            if (columns[cell] < 0) {",
+  '                return "Column \\"" + expectedHeader.get(cell) + "\\" not found in " + actualHeader;',
+  "            }",
+  "        }",
+  "        int from = 1;",
+  "        for (List<String> row : expected.subList(1, expected.size())) {",
+  "            int found = -1;",
+  "            for (int index = from; index < actual.size() && found < 0; index++) {",
+  "                boolean matches = true;",
+  "                for (int cell = 0; cell < columns.length; cell++) {",
+  '                    String value = row.get(cell) == null ? "" : row.get(cell);',
+  "                    matches &= value.equals(actual.get(index).get(columns[cell]));",
+  "                }",
+  "                if (matches) found = index;",
+  "            }",
+  "            if (found < 0) {",
+  '                return "Row " + row + " not found in order in " + actual.subList(1, actual.size());',
+  "            }",
+  "            from = found + 1;",
+  "        }",
+  '        return "";',
+  "    }",
+];
+
+function renderParams(spec: StepSpec): string {
+  return spec.params.map((param) => `${PARAM_TYPES[param.type]} ${param.name}`).join(", ");
+}
+
+export const seleniumJava: CodeGenerator = {
+  id: "selenium-java",
+  label: "Selenium Java + Cucumber-JVM",
+  language: "java",
+  renderStepDefinitions: (specs) => {
+    const keywords = Array.from(new Set(specs.map((spec) => spec.keyword)));
+    const hasTable = specs.some((spec) => spec.id === "tableContains");
+    const hasTemplate = usesTextTemplate(specs);
+    const methods = specs.map((spec) =>
+      [
+        `    @${spec.keyword}("${spec.pattern}")`,
+        `    public void ${spec.method}(${renderParams(spec)}) {`,
+        ...BODIES[spec.id].map((line) => `        ${line}`),
+        "    }",
+      ].join("\n")
+    );
+    return [
+      "// Add once in your step definitions",
+      ...keywords.map((keyword) => `import io.cucumber.java.en.${keyword};`),
+      ...(hasTable ? ["import io.cucumber.datatable.DataTable;", "import java.util.List;"] : []),
+      ...(hasTemplate ? ["import java.util.regex.Matcher;", "import java.util.regex.Pattern;"] : []),
+      ...(specs.some((spec) => spec.id === "formValid" || spec.id === "formInvalid")
+        ? ["import org.openqa.selenium.By;"]
+        : []),
+      ...(hasTable ? ["import org.openqa.selenium.JavascriptExecutor;"] : []),
+      "import org.openqa.selenium.WebDriver;",
+      "import org.openqa.selenium.WebElement;",
+      ...(specs.some((spec) => spec.id === "select")
+        ? ["import org.openqa.selenium.support.ui.Select;"]
+        : []),
+      "import static org.junit.jupiter.api.Assertions.*;",
+      "",
+      "public class GeneratedSteps {",
+      "    // Provide the driver from your hooks or dependency injection container.",
+      "    private final WebDriver driver = DriverHolder.get();",
+      "    private final LocatorRepository locators = LocatorRepository.load();",
+      "",
+      methods.join("\n\n"),
+      ...(hasTable ? ["", ...TABLE_HELPERS] : []),
+      ...(hasTemplate ? ["", ...TEXT_TEMPLATE_JAVA] : []),
+      "}",
+    ].join("\n");
+  },
+  renderResolveLocator: () =>
+    [
+      "import java.io.InputStream;",
+      "import java.nio.file.Files;",
+      "import java.nio.file.Path;",
+      "import java.util.ArrayList;",
+      "import java.util.List;",
+      "import java.util.Map;",
+      "import java.util.regex.Matcher;",
+      "import java.util.regex.Pattern;",
+      "import org.openqa.selenium.By;",
+      "import org.openqa.selenium.SearchContext;",
+      "import org.openqa.selenium.WebDriver;",
+      "import org.openqa.selenium.WebElement;",
+      "import org.yaml.snakeyaml.Yaml;",
+      "",
+      "/**",
+      " * Resolves elementKeys from locators.yaml to Selenium elements, using",
+      " * `prefer` and falling back to the first fallback entry.",
+      " */",
+      "public class LocatorRepository {",
+      "    private static final Pattern CALL = Pattern.compile(",
+      '        "^\\\\.?(frameLocator|getByRole|getByLabel|getByPlaceholder|getByTestId|getByText|locator)\\\\((?:\'((?:\\\\\\\\.|[^\'\\\\\\\\])*)\'|/((?:\\\\\\\\.|[^/\\\\\\\\])*)/)(?:,\\\\s*\\\\{([^}]*)\\\\})?\\\\)");',
+      '    private static final Pattern NAME = Pattern.compile("name:\\\\s*(?:\'((?:\\\\\\\\.|[^\'\\\\\\\\])*)\'|/((?:\\\\\\\\.|[^/\\\\\\\\])*)/)");',
+      "",
+      "    private final Map<String, Map<String, Object>> entries;",
+      "",
+      "    private LocatorRepository(Map<String, Map<String, Object>> entries) {",
+      "        this.entries = entries;",
+      "    }",
+      "",
+      "    public static LocatorRepository load() {",
+      '        String file = System.getenv().getOrDefault("LOCATORS_FILE", "locators.yaml");',
+      "        try (InputStream input = Files.newInputStream(Path.of(file))) {",
+      "            Map<String, Map<String, Object>> entries = new Yaml().load(input);",
+      "            return new LocatorRepository(entries == null ? Map.of() : entries);",
+      "        } catch (Exception error) {",
+      '            throw new IllegalStateException("Unable to read " + file, error);',
+      "        }",
+      "    }",
+      "",
+      "    public WebElement find(WebDriver driver, String elementKey) {",
+      "        List<WebElement> matches = findAll(driver, elementKey);",
+      "        if (matches.isEmpty()) {",
+      '            throw new IllegalStateException("No element found for \\"" + elementKey + "\\"");',
+      "        }",
+      "        return matches.get(0);",
+      "    }",
+      "",
+      "    public List<WebElement> findAll(WebDriver driver, String elementKey) {",
+      "        driver.switchTo().defaultContent();",
+      "        SearchContext scope = driver;",
+      "        String rest = selectorFor(elementKey).trim();",
+      "        Matcher match = CALL.matcher(rest);",
+      "        while (match.find()) {",
+      "            String method = match.group(1);",
+      "            // Pattern selectors keep their regular expression source as is.",
+      "            boolean regex = match.group(3) != null;",
+      "            String value = regex ? match.group(3) : unescape(match.group(2));",
+      '            String options = match.group(4) == null ? "" : match.group(4);',
+      '            boolean exact = options.matches(".*exact:\\\\s*true.*");',
+      "            rest = rest.substring(match.end());",
+      '            if (method.equals("frameLocator")) {',
+      "                driver.switchTo().frame(findCss(scope, value).get(0));",
+      "                scope = driver;",
+      "            } else if (rest.isEmpty()) {",
+      "                return findBy(scope, method, value, options, exact, regex);",
+      "            } else {",
+      "                scope = findBy(scope, method, value, options, exact, regex).get(0);",
+      "            }",
+      "            match = CALL.matcher(rest);",
+      "        }",
+      "        return findCss(scope, rest);",
+      "    }",
+      "",
+      "    private String selectorFor(String elementKey) {",
+      "        Map<String, Object> entry = entries.get(elementKey);",
+      "        if (entry == null) {",
+      '            throw new IllegalStateException("No locator mapped for \\"" + elementKey + "\\"");',
+      "        }",
+      '        Object prefer = entry.get("prefer");',
+      "        if (prefer != null) return prefer.toString();",
+      '        List<?> fallback = (List<?>) entry.getOrDefault("fallback", List.of());',
+      "        return fallback.get(0).toString();",
+      "    }",
+      "",
+      "    private List<WebElement> findBy(",
+      "            SearchContext scope, String method, String value, String options, boolean exact,",
+      "            boolean regex) {",
+      "        switch (method) {",
+      '            case "getByRole": {',
+      "                Matcher name = NAME.matcher(options);",
+      '                String xpath = ".//*[@role=" + literal(value) + " or " + implicitRole(value) + "]";',
+      "                List<WebElement> matches = scope.findElements(By.xpath(xpath));",
+      "                if (!name.find()) return matches;",
+      "                Pattern pattern = name.group(2) == null ? null : Pattern.compile(name.group(2));",
+      '                String expected = name.group(1) == null ? "" : unescape(name.group(1));',
+      "                List<WebElement> named = new ArrayList<>();",
+      "                for (WebElement element : matches) {",
+      '                    String accessible = element.getAccessibleName();',
+      "                    if (pattern != null ? pattern.matcher(accessible).find()",
+      "                            : exact ? accessible.equals(expected)",
+      "                            : accessible.toLowerCase().contains(expected.toLowerCase())) {",
+      "                        named.add(element);",
+      "                    }",
+      "                }",
+      "                return named;",
+      "            }",
+      '            case "getByLabel":',
+      "                return scope.findElements(By.xpath(",
+      '                    ".//*[@id=//label[" + textTest(exact, value) + "]/@for or @aria-label=" + literal(value)',
+      '                        + "] | .//label[" + textTest(exact, value) + "]//*[self::input or self::select or self::textarea]"));',
+      '            case "getByPlaceholder":',
+      "                return scope.findElements(By.cssSelector(exact",
+      '                    ? "[placeholder=" + cssString(value) + "]"',
+      '                    : "[placeholder*=" + cssString(value) + " i]"));',
+      '            case "getByTestId":',
+      '                return scope.findElements(By.cssSelector("[data-testid=" + cssString(value) + "]"));',
+      '            case "getByText": {',
+      "                if (!regex) {",
+      '                    return scope.findElements(By.xpath(".//*[" + textTest(exact, value) + "]"));',
+      "                }",
+      "                Pattern pattern = Pattern.compile(value);",
+      "                List<WebElement> matches = new ArrayList<>();",
+      '                for (WebElement element : scope.findElements(By.xpath(".//*[text()[normalize-space()]]"))) {',
+      "                    if (pattern.matcher(element.getText().trim()).find()) matches.add(element);",
+      "                }",
+      "                return matches;",
+      "            }",
+      "            default:",
+      "                return findCss(scope, value);",
+      "        }",
+      "    }",
+      "",
+      "    /** Follows `host >> inner` chains through open shadow roots. */",
+      "    private static List<WebElement> findCss(SearchContext scope, String selector) {",
+      '        String[] parts = selector.split(" >> ");',
+      "        SearchContext current = scope;",
+      "        for (int index = 0; index < parts.length - 1; index += 1) {",
+      "            current = current.findElement(By.cssSelector(parts[index])).getShadowRoot();",
+      "        }",
+      "        return current.findElements(By.cssSelector(parts[parts.length - 1]));",
+      "    }",
+      "",
+      "    private static String implicitRole(String role) {",
+      "        switch (role) {",
+      '            case "button": return "self::button or (self::input and (@type=\'submit\' or @type=\'button\'))";',
+      '            case "link": return "(self::a and @href)";',
+      '            case "heading": return "self::h1 or self::h2 or self::h3 or self::h4 or self::h5 or self::h6";',
+      '            case "checkbox": return "(self::input and @type=\'checkbox\')";',
+      '            case "radio": return "(self::input and @type=\'radio\')";',
+      '            case "combobox": return "self::select";',
+      '            case "textbox": return "self::textarea or (self::input and (not(@type) or @type=\'text\' or @type=\'email\'))";',
+      '            default: return "false()";',
+      "        }",
+      "    }",
+      "",
+      "    private static String textTest(boolean exact, String value) {",
+      "        return exact",
+      '            ? "normalize-space(text())=" + literal(value)',
+      '            : "contains(normalize-space(text()), " + literal(value) + ")";',
+      "    }",
+      "",
+      "    private static String literal(String value) {",
+      "        if (!value.contains(\"'\")) return \"'\" + value + \"'\";",
+      "        return \"concat('\" + value.replace(\"'\", \"', \\\"'\\\", '\") + \"')\";",
+      "    }",
+      "",
+      "    /** A quoted CSS string, so quotes and backslashes in the value stay literal. */",
+      "    private static String cssString(String value) {",
+      '        return "\\"" + value.replace("\\\\", "\\\\\\\\").replace("\\"", "\\\\\\"") + "\\"";',
+      "    }",
+      "",
+      "    private static String unescape(String value) {",
+      '        return value.replaceAll("\\\\\\\\(.)", "$1");',
+      "    }",
+      "}",
+    ].join("\n"),
+};
@@ -0,0 +1,233 @@
+import type { AssertionKind } from "../assertions";
+
+export type StepId =
+  | AssertionKind
+  | "notChecked"
+  | "hasTextMatching"
+  | "containsTextMatching"
+  | "click"
+  | "fill"
+  | "select"
+  | "check"
+  | "uncheck"
+  | "submit"
+  | "navigate"
+  | "formValid"
+  | "formInvalid";
+
+export type StepParam = {
+  name: string;
+  /** "table" is the Gherkin data table attached to the step. */
+  type: "string" | "int" | "table";
+};
+
+export type StepSpec = {
+  id: StepId;
+  keyword: "When" | "Then";
+  pattern: string;
+  params: StepParam[];
+  method: string;
+};
+
+const elementKey: StepParam = { name: "elementKey", type: "string" };
+const text = (name: string): StepParam => ({ name, type: "string" });
+const dataTable: StepParam = { name: "dataTable", type: "table" };
+
+/**
+ * Framework-neutral description of every step the extension generates. The
+ * patterns are Cucumber Expressions and must stay in sync with the lines
+ * built by `buildThenLine` and `buildRecordedStepLines`.
+ */
+export const STEP_SPECS: Record<StepId, StepSpec> = {
+  visible: {
+    id: "visible",
+    keyword: "Then",
+    pattern: "the {string} should be visible",
+    params: [elementKey],
+    method: "theElementShouldBeVisible",
+  },
+  hidden: {
+    id: "hidden",
+    keyword: "Then",
+    pattern: "the {string} should not be visible",
+    params: [elementKey],
+    method: "theElementShouldNotBeVisible",
+  },
+  hasText: {
+    id: "hasText",
+    keyword: "Then",
+    pattern: "the {string} should have text {string}",
+    params: [elementKey, text("text")],
+    method: "theElementShouldHaveText",
+  },
+  containsText: {
+    id: "containsText",
+    keyword: "Then",
+    pattern: "the {string} should contain text {string}",
+    params: [elementKey, text("text")],
+    method: "theElementShouldContainText",
+  },
+  // Templates use {int}, {float} and {string} for values that change
+  // between runs, such as prices, dates and order numbers.
+  hasTextMatching: {
+    id: "hasTextMatching",
+    keyword: "Then",
+    pattern: "the {string} should have text matching {string}",
+    params: [elementKey, text("template")],
+    method: "theElementShouldHaveTextMatching",
+  },
+  containsTextMatching: {
+    id: "containsTextMatching",
+    keyword: "Then",
+    pattern: "the {string} should contain text matching {string}",
+    params: [elementKey, text("template")],
+    method: "theElementShouldContainTextMatching",
+  },
+  hasValue: {
+    id: "hasValue",
+    keyword: "Then",
+    pattern: "the {string} should have value {string}",
+    params: [elementKey, text("value")],
+    method: "theElementShouldHaveValue",
+  },
+  enabled: {
+    id: "enabled",
+    keyword: "Then",
+    pattern: "the {string} should be enabled",
+    params: [elementKey],
+    method: "theElementShouldBeEnabled",
+  },
+  disabled: {
+    id: "disabled",
+    keyword: "Then",
+    pattern: "the {string} should be disabled",
+    params: [elementKey],
+    method: "theElementShouldBeDisabled",
+  },
+  checked: {
+    id: "checked",
+    keyword: "Then",
+    pattern: "the {string} should be checked",
+    params: [elementKey],
+    method: "theElementShouldBeChecked",
+  },
+  notChecked: {
+    id: "notChecked",
+    keyword: "Then",
+    pattern: "the {string} should not be checked",
+    params: [elementKey],
+    method: "theElementShouldNotBeChecked",
+  },
+  hasAttribute: {
+    id: "hasAttribute",
+    keyword: "Then",
+    pattern: "the {string} should have attribute {string} with value {string}",
+    params: [elementKey, text("name"), text("value")],
+    method: "theElementShouldHaveAttribute",
+  },
+  hasCount: {
+    id: "hasCount",
+    keyword: "Then",
+    pattern: "the {string} should have count {int}",
+    params: [elementKey, { name: "count", type: "int" }],
+    method: "theElementShouldHaveCount",
+  },
+  tableContains: {
+    id: "tableContains",
+    keyword: "Then",
+    pattern: "the table {string} should contain:",
+    params: [elementKey, dataTable],
+    method: "theTableShouldContain",
+  },
+  urlEquals: {
+    id: "urlEquals",
+    keyword: "Then",
+    pattern: "the page URL should be {string}",
+    params: [text("url")],
+    method: "thePageUrlShouldBe",
+  },
+  titleEquals: {
+    id: "titleEquals",
+    keyword: "Then",
+    pattern: "the page title should be {string}",
+    params: [text("title")],
+    method: "thePageTitleShouldBe",
+  },
+  click: {
+    id: "click",
+    keyword: "When",
+    pattern: "I click the {string}",
+    params: [elementKey],
+    method: "iClickTheElement",
+  },
+  fill: {
+    id: "fill",
+    keyword: "When",
+    pattern: "I fill {string} with {string}",
+    params: [elementKey, text("value")],
+    method: "iFillTheElement",
+  },
+  select: {
+    id: "select",
+    keyword: "When",
+    pattern: "I select {string} from {string}",
+    params: [text("option"), elementKey],
+    method: "iSelectTheOption",
+  },
+  check: {
+    id: "check",
+    keyword: "When",
+    pattern: "I check {string}",
+    params: [elementKey],
+    method: "iCheckTheElement",
+  },
+  uncheck: {
+    id: "uncheck",
+    keyword: "When",
+    pattern: "I uncheck {string}",
+    params: [elementKey],
+    method: "iUncheckTheElement",
+  },
+  submit: {
+    id: "submit",
+    keyword: "When",
+    pattern: "I submit the {string}",
+    params: [elementKey],
+    method: "iSubmitTheForm",
+  },
+  navigate: {
+    id: "navigate",
+    keyword: "When",
+    pattern: "I navigate to {string}",
+    params: [text("path")],
+    method: "iNavigateTo",
+  },
+  // Checked across the whole page: a form that was submitted and replaced
+  // by a confirmation leaves nothing invalid behind.
+  formValid: {
+    id: "formValid",
+    keyword: "Then",
+    pattern: "the {string} form should be valid",
+    params: [elementKey],
+    method: "theFormShouldBeValid",
+  },
+  formInvalid: {
+    id: "formInvalid",
+    keyword: "Then",
+    pattern: "the {string} form should be invalid",
+    params: [elementKey],
+    method: "theFormShouldBeInvalid",
+  },
+};
+
+export function getAssertionStepIds(kind: AssertionKind): StepId[] {
+  return kind === "checked" ? ["checked", "notChecked"] : [kind];
+}
+
+export function getStepSpecs(ids: StepId[]): StepSpec[] {
+  return Array.from(new Set(ids)).map((id) => STEP_SPECS[id]);
+}
+
+export function usesElementKey(spec: StepSpec): boolean {
+  return spec.params.some((param) => param.name === "elementKey");
+}
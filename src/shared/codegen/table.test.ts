@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { readTableRowsJavaLiteral, tableHelperSource } from "./table";
+
+const findTableMismatch = new Function(
+  `${tableHelperSource(false)}\nreturn findTableMismatch;`
+)() as (actual: string[][], expected: string[][]) => string;
+
+const actual = [
+  ["name", "price", "stock"],
+  ["Pen", "2", "yes"],
+  ["Ink", "5", "no"],
+  ["Pad", "3", "yes"],
+];
+
+describe("findTableMismatch", () => {
+  it("accepts expected rows in order, comparing only the named columns", () => {
+    expect(findTableMismatch(actual, [["price", "name"], ["2", "Pen"], ["3", "Pad"]])).toBe("");
+  });
+
+  it("reports rows that are missing or out of order", () => {
+    expect(findTableMismatch(actual, [["name"], ["Pad"], ["Pen"]])).toBe(
+      'Row ["Pen"] not found in order in [["Pen","2","yes"],["Ink","5","no"],["Pad","3","yes"]]'
+    );
+  });
+
+  it("reports unknown columns", () => {
+    expect(findTableMismatch(actual, [["colour"], ["red"]])).toBe(
+      'Column "colour" not found in ["name","price","stock"]'
+    );
+  });
+});
+
+describe("readTableRowsJavaLiteral", () => {
+  it("is a quoted executeScript snippet", () => {
+    const script = JSON.parse(readTableRowsJavaLiteral()) as string;
+    expect(script.startsWith("return (function readTableRows(root) {")).toBe(true);
+    expect(script.endsWith("})(arguments[0]);")).toBe(true);
+  });
+});
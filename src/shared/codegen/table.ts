@@ -0,0 +1,92 @@
+/**
+ * Browser-side reader for `the table {string} should contain:`. It returns
+ * the header row followed by the body rows, exactly as the extension builds
+ * the captured data table: `<th>`/columnheader cells name the columns
+ * (`column N` when missing), lists become a single `item` column, and cell
+ * text has its whitespace collapsed.
+ */
+function readTableRowsSource(typed: boolean): string[] {
+  const t = (annotation: string) => (typed ? annotation : "");
+  return [
+    `function readTableRows(root${t(": Element")})${t(": string[][]")} {`,
+    `  const text = (node${t(": Element")}) => (node.textContent || "").replace(/\\s+/g, " ").trim();`,
+    `  const role = (node${t(": Element")}) => node.getAttribute("role") || "";`,
+    "  const tag = root.tagName.toLowerCase();",
+    '  if (tag === "ul" || tag === "ol" || role(root) === "list") {',
+    "    const items = Array.from(root.children).filter(",
+    '      (child) => child.tagName.toLowerCase() === "li" || role(child) === "listitem"',
+    "    );",
+    '    return [["item"], ...items.map((item) => [text(item)])];',
+    "  }",
+    '  const ROOTS = "table, [role=\'table\'], [role=\'grid\'], [role=\'treegrid\']";',
+    "  const rows = Array.from(root.querySelectorAll(\"tr, [role='row']\"))",
+    "    .filter((row) => row.closest(ROOTS) === root)",
+    "    .map((row) =>",
+    "      Array.from(row.children).filter(",
+    "        (cell) =>",
+    '          ["td", "th"].includes(cell.tagName.toLowerCase()) ||',
+    '          ["cell", "gridcell", "columnheader", "rowheader"].includes(role(cell))',
+    "      )",
+    "    )",
+    "    .filter((cells) => cells.length > 0);",
+    `  const isHeader = (cell${t(": Element")}) =>`,
+    '    cell.tagName.toLowerCase() === "th" || role(cell) === "columnheader";',
+    "  const headerCells = rows.length > 1 && rows[0].every(isHeader) ? rows.shift() : null;",
+    "  const width = Math.max(headerCells?.length || 0, ...rows.map((cells) => cells.length));",
+    `  const seen${t(": Record<string, number>")} = {};`,
+    "  const headers = Array.from({ length: width }, (_, index) => {",
+    "    const name = (headerCells && headerCells[index] && text(headerCells[index])) || `column ${index + 1}`;",
+    "    seen[name] = (seen[name] || 0) + 1;",
+    "    return seen[name] > 1 ? `${name} ${seen[name]}` : name;",
+    "  });",
+    "  return [",
+    "    headers,",
+    '    ...rows.map((cells) => headers.map((_, index) => (cells[index] ? text(cells[index]) : ""))),',
+    "  ];",
+    "}",
+  ];
+}
+
+/**
+ * Source of the table helpers for the JavaScript/TypeScript generators.
+ * `findTableMismatch` returns "" when every expected row appears in order
+ * among the actual rows, comparing only the columns named in the expected
+ * header, and otherwise a message describing the first missing row.
+ */
+export function tableHelperSource(typed: boolean): string {
+  const t = (annotation: string) => (typed ? annotation : "");
+  return [
+    ...readTableRowsSource(typed),
+    "",
+    `function findTableMismatch(actual${t(": string[][]")}, expected${t(": string[][]")})${t(": string")} {`,
+    "  const [actualHeader = [], ...actualRows] = actual;",
+    "  const [expectedHeader = [], ...expectedRows] = expected;",
+    "  const columns = expectedHeader.map((name) => actualHeader.indexOf(name));",
+    "  const missing = expectedHeader.find((_, index) => columns[index] < 0);",
+    "  if (missing !== undefined) {",
+    "    return `Column \"${missing}\" not found in ${JSON.stringify(actualHeader)}`;",
+    "  }",
+    "  let from = 0;",
+    "  for (const row of expectedRows) {",
+    "    const found = actualRows.findIndex(",
+    "      (candidate, index) =>",
+    "        index >= from && columns.every((column, cell) => candidate[column] === row[cell])",
+    "    );",
+    "    if (found < 0) {",
+    "      return `Row ${JSON.stringify(row)} not found in order in ${JSON.stringify(actualRows)}`;",
+    "    }",
+    "    from = found + 1;",
+    "  }",
+    '  return "";',
+    "}",
+  ].join("\n");
+}
+
+/**
+ * `readTableRows` as a Selenium `executeScript` snippet, quoted as a Java
+ * string literal. JSON string escapes are valid Java escapes.
+ */
+export function readTableRowsJavaLiteral(): string {
+  const script = `return (${readTableRowsSource(false).join("\n")})(arguments[0]);`;
+  return JSON.stringify(script);
+}
@@ -0,0 +1,51 @@
+import type { StepSpec } from "./steps";
+
+export function usesTextTemplate(specs: StepSpec[]): boolean {
+  return specs.some((spec) => spec.id === "hasTextMatching" || spec.id === "containsTextMatching");
+}
+
+/**
+ * Source of `textTemplatePattern` for the JavaScript/TypeScript generators.
+ * It turns the template of `the {string} should have text matching {string}`
+ * into a regular expression: `{int}`, `{float}` and `{string}` match whole
+ * numbers, decimals and any text, whitespace matches any run of whitespace,
+ * and a backslash escapes the next character.
+ */
+export function textTemplateSource(typed: boolean): string {
+  const t = (annotation: string) => (typed ? annotation : "");
+  return [
+    `function textTemplatePattern(template${t(": string")}, whole${t(": boolean")})${t(": RegExp")} {`,
+    `  const parameters${t(": Record<string, string>")} = {`,
+    '    int: "-?\\\\d[\\\\d,]*",',
+    '    float: "-?[\\\\d,]*\\\\.?\\\\d+",',
+    '    string: ".+?",',
+    "  };",
+    "  const source = template.replace(",
+    "    /\\\\(.)|\\{(int|float|string)\\}|\\s+|[.*+?^${}()|[\\]\\\\/]/g,",
+    `    (match${t(": string")}, escaped${t(": string | undefined")}, parameter${t(": string | undefined")}) => {`,
+    "      if (parameter) return parameters[parameter];",
+    '      if (!escaped && !match.trim()) return "\\\\s+";',
+    '      return (escaped ?? match).replace(/[.*+?^${}()|[\\]\\\\/]/g, "\\\\$&");',
+    "    }",
+    "  );",
+    "  return new RegExp(whole ? `^\\\\s*${source}\\\\s*$` : source);",
+    "}",
+  ].join("\n");
+}
+
+/** The same conversion for the Selenium Java steps. */
+export const TEXT_TEMPLATE_JAVA = [
+  "    private static Pattern textTemplatePattern(String template, boolean whole) {",
+  "        StringBuilder source = new StringBuilder();",
+  '        Matcher part = Pattern.compile("\\\\\\\\(.)|\\\\{(int|float|string)\\\\}|\\\\s+|.").matcher(template);',
+  "        while (part.find()) {",
+  "            if (part.group(1) != null) source.append(Pattern.quote(part.group(1)));",
+  '            else if ("int".equals(part.group(2))) source.append("-?\\\\d[\\\\d,]*");',
+  '            else if ("float".equals(part.group(2))) source.append("-?[\\\\d,]*\\\\.?\\\\d+");',
+  '            else if ("string".equals(part.group(2))) source.append(".+?");',
+  '            else if (part.group().isBlank()) source.append("\\\\s+");',
+  "            else source.append(Pattern.quote(part.group()));",
+  "        }",
+  '        return Pattern.compile(whole ? "^\\\\s*" + source + "\\\\s*$" : source.toString());',
+  "    }",
+];
@@ -0,0 +1,25 @@
+import type { StepId, StepSpec } from "./steps";
+
+export type FrameworkId =
+  | "playwright-cucumber-ts"
+  | "playwright-cucumber-js"
+  | "playwright-test"
+  | "cypress-cucumber"
+  | "webdriverio"
+  | "selenium-java";
+
+export type CodeGenerator = {
+  id: FrameworkId;
+  label: string;
+  /** Language tag used for Jira code blocks. */
+  language: string;
+  renderStepDefinitions(specs: StepSpec[]): string;
+  /** A complete helper module that turns mapping YAML entries into locators. */
+  renderResolveLocator(): string;
+};
+
+/**
+ * Body lines for each step. Bodies refer to the step parameters by the names
+ * declared in `STEP_SPECS`.
+ */
+export type StepBodies = Record<StepId, string[]>;
@@ -0,0 +1,202 @@
+import { repositoryLoaderSource, selectorParserSource } from "./parser";
+import { usesElementKey } from "./steps";
+import { tableHelperSource } from "./table";
+import { textTemplateSource, usesTextTemplate } from "./textTemplate";
+import type { CodeGenerator, StepBodies } from "./types";
+
+const ELEMENT = "const element = await resolveLocator(elementKey);";
+
+const BODIES: StepBodies = {
+  visible: [ELEMENT, "await expect(element).toBeDisplayed();"],
+  hidden: [ELEMENT, "await expect(element).not.toBeDisplayed();"],
+  hasText: [ELEMENT, "await expect(element).toHaveText(text);"],
+  containsText: [
+    ELEMENT,
+    "await expect(element).toHaveText(expect.stringContaining(text));",
+  ],
+  hasTextMatching: [ELEMENT, "await expect(element).toHaveText(textTemplatePattern(template, true));"],
+  containsTextMatching: [
+    ELEMENT,
+    "await expect(element).toHaveText(textTemplatePattern(template, false));",
+  ],
+  hasValue: [ELEMENT, "await expect(element).toHaveValue(value);"],
+  enabled: [ELEMENT, "await expect(element).toBeEnabled();"],
+  disabled: [ELEMENT, "await expect(element).toBeDisabled();"],
+  checked: [ELEMENT, "await expect(element).toBeChecked();"],
+  notChecked: [ELEMENT, "await expect(element).not.toBeChecked();"],
+  hasAttribute: [ELEMENT, "await expect(element).toHaveAttribute(name, value);"],
+  hasCount: [
+    "const elements = await resolveAllLocators(elementKey);",
+    "await expect(elements).toBeElementsArrayOfSize(count);",
+  ],
+  tableContains: [
+    ELEMENT,
+    "const actual = await browser.execute(readTableRows, element);",
+    'expect(findTableMismatch(actual, dataTable.raw())).toBe("");',
+  ],
+  urlEquals: ["await expect(browser).toHaveUrl(url);"],
+  titleEquals: ["await expect(browser).toHaveTitle(title);"],
+  click: [ELEMENT, "await element.click();"],
+  fill: [ELEMENT, "await element.setValue(value);"],
+  select: [ELEMENT, "await element.selectByVisibleText(option);"],
+  check: [ELEMENT, "if (!(await element.isSelected())) await element.click();"],
+  uncheck: [ELEMENT, "if (await element.isSelected()) await element.click();"],
+  submit: [ELEMENT, "await browser.execute((form) => form.requestSubmit(), element);"],
+  navigate: ["await browser.url(path);"],
+  formValid: [`await expect(await $$(":invalid, [aria-invalid='true']")).toBeElementsArrayOfSize(0);`],
+  formInvalid: [ELEMENT, `await expect(await element.$$(":invalid, [aria-invalid='true']")).not.toBeElementsArrayOfSize(0);`],
+};
+
+export const webdriverIo: CodeGenerator = {
+  id: "webdriverio",
+  label: "WebdriverIO + Cucumber",
+  language: "javascript",
+  renderStepDefinitions: (specs) => {
+    const blocks = specs.map((spec) =>
+      [
+        `${spec.keyword}("${spec.pattern}", async (${spec.params
+          .map((param) => param.name)
+          .join(", ")}) => {`,
+        ...BODIES[spec.id].map((line) => `  ${line}`),
+        "});",
+      ].join("\n")
+    );
+    const keywords = Array.from(new Set(specs.map((spec) => spec.keyword)));
+    const helpers = specs.some((spec) => spec.id === "hasCount")
+      ? "resolveAllLocators, resolveLocator"
+      : "resolveLocator";
+    return [
+      "// Add once in your step definitions",
+      `import { ${keywords.join(", ")} } from "@wdio/cucumber-framework";`,
+      specs.some((spec) => spec.id === "formValid")
+        ? 'import { $$, browser, expect } from "@wdio/globals";'
+        : 'import { browser, expect } from "@wdio/globals";',
+      ...(specs.some(usesElementKey)
+        ? [`import { ${helpers} } from "./resolveLocator";`]
+        : []),
+      "",
+      blocks.join("\n\n"),
+      ...(specs.some((spec) => spec.id === "tableContains") ? ["", tableHelperSource(false)] : []),
+      ...(usesTextTemplate(specs) ? ["", textTemplateSource(false)] : []),
+    ].join("\n");
+  },
+  renderResolveLocator: () =>
+    [
+      'import fs from "node:fs";',
+      'import yaml from "js-yaml";',
+      'import { $, $$, browser } from "@wdio/globals";',
+      "",
+      repositoryLoaderSource(false),
+      "",
+      selectorParserSource(false),
+      "",
+      "const IMPLICIT_ROLES = {",
+      '  button: "button, input[type=\\"submit\\"], input[type=\\"button\\"]",',
+      '  checkbox: "input[type=\\"checkbox\\"]",',
+      '  combobox: "select",',
+      '  heading: "h1, h2, h3, h4, h5, h6",',
+      '  link: "a[href]",',
+      '  radio: "input[type=\\"radio\\"]",',
+      '  textbox: "input:not([type]), input[type=\\"text\\"], input[type=\\"email\\"], textarea",',
+      "};",
+      "",
+      "/** A quoted CSS string, so quotes and backslashes in the value stay literal. */",
+      "function cssString(value) {",
+      '  return `"${value.replace(/["\\\\]/g, "\\\\$&")}"`;',
+      "}",
+      "",
+      "function xpathLiteral(value) {",
+      "  if (!value.includes('\"')) return `\"${value}\"`;",
+      "  return `concat(\"${value.split('\"').join('\", \\'\"\\', \"')}\")`;",
+      "}",
+      "",
+      "function toWdioSelector(call) {",
+      "  switch (call.method) {",
+      '    case "getByRole":',
+      "      if (call.name) return `aria/${call.name}`;",
+      '      return [`[role="${call.value}"]`, IMPLICIT_ROLES[call.value]]',
+      "        .filter(Boolean)",
+      '        .join(", ");',
+      '    case "getByLabel":',
+      "      return `aria/${call.value}`;",
+      '    case "getByPlaceholder":',
+      "      return call.exact",
+      '        ? `[placeholder=${cssString(call.value)}]`',
+      '        : `[placeholder*=${cssString(call.value)} i]`;',
+      '    case "getByTestId":',
+      '      return `[data-testid=${cssString(call.value)}]`;',
+      '    case "getByText":',
+      "      return call.exact",
+      "        ? `//*[normalize-space(text())=${xpathLiteral(call.value)}]`",
+      "        : `//*[contains(normalize-space(text()), ${xpathLiteral(call.value)})]`;",
+      "    default:",
+      "      return call.value;",
+      "  }",
+      "}",
+      "",
+      "async function resolveScope(elementKey) {",
+      "  const [selector] = getSelectors(elementKey);",
+      "  const calls = parseSelector(selector);",
+      "  // Frames are entered by switching the browser context.",
+      "  await browser.switchToFrame(null);",
+      '  while (calls[0]?.method === "frameLocator") {',
+      "    const frame = calls.shift();",
+      "    await browser.switchToFrame(await $(frame.value));",
+      "  }",
+      "  return calls;",
+      "}",
+      "",
+      "/** Pattern names and texts are tested against every candidate element. */",
+      "async function findByPattern(scope, call, all) {",
+      '  const byRole = call.method === "getByRole";',
+      "  const pattern = new RegExp(byRole ? call.name : call.value);",
+      "  const selector = byRole",
+      "    ? toWdioSelector({ ...call, name: undefined })",
+      '    : `${scope ? "." : ""}//*[text()[normalize-space()]]`;',
+      "  const candidates = scope ? await scope.$$(selector) : await $$(selector);",
+      "  const matches = [];",
+      "  for (const candidate of candidates) {",
+      "    const text = byRole ? await candidate.getComputedLabel() : await candidate.getText();",
+      "    if (pattern.test(text.trim())) matches.push(candidate);",
+      "  }",
+      "  if (all) return matches;",
+      "  if (!matches.length) throw new Error(`No element matches ${pattern}`);",
+      "  return matches[0];",
+      "}",
+      "",
+      "async function queryCalls(calls, all) {",
+      "  let scope = null;",
+      "  for (const [index, call] of calls.entries()) {",
+      "    const last = index === calls.length - 1;",
+      "    if (call.regex) {",
+      "      scope = await findByPattern(scope, call, last && all);",
+      "      continue;",
+      "    }",
+      '    const parts = toWdioSelector(call).split(" >> ");',
+      "    parts.forEach((part, partIndex) => {",
+      "      const finalPart = last && partIndex === parts.length - 1;",
+      "      if (partIndex > 0) {",
+      "        scope = finalPart && all ? scope.shadow$$(part) : scope.shadow$(part);",
+      "      } else if (scope) {",
+      "        scope = finalPart && all ? scope.$$(part) : scope.$(part);",
+      "      } else {",
+      "        scope = finalPart && all ? $$(part) : $(part);",
+      "      }",
+      "    });",
+      "  }",
+      "  return scope;",
+      "}",
+      "",
+      "/**",
+      " * Resolves an elementKey from locators.yaml to a WebdriverIO element,",
+      " * using `prefer` and falling back to the first fallback entry.",
+      " */",
+      "export async function resolveLocator(elementKey) {",
+      "  return queryCalls(await resolveScope(elementKey), false);",
+      "}",
+      "",
+      "export async function resolveAllLocators(elementKey) {",
+      "  return queryCalls(await resolveScope(elementKey), true);",
+      "}",
+    ].join("\n"),
+};
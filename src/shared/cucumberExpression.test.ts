@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { compileCucumberExpression, fillCucumberExpression } from "./cucumberExpression";
+
+describe("compileCucumberExpression", () => {
+  it("matches built-in parameter types", () => {
+    const regex = compileCucumberExpression("I add {int} {word} to {string}");
+    expect(regex.exec('I add 3 pens to "cart"')?.slice(1)).toEqual(["3", "pens", '"cart"']);
+    expect(regex.test('I add three pens to "cart"')).toBe(false);
+    expect(compileCucumberExpression("the price is {float}").test("the price is -2.5")).toBe(true);
+  });
+
+  it("supports optional text and alternation", () => {
+    const regex = compileCucumberExpression("I have {int} cucumber(s) in my belly/stomach");
+    expect(regex.test("I have 1 cucumber in my belly")).toBe(true);
+    expect(regex.test("I have 2 cucumbers in my stomach")).toBe(true);
+    expect(regex.test("I have 2 cucumbers in my bag")).toBe(false);
+  });
+
+  it("treats escaped and regex characters literally", () => {
+    const regex = compileCucumberExpression("it costs \\(about\\) $5.00?");
+    expect(regex.test("it costs (about) $5.00?")).toBe(true);
+    expect(regex.test("it costs (about) $5x00")).toBe(false);
+  });
+
+  it("anchors the whole step", () => {
+    expect(compileCucumberExpression("I click {string}").test('When I click "a"')).toBe(false);
+  });
+});
+
+describe("fillCucumberExpression", () => {
+  it("takes strings and numbers from the sample", () => {
+    expect(
+      fillCucumberExpression("I add {int} of {string} to {word}", 'I add 4 of "pens" to it')
+    ).toBe('I add 4 of "pens" to {word}');
+  });
+
+  it("uses the first alternative and drops optional text", () => {
+    expect(fillCucumberExpression("I have {int} cucumber(s) in my belly/stomach")).toBe(
+      "I have 0 cucumber in my belly"
+    );
+  });
+
+  it("falls back to empty strings", () => {
+    expect(fillCucumberExpression("I click {string}")).toBe('I click ""');
+  });
+});
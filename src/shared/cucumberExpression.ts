@@ -0,0 +1,144 @@
+type ExpressionToken =
+  | { type: "text"; value: string }
+  | { type: "space"; value: string }
+  | { type: "parameter"; name: string }
+  | { type: "optional"; value: string }
+  | { type: "alternation" };
+
+const NUMBER = "-?\\d*\\.?\\d+";
+const INTEGER = "-?\\d+";
+
+const PARAMETER_PATTERNS: Record<string, string> = {
+  int: INTEGER,
+  byte: INTEGER,
+  short: INTEGER,
+  long: INTEGER,
+  biginteger: INTEGER,
+  float: NUMBER,
+  double: NUMBER,
+  bigdecimal: NUMBER,
+  word: "[^\\s]+",
+  string: "\"[^\"\\\\]*(?:\\\\.[^\"\\\\]*)*\"|'[^'\\\\]*(?:\\\\.[^'\\\\]*)*'",
+  "": ".*",
+};
+
+/**
+ * Splits a Cucumber Expression into text, whitespace, `{parameter}`,
+ * `(optional)` and `/` alternation tokens. A backslash escapes the next
+ * character.
+ */
+function tokenize(expression: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) tokens.push({ type: "text", value: text });
+    text = "";
+  };
+  for (let index = 0; index < expression.length; index += 1) {
+    const char = expression[index];
+    if (char === "\\" && index + 1 < expression.length) {
+      text += expression[index + 1];
+      index += 1;
+    } else if (char === "{" || char === "(") {
+      const close = expression.indexOf(char === "{" ? "}" : ")", index);
+      if (close === -1) {
+        text += char;
+        continue;
+      }
+      flush();
+      const value = expression.slice(index + 1, close);
+      tokens.push(
+        char === "{" ? { type: "parameter", name: value.trim() } : { type: "optional", value }
+      );
+      index = close;
+    } else if (char === "/") {
+      flush();
+      tokens.push({ type: "alternation" });
+    } else if (/\s/.test(char)) {
+      flush();
+      tokens.push({ type: "space", value: char });
+    } else {
+      text += char;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+/** Alternation binds to the whitespace-delimited word it appears in. */
+function splitWords(tokens: ExpressionToken[]): ExpressionToken[][] {
+  const words: ExpressionToken[][] = [[]];
+  tokens.forEach((token) => {
+    if (token.type === "space") {
+      words.push([token], []);
+    } else {
+      words[words.length - 1].push(token);
+    }
+  });
+  return words.filter((word) => word.length);
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
+
+export function compileCucumberExpression(expression: string): RegExp {
+  const source = splitWords(tokenize(expression))
+    .map((word) => {
+      const alternatives: string[] = [""];
+      word.forEach((token) => {
+        const last = alternatives.length - 1;
+        switch (token.type) {
+          case "alternation":
+            alternatives.push("");
+            return;
+          case "space":
+            alternatives[last] += escapeRegExp(token.value);
+            return;
+          case "text":
+            alternatives[last] += escapeRegExp(token.value);
+            return;
+          case "optional":
+            alternatives[last] += `(?:${escapeRegExp(token.value)})?`;
+            return;
+          case "parameter":
+            alternatives[last] += `(${PARAMETER_PATTERNS[token.name] ?? ".*"})`;
+            return;
+        }
+      });
+      return alternatives.length > 1 ? `(?:${alternatives.join("|")})` : alternatives[0];
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Renders an expression as a concrete step, taking quoted strings and numbers
+ * from `sample` for `{string}` and numeric parameters. Other parameters stay
+ * as `{name}` placeholders for the author to fill in.
+ */
+export function fillCucumberExpression(expression: string, sample = ""): string {
+  const strings = sample.match(/"[^"]*"|'[^']*'/g) || [];
+  const numbers = sample.replace(/"[^"]*"|'[^']*'/g, "").match(/-?\d*\.?\d+/g) || [];
+  let skipAlternative = false;
+  return tokenize(expression)
+    .map((token) => {
+      if (token.type === "space") {
+        skipAlternative = false;
+        return token.value;
+      }
+      if (token.type === "alternation") {
+        skipAlternative = true;
+        return "";
+      }
+      if (skipAlternative) return "";
+      if (token.type === "text") return token.value;
+      if (token.type === "optional") return "";
+      if (token.name === "string") return strings.shift() || '""';
+      if (PARAMETER_PATTERNS[token.name] === INTEGER || PARAMETER_PATTERNS[token.name] === NUMBER) {
+        return numbers.shift() || "0";
+      }
+      return `{${token.name}}`;
+    })
+    .join("");
+}
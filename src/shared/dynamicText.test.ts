@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { textTemplateSource } from "./codegen/textTemplate";
+import {
+  buildTextPattern,
+  buildTextTemplate,
+  describeDynamicToken,
+  findDynamicTokens,
+} from "./dynamicText";
+
+const textTemplatePattern = new Function(
+  `${textTemplateSource(false)}\nreturn textTemplatePattern;`
+)() as (template: string, whole: boolean) => RegExp;
+
+const CONFIRMATION = "Order #A-1042 for jo@example.com ships 2024-03-05, total $1,299.50 (3)";
+
+describe("findDynamicTokens", () => {
+  it("finds changing values in order", () => {
+    expect(
+      findDynamicTokens(CONFIRMATION).map((token) => [token.kind, token.text, token.parameter])
+    ).toEqual([
+      ["orderNumber", "A-1042", "string"],
+      ["email", "jo@example.com", "string"],
+      ["date", "2024-03-05", "string"],
+      ["price", "1,299.50", "float"],
+      ["count", "3", "int"],
+    ]);
+  });
+
+  it("recognises counts, UUIDs and written dates", () => {
+    expect(findDynamicTokens("12 results").map((token) => token.kind)).toEqual(["count"]);
+    expect(findDynamicTokens("id 3f2b8c1e-9a4d-4e5f-8b6a-1c2d3e4f5a6b")[0].kind).toBe("uuid");
+    expect(findDynamicTokens("Delivered on March 5th, 2024")[0].text).toBe("March 5th, 2024");
+  });
+
+  it("leaves single digits and plain words alone", () => {
+    expect(findDynamicTokens("Step 2 of the checkout")).toEqual([]);
+  });
+
+  it("describes tokens for the picker", () => {
+    expect(describeDynamicToken(findDynamicTokens("ref INV-77")[0])).toBe("INV-77 (order number)");
+  });
+});
+
+describe("buildTextTemplate", () => {
+  it("replaces tokens with parameters and escapes braces", () => {
+    const text = "{new} 14 items at €5";
+    expect(buildTextTemplate(text, findDynamicTokens(text))).toBe("\\{new} {int} items at €{float}");
+  });
+
+  it("produces templates the generated steps match against new values", () => {
+    const template = buildTextTemplate(CONFIRMATION, findDynamicTokens(CONFIRMATION));
+    const pattern = textTemplatePattern(template, true);
+    expect(pattern.test(CONFIRMATION)).toBe(true);
+    expect(pattern.test("Order #B-7 for ann@example.org ships 2025-12-31, total $12.00 (1)")).toBe(
+      true
+    );
+    expect(pattern.test("Order #B-7 was cancelled")).toBe(false);
+  });
+});
+
+describe("buildTextPattern", () => {
+  it("matches the same shape with other values", () => {
+    const pattern = new RegExp(buildTextPattern(CONFIRMATION, findDynamicTokens(CONFIRMATION)));
+    expect(pattern.test(CONFIRMATION)).toBe(true);
+    expect(pattern.test("Order #B-7 for ann@example.org ships 2025-12-31, total $12.00 (1)")).toBe(
+      true
+    );
+    expect(pattern.test("Order #B-7 for ann@example.org ships 31/12/2025, total $12.00 (1)")).toBe(
+      false
+    );
+  });
+
+  it("avoids braces, quotes and groups so selector parsers can skip it", () => {
+    const text = "It's {on} (now) 10:30";
+    expect(buildTextPattern(text, findDynamicTokens(text))).toBe(
+      "^It\\'s\\s+\\x7bon\\x7d\\s+\\(now\\)\\s+\\d+:\\d+$"
+    );
+  });
+});
@@ -0,0 +1,186 @@
+export type DynamicTokenKind =
+  | "email"
+  | "uuid"
+  | "date"
+  | "price"
+  | "orderNumber"
+  | "count"
+  | "number";
+
+/** Cucumber Expression parameter types usable in a text template. */
+export type TemplateParameter = "int" | "float" | "string";
+
+export type DynamicToken = {
+  kind: DynamicTokenKind;
+  text: string;
+  start: number;
+  end: number;
+  parameter: TemplateParameter;
+  /** Regular expression source matching other values of the same shape. */
+  pattern: string;
+};
+
+type Detector = {
+  kind: DynamicTokenKind;
+  pattern: RegExp;
+  /** Capture group holding the dynamic part; the whole match when omitted. */
+  group?: number;
+};
+
+const MONTHS = "Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec";
+const CURRENCY_CODES = "USD|EUR|GBP|CAD|AUD|CHF|JPY";
+const COUNT_NOUNS =
+  "items?|results?|products?|reviews?|orders?|messages?|notifications?|comments?|left|remaining|selected|in stock";
+
+/** Earlier detectors win when matches overlap. */
+const DETECTORS: Detector[] = [
+  { kind: "email", pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { kind: "uuid", pattern: /\b[0-9a-f]{8}(?:-[0-9a-f]{4}){3}-[0-9a-f]{12}\b/gi },
+  { kind: "date", pattern: /\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?)?\b/g },
+  { kind: "date", pattern: /\b\d{1,2}[/.]\d{1,2}[/.]\d{2,4}\b/g },
+  {
+    kind: "date",
+    pattern: new RegExp(
+      `\\b(?:\\d{1,2}\\s+)?(?:${MONTHS})[a-z]*\\.?(?:\\s+\\d{1,2}(?:st|nd|rd|th)?)?,?\\s+\\d{4}\\b`,
+      "gi"
+    ),
+  },
+  { kind: "date", pattern: /\b\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AaPp][Mm])?\b/g },
+  {
+    kind: "price",
+    pattern: new RegExp(`(?:[$€£¥₹]\\s?|\\b(?:${CURRENCY_CODES})\\s?)(\\d[\\d,]*(?:\\.\\d+)?)`, "g"),
+    group: 1,
+  },
+  {
+    kind: "price",
+    pattern: new RegExp(`(\\d[\\d.,]*)\\s?(?:[€£]|\\b(?:${CURRENCY_CODES})\\b)`, "g"),
+    group: 1,
+  },
+  {
+    kind: "orderNumber",
+    pattern:
+      /(?:#|\b(?:order|invoice|ref(?:erence)?|confirmation|tracking|ticket)\s*(?:#|no\.?|number)?\s*:?\s*)([A-Z0-9][A-Z0-9-]*\d[A-Z0-9-]*)/gi,
+    group: 1,
+  },
+  { kind: "count", pattern: /\((\d+)\)/g, group: 1 },
+  { kind: "count", pattern: new RegExp(`\\b(\\d+)\\s+(?:${COUNT_NOUNS})\\b`, "gi"), group: 1 },
+  { kind: "number", pattern: /\b\d{2,}(?:[.,]\d+)*\b/g },
+];
+
+const KIND_LABELS: Record<DynamicTokenKind, string> = {
+  email: "email",
+  uuid: "UUID",
+  date: "date",
+  price: "price",
+  orderNumber: "order number",
+  count: "count",
+  number: "number",
+};
+
+const REGEX_SPECIALS = /[.*+?^$()|[\]\\/']/g;
+
+/** Values in `text` that are likely to change between runs, in order. */
+export function findDynamicTokens(text: string): DynamicToken[] {
+  const tokens: DynamicToken[] = [];
+  DETECTORS.forEach((detector) => {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = detector.group === undefined ? match[0] : match[detector.group];
+      if (!value) continue;
+      const start = (match.index ?? 0) + match[0].indexOf(value);
+      const end = start + value.length;
+      if (tokens.some((token) => start < token.end && end > token.start)) continue;
+      tokens.push({ kind: detector.kind, text: value, start, end, ...describeValue(detector.kind, value) });
+    }
+  });
+  return tokens.sort((a, b) => a.start - b.start);
+}
+
+export function describeDynamicToken(token: DynamicToken): string {
+  return `${token.text} (${KIND_LABELS[token.kind]})`;
+}
+
+/**
+ * `text` with every token replaced by its `{int}`, `{float}` or `{string}`
+ * parameter. Literal backslashes and braces are escaped with a backslash.
+ */
+export function buildTextTemplate(text: string, tokens: DynamicToken[]): string {
+  return mapParts(
+    text,
+    tokens,
+    (literal) => literal.replace(/[\\{]/g, "\\$&"),
+    (token) => `{${token.parameter}}`
+  );
+}
+
+/**
+ * Regular expression source for `text` with every token generalized. It is
+ * written for a `/…/` literal inside a quoted selector: quotes and slashes
+ * are escaped, braces use `\x7b`/`\x7d` and groups are never emitted, so the
+ * generated selector parsers can skip over it.
+ */
+export function buildTextPattern(text: string, tokens: DynamicToken[]): string {
+  const body = mapParts(
+    text,
+    tokens,
+    (literal) =>
+      literal
+        .replace(REGEX_SPECIALS, "\\$&")
+        .replace(/\{/g, "\\x7b")
+        .replace(/\}/g, "\\x7d")
+        .replace(/\s+/g, "\\s+"),
+    (token) => token.pattern
+  );
+  return `^${body}$`;
+}
+
+function mapParts(
+  text: string,
+  tokens: DynamicToken[],
+  literal: (value: string) => string,
+  dynamic: (token: DynamicToken) => string
+): string {
+  let result = "";
+  let index = 0;
+  tokens.forEach((token) => {
+    result += literal(text.slice(index, token.start)) + dynamic(token);
+    index = token.end;
+  });
+  return result + literal(text.slice(index));
+}
+
+function describeValue(
+  kind: DynamicTokenKind,
+  value: string
+): { parameter: TemplateParameter; pattern: string } {
+  switch (kind) {
+    case "email":
+      return { parameter: "string", pattern: "[^\\s@]+@[^\\s@]+\\.[^\\s@]+" };
+    case "uuid":
+      return { parameter: "string", pattern: "[0-9a-fA-F]+-[0-9a-fA-F-]+" };
+    case "date":
+      return { parameter: "string", pattern: shapeOf(value) };
+    case "price":
+      return { parameter: "float", pattern: "\\d[\\d.,]*" };
+    case "orderNumber":
+      return /^\d+$/.test(value)
+        ? { parameter: "int", pattern: "\\d+" }
+        : { parameter: "string", pattern: shapeOf(value) };
+    case "count":
+      return { parameter: "int", pattern: "\\d+" };
+    case "number":
+      return /[.,]/.test(value)
+        ? { parameter: "float", pattern: "\\d[\\d.,]*" }
+        : { parameter: "int", pattern: "\\d+" };
+  }
+}
+
+/** Digit runs become `\d+`, letter runs `[A-Za-z]+`; everything else is literal. */
+function shapeOf(value: string): string {
+  return value
+    .replace(/\d+|[A-Za-z]+|\s+|[^\dA-Za-z\s]/g, (part) => {
+      if (/^\d/.test(part)) return "\\d+";
+      if (/^[A-Za-z]/.test(part)) return "[A-Za-z]+";
+      if (/^\s/.test(part)) return "\\s+";
+      return part.replace(REGEX_SPECIALS, "\\$&");
+    });
+}
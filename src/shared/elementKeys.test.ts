@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_ELEMENT_KEY_CONFIG,
+  formatElementKey,
+  normalizeElementKeyConfig,
+  qualifyElementKey,
+  splitKeyWords,
+  type ElementKeyConfig,
+} from "./elementKeys";
+
+const snake = DEFAULT_ELEMENT_KEY_CONFIG;
+const camel: ElementKeyConfig = { ...snake, case: "camel" };
+const kebab: ElementKeyConfig = { ...snake, case: "kebab" };
+
+describe("splitKeyWords", () => {
+  it("keeps lowercase ASCII words", () => {
+    expect(splitKeyWords("  Add to Cart – £5.00! ")).toEqual(["add", "to", "cart", "5", "00"]);
+    expect(splitKeyWords("Größe")).toEqual(["gr", "e"]);
+    expect(splitKeyWords("—")).toEqual([]);
+  });
+});
+
+describe("formatElementKey", () => {
+  const words = ["button", "add", "to", "cart"];
+
+  it("joins words in the configured case", () => {
+    expect(formatElementKey(words, snake)).toBe("button_add_to_cart");
+    expect(formatElementKey(words, camel)).toBe("buttonAddToCart");
+    expect(formatElementKey(words, kebab)).toBe("button-add-to-cart");
+  });
+
+  it("cuts at the maximum length without a dangling separator", () => {
+    expect(formatElementKey(words, { ...snake, maxLength: 14 })).toBe("button_add_to");
+    expect(formatElementKey(words, { ...snake, maxLength: 11 })).toBe("button_add");
+  });
+});
+
+describe("qualifyElementKey", () => {
+  it("appends the qualifier in the configured case", () => {
+    expect(qualifyElementKey("button_save", ["dialog"], snake)).toBe("button_save_dialog");
+    expect(qualifyElementKey("buttonSave", ["main", "form"], camel)).toBe("buttonSaveMainForm");
+  });
+
+  it("shortens the key rather than the qualifier", () => {
+    const config = { ...snake, maxLength: 20 };
+    expect(qualifyElementKey("button_add_to_cart", ["row", "3"], config)).toBe("button_add_to_row_3");
+  });
+
+  it("caps the qualifier at half the maximum length", () => {
+    const config = { ...snake, maxLength: 20 };
+    expect(qualifyElementKey("button", ["a", "very", "long", "region", "name"], config)).toBe(
+      "button_a_very_lon"
+    );
+  });
+});
+
+describe("normalizeElementKeyConfig", () => {
+  it("falls back to the defaults for unknown values", () => {
+    expect(normalizeElementKeyConfig(undefined)).toEqual(DEFAULT_ELEMENT_KEY_CONFIG);
+    expect(
+      normalizeElementKeyConfig({ case: "upper" as ElementKeyConfig["case"], prefix: "page" })
+    ).toEqual({ case: "snake", prefix: "page", maxLength: 40 });
+  });
+
+  it("clamps and rounds the maximum length", () => {
+    expect(normalizeElementKeyConfig({ maxLength: 4 }).maxLength).toBe(16);
+    expect(normalizeElementKeyConfig({ maxLength: 500 }).maxLength).toBe(80);
+    expect(normalizeElementKeyConfig({ maxLength: 30.6 }).maxLength).toBe(31);
+  });
+});
@@ -0,0 +1,118 @@
+export type ElementKeyCase = "snake" | "camel" | "kebab";
+
+export type ElementKeyPrefix = "none" | "page" | "landmark";
+
+export type ElementKeyConfig = {
+  case: ElementKeyCase;
+  prefix: ElementKeyPrefix;
+  maxLength: number;
+};
+
+export const DEFAULT_ELEMENT_KEY_CONFIG: ElementKeyConfig = {
+  case: "snake",
+  prefix: "none",
+  maxLength: 40,
+};
+
+export const ELEMENT_KEY_CASES: { id: ElementKeyCase; label: string }[] = [
+  { id: "snake", label: "snake_case (button_add_to_cart)" },
+  { id: "camel", label: "camelCase (buttonAddToCart)" },
+  { id: "kebab", label: "kebab-case (button-add-to-cart)" },
+];
+
+export const ELEMENT_KEY_PREFIXES: { id: ElementKeyPrefix; label: string }[] = [
+  { id: "none", label: "No prefix" },
+  { id: "page", label: "Page (checkout_button_pay)" },
+  { id: "landmark", label: "Region landmark (navigation_link_home)" },
+];
+
+export const MIN_ELEMENT_KEY_LENGTH = 16;
+export const MAX_ELEMENT_KEY_LENGTH = 80;
+
+const CONFIG_KEY = "elementKeyConfig";
+/** Qualifiers never take more than this share of the key. */
+const QUALIFIER_SHARE = 0.5;
+
+/** Lowercase ASCII words of `text`; everything else separates words. */
+export function splitKeyWords(text: string): string[] {
+  return text
+    .replace(/[^a-zA-Z0-9]+/g, " ")
+    .trim()
+    .toLowerCase()
+    .split(" ")
+    .filter(Boolean);
+}
+
+export function formatElementKey(words: string[], config: ElementKeyConfig): string {
+  return trimKey(joinWords(words, config.case, true).slice(0, config.maxLength));
+}
+
+/**
+ * `key` with `qualifier` appended, shortening `key` rather than the qualifier
+ * so two colliding keys stay distinguishable at the maximum length.
+ */
+export function qualifyElementKey(
+  key: string,
+  qualifier: string[],
+  config: ElementKeyConfig
+): string {
+  const separator = getSeparator(config.case);
+  const limit = Math.floor(config.maxLength * QUALIFIER_SHARE);
+  const suffix = `${separator}${trimKey(joinWords(qualifier, config.case, false).slice(0, limit))}`;
+  return `${trimKey(key.slice(0, config.maxLength - suffix.length))}${suffix}`;
+}
+
+export function normalizeElementKeyConfig(
+  stored: Partial<ElementKeyConfig> | undefined
+): ElementKeyConfig {
+  const maxLength = Number(stored?.maxLength);
+  return {
+    case: ELEMENT_KEY_CASES.some((option) => option.id === stored?.case)
+      ? (stored?.case as ElementKeyCase)
+      : DEFAULT_ELEMENT_KEY_CONFIG.case,
+    prefix: ELEMENT_KEY_PREFIXES.some((option) => option.id === stored?.prefix)
+      ? (stored?.prefix as ElementKeyPrefix)
+      : DEFAULT_ELEMENT_KEY_CONFIG.prefix,
+    maxLength: Number.isFinite(maxLength)
+      ? Math.min(MAX_ELEMENT_KEY_LENGTH, Math.max(MIN_ELEMENT_KEY_LENGTH, Math.round(maxLength)))
+      : DEFAULT_ELEMENT_KEY_CONFIG.maxLength,
+  };
+}
+
+export async function loadElementKeyConfig(): Promise<ElementKeyConfig> {
+  const data = await chrome.storage.local.get(CONFIG_KEY);
+  return normalizeElementKeyConfig(data[CONFIG_KEY] as Partial<ElementKeyConfig> | undefined);
+}
+
+export async function saveElementKeyConfig(config: ElementKeyConfig): Promise<void> {
+  await chrome.storage.local.set({ [CONFIG_KEY]: normalizeElementKeyConfig(config) });
+}
+
+/** Calls `listener` with the stored config now and whenever it is saved. */
+export function watchElementKeyConfig(listener: (config: ElementKeyConfig) => void): void {
+  void loadElementKeyConfig().then(listener);
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if (area !== "local" || !(CONFIG_KEY in changes)) return;
+    listener(
+      normalizeElementKeyConfig(changes[CONFIG_KEY].newValue as Partial<ElementKeyConfig> | undefined)
+    );
+  });
+}
+
+function joinWords(words: string[], keyCase: ElementKeyCase, leading: boolean): string {
+  if (keyCase !== "camel") return words.join(getSeparator(keyCase));
+  return words
+    .map((word, index) =>
+      index === 0 && leading ? word : `${word.charAt(0).toUpperCase()}${word.slice(1)}`
+    )
+    .join("");
+}
+
+function getSeparator(keyCase: ElementKeyCase): string {
+  if (keyCase === "snake") return "_";
+  return keyCase === "kebab" ? "-" : "";
+}
+
+function trimKey(key: string): string {
+  return key.replace(/[-_]+$/, "");
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { renderDescriptionAdf, type AdfNode } from "./adf";
+import { GHERKIN_LANGUAGES } from "./keywords";
+
+/** The text of a node and its children, one space between siblings. */
+function textOf(node: AdfNode): string {
+  return node.text ?? (node.content || []).map(textOf).filter(Boolean).join(" ");
+}
+
+/** Each top-level block as `type: text`, which keeps expectations readable. */
+function blocks(content: AdfNode[]): string[] {
+  return content.map((node) => `${node.type}: ${textOf(node)}`);
+}
+
+describe("renderDescriptionAdf", () => {
+  it("renders features as headings, steps as code and tables as tables", () => {
+    const document = renderDescriptionAdf(
+      [
+        "# language: en",
+        "@cart @smoke",
+        "Feature: Cart",
+        "",
+        "  Scenario Outline: Add <item>",
+        '    When I fill "item" with "<item>"',
+        '    Then the "total" should be visible',
+        "",
+        "    Examples:",
+        "      | item |",
+        "      # out of stock",
+        "      | pen  |",
+      ].join("\n")
+    );
+    expect(document).toMatchObject({ type: "doc", version: 1 });
+    expect(blocks(document.content)).toEqual([
+      "paragraph: @cart   @smoke",
+      "heading: Feature: Cart",
+      "heading: Scenario Outline: Add <item>",
+      'codeBlock: When I fill "item" with "<item>"\nThen the "total" should be visible',
+      "heading: Examples:",
+      "table: item pen",
+      "bulletList: Row 1: out of stock",
+    ]);
+    expect(document.content[1].attrs).toEqual({ level: 2 });
+    expect(document.content[3].attrs).toEqual({ language: "gherkin" });
+    expect(document.content[4].attrs).toEqual({ level: 4 });
+    const [header, row] = document.content[5].content || [];
+    expect(header.content?.map((cell) => cell.type)).toEqual(["tableHeader"]);
+    expect(row.content?.map((cell) => cell.type)).toEqual(["tableCell"]);
+  });
+
+  it("keeps doc strings verbatim inside the code block", () => {
+    const document = renderDescriptionAdf(
+      ['  Then the response is', '    """json', '      { "ok": true }', '    """'].join("\n")
+    );
+    expect(document.content).toEqual([
+      {
+        type: "codeBlock",
+        attrs: { language: "gherkin" },
+        content: [
+          { type: "text", text: 'Then the response is\n"""json\n  { "ok": true }\n"""' },
+        ],
+      },
+    ]);
+  });
+
+  it("turns the bug template into sections with lists and links", () => {
+    const document = renderDescriptionAdf(
+      [
+        "Observed: The total stays at 0.",
+        "Expected: The total shows the price.",
+        "Steps to Reproduce:",
+        "1. Open https://shop.test/cart.",
+        "2. Add a pen",
+        "- seen on staging",
+      ].join("\n"),
+      { url: "https://shop.test/cart" }
+    );
+    expect(blocks(document.content)).toEqual([
+      "heading: Observed",
+      "paragraph: The total stays at 0.",
+      "heading: Expected",
+      "paragraph: The total shows the price.",
+      "heading: Steps to Reproduce",
+      "orderedList: Open  https://shop.test/cart . Add a pen",
+      "bulletList: seen on staging",
+      "paragraph: URL:  https://shop.test/cart",
+    ]);
+    const firstItem = document.content[5].content?.[0].content?.[0].content;
+    expect(firstItem?.[1]).toEqual({
+      type: "text",
+      text: "https://shop.test/cart",
+      marks: [{ type: "link", attrs: { href: "https://shop.test/cart" } }],
+    });
+  });
+
+  it("keeps other lines as one paragraph with hard breaks", () => {
+    expect(renderDescriptionAdf("First line\nSecond line").content).toEqual([
+      {
+        type: "paragraph",
+        content: [
+          { type: "text", text: "First line" },
+          { type: "hardBreak" },
+          { type: "text", text: "Second line" },
+        ],
+      },
+    ]);
+  });
+
+  it("reads headers and steps in the feature's language", () => {
+    const document = renderDescriptionAdf("Funktionalität: Warenkorb\n  Angenommen ich bin da", {
+      keywords: GHERKIN_LANGUAGES.de.keywords,
+    });
+    expect(blocks(document.content)).toEqual([
+      "heading: Funktionalität: Warenkorb",
+      "codeBlock: Angenommen ich bin da",
+    ]);
+  });
+});
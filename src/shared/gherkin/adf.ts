@@ -0,0 +1,268 @@
+import { ENGLISH_KEYWORDS, type GherkinKeywords } from "./keywords";
+import { tokenizeLine } from "./parser";
+
+/** The subset of Atlassian Document Format that Jira descriptions use here. */
+export type AdfMark = { type: "code" | "strong" } | { type: "link"; attrs: { href: string } };
+
+export type AdfNode = {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: AdfMark[];
+};
+
+export type AdfDocument = { type: "doc"; version: 1; content: AdfNode[] };
+
+type ListBlock = { type: "orderedList" | "bulletList"; items: string[] };
+
+/** Section labels of the bug report template, matched case-insensitively. */
+const SECTION_LABELS = [
+  "bug summary",
+  "summary",
+  "observed",
+  "actual",
+  "actual result",
+  "expected",
+  "expected result",
+  "steps to reproduce",
+  "steps",
+  "environment",
+  "notes",
+];
+const SECTION_PATTERN = /^([A-Za-z][A-Za-z ]{0,30}):\s*(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\d+[.)]\s+(.*)$/;
+const BULLET_ITEM_PATTERN = /^[-*•]\s+(.*)$/;
+/** Sentence punctuation right after a URL is not part of it. */
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]*[^\s<>"')\].,;:!?]/g;
+const LANGUAGE_LINE_PATTERN = /^#\s*language\s*:/;
+
+/**
+ * Converts the overlay text into ADF so tickets read like hand-written ones.
+ * Feature, Rule and Scenario lines become headings, steps a `gherkin` code
+ * block, data tables and Examples real tables, and the bug template's
+ * `Observed:`/`Expected:`/`Steps to Reproduce:` labels headed sections with
+ * lists. Anything else is kept as paragraphs with links.
+ */
+export function renderDescriptionAdf(
+  text: string,
+  options: { url?: string; keywords?: GherkinKeywords } = {}
+): AdfDocument {
+  const keywords = options.keywords || ENGLISH_KEYWORDS;
+  const content: AdfNode[] = [];
+  let code: string[] = [];
+  let paragraph: string[] = [];
+  let list: ListBlock | null = null;
+  let table: { rows: string[][]; notes: string[] } | null = null;
+  let pendingNote: string | null = null;
+  let docString: { delimiter: string; indent: number } | null = null;
+
+  const flushCode = () => {
+    while (code.length > 0 && !code[code.length - 1].trim()) code.pop();
+    if (code.length > 0) content.push(codeBlock(code.join("\n"), "gherkin"));
+    code = [];
+  };
+  const flushParagraph = () => {
+    if (paragraph.length > 0) content.push(paragraphNode(paragraph));
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) content.push(listNode(list.type, list.items));
+    list = null;
+  };
+  const flushTable = () => {
+    if (!table) return;
+    content.push(tableNode(table.rows));
+    if (table.notes.length > 0) content.push(listNode("bulletList", table.notes));
+    table = null;
+  };
+  const flushAll = () => {
+    flushCode();
+    flushParagraph();
+    flushList();
+    flushTable();
+  };
+
+  text.split("\n").forEach((line) => {
+    const trimmed = line.trim();
+
+    // Doc strings stay in the code block word for word, less the indentation
+    // of their opening delimiter.
+    if (docString) {
+      const indent = line.match(/^\s*/)?.[0].length || 0;
+      code.push(line.slice(Math.min(indent, docString.indent)));
+      if (trimmed.startsWith(docString.delimiter)) docString = null;
+      return;
+    }
+
+    const token = tokenizeLine(line, keywords);
+    if (token.type === "row" && token.cells) {
+      flushCode();
+      flushParagraph();
+      flushList();
+      table = table || { rows: [], notes: [] };
+      if (pendingNote) table.notes.push(`Row ${table.rows.length}: ${pendingNote}`);
+      pendingNote = null;
+      table.rows.push(token.cells);
+      return;
+    }
+    if (token.type === "comment") {
+      if (LANGUAGE_LINE_PATTERN.test(trimmed)) return;
+      const note = trimmed.replace(/^#\s*/, "");
+      if (table) pendingNote = note;
+      else if (code.length > 0) code.push(trimmed);
+      else paragraph.push(note);
+      return;
+    }
+    if (token.type === "empty") {
+      flushParagraph();
+      flushList();
+      if (!pendingNote) flushTable();
+      return;
+    }
+    pendingNote = null;
+    flushTable();
+
+    if (token.type === "docString") {
+      flushParagraph();
+      flushList();
+      code.push(trimmed);
+      docString = { delimiter: token.delimiter, indent: line.length - line.trimStart().length };
+      return;
+    }
+    if (token.type === "step") {
+      flushParagraph();
+      flushList();
+      code.push(trimmed);
+      return;
+    }
+    if (token.type === "header") {
+      flushAll();
+      const level = token.kind === "feature" ? 2 : token.kind === "examples" ? 4 : 3;
+      content.push(heading(level, `${token.keyword}: ${token.name}`.trim()));
+      return;
+    }
+    if (token.type === "tags") {
+      flushAll();
+      content.push({
+        type: "paragraph",
+        content: token.tags.flatMap((tag, index) => [
+          ...(index > 0 ? [{ type: "text", text: " " }] : []),
+          { type: "text", text: tag, marks: [{ type: "code" }] },
+        ]),
+      });
+      return;
+    }
+
+    flushCode();
+    const section = trimmed.match(SECTION_PATTERN);
+    if (section && SECTION_LABELS.includes(section[1].trim().toLowerCase())) {
+      flushParagraph();
+      flushList();
+      content.push(heading(3, section[1].trim()));
+      if (section[2]) paragraph.push(section[2]);
+      return;
+    }
+    const ordered = trimmed.match(ORDERED_ITEM_PATTERN);
+    const bullet = trimmed.match(BULLET_ITEM_PATTERN);
+    const item = ordered || bullet;
+    if (item) {
+      flushParagraph();
+      const type = ordered ? "orderedList" : "bulletList";
+      const current: ListBlock = list?.type === type ? list : { type, items: [] };
+      if (current !== list) {
+        flushList();
+        list = current;
+      }
+      current.items.push(item[1]);
+      return;
+    }
+    flushList();
+    paragraph.push(trimmed);
+  });
+  flushAll();
+
+  if (options.url) {
+    content.push({
+      type: "paragraph",
+      content: [
+        { type: "text", text: "URL: ", marks: [{ type: "strong" }] },
+        { type: "text", text: options.url, marks: [{ type: "link", attrs: { href: options.url } }] },
+      ],
+    });
+  }
+  return { type: "doc", version: 1, content };
+}
+
+export function heading(level: number, text: string): AdfNode {
+  return { type: "heading", attrs: { level }, content: text ? [{ type: "text", text }] : [] };
+}
+
+export function codeBlock(text: string, language: string): AdfNode {
+  return {
+    type: "codeBlock",
+    attrs: { language },
+    content: text ? [{ type: "text", text }] : [],
+  };
+}
+
+/** The plain text of an ADF document, e.g. a description returned by the search API. */
+export function adfToText(node: unknown): string {
+  if (!node || typeof node !== "object") return "";
+  const { text, content } = node as AdfNode;
+  const own = typeof text === "string" ? text : "";
+  const children = Array.isArray(content) ? content.map(adfToText).filter(Boolean).join(" ") : "";
+  return [own, children].filter(Boolean).join(" ");
+}
+
+/** One paragraph; source lines are kept apart with hard breaks. */
+function paragraphNode(lines: string[]): AdfNode {
+  return {
+    type: "paragraph",
+    content: lines.flatMap((line, index) => [
+      ...(index > 0 ? [{ type: "hardBreak" }] : []),
+      ...linkify(line),
+    ]),
+  };
+}
+
+function listNode(type: ListBlock["type"], items: string[]): AdfNode {
+  return {
+    type,
+    content: items.map((item) => ({
+      type: "listItem",
+      content: [paragraphNode([item])],
+    })),
+  };
+}
+
+/** The first row is the header, as in Examples and captured tables. */
+function tableNode(rows: string[][]): AdfNode {
+  const width = Math.max(...rows.map((row) => row.length));
+  return {
+    type: "table",
+    attrs: { isNumberColumnEnabled: false, layout: "default" },
+    content: rows.map((row, rowIndex) => ({
+      type: "tableRow",
+      content: Array.from({ length: width }, (_, column) => ({
+        type: rowIndex === 0 ? "tableHeader" : "tableCell",
+        attrs: {},
+        content: [paragraphNode([row[column] || ""])],
+      })),
+    })),
+  };
+}
+
+/** Text nodes with URLs turned into links; ADF rejects empty text nodes. */
+function linkify(text: string): AdfNode[] {
+  const nodes: AdfNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) nodes.push({ type: "text", text: text.slice(last, start) });
+    nodes.push({ type: "text", text: match[0], marks: [{ type: "link", attrs: { href: match[0] } }] });
+    last = start + match[0].length;
+  }
+  if (last < text.length) nodes.push({ type: "text", text: text.slice(last) });
+  return nodes;
+}
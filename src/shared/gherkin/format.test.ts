@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { alignAllTables, alignTableAt, formatTableRows, getNextLineIndent } from "./format";
+import { GHERKIN_LANGUAGES } from "./keywords";
+
+describe("getNextLineIndent", () => {
+  it("indents below headers and keeps the indent after steps", () => {
+    expect(getNextLineIndent("Feature: Cart")).toBe("  ");
+    expect(getNextLineIndent("  Scenario: Buy")).toBe("    ");
+    expect(getNextLineIndent('    When I click "buy"')).toBe("    ");
+  });
+
+  it("recognises headers in other languages", () => {
+    expect(getNextLineIndent("  Szenario: Kaufen", GHERKIN_LANGUAGES.de.keywords)).toBe("    ");
+  });
+});
+
+describe("alignTableAt", () => {
+  it("aligns the table around the line, leaving other lines alone", () => {
+    const lines = ["    Given rows", "      |a|bb|", "  | ccc | d |", "    Then done"];
+    expect(alignTableAt(lines, 2)).toEqual([
+      "    Given rows",
+      "      | a   | bb |",
+      "      | ccc | d  |",
+      "    Then done",
+    ]);
+  });
+
+  it("keeps escaped pipes inside their cell", () => {
+    expect(alignTableAt(["| a\\|b | c |", "| d | e |"], 0)).toEqual([
+      "| a\\|b | c |",
+      "| d    | e |",
+    ]);
+  });
+
+  it("leaves a table with an unfinished row alone", () => {
+    const lines = ["| a | b |", "| c | d"];
+    expect(alignTableAt(lines, 0)).toBe(lines);
+  });
+});
+
+describe("alignAllTables", () => {
+  it("aligns every table in the text", () => {
+    expect(alignAllTables("Given a\n|x|yy|\n|zzz|w|\nThen b\n| 1 |\n| 22 |")).toBe(
+      "Given a\n| x   | yy |\n| zzz | w  |\nThen b\n| 1  |\n| 22 |"
+    );
+  });
+});
+
+describe("formatTableRows", () => {
+  it("escapes cell content and pads columns", () => {
+    expect(formatTableRows([["name", "note"], ["a|b", "line\nbreak \\"]], "  ")).toEqual([
+      "  | name | note           |",
+      "  | a\\|b | line\\nbreak \\\\ |",
+    ]);
+  });
+});
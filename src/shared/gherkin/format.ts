@@ -0,0 +1,92 @@
+import { ENGLISH_KEYWORDS, type GherkinKeywords } from "./keywords";
+import { tokenizeLine } from "./parser";
+
+const INDENT = "  ";
+
+/**
+ * Indentation for the line after `line`: one level deeper below Feature,
+ * Rule, Background, Scenario and Examples headers, otherwise unchanged.
+ */
+export function getNextLineIndent(
+  line: string,
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): string {
+  const indent = line.match(/^\s*/)?.[0] || "";
+  return tokenizeLine(line, keywords).type === "header" ? `${indent}${INDENT}` : indent;
+}
+
+/** Raw cell text between unescaped pipes, keeping escapes intact. */
+function splitRawCells(row: string): string[] | null {
+  const trimmed = row.trim();
+  if (!trimmed.startsWith("|") || !trimmed.endsWith("|") || trimmed.length < 2) return null;
+  const cells: string[] = [];
+  let current = "";
+  for (let index = 1; index < trimmed.length; index += 1) {
+    const char = trimmed[index];
+    if (char === "\\" && index + 1 < trimmed.length) {
+      current += `${char}${trimmed[index + 1]}`;
+      index += 1;
+    } else if (char === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  return current.trim() ? null : cells;
+}
+
+/**
+ * Pads the cells of the table containing `lineIndex` so its pipes line up.
+ * Rows keep their own cell count; a block with an unterminated row is left
+ * alone so the user can finish typing it.
+ */
+export function alignTableAt(lines: string[], lineIndex: number): string[] {
+  const isRow = (line: string | undefined) => Boolean(line?.trim().startsWith("|"));
+  if (!isRow(lines[lineIndex])) return lines;
+  let start = lineIndex;
+  let end = lineIndex;
+  while (isRow(lines[start - 1])) start -= 1;
+  while (isRow(lines[end + 1])) end += 1;
+
+  const rows = lines.slice(start, end + 1).map(splitRawCells);
+  if (rows.some((row) => !row)) return lines;
+  const cellRows = rows as string[][];
+  const widths: number[] = [];
+  cellRows.forEach((cells) =>
+    cells.forEach((cell, column) => {
+      widths[column] = Math.max(widths[column] || 0, cell.length);
+    })
+  );
+  const indent = lines[start].match(/^\s*/)?.[0] || "";
+  const aligned = cellRows.map(
+    (cells) => `${indent}| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(" | ")} |`
+  );
+  return [...lines.slice(0, start), ...aligned, ...lines.slice(end + 1)];
+}
+
+export function alignAllTables(text: string): string {
+  let lines = text.split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    if (!lines[index].trim().startsWith("|")) continue;
+    lines = alignTableAt(lines, index);
+    while (lines[index + 1]?.trim().startsWith("|")) index += 1;
+  }
+  return lines.join("\n");
+}
+
+/** Data table or Examples rows with escaped cells and aligned pipes. */
+export function formatTableRows(rows: string[][], indent = ""): string[] {
+  const escaped = rows.map((row) =>
+    row.map((cell) => cell.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, "\\n"))
+  );
+  const widths: number[] = [];
+  escaped.forEach((cells) =>
+    cells.forEach((cell, column) => {
+      widths[column] = Math.max(widths[column] || 0, cell.length);
+    })
+  );
+  return escaped.map(
+    (cells) => `${indent}| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(" | ")} |`
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectGherkinLanguage,
+  ENGLISH_KEYWORDS,
+  findLanguageLine,
+  formatStepKeyword,
+  getGherkinKeywords,
+  getLanguageHeader,
+  getStepKeywords,
+  GHERKIN_LANGUAGES,
+  resolveGherkinKeywords,
+  translateGherkin,
+} from "./keywords";
+import { lintGherkin } from "./lint";
+
+const ENGLISH_FEATURE = [
+  "Feature: Cart",
+  "  Rule: Totals",
+  "    Scenario Outline: Add <item>",
+  '      Given I am on the "cart" page',
+  '      When I fill "item" with "<item>"',
+  '      Then the "total" should be visible',
+  '      And the "checkout" should be enabled',
+  '      But the "coupon" should not be visible',
+  "      Examples:",
+  "        | item |",
+  "        | pen  |",
+].join("\n");
+
+describe("GHERKIN_LANGUAGES", () => {
+  it("covers every language of the Cucumber table", () => {
+    expect(Object.keys(GHERKIN_LANGUAGES).length).toBeGreaterThan(70);
+    expect(GHERKIN_LANGUAGES.pt.native).toBe("português");
+  });
+
+  it("writes the plain, native keyword of each kind first", () => {
+    expect(ENGLISH_KEYWORDS.scenario[0]).toBe("Scenario");
+    expect(ENGLISH_KEYWORDS.given).not.toContain("*");
+    expect(GHERKIN_LANGUAGES.de.keywords.rule[0]).toBe("Regel");
+    expect(GHERKIN_LANGUAGES.fr.keywords.and[0]).toBe("Et");
+    expect(GHERKIN_LANGUAGES.fr.keywords.and).toContain("Et que");
+  });
+});
+
+describe("formatStepKeyword and getStepKeywords", () => {
+  it("adds a space only after keywords that take one", () => {
+    expect(formatStepKeyword("Given")).toBe("Given ");
+    expect(formatStepKeyword("Lorsqu'")).toBe("Lorsqu'");
+    expect(formatStepKeyword("前提")).toBe("前提");
+  });
+
+  it("lists longer keywords first and treats * as a conjunction", () => {
+    const steps = getStepKeywords(GHERKIN_LANGUAGES.fr.keywords);
+    const index = (keyword: string) => steps.findIndex((step) => step.keyword === keyword);
+    expect(index("Et que")).toBeLessThan(index("Et"));
+    expect(steps.find((step) => step.keyword === "*")?.type).toBe("conjunction");
+  });
+});
+
+describe("language lines", () => {
+  it("reads the language line before the first Gherkin line", () => {
+    expect(findLanguageLine("# comment\n  # language: fr\nFonctionnalité: F")).toEqual({
+      code: "fr",
+      line: 2,
+    });
+    expect(findLanguageLine("Feature: F\n# language: fr")).toBeNull();
+  });
+
+  it("ignores unknown codes when picking keywords", () => {
+    expect(detectGherkinLanguage("# language: xx\nFeature: F")).toBeNull();
+    expect(resolveGherkinKeywords("# language: xx\nFeature: F", "de")).toBe(
+      GHERKIN_LANGUAGES.de.keywords
+    );
+    expect(resolveGherkinKeywords("# language: es\nCaracterística: F", "de")).toBe(
+      GHERKIN_LANGUAGES.es.keywords
+    );
+    expect(getGherkinKeywords("xx")).toBe(ENGLISH_KEYWORDS);
+  });
+
+  it("writes a header for languages other than English", () => {
+    expect(getLanguageHeader("en")).toEqual([]);
+    expect(getLanguageHeader("xx")).toEqual([]);
+    expect(getLanguageHeader("ja")).toEqual(["# language: ja"]);
+  });
+
+  it("is flagged by the linter when the code is unknown", () => {
+    expect(lintGherkin("# language: xx\nFeature: F\n  Scenario: S\n    Given x")).toEqual([
+      { line: 1, severity: "error", message: 'Unknown Gherkin language "xx".' },
+    ]);
+  });
+});
+
+describe("translateGherkin", () => {
+  it("rewrites keywords and keeps step text", () => {
+    expect(translateGherkin(ENGLISH_FEATURE, GHERKIN_LANGUAGES.de.keywords).split("\n")).toEqual([
+      "Funktionalität: Cart",
+      "  Regel: Totals",
+      "    Szenariogrundriss: Add <item>",
+      '      Angenommen I am on the "cart" page',
+      '      Wenn I fill "item" with "<item>"',
+      '      Dann the "total" should be visible',
+      '      Und the "checkout" should be enabled',
+      '      Aber the "coupon" should not be visible',
+      "      Beispiele:",
+      "        | item |",
+      "        | pen  |",
+    ]);
+  });
+
+  it("round-trips through a language with attached keywords", () => {
+    const japanese = GHERKIN_LANGUAGES.ja.keywords;
+    const translated = translateGherkin(ENGLISH_FEATURE, japanese);
+    expect(translated).toContain('      前提I am on the "cart" page');
+    expect(lintGherkin(`# language: ja\n${translated}`, japanese)).toEqual([]);
+    expect(translateGherkin(translated, ENGLISH_KEYWORDS, japanese)).toBe(ENGLISH_FEATURE);
+  });
+});
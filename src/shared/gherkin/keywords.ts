@@ -0,0 +1,227 @@
+import gherkinLanguages from "@cucumber/gherkin/dist/gherkin-languages.json";
+
+export type StepKeywordType = "context" | "action" | "outcome" | "conjunction";
+
+export type GherkinKeywords = {
+  feature: string[];
+  rule: string[];
+  background: string[];
+  scenario: string[];
+  scenarioOutline: string[];
+  examples: string[];
+  given: string[];
+  when: string[];
+  then: string[];
+  and: string[];
+  but: string[];
+};
+
+export type GherkinLanguage = {
+  name: string;
+  native: string;
+  keywords: GherkinKeywords;
+};
+
+export type GherkinConfig = {
+  /** Code from the Gherkin i18n table, as written after `# language:`. */
+  language: string;
+};
+
+/** One entry of Cucumber's gherkin-languages.json. */
+type GherkinLanguageEntry = { name: string; native: string } & Record<
+  keyof GherkinKeywords,
+  string[]
+>;
+
+const KEYWORD_KINDS = [
+  "feature",
+  "rule",
+  "background",
+  "scenario",
+  "scenarioOutline",
+  "examples",
+  "given",
+  "when",
+  "then",
+  "and",
+  "but",
+] as const;
+const STEP_KINDS = ["given", "when", "then", "and", "but"] as const;
+
+/**
+ * Step keywords that the table lists without a trailing space, such as
+ * French `Lorsqu'` or Japanese `前提`: the step text follows directly.
+ */
+const ATTACHED_KEYWORDS = new Set<string>();
+
+/**
+ * Every language of Cucumber's gherkin-languages.json, with the trailing
+ * spaces of step keywords dropped and `*` left to `getStepKeywords`. The
+ * first keyword of each kind is the one the extension writes.
+ */
+export const GHERKIN_LANGUAGES: Record<string, GherkinLanguage> = Object.fromEntries(
+  Object.entries(gherkinLanguages as Record<string, GherkinLanguageEntry>).map(
+    ([code, entry]) => [
+      code,
+      { name: entry.name, native: entry.native, keywords: toGherkinKeywords(entry) },
+    ]
+  )
+);
+
+export const ENGLISH_KEYWORDS: GherkinKeywords = GHERKIN_LANGUAGES.en.keywords;
+
+function isStepKind(kind: keyof GherkinKeywords): kind is (typeof STEP_KINDS)[number] {
+  return (STEP_KINDS as readonly string[]).includes(kind);
+}
+
+function toGherkinKeywords(entry: GherkinLanguageEntry): GherkinKeywords {
+  const keywords = {} as GherkinKeywords;
+  KEYWORD_KINDS.forEach((kind) => {
+    const list = entry[kind].filter((keyword) => keyword.trim() !== "*");
+    if (isStepKind(kind)) {
+      list.filter((keyword) => !keyword.endsWith(" ")).forEach((keyword) => ATTACHED_KEYWORDS.add(keyword));
+    }
+    const trimmed = Array.from(new Set(list.map((keyword) => keyword.trim())));
+    const preferred = pickPreferredKeyword(kind, trimmed, entry);
+    keywords[kind] = [preferred, ...trimmed.filter((keyword) => keyword !== preferred)];
+  });
+  return keywords;
+}
+
+/**
+ * The table is not ordered by preference, so: the Scenario keyword the
+ * outline is named after (`Scenario`, not `Example`), a native Rule keyword
+ * over the English fallback, and the plain form of step keywords (`Et`, not
+ * `Et que`).
+ */
+function pickPreferredKeyword(
+  kind: keyof GherkinKeywords,
+  keywords: string[],
+  entry: GherkinLanguageEntry
+): string {
+  if (kind === "scenario") {
+    const outline = (entry.scenarioOutline[0] || "").toLowerCase();
+    return keywords.find((keyword) => outline.includes(keyword.toLowerCase())) || keywords[0];
+  }
+  if (kind === "rule") {
+    return keywords.find((keyword) => keyword !== "Rule") || keywords[0];
+  }
+  if (!isStepKind(kind)) return keywords[0];
+  return (
+    keywords.find(
+      (keyword) =>
+        !keywords.some((other) => other !== keyword && keyword.startsWith(formatStepKeyword(other)))
+    ) || keywords[0]
+  );
+}
+
+const CONFIG_KEY = "gherkinConfig";
+const LANGUAGE_PATTERN = /^\s*#\s*language\s*:\s*([\w-]+)\s*$/;
+const HEADER_KINDS = [
+  "feature",
+  "rule",
+  "background",
+  "scenarioOutline",
+  "scenario",
+  "examples",
+] as const;
+
+export function getGherkinKeywords(language: string): GherkinKeywords {
+  return (GHERKIN_LANGUAGES[language] || GHERKIN_LANGUAGES.en).keywords;
+}
+
+/**
+ * The language of a `# language:` line before the first Gherkin line, as
+ * Cucumber reads it. Unknown codes are ignored here; the linter reports them.
+ */
+export function detectGherkinLanguage(text: string): string | null {
+  const header = findLanguageLine(text);
+  return header && GHERKIN_LANGUAGES[header.code] ? header.code : null;
+}
+
+/** The code of the `# language:` line and its 1-based line number, known or not. */
+export function findLanguageLine(text: string): { code: string; line: number } | null {
+  const lines = text.split("\n");
+  for (let index = 0; index < lines.length; index += 1) {
+    const match = lines[index].match(LANGUAGE_PATTERN);
+    if (match) return { code: match[1], line: index + 1 };
+    if (lines[index].trim() && !lines[index].trim().startsWith("#")) return null;
+  }
+  return null;
+}
+
+/** Keywords for `text`: its `# language:` line, else the configured language. */
+export function resolveGherkinKeywords(text: string, language: string): GherkinKeywords {
+  return getGherkinKeywords(detectGherkinLanguage(text) || language);
+}
+
+/** The keyword and the separator before the step text (none for attached keywords). */
+export function formatStepKeyword(keyword: string): string {
+  return ATTACHED_KEYWORDS.has(keyword) ? keyword : `${keyword} `;
+}
+
+/**
+ * Step keywords with their type; `*` is a conjunction in every language.
+ * Longer keywords come first so `Et que` wins over `Et`.
+ */
+export function getStepKeywords(
+  keywords: GherkinKeywords
+): { keyword: string; type: StepKeywordType }[] {
+  return [
+    ...keywords.given.map((keyword) => ({ keyword, type: "context" as const })),
+    ...keywords.when.map((keyword) => ({ keyword, type: "action" as const })),
+    ...keywords.then.map((keyword) => ({ keyword, type: "outcome" as const })),
+    ...keywords.and.map((keyword) => ({ keyword, type: "conjunction" as const })),
+    ...keywords.but.map((keyword) => ({ keyword, type: "conjunction" as const })),
+    { keyword: "*", type: "conjunction" as const },
+  ].sort((a, b) => b.keyword.length - a.keyword.length);
+}
+
+/**
+ * Rewrites the keyword at the start of every line from one language to the
+ * first keyword of the same kind in another. Step text is left alone: it
+ * has to keep matching the step definitions.
+ */
+export function translateGherkin(
+  text: string,
+  to: GherkinKeywords,
+  from: GherkinKeywords = ENGLISH_KEYWORDS
+): string {
+  if (to === from) return text;
+  const headers = HEADER_KINDS.flatMap((kind) =>
+    from[kind].map((keyword) => ({ kind, prefix: `${keyword}:`, replacement: `${to[kind][0]}:` }))
+  );
+  const steps = STEP_KINDS.flatMap((kind) =>
+    from[kind].map((keyword) => ({
+      kind,
+      prefix: formatStepKeyword(keyword),
+      replacement: formatStepKeyword(to[kind][0]),
+    }))
+  );
+  const candidates = [...headers, ...steps].sort((a, b) => b.prefix.length - a.prefix.length);
+  return text
+    .split("\n")
+    .map((line) => {
+      const indent = line.match(/^\s*/)?.[0] || "";
+      const rest = line.slice(indent.length);
+      const match = candidates.find(({ prefix }) => rest.startsWith(prefix));
+      return match ? `${indent}${match.replacement}${rest.slice(match.prefix.length)}` : line;
+    })
+    .join("\n");
+}
+
+/** The `# language:` line a complete feature file needs, or none for English. */
+export function getLanguageHeader(language: string): string[] {
+  return language !== "en" && GHERKIN_LANGUAGES[language] ? [`# language: ${language}`] : [];
+}
+
+export async function loadGherkinConfig(): Promise<GherkinConfig> {
+  const data = await chrome.storage.local.get(CONFIG_KEY);
+  const stored = data[CONFIG_KEY] as Partial<GherkinConfig> | undefined;
+  const language = stored?.language || "en";
+  return { language: GHERKIN_LANGUAGES[language] ? language : "en" };
+}
+
+export async function saveGherkinConfig(config: GherkinConfig): Promise<void> {
+  await chrome.storage.local.set({ [CONFIG_KEY]: config });
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { hasGherkinErrors, lintGherkin } from "./lint";
+
+function messages(text: string): string[] {
+  return lintGherkin(text).map(
+    (problem) => `${problem.line} ${problem.severity}: ${problem.message}`
+  );
+}
+
+describe("lintGherkin", () => {
+  it("accepts a well-formed feature", () => {
+    expect(
+      messages(
+        [
+          "Feature: Cart",
+          "  Scenario Outline: Buy <item>",
+          '    Given I am on the "cart" page',
+          '    When I fill "quantity" with "<count>"',
+          '    Then the "total" should be visible',
+          "    Examples:",
+          "      | item | count |",
+          "      | pen  | 2     |",
+        ].join("\n")
+      )
+    ).toEqual([]);
+  });
+
+  it("warns about steps out of Given, When, Then order", () => {
+    expect(
+      messages(
+        [
+          "Feature: F",
+          "  Scenario: S",
+          "    And something",
+          "    Then it works",
+          "    When I click again",
+        ].join("\n")
+      )
+    ).toEqual([
+      '3 warning: "And" has no previous step to continue. Use Given, When or Then.',
+      '5 warning: "When" after Then. Keep Given → When → Then, or split this into another scenario.',
+    ]);
+  });
+
+  it("warns about duplicate names and empty scenarios", () => {
+    expect(
+      messages(["Feature: F", "  Scenario: Same", "  Scenario: same"].join("\n"))
+    ).toEqual([
+      '2 warning: "Scenario:" has no steps.',
+      '3 warning: Duplicate scenario name "same" (also on line 2).',
+      '3 warning: "Scenario:" has no steps.',
+    ]);
+  });
+
+  it("checks placeholders against the Examples columns", () => {
+    expect(
+      messages(
+        [
+          "Feature: F",
+          "  Scenario Outline: O",
+          '    When I fill "name" with "<name>"',
+          "    Examples:",
+          "      | extra |",
+        ].join("\n")
+      )
+    ).toEqual([
+      "3 error: Placeholder <name> has no column in the Examples table on line 4.",
+      "5 warning: Examples table has a header but no rows.",
+      '5 warning: Examples column "extra" is not used by any <placeholder>.',
+    ]);
+  });
+
+  it("reports ragged tables", () => {
+    const problems = lintGherkin(
+      ["Feature: F", "  Scenario: S", "    Given rows", "      | a | b |", "      | c |"].join("\n")
+    );
+    expect(problems).toEqual([
+      { line: 5, severity: "error", message: "Table row has 1 cell, expected 2 like line 4." },
+    ]);
+    expect(hasGherkinErrors(problems)).toBe(true);
+  });
+
+  it("warns when Examples follow a plain Scenario", () => {
+    expect(
+      messages(["Feature: F", "  Scenario: S", "    Given x", "    Examples:"].join("\n"))
+    ).toEqual(['4 warning: "Examples:" only applies to a Scenario Outline.']);
+  });
+
+  it("lints a fragment without a Feature line", () => {
+    expect(messages('When I click "buy"\nThen the "total" should be visible')).toEqual([
+      '1 warning: No "Feature:" header. These steps only parse once pasted into a Scenario.',
+    ]);
+    expect(hasGherkinErrors(lintGherkin('Scenario: S\n  When I click "buy"'))).toBe(true);
+  });
+
+  it("reports scenarios that Cucumber rejects without a Feature line", () => {
+    const problems = messages('Scenario: Pay\n  When I click "pay"\n\nScenario: Other\n  Then x');
+    expect(problems).toContain('1 error: Missing "Feature:" header.');
+    expect(problems).toContain('4 error: "Scenario:" must come after a "Feature:" line.');
+  });
+});
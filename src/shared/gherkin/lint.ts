@@ -0,0 +1,159 @@
+import {
+  ENGLISH_KEYWORDS,
+  findLanguageLine,
+  GHERKIN_LANGUAGES,
+  type GherkinKeywords,
+} from "./keywords";
+import {
+  getScenarios,
+  parseGherkin,
+  type GherkinProblem,
+  type GherkinScenario,
+  type TableRow,
+} from "./parser";
+
+const PLACEHOLDER_PATTERN = /<([^<>\s][^<>]*)>/g;
+const STEP_ORDER = { context: 0, action: 1, outcome: 2 } as const;
+
+/**
+ * Parses `text` and adds the checks Cucumber itself does not enforce but
+ * that break or confuse generated suites: step ordering, duplicate names,
+ * outline placeholders and ragged tables. Problems are sorted by line.
+ */
+export function lintGherkin(
+  text: string,
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): GherkinProblem[] {
+  const document = parseGherkin(text, keywords);
+  const problems = [...document.problems];
+  const warn = (line: number, message: string) =>
+    problems.push({ line, severity: "warning", message });
+  const error = (line: number, message: string) =>
+    problems.push({ line, severity: "error", message });
+
+  // Cucumber refuses the whole file; here it would be read with the wrong keywords.
+  const language = findLanguageLine(text);
+  if (language && !GHERKIN_LANGUAGES[language.code]) {
+    error(language.line, `Unknown Gherkin language "${language.code}".`);
+  }
+
+  const scenarios = getScenarios(document);
+  const names = new Map<string, number>();
+
+  scenarios.forEach((scenario) => {
+    if (scenario.type !== "background" && scenario.name) {
+      const key = scenario.name.trim().toLowerCase();
+      const first = names.get(key);
+      if (first) warn(scenario.line, `Duplicate scenario name "${scenario.name}" (also on line ${first}).`);
+      else names.set(key, scenario.line);
+    }
+    if (!scenario.steps.length && scenario !== document.fragment) {
+      warn(scenario.line, `"${scenario.keyword}:" has no steps.`);
+    }
+
+    lintStepOrder(scenario, warn);
+    scenario.steps.forEach((step) => lintTable(step.dataTable, error));
+    scenario.examples.forEach((examples) => lintTable(examples.table, error));
+    lintPlaceholders(scenario, warn, error);
+  });
+
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+export function hasGherkinErrors(problems: GherkinProblem[]): boolean {
+  return problems.some((problem) => problem.severity === "error");
+}
+
+function lintStepOrder(
+  scenario: GherkinScenario,
+  warn: (line: number, message: string) => void
+): void {
+  let highest = -1;
+  scenario.steps.forEach((step, index) => {
+    if (step.keywordType === "conjunction") {
+      if (index === 0 && step.keyword !== "*") {
+        warn(step.line, `"${step.keyword}" has no previous step to continue. Use Given, When or Then.`);
+      }
+      return;
+    }
+    const order = STEP_ORDER[step.keywordType];
+    if (order < highest) {
+      const previous = highest === STEP_ORDER.outcome ? "Then" : "When";
+      warn(
+        step.line,
+        `"${step.keyword}" after ${previous}. Keep Given → When → Then, or split this into another scenario.`
+      );
+    }
+    highest = Math.max(highest, order);
+  });
+}
+
+function lintTable(
+  rows: TableRow[],
+  error: (line: number, message: string) => void
+): void {
+  if (!rows.length) return;
+  const width = rows[0].cells.length;
+  rows.slice(1).forEach((row) => {
+    if (row.cells.length !== width) {
+      error(
+        row.line,
+        `Table row has ${row.cells.length} cell${row.cells.length === 1 ? "" : "s"}, expected ${width} like line ${rows[0].line}.`
+      );
+    }
+  });
+}
+
+function lintPlaceholders(
+  scenario: GherkinScenario,
+  warn: (line: number, message: string) => void,
+  error: (line: number, message: string) => void
+): void {
+  if (scenario.type !== "outline") {
+    if (scenario.examples.length) {
+      warn(
+        scenario.examples[0].line,
+        `"${scenario.examples[0].keyword}:" only applies to a Scenario Outline.`
+      );
+    }
+    return;
+  }
+
+  const placeholders = new Map<string, number>();
+  const collect = (value: string, line: number) => {
+    for (const match of value.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!placeholders.has(match[1])) placeholders.set(match[1], line);
+    }
+  };
+  collect(scenario.name, scenario.line);
+  scenario.steps.forEach((step) => {
+    collect(step.text, step.line);
+    step.dataTable.forEach((row) => row.cells.forEach((cell) => collect(cell, row.line)));
+    if (step.docString) collect(step.docString.content, step.docString.line);
+  });
+
+  if (!scenario.examples.length) {
+    warn(scenario.line, `"${scenario.keyword}:" has no Examples table.`);
+    return;
+  }
+
+  scenario.examples.forEach((examples) => {
+    const [header, ...rows] = examples.table;
+    if (!header) {
+      warn(examples.line, `"${examples.keyword}:" has no table.`);
+      return;
+    }
+    if (!rows.length) warn(header.line, "Examples table has a header but no rows.");
+    const columns = new Set(header.cells);
+    placeholders.forEach((line, name) => {
+      if (!columns.has(name)) {
+        error(line, `Placeholder <${name}> has no column in the Examples table on line ${examples.line}.`);
+      }
+    });
+    header.cells.forEach((column) => {
+      if (!placeholders.has(column)) {
+        warn(header.line, `Examples column "${column}" is not used by any <placeholder>.`);
+      }
+    });
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { ENGLISH_KEYWORDS } from "./keywords";
+import { getScenarios, parseGherkin, tokenizeLine } from "./parser";
+
+function errorLines(text: string): number[] {
+  return parseGherkin(text)
+    .problems.filter((problem) => problem.severity === "error")
+    .map((problem) => problem.line);
+}
+
+describe("tokenizeLine", () => {
+  it("recognises headers, steps, tags and rows", () => {
+    expect(tokenizeLine("  Scenario Outline: Buy <item>", ENGLISH_KEYWORDS)).toEqual({
+      type: "header",
+      kind: "outline",
+      keyword: "Scenario Outline",
+      name: "Buy <item>",
+    });
+    expect(tokenizeLine('    And I click "buy"', ENGLISH_KEYWORDS)).toEqual({
+      type: "step",
+      keyword: "And",
+      keywordType: "conjunction",
+      text: 'I click "buy"',
+    });
+    expect(tokenizeLine("@smoke @cart", ENGLISH_KEYWORDS)).toEqual({
+      type: "tags",
+      tags: ["@smoke", "@cart"],
+    });
+    expect(tokenizeLine("| a | b \\| c |", ENGLISH_KEYWORDS)).toEqual({
+      type: "row",
+      cells: ["a", "b | c"],
+    });
+    expect(tokenizeLine("| a | b", ENGLISH_KEYWORDS)).toEqual({ type: "row", cells: null });
+  });
+});
+
+describe("parseGherkin", () => {
+  it("builds the feature tree", () => {
+    const document = parseGherkin(
+      [
+        "@cart",
+        "Feature: Cart",
+        "  Some description.",
+        "",
+        "  Background:",
+        '    Given I am on the "cart" page',
+        "",
+        "  Rule: Totals",
+        "    Scenario Outline: Add <count>",
+        '      When I fill "quantity" with "<count>"',
+        "        | unit | price |",
+        "        | 1    | 2     |",
+        "      Examples:",
+        "        | count |",
+        "        | 3     |",
+      ].join("\n")
+    );
+    expect(document.problems).toEqual([]);
+    expect(document.fragment).toBeNull();
+    expect(document.feature).toMatchObject({ name: "Cart", tags: ["@cart"], line: 2 });
+    expect(document.feature?.children.map((child) => child.type)).toEqual(["background"]);
+    const outline = document.feature?.rules[0].children[0];
+    expect(outline?.steps[0].dataTable.map((row) => row.cells)).toEqual([
+      ["unit", "price"],
+      ["1", "2"],
+    ]);
+    expect(outline?.examples[0].table.map((row) => row.cells)).toEqual([["count"], ["3"]]);
+    expect(getScenarios(document).map((scenario) => scenario.line)).toEqual([5, 9]);
+  });
+
+  it("reads doc strings verbatim", () => {
+    const document = parseGherkin(
+      [
+        "Feature: F",
+        "  Scenario: S",
+        "    Then the body is",
+        '      """',
+        "      | not a row |",
+        '      """',
+      ].join("\n")
+    );
+    expect(document.problems).toEqual([]);
+    expect(document.feature?.children[0].steps[0].docString).toEqual({
+      line: 4,
+      content: "      | not a row |",
+    });
+  });
+
+  it("treats steps without any header as a fragment", () => {
+    const document = parseGherkin('When I click "buy"\nThen the "total" should be visible');
+    expect(document.feature).toBeNull();
+    expect(document.fragment?.steps.map((step) => step.keyword)).toEqual(["When", "Then"]);
+    expect(document.problems).toEqual([
+      expect.objectContaining({ line: 1, severity: "warning" }),
+    ]);
+  });
+
+  it("rejects a Scenario without a Feature line", () => {
+    expect(errorLines('Scenario: Pay\n  When I click "pay"')).toEqual([1, 2, 1]);
+  });
+
+  it("reports structural errors on their lines", () => {
+    expect(errorLines("Rule: Orphan")).toEqual([1, 1]);
+    expect(errorLines("Feature: A\nFeature: B")).toEqual([2]);
+    expect(errorLines("Feature: A\n  Scenario: S\n    When\n")).toEqual([3]);
+    expect(errorLines('Feature: A\n  Scenario: S\n    Given x\n    | a |\n    """')).toEqual([5, 5]);
+    expect(errorLines("Feature: A\n  Scenario: S\n    Given x\n    stray text")).toEqual([4]);
+    expect(errorLines("Feature: A\n  @bad tag\n  Scenario: S")).toEqual([2]);
+    expect(errorLines("Feature: A\n  @dangling")).toEqual([2]);
+    expect(errorLines("Feature: A\n  Examples:")).toEqual([2]);
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  ENGLISH_KEYWORDS,
+  formatStepKeyword,
+  getStepKeywords,
+  type GherkinKeywords,
+  type StepKeywordType,
+} from "./keywords";
+
+export type GherkinProblem = {
+  /** 1-based line number. */
+  line: number;
+  severity: "error" | "warning";
+  message: string;
+  /** Replacement step texts (without keyword) the editor offers to apply. */
+  suggestions?: string[];
+};
+
+export type TableRow = {
+  line: number;
+  cells: string[];
+};
+
+export type GherkinStep = {
+  keyword: string;
+  keywordType: StepKeywordType;
+  text: string;
+  line: number;
+  dataTable: TableRow[];
+  docString: { line: number; content: string } | null;
+};
+
+export type GherkinExamples = {
+  keyword: string;
+  name: string;
+  line: number;
+  tags: string[];
+  table: TableRow[];
+};
+
+export type GherkinScenario = {
+  type: "background" | "scenario" | "outline";
+  keyword: string;
+  name: string;
+  line: number;
+  tags: string[];
+  steps: GherkinStep[];
+  examples: GherkinExamples[];
+};
+
+export type GherkinRule = {
+  keyword: string;
+  name: string;
+  line: number;
+  tags: string[];
+  children: GherkinScenario[];
+};
+
+export type GherkinFeature = {
+  keyword: string;
+  name: string;
+  line: number;
+  tags: string[];
+  children: GherkinScenario[];
+  rules: GherkinRule[];
+};
+
+export type GherkinDocument = {
+  feature: GherkinFeature | null;
+  /**
+   * Steps typed without any Feature/Scenario header, as the overlay produces
+   * for a single capture. They are meant to be pasted into an existing file.
+   */
+  fragment: GherkinScenario | null;
+  problems: GherkinProblem[];
+};
+
+type HeaderKind = "feature" | "rule" | "background" | "scenario" | "outline" | "examples";
+
+type LineToken =
+  | { type: "empty" | "comment" }
+  | { type: "tags"; tags: string[] }
+  | { type: "docString"; delimiter: string }
+  | { type: "row"; cells: string[] | null }
+  | { type: "header"; kind: HeaderKind; keyword: string; name: string }
+  | { type: "step"; keyword: string; keywordType: StepKeywordType; text: string }
+  | { type: "other"; text: string };
+
+const HEADER_KINDS: { kind: HeaderKind; key: keyof GherkinKeywords }[] = [
+  { kind: "feature", key: "feature" },
+  { kind: "rule", key: "rule" },
+  { kind: "background", key: "background" },
+  { kind: "outline", key: "scenarioOutline" },
+  { kind: "scenario", key: "scenario" },
+  { kind: "examples", key: "examples" },
+];
+
+export function tokenizeLine(line: string, keywords: GherkinKeywords): LineToken {
+  const trimmed = line.trim();
+  if (!trimmed) return { type: "empty" };
+  if (trimmed.startsWith("#")) return { type: "comment" };
+  if (trimmed.startsWith("@")) return { type: "tags", tags: trimmed.split(/\s+/) };
+  if (trimmed.startsWith('"""') || trimmed.startsWith("```")) {
+    return { type: "docString", delimiter: trimmed.slice(0, 3) };
+  }
+  if (trimmed.startsWith("|")) return { type: "row", cells: parseRow(trimmed) };
+
+  for (const { kind, key } of HEADER_KINDS) {
+    const keyword = keywords[key].find((candidate) =>
+      trimmed.startsWith(`${candidate}:`)
+    );
+    if (keyword) {
+      return {
+        type: "header",
+        kind,
+        keyword,
+        name: trimmed.slice(keyword.length + 1).trim(),
+      };
+    }
+  }
+
+  const step = getStepKeywords(keywords).find(({ keyword }) =>
+    trimmed.startsWith(formatStepKeyword(keyword)) || trimmed === keyword
+  );
+  if (step) {
+    return {
+      type: "step",
+      keyword: step.keyword,
+      keywordType: step.type,
+      text: trimmed.slice(step.keyword.length).trim(),
+    };
+  }
+  return { type: "other", text: trimmed };
+}
+
+/** Cells of a `| a | b |` row, or null when the closing pipe is missing. */
+function parseRow(trimmed: string): string[] | null {
+  const cells: string[] = [];
+  let current = "";
+  for (let index = 1; index < trimmed.length; index += 1) {
+    const char = trimmed[index];
+    if (char === "\\" && index + 1 < trimmed.length) {
+      const next = trimmed[index + 1];
+      current += next === "n" ? "\n" : next;
+      index += 1;
+    } else if (char === "|") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  return current.trim() ? null : cells;
+}
+
+/**
+ * Line-oriented Gherkin parser following the structure Cucumber accepts:
+ * one Feature, optional Rules, Background/Scenario/Scenario Outline blocks,
+ * steps with a data table or doc string, and Examples tables. It never
+ * throws; everything Cucumber would reject is reported as an error.
+ */
+export function parseGherkin(
+  text: string,
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): GherkinDocument {
+  const lines = text.split("\n");
+  const tokens = lines.map((line) => tokenizeLine(line, keywords));
+  const problems: GherkinProblem[] = [];
+  const error = (line: number, message: string) =>
+    problems.push({ line, severity: "error", message });
+
+  const isFragment = !tokens.some((token) => token.type === "header");
+  const fragment: GherkinScenario | null = isFragment
+    ? { type: "scenario", keyword: "", name: "", line: 1, tags: [], steps: [], examples: [] }
+    : null;
+  if (fragment && tokens.some((token) => token.type === "step")) {
+    problems.push({
+      line: 1,
+      severity: "warning",
+      message:
+        'No "Feature:" header. These steps only parse once pasted into a Scenario.',
+    });
+  }
+
+  let feature: GherkinFeature | null = null;
+  let rule: GherkinRule | null = null;
+  let scenario: GherkinScenario | null = fragment;
+  let step: GherkinStep | null = null;
+  let examples: GherkinExamples | null = null;
+  let table: TableRow[] | null = null;
+  let descriptionAllowed = false;
+  let pendingTags: { line: number; tags: string[] } | null = null;
+  let docString: { line: number; delimiter: string; content: string[] } | null = null;
+
+  tokens.forEach((token, index) => {
+    const line = index + 1;
+
+    if (docString) {
+      if (token.type === "docString" && token.delimiter === docString.delimiter) {
+        if (step) step.docString = { line: docString.line, content: docString.content.join("\n") };
+        docString = null;
+      } else {
+        docString.content.push(lines[index]);
+      }
+      return;
+    }
+
+    if (token.type === "empty" || token.type === "comment") return;
+
+    if (pendingTags && token.type !== "tags" && token.type !== "header") {
+      error(pendingTags.line, "Tags must be followed by Feature, Rule, Scenario or Examples.");
+      pendingTags = null;
+    }
+
+    switch (token.type) {
+      case "tags": {
+        const invalid = token.tags.find((tag) => !/^@[^@\s]+$/.test(tag));
+        if (invalid) error(line, `Invalid tag "${invalid}". Tags start with @ and contain no spaces.`);
+        pendingTags = {
+          line: pendingTags?.line ?? line,
+          tags: [...(pendingTags?.tags || []), ...token.tags],
+        };
+        return;
+      }
+      case "header": {
+        const tags = pendingTags?.tags || [];
+        pendingTags = null;
+        step = null;
+        table = null;
+        descriptionAllowed = true;
+        if (token.kind === "feature") {
+          if (feature) {
+            error(line, `Only one "${token.keyword}:" is allowed per file (first on line ${feature.line}).`);
+            return;
+          }
+          feature = { keyword: token.keyword, name: token.name, line, tags, children: [], rules: [] };
+          return;
+        }
+        if (!feature) {
+          error(line, `"${token.keyword}:" must come after a "Feature:" line.`);
+          return;
+        }
+        if (token.kind === "rule") {
+          rule = { keyword: token.keyword, name: token.name, line, tags, children: [] };
+          feature.rules.push(rule);
+          scenario = null;
+          examples = null;
+          return;
+        }
+        if (token.kind === "examples") {
+          if (!scenario || scenario.type === "background") {
+            error(line, `"${token.keyword}:" must belong to a Scenario Outline.`);
+            return;
+          }
+          examples = { keyword: token.keyword, name: token.name, line, tags, table: [] };
+          scenario.examples.push(examples);
+          table = examples.table;
+          return;
+        }
+        if (token.kind === "background" && tags.length) {
+          error(line, `Tags are not allowed on "${token.keyword}:".`);
+        }
+        scenario = {
+          type: token.kind,
+          keyword: token.keyword,
+          name: token.name,
+          line,
+          tags,
+          steps: [],
+          examples: [],
+        };
+        examples = null;
+        (rule ? rule.children : feature.children).push(scenario);
+        return;
+      }
+      case "step": {
+        descriptionAllowed = false;
+        table = null;
+        if (!scenario) {
+          error(line, "Steps must be inside a Scenario or Background.");
+          step = null;
+          return;
+        }
+        if (examples) {
+          error(line, `Steps cannot follow "${examples.keyword}:" (line ${examples.line}).`);
+        }
+        if (!token.text) error(line, `"${token.keyword}" has no step text.`);
+        step = {
+          keyword: token.keyword,
+          keywordType: token.keywordType,
+          text: token.text,
+          line,
+          dataTable: [],
+          docString: null,
+        };
+        scenario.steps.push(step);
+        table = step.dataTable;
+        return;
+      }
+      case "row": {
+        descriptionAllowed = false;
+        if (!table) {
+          error(line, "Table rows must follow a step or an Examples line.");
+          return;
+        }
+        if (!token.cells) {
+          error(line, 'Table row is missing its closing "|".');
+          return;
+        }
+        if (step?.docString) {
+          error(line, "A step can have a data table or a doc string, not both.");
+        }
+        table.push({ line, cells: token.cells });
+        return;
+      }
+      case "docString": {
+        descriptionAllowed = false;
+        if (!step || table !== step.dataTable) {
+          error(line, "Doc strings must directly follow a step.");
+        } else if (step.dataTable.length || step.docString) {
+          error(line, "A step can have a data table or a doc string, not both.");
+        }
+        table = null;
+        docString = { line, delimiter: token.delimiter, content: [] };
+        return;
+      }
+      case "other": {
+        if (descriptionAllowed) return;
+        error(
+          line,
+          `Unexpected text "${truncate(token.text)}". Expected a step (Given/When/Then/And/But), a table row or a keyword line.`
+        );
+        return;
+      }
+    }
+  });
+
+  // `forEach` callbacks hide these assignments from control-flow narrowing.
+  const openDocString = docString as { line: number } | null;
+  const danglingTags = pendingTags as { line: number } | null;
+  if (openDocString) error(openDocString.line, "Doc string is never closed.");
+  if (danglingTags) {
+    error(danglingTags.line, "Tags must be followed by Feature, Rule, Scenario or Examples.");
+  }
+  if (!feature && !fragment) {
+    error(1, 'Missing "Feature:" header.');
+  }
+
+  return { feature, fragment, problems };
+}
+
+/** Every Background/Scenario in document order, including those inside Rules. */
+export function getScenarios(document: GherkinDocument): GherkinScenario[] {
+  if (document.fragment) return [document.fragment];
+  const feature = document.feature;
+  if (!feature) return [];
+  return [...feature.children, ...feature.rules.flatMap((rule) => rule.children)].sort(
+    (a, b) => a.line - b.line
+  );
+}
+
+function truncate(value: string): string {
+  return value.length > 40 ? `${value.slice(0, 40)}…` : value;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { adfToText } from "./gherkin/adf";
+import { buildDuplicateJql, findMatchedTerms, getDuplicateSearchTerms } from "./jiraDuplicates";
+
+describe("getDuplicateSearchTerms", () => {
+  it("uses the element key, the URL path and the selected text", () => {
+    expect(
+      getDuplicateSearchTerms({
+        elementKey: "button_checkout",
+        url: "https://shop.test/cart/items/?page=2#top",
+        selectedText: "  Total   stays at 0 ",
+      })
+    ).toEqual(["button_checkout", "/cart/items", "Total stays at 0"]);
+  });
+
+  it("drops the root path, short terms and duplicates", () => {
+    expect(
+      getDuplicateSearchTerms({
+        elementKey: "ok",
+        url: "https://shop.test/",
+        selectedText: "?!",
+      })
+    ).toEqual([]);
+    const repeated = { elementKey: "cart", selectedText: "cart", url: "nope" };
+    expect(getDuplicateSearchTerms(repeated)).toEqual(["cart"]);
+  });
+
+  it("cuts long selections", () => {
+    const [term] = getDuplicateSearchTerms({ selectedText: "word ".repeat(20) });
+    expect(term).toBe("word ".repeat(12).trim());
+  });
+});
+
+describe("buildDuplicateJql", () => {
+  it("searches open issues of the project by phrase", () => {
+    expect(buildDuplicateJql("SHOP", ["button_checkout", "/cart/items"])).toBe(
+      'project = "SHOP" AND statusCategory != Done AND (' +
+        'summary ~ "\\"button_checkout\\"" OR description ~ "\\"button_checkout\\"" OR ' +
+        'summary ~ "\\"cart items\\"" OR description ~ "\\"cart items\\""' +
+        ") ORDER BY updated DESC"
+    );
+  });
+
+  it("strips search operators and quotes from the terms", () => {
+    expect(buildDuplicateJql("SHOP", ['Say "hi" (now)'])).toContain(
+      'summary ~ "\\"Say hi now\\""'
+    );
+  });
+});
+
+describe("findMatchedTerms", () => {
+  it("ignores case and runs of whitespace", () => {
+    expect(
+      findMatchedTerms(
+        ["button_checkout", "Total stays at 0", "/cart/items"],
+        "The TOTAL stays\nat 0 after BUTTON_CHECKOUT"
+      )
+    ).toEqual(["button_checkout", "Total stays at 0"]);
+  });
+});
+
+describe("adfToText", () => {
+  it("joins the text of every node so descriptions can be searched", () => {
+    expect(
+      adfToText({
+        type: "doc",
+        content: [
+          { type: "paragraph", content: [{ type: "text", text: "Cart" }, { type: "hardBreak" }] },
+          { type: "codeBlock", content: [{ type: "text", text: "Given x" }] },
+        ],
+      })
+    ).toBe("Cart Given x");
+    expect(adfToText(null)).toBe("");
+    expect(adfToText("text")).toBe("");
+  });
+});
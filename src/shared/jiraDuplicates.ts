@@ -0,0 +1,70 @@
+/** An open issue that may already report the same capture. */
+export type JiraIssueCandidate = {
+  key: string;
+  summary: string;
+  status: string;
+  /** The search terms the issue mentions, to say why it was listed. */
+  matches: string[];
+};
+
+export type DuplicateSearch = {
+  elementKey?: string | null;
+  url?: string | null;
+  selectedText?: string | null;
+};
+
+/** Longer selections are cut, since Jira's text search matches phrases word by word. */
+const MAX_TERM_LENGTH = 60;
+/** Characters Jira's text search treats as operators. */
+const RESERVED_CHARACTERS = /[+\-&|!(){}[\]^~*?\\:"/]/g;
+
+/**
+ * Phrases to look for: the element key, the URL path and the selected
+ * text. The root path and very short terms would match almost anything.
+ */
+export function getDuplicateSearchTerms(search: DuplicateSearch): string[] {
+  const terms = [search.elementKey, getUrlPath(search.url), search.selectedText]
+    .map((term) => (term || "").replace(/\s+/g, " ").trim().slice(0, MAX_TERM_LENGTH).trim())
+    .filter((term) => term.replace(RESERVED_CHARACTERS, "").trim().length >= 3);
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Open issues in the project whose summary or description mentions any of
+ * the terms, most recently updated first.
+ */
+export function buildDuplicateJql(projectKey: string, terms: string[]): string {
+  const clauses = terms.flatMap((term) => {
+    const phrase = quoteJql(`"${term.replace(RESERVED_CHARACTERS, " ").replace(/\s+/g, " ").trim()}"`);
+    return [`summary ~ ${phrase}`, `description ~ ${phrase}`];
+  });
+  return [
+    `project = ${quoteJql(projectKey)}`,
+    "statusCategory != Done",
+    `(${clauses.join(" OR ")})`,
+  ].join(" AND ") + " ORDER BY updated DESC";
+}
+
+/** Terms that appear in the issue's summary or description text. */
+export function findMatchedTerms(terms: string[], text: string): string[] {
+  const haystack = normalize(text);
+  return terms.filter((term) => haystack.includes(normalize(term)));
+}
+
+function getUrlPath(url: string | null | undefined): string {
+  if (!url) return "";
+  try {
+    const path = new URL(url).pathname.replace(/\/+$/, "");
+    return path.length > 1 ? path : "";
+  } catch {
+    return "";
+  }
+}
+
+function quoteJql(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").toLowerCase();
+}
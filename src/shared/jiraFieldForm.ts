@@ -0,0 +1,207 @@
+import {
+  parseLabels,
+  type JiraField,
+  type JiraFieldOption,
+  type JiraFieldValues,
+} from "./jiraFields";
+
+export type JiraFieldForm = {
+  element: HTMLElement;
+  getValues: () => JiraFieldValues;
+};
+
+export type JiraCreateMeta = {
+  issueTypeId: string;
+  issueTypeName: string;
+  fields: JiraField[];
+};
+
+/** Options that are fetched per project rather than listed in createmeta. */
+export type JiraFieldSources = {
+  loadUsers: () => Promise<JiraFieldOption[]>;
+  loadSprints: () => Promise<JiraFieldOption[]>;
+};
+
+/** Asks the service worker which fields the project's issue type takes. */
+export async function requestJiraCreateMeta(
+  projectKey: string,
+  issueType: string
+): Promise<JiraCreateMeta | { error: string }> {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: "jira:create-meta",
+      projectKey,
+      issueType,
+    });
+    if (!response?.ok) return { error: response?.error || "Could not load the Jira fields." };
+    return response as JiraCreateMeta;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Users and sprints are listed per project by the service worker. */
+export function getJiraFieldSources(projectKey: string): JiraFieldSources {
+  const request = async (type: string, key: "users" | "sprints") => {
+    const response = await chrome.runtime.sendMessage({ type, projectKey });
+    return response?.ok ? (response[key] as JiraFieldOption[]) : [];
+  };
+  return {
+    loadUsers: () => request("jira:assignable-users", "users"),
+    loadSprints: () => request("jira:list-sprints", "sprints"),
+  };
+}
+
+/**
+ * Inputs for the fields createmeta reported, pre-filled from `initial`.
+ * Styled inline, so it looks the same in the overlay and the options page.
+ */
+export function createJiraFieldForm(
+  fields: JiraField[],
+  initial: JiraFieldValues,
+  sources: JiraFieldSources
+): JiraFieldForm {
+  const element = document.createElement("div");
+  element.style.display = "grid";
+  element.style.gridTemplateColumns = "repeat(auto-fill, minmax(200px, 1fr))";
+  element.style.gap = "8px";
+  element.style.marginTop = "8px";
+
+  const readers = new Map<string, () => string[]>();
+  fields.forEach((field) => {
+    const wrap = document.createElement("label");
+    wrap.style.display = "flex";
+    wrap.style.flexDirection = "column";
+    wrap.style.gap = "4px";
+    wrap.style.margin = "0";
+    wrap.style.fontSize = "12px";
+    wrap.style.fontWeight = "600";
+    wrap.style.color = "#4b4b4b";
+    wrap.textContent = field.required ? `${field.name} *` : field.name;
+
+    const values = initial[field.key] || [];
+    const control = createControl(field, values, sources);
+    control.style.padding = "6px 8px";
+    control.style.borderRadius = "8px";
+    control.style.border = "1px solid #e0d8cc";
+    control.style.fontSize = "13px";
+    control.style.fontWeight = "400";
+    control.style.background = "#ffffff";
+    readers.set(field.key, () => readControl(field, control));
+
+    wrap.appendChild(control);
+    element.appendChild(wrap);
+  });
+
+  return {
+    element,
+    getValues: () => {
+      const values: JiraFieldValues = {};
+      readers.forEach((read, key) => {
+        const entries = read();
+        if (entries.length > 0) values[key] = entries;
+      });
+      return values;
+    },
+  };
+}
+
+function createControl(
+  field: JiraField,
+  values: string[],
+  sources: JiraFieldSources
+): HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement {
+  if (field.type === "option") {
+    return createSelect(field, field.options || [], values);
+  }
+  if (field.type === "user" || field.type === "sprint") {
+    const select = createSelect(field, [], values);
+    const load = field.type === "user" ? sources.loadUsers : sources.loadSprints;
+    void load()
+      .catch(() => [])
+      .then((options) => {
+        const selected = new Set(values);
+        // A saved value the list no longer contains is kept, so it is not lost silently.
+        const known = new Set(options.map((option) => option.id));
+        const missing = values
+          .filter((value) => !known.has(value))
+          .map((value) => ({ id: value, name: value }));
+        fillSelect(select, field, [...options, ...missing], selected);
+      });
+    return select;
+  }
+  if (field.type === "textarea") {
+    const textarea = document.createElement("textarea");
+    textarea.rows = 2;
+    textarea.value = values[0] || "";
+    return textarea;
+  }
+
+  const input = document.createElement("input");
+  if (field.type === "unsupported") {
+    input.disabled = true;
+    input.placeholder = "Set this field in Jira";
+    return input;
+  }
+  input.type =
+    field.type === "number"
+      ? "number"
+      : field.type === "date"
+        ? "date"
+        : field.type === "datetime"
+          ? "datetime-local"
+          : "text";
+  if (field.type === "labels") input.placeholder = "Separate with commas";
+  if (field.type === "issue") input.placeholder = "Issue key, e.g. KAN-12";
+  input.value = field.type === "labels" ? values.join(", ") : values[0] || "";
+  return input;
+}
+
+function createSelect(
+  field: JiraField,
+  options: JiraFieldOption[],
+  values: string[]
+): HTMLSelectElement {
+  const select = document.createElement("select");
+  select.multiple = field.multiple;
+  fillSelect(select, field, options, new Set(values));
+  return select;
+}
+
+function fillSelect(
+  select: HTMLSelectElement,
+  field: JiraField,
+  options: JiraFieldOption[],
+  selected: Set<string>
+) {
+  select.innerHTML = "";
+  if (!field.multiple) {
+    const empty = document.createElement("option");
+    empty.value = "";
+    empty.textContent = field.type === "user" ? "Unassigned" : "None";
+    select.appendChild(empty);
+  }
+  options.forEach((option) => {
+    const element = document.createElement("option");
+    element.value = option.id;
+    element.textContent = option.name;
+    element.selected = selected.has(option.id);
+    select.appendChild(element);
+  });
+  if (field.multiple) select.size = Math.min(4, Math.max(2, options.length));
+}
+
+function readControl(
+  field: JiraField,
+  control: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+): string[] {
+  if (control instanceof HTMLSelectElement) {
+    return Array.from(control.selectedOptions)
+      .map((option) => option.value)
+      .filter(Boolean);
+  }
+  if (field.type === "unsupported") return [];
+  if (field.type === "labels") return parseLabels(control.value);
+  const value = control.value.trim();
+  return value ? [value] : [];
+}
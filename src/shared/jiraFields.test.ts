@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildJiraFieldPayload,
+  findMissingJiraFields,
+  normalizeJiraFieldDefaults,
+  parseLabels,
+  selectJiraFields,
+  type CreateMetaField,
+} from "./jiraFields";
+
+const CREATE_META: CreateMetaField[] = [
+  { fieldId: "summary", name: "Summary", required: true, schema: { type: "string" } },
+  { fieldId: "labels", name: "Labels", schema: { type: "array", items: "string" } },
+  {
+    fieldId: "priority",
+    name: "Priority",
+    schema: { type: "priority" },
+    allowedValues: [{ id: "1", name: "High" }, { id: "2", name: "Low" }, { name: "no id" }],
+  },
+  {
+    fieldId: "components",
+    name: "Components",
+    schema: { type: "array", items: "component" },
+    allowedValues: [{ id: "10", name: "Checkout" }],
+  },
+  { fieldId: "assignee", name: "Assignee", schema: { type: "user" } },
+  { fieldId: "parent", name: "Parent", schema: { type: "issuelink" } },
+  {
+    fieldId: "customfield_10020",
+    name: "Sprint",
+    schema: { type: "array", items: "json", custom: "com.pyxis.greenhopper.jira:gh-sprint" },
+  },
+  {
+    fieldId: "customfield_10100",
+    name: "Steps",
+    required: true,
+    schema: {
+      type: "string",
+      custom: "com.atlassian.jira.plugin.system.customfieldtypes:textarea",
+    },
+  },
+  {
+    fieldId: "customfield_10200",
+    name: "Story points",
+    required: true,
+    schema: { type: "number" },
+  },
+  { fieldId: "customfield_10300", name: "Found on", required: true, schema: { type: "date" } },
+  { fieldId: "customfield_10400", name: "Team", required: true, schema: { type: "team" } },
+  { fieldId: "environment", name: "Environment", schema: { type: "string" } },
+];
+
+describe("selectJiraFields", () => {
+  it("keeps common and required fields and leaves out the ones the overlay fills", () => {
+    const fields = selectJiraFields(CREATE_META);
+    expect(fields.map((field) => [field.key, field.type, field.wrap])).toEqual([
+      ["labels", "labels", "plain"],
+      ["priority", "option", "id"],
+      ["components", "option", "id"],
+      ["assignee", "user", "accountId"],
+      ["parent", "issue", "key"],
+      ["customfield_10020", "sprint", "plain"],
+      ["customfield_10100", "textarea", "plain"],
+      ["customfield_10200", "number", "plain"],
+      ["customfield_10300", "date", "plain"],
+      ["customfield_10400", "unsupported", "plain"],
+    ]);
+  });
+
+  it("lists allowed values with ids and marks arrays as multiple", () => {
+    const [, priority, components, , , sprint] = selectJiraFields(CREATE_META);
+    expect(priority).toMatchObject({
+      multiple: false,
+      options: [
+        { id: "1", name: "High" },
+        { id: "2", name: "Low" },
+      ],
+    });
+    expect(components.multiple).toBe(true);
+    expect(sprint.multiple).toBe(false);
+    expect(sprint.options).toBeNull();
+  });
+});
+
+describe("findMissingJiraFields", () => {
+  it("reports required fields without a non-empty value", () => {
+    const fields = selectJiraFields(CREATE_META);
+    expect(
+      findMissingJiraFields(fields, {
+        customfield_10100: ["Open the cart"],
+        customfield_10200: [""],
+      }).map((field) => field.name)
+    ).toEqual(["Story points", "Found on", "Team"]);
+  });
+});
+
+describe("buildJiraFieldPayload", () => {
+  it("wraps each value the way its field expects", () => {
+    const fields = selectJiraFields(CREATE_META);
+    expect(
+      buildJiraFieldPayload(fields, {
+        labels: ["ui", " checkout "],
+        priority: ["1"],
+        components: ["10"],
+        assignee: ["abc-123"],
+        parent: ["SHOP-7"],
+        customfield_10020: ["42"],
+        customfield_10100: ["Open the cart"],
+        customfield_10200: ["3"],
+        customfield_10300: ["2026-10-19"],
+        customfield_10400: ["Payments"],
+      })
+    ).toEqual({
+      labels: ["ui", "checkout"],
+      priority: { id: "1" },
+      components: [{ id: "10" }],
+      assignee: { accountId: "abc-123" },
+      parent: { key: "SHOP-7" },
+      customfield_10020: 42,
+      customfield_10100: {
+        type: "doc",
+        version: 1,
+        content: [{ type: "paragraph", content: [{ type: "text", text: "Open the cart" }] }],
+      },
+      customfield_10200: 3,
+      customfield_10300: "2026-10-19",
+    });
+  });
+
+  it("leaves out empty fields", () => {
+    expect(buildJiraFieldPayload(selectJiraFields(CREATE_META), { labels: [" "] })).toEqual({});
+  });
+});
+
+describe("parseLabels", () => {
+  it("splits on commas and whitespace and drops duplicates", () => {
+    expect(parseLabels("ui, checkout  ui\nregression,")).toEqual(["ui", "checkout", "regression"]);
+  });
+});
+
+describe("normalizeJiraFieldDefaults", () => {
+  it("keeps non-empty string values per project", () => {
+    expect(
+      normalizeJiraFieldDefaults({
+        SHOP: { labels: ["ui", 3, ""], priority: "1", components: [] },
+        OPS: { labels: [""] },
+        BAD: null,
+      })
+    ).toEqual({ SHOP: { labels: ["ui"] } });
+    expect(normalizeJiraFieldDefaults("SHOP")).toEqual({});
+  });
+});
@@ -0,0 +1,178 @@
+export type JiraFieldOption = { id: string; name: string };
+
+/** How a field is edited and how its value is sent to Jira. */
+export type JiraFieldType =
+  | "labels"
+  | "option"
+  | "user"
+  | "issue"
+  | "sprint"
+  | "string"
+  | "textarea"
+  | "number"
+  | "date"
+  | "datetime"
+  | "unsupported";
+
+export type JiraField = {
+  key: string;
+  name: string;
+  type: JiraFieldType;
+  required: boolean;
+  multiple: boolean;
+  /** Allowed values from createmeta, or null when they are loaded separately or typed in. */
+  options: JiraFieldOption[] | null;
+  /** Shape of one value in the payload: `{ id }`, `{ value }`, a plain id... */
+  wrap: "id" | "value" | "accountId" | "key" | "plain";
+};
+
+/** Raw form values per field key: selected ids or typed text. */
+export type JiraFieldValues = Record<string, string[]>;
+
+/** Default values per project key. */
+export type JiraFieldDefaults = Record<string, JiraFieldValues>;
+
+/** One entry of `fields` in `GET /rest/api/3/issue/createmeta/{project}/issuetypes/{id}`. */
+export type CreateMetaField = {
+  fieldId?: string;
+  key?: string;
+  name?: string;
+  required?: boolean;
+  schema?: { type?: string; items?: string; system?: string; custom?: string };
+  allowedValues?: { id?: string; name?: string; value?: string; key?: string }[];
+};
+
+const DEFAULTS_KEY = "jiraFieldDefaults";
+/** Filled in by the overlay itself. */
+const MANAGED_FIELDS = new Set(["project", "summary", "description", "issuetype", "reporter"]);
+/** Shown even when optional, because teams rely on them for triage. */
+const COMMON_FIELDS = new Set([
+  "labels",
+  "components",
+  "priority",
+  "fixVersions",
+  "parent",
+  "assignee",
+]);
+const SPRINT_SCHEMA = "com.pyxis.greenhopper.jira:gh-sprint";
+const EPIC_LINK_SCHEMA = "com.pyxis.greenhopper.jira:gh-epic-link";
+const TEXTAREA_SCHEMA = "com.atlassian.jira.plugin.system.customfieldtypes:textarea";
+const OPTION_TYPES = new Set(["option", "priority", "version", "component", "resolution", "securitylevel"]);
+
+/**
+ * The fields the Jira panel offers for one project and issue type: the
+ * common ones, sprint and epic link when the project has them, and every
+ * other required field. Field order follows createmeta.
+ */
+export function selectJiraFields(raw: CreateMetaField[]): JiraField[] {
+  return raw
+    .map(describeField)
+    .filter((field): field is JiraField => field !== null);
+}
+
+function describeField(raw: CreateMetaField): JiraField | null {
+  const key = raw.fieldId || raw.key;
+  if (!key || MANAGED_FIELDS.has(key)) return null;
+  const custom = raw.schema?.custom || "";
+  const isCommon = COMMON_FIELDS.has(key) || custom === SPRINT_SCHEMA || custom === EPIC_LINK_SCHEMA;
+  const required = Boolean(raw.required);
+  if (!isCommon && !required) return null;
+
+  const multiple = raw.schema?.type === "array";
+  const itemType = (multiple ? raw.schema?.items : raw.schema?.type) || "";
+  const options = Array.isArray(raw.allowedValues)
+    ? raw.allowedValues
+        .filter((value) => value.id)
+        .map((value) => ({
+          id: String(value.id),
+          name: value.name || value.value || value.key || String(value.id),
+        }))
+    : null;
+  const field = (type: JiraFieldType, wrap: JiraField["wrap"]): JiraField => ({
+    key,
+    name: raw.name || key,
+    type,
+    required,
+    multiple,
+    options: type === "option" ? options || [] : null,
+    wrap,
+  });
+
+  if (key === "labels" || (multiple && itemType === "string")) return field("labels", "plain");
+  if (custom === SPRINT_SCHEMA) return { ...field("sprint", "plain"), multiple: false };
+  if (custom === EPIC_LINK_SCHEMA) return field("issue", "plain");
+  if (key === "parent" || itemType === "issuelink") return field("issue", "key");
+  if (itemType === "user") return field("user", "accountId");
+  if (OPTION_TYPES.has(itemType) && options) return field("option", "id");
+  if (custom === TEXTAREA_SCHEMA) return field("textarea", "plain");
+  if (itemType === "string") return field("string", "plain");
+  if (itemType === "number") return field("number", "plain");
+  if (itemType === "date") return field("date", "plain");
+  if (itemType === "datetime") return field("datetime", "plain");
+  return field("unsupported", "plain");
+}
+
+/** Required fields without a value, so the overlay can say what is missing. */
+export function findMissingJiraFields(fields: JiraField[], values: JiraFieldValues): JiraField[] {
+  return fields.filter((field) => field.required && !(values[field.key] || []).some(Boolean));
+}
+
+/** The `fields` entries for the create request; empty fields are left out. */
+export function buildJiraFieldPayload(
+  fields: JiraField[],
+  values: JiraFieldValues
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  fields.forEach((field) => {
+    const entries = (values[field.key] || []).map((value) => value.trim()).filter(Boolean);
+    if (entries.length === 0 || field.type === "unsupported") return;
+    const converted = entries.map((entry) => toJiraValue(field, entry));
+    payload[field.key] = field.multiple ? converted : converted[0];
+  });
+  return payload;
+}
+
+function toJiraValue(field: JiraField, value: string): unknown {
+  if (field.type === "number" || field.type === "sprint") return Number(value);
+  if (field.type === "textarea") {
+    // API v3 takes rich text fields as ADF.
+    return {
+      type: "doc",
+      version: 1,
+      content: [{ type: "paragraph", content: [{ type: "text", text: value }] }],
+    };
+  }
+  if (field.wrap === "plain") return value;
+  return { [field.wrap]: value };
+}
+
+/** Labels cannot contain spaces, so commas and whitespace both separate them. */
+export function parseLabels(text: string): string[] {
+  return Array.from(new Set(text.split(/[\s,]+/).filter(Boolean)));
+}
+
+export function normalizeJiraFieldDefaults(stored: unknown): JiraFieldDefaults {
+  if (!stored || typeof stored !== "object") return {};
+  const defaults: JiraFieldDefaults = {};
+  Object.entries(stored as Record<string, unknown>).forEach(([project, values]) => {
+    if (!values || typeof values !== "object") return;
+    const fields: JiraFieldValues = {};
+    Object.entries(values as Record<string, unknown>).forEach(([key, value]) => {
+      if (Array.isArray(value)) {
+        const strings = value.filter((item): item is string => typeof item === "string" && item !== "");
+        if (strings.length > 0) fields[key] = strings;
+      }
+    });
+    if (Object.keys(fields).length > 0) defaults[project] = fields;
+  });
+  return defaults;
+}
+
+export async function loadJiraFieldDefaults(): Promise<JiraFieldDefaults> {
+  const data = await chrome.storage.local.get(DEFAULTS_KEY);
+  return normalizeJiraFieldDefaults(data[DEFAULTS_KEY]);
+}
+
+export async function saveJiraFieldDefaults(defaults: JiraFieldDefaults): Promise<void> {
+  await chrome.storage.local.set({ [DEFAULTS_KEY]: normalizeJiraFieldDefaults(defaults) });
+}
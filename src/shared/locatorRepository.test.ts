@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildLocatorsJson,
+  buildLocatorsYaml,
+  getSiteKey,
+  removeDuplicateEntries,
+  removeLocatorEntry,
+  resolveConflict,
+  yamlString,
+  type LocatorEntry,
+  type LocatorMeta,
+  type LocatorRepository,
+} from "./locatorRepository";
+
+const meta: LocatorMeta = {
+  url: "https://shop.test/cart",
+  title: "Cart",
+  role: "button",
+  name: "Buy",
+  html: '<button id="buy">Buy</button>',
+};
+
+function entry(
+  elementKey: string,
+  prefer: string,
+  capturedAt: number,
+  fallback: string[] = []
+): LocatorEntry {
+  return { elementKey, prefer, fallback, capturedAt, meta };
+}
+
+function repositoryOf(pages: Record<string, LocatorEntry[]>): LocatorRepository {
+  return {
+    "shop.test": Object.fromEntries(
+      Object.entries(pages).map(([pageKey, entries]) => [
+        pageKey,
+        { site: "shop.test", pageKey, url: meta.url, updatedAt: 0, entries },
+      ])
+    ),
+  };
+}
+
+describe("getSiteKey", () => {
+  it("uses the hostname without www", () => {
+    expect(getSiteKey("https://www.Shop.test:8080/cart")).toBe("shop.test");
+    expect(getSiteKey("file:///tmp/page.html")).toBe("local");
+    expect(getSiteKey("not a url")).toBe("local");
+  });
+});
+
+describe("yamlString", () => {
+  it("writes double-quoted scalars", () => {
+    expect(yamlString('say "hi"\n')).toBe('"say \\"hi\\"\\n"');
+  });
+});
+
+describe("buildLocatorsYaml", () => {
+  it("writes the newest capture of each element key, sorted by key", () => {
+    const repository = repositoryOf({
+      cart: [entry("button_buy", "#old", 1), entry("link_home", "a.home", 2)],
+      checkout: [entry("button_buy", "getByRole('button', { name: 'Buy' })", 3, ["#buy"])],
+    });
+    expect(buildLocatorsYaml(repository)).toBe(
+      [
+        '"button_buy":',
+        "  prefer: \"getByRole('button', { name: 'Buy' })\"",
+        "  fallback:",
+        '    - "#buy"',
+        "  meta:",
+        '    url: "https://shop.test/cart"',
+        '    title: "Cart"',
+        '    role: "button"',
+        '    name: "Buy"',
+        '    html: "<button id=\\"buy\\">Buy</button>"',
+        "",
+        '"link_home":',
+        '  prefer: "a.home"',
+        "  fallback: []",
+        "  meta:",
+        '    url: "https://shop.test/cart"',
+        '    title: "Cart"',
+        '    role: "button"',
+        '    name: "Buy"',
+        '    html: "<button id=\\"buy\\">Buy</button>"',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes an empty mapping for an empty repository or unknown site", () => {
+    expect(buildLocatorsYaml({})).toBe("{}\n");
+    expect(buildLocatorsYaml(repositoryOf({ cart: [entry("a", "#a", 1)] }), "other.test")).toBe(
+      "{}\n"
+    );
+  });
+});
+
+describe("buildLocatorsJson", () => {
+  it("matches the YAML content", () => {
+    const repository = repositoryOf({ cart: [entry("button_buy", "#buy", 1, ["button"])] });
+    expect(JSON.parse(buildLocatorsJson(repository))).toEqual({
+      button_buy: { prefer: "#buy", fallback: ["button"], meta },
+    });
+  });
+});
+
+describe("resolveConflict", () => {
+  const recaptured = () => ({
+    ...entry("button_buy", "#old", 1, ["button.old"]),
+    conflict: { prefer: "#new", fallback: ["button.new"], meta, capturedAt: 5 },
+  });
+
+  it("keeps the stored selectors", () => {
+    const target = recaptured();
+    resolveConflict(target, "keep");
+    expect(target).toEqual(entry("button_buy", "#old", 1, ["button.old"]));
+  });
+
+  it("replaces them with the recapture", () => {
+    const target = recaptured();
+    resolveConflict(target, "replace");
+    expect(target).toEqual(entry("button_buy", "#new", 5, ["button.new"]));
+  });
+
+  it("merges old selectors into the fallbacks", () => {
+    const target = recaptured();
+    resolveConflict(target, "merge");
+    expect(target).toEqual(entry("button_buy", "#new", 5, ["button.new", "#old", "button.old"]));
+  });
+});
+
+describe("removeDuplicateEntries", () => {
+  it("keeps the newest copy and drops emptied pages", () => {
+    const repository = repositoryOf({
+      cart: [entry("button_buy", "#buy", 1)],
+      checkout: [entry("button_buy", "#buy", 2), entry("button_pay", "#pay", 1)],
+    });
+    expect(removeDuplicateEntries(repository)).toBe(1);
+    expect(Object.keys(repository["shop.test"])).toEqual(["checkout"]);
+    expect(repository["shop.test"].checkout.entries).toHaveLength(2);
+  });
+
+  it("leaves entries with different selectors alone", () => {
+    const repository = repositoryOf({
+      cart: [entry("button_buy", "#buy", 1)],
+      checkout: [entry("button_buy", "#purchase", 2)],
+    });
+    expect(removeDuplicateEntries(repository)).toBe(0);
+  });
+});
+
+describe("removeLocatorEntry", () => {
+  it("removes the site once its last entry is gone", () => {
+    const repository = repositoryOf({ cart: [entry("button_buy", "#buy", 1)] });
+    removeLocatorEntry(repository, "shop.test", "cart", "button_buy");
+    expect(repository).toEqual({});
+  });
+});
@@ -0,0 +1,287 @@
+export type LocatorMeta = {
+  url: string;
+  title: string;
+  role: string | null;
+  name: string | null;
+  html: string;
+};
+
+export type LocatorSelectors = {
+  prefer: string;
+  fallback: string[];
+};
+
+export type LocatorEntry = LocatorSelectors & {
+  elementKey: string;
+  meta: LocatorMeta;
+  capturedAt: number;
+  /** A recapture whose selectors differ, waiting to be merged or dismissed. */
+  conflict?: LocatorSelectors & { meta: LocatorMeta; capturedAt: number };
+};
+
+export type LocatorPage = {
+  site: string;
+  pageKey: string;
+  url: string;
+  updatedAt: number;
+  entries: LocatorEntry[];
+};
+
+/** Pages by site (hostname), then by pageKey. */
+export type LocatorRepository = Record<string, Record<string, LocatorPage>>;
+
+export type ConflictResolution = "keep" | "replace" | "merge";
+
+const STORAGE_KEY = "locatorRepository";
+
+export function getSiteKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "") || "local";
+  } catch {
+    return "local";
+  }
+}
+
+export async function loadLocatorRepository(): Promise<LocatorRepository> {
+  const data = await chrome.storage.local.get(STORAGE_KEY);
+  return (data[STORAGE_KEY] as LocatorRepository | undefined) || {};
+}
+
+export async function saveLocatorRepository(
+  repository: LocatorRepository
+): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: repository });
+}
+
+export function listLocatorPages(repository: LocatorRepository): LocatorPage[] {
+  return Object.values(repository)
+    .flatMap((pages) => Object.values(pages))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Stores captured entries under their site and pageKey. Recapturing an
+ * elementKey with the same selectors refreshes it; different selectors are
+ * parked on `conflict` until resolved. Returns the entries left in conflict.
+ */
+export async function saveLocatorEntries(
+  pageKey: string,
+  url: string,
+  entries: Omit<LocatorEntry, "capturedAt" | "conflict">[]
+): Promise<LocatorEntry[]> {
+  const repository = await loadLocatorRepository();
+  const site = getSiteKey(url);
+  const pages = (repository[site] = repository[site] || {});
+  const page = (pages[pageKey] = pages[pageKey] || {
+    site,
+    pageKey,
+    url,
+    updatedAt: 0,
+    entries: [],
+  });
+  const now = Date.now();
+  const conflicts: LocatorEntry[] = [];
+
+  entries.forEach((incoming) => {
+    if (!incoming.prefer) return;
+    const existing = page.entries.find(
+      (entry) => entry.elementKey === incoming.elementKey
+    );
+    if (!existing) {
+      page.entries.push({ ...incoming, capturedAt: now });
+      return;
+    }
+    if (sameSelectors(existing, incoming)) {
+      existing.meta = incoming.meta;
+      existing.capturedAt = now;
+      delete existing.conflict;
+      return;
+    }
+    existing.conflict = {
+      prefer: incoming.prefer,
+      fallback: incoming.fallback,
+      meta: incoming.meta,
+      capturedAt: now,
+    };
+    conflicts.push(existing);
+  });
+
+  page.url = url;
+  page.updatedAt = now;
+  await saveLocatorRepository(repository);
+  return conflicts;
+}
+
+/** Overwrites the selectors of a saved entry and drops any pending conflict. */
+export async function replaceLocatorSelectors(
+  pageKey: string,
+  url: string,
+  elementKey: string,
+  selectors: LocatorSelectors
+): Promise<void> {
+  const repository = await loadLocatorRepository();
+  const entry = repository[getSiteKey(url)]?.[pageKey]?.entries.find(
+    (candidate) => candidate.elementKey === elementKey
+  );
+  if (!entry) return;
+  entry.prefer = selectors.prefer;
+  entry.fallback = selectors.fallback;
+  delete entry.conflict;
+  await saveLocatorRepository(repository);
+}
+
+export function resolveConflict(
+  entry: LocatorEntry,
+  resolution: ConflictResolution
+): void {
+  const conflict = entry.conflict;
+  if (!conflict) return;
+  if (resolution === "replace") {
+    entry.prefer = conflict.prefer;
+    entry.fallback = conflict.fallback;
+  } else if (resolution === "merge") {
+    // The recapture reflects the current DOM, so its preferred selector wins
+    // and every previously known selector stays available as a fallback.
+    entry.fallback = uniqueSelectors([
+      ...conflict.fallback,
+      entry.prefer,
+      ...entry.fallback,
+    ]).filter((selector) => selector !== conflict.prefer);
+    entry.prefer = conflict.prefer;
+  }
+  if (resolution !== "keep") {
+    entry.meta = conflict.meta;
+    entry.capturedAt = conflict.capturedAt;
+  }
+  delete entry.conflict;
+}
+
+export function removeLocatorEntry(
+  repository: LocatorRepository,
+  site: string,
+  pageKey: string,
+  elementKey: string
+): void {
+  const page = repository[site]?.[pageKey];
+  if (!page) return;
+  page.entries = page.entries.filter((entry) => entry.elementKey !== elementKey);
+  if (page.entries.length === 0) delete repository[site][pageKey];
+  if (Object.keys(repository[site]).length === 0) delete repository[site];
+}
+
+export function removeLocatorPage(
+  repository: LocatorRepository,
+  site: string,
+  pageKey: string
+): void {
+  delete repository[site]?.[pageKey];
+  if (repository[site] && Object.keys(repository[site]).length === 0) {
+    delete repository[site];
+  }
+}
+
+/**
+ * The same element is often captured from pages with different titles, which
+ * leaves identical entries under several pageKeys. Keeps the newest copy of
+ * each elementKey/selector pair per site and returns how many were removed.
+ */
+export function removeDuplicateEntries(repository: LocatorRepository): number {
+  let removed = 0;
+  Object.entries(repository).forEach(([site, pages]) => {
+    const newest = new Map<string, number>();
+    const pageList = Object.values(pages);
+    pageList.forEach((page) =>
+      page.entries.forEach((entry) => {
+        const key = duplicateKey(entry);
+        newest.set(key, Math.max(newest.get(key) || 0, entry.capturedAt));
+      })
+    );
+    const kept = new Set<string>();
+    pageList.forEach((page) => {
+      page.entries = page.entries.filter((entry) => {
+        if (entry.conflict) return true;
+        const key = duplicateKey(entry);
+        const keep = !kept.has(key) && entry.capturedAt === newest.get(key);
+        if (keep) kept.add(key);
+        else removed += 1;
+        return keep;
+      });
+      if (page.entries.length === 0) removeLocatorPage(repository, site, page.pageKey);
+    });
+  });
+  return removed;
+}
+
+/**
+ * Flattens the repository into the `elementKey → { prefer, fallback }` map the
+ * generated `resolveLocator` helpers read. When an elementKey was captured on
+ * several pages, the most recent capture wins.
+ */
+export function buildLocatorMap(
+  repository: LocatorRepository,
+  site?: string
+): Record<string, LocatorSelectors & { meta: LocatorMeta }> {
+  const entries = listLocatorPages(repository)
+    .filter((page) => !site || page.site === site)
+    .flatMap((page) => page.entries)
+    .sort((a, b) => a.capturedAt - b.capturedAt);
+  const map: Record<string, LocatorSelectors & { meta: LocatorMeta }> = {};
+  entries.forEach((entry) => {
+    map[entry.elementKey] = {
+      prefer: entry.prefer,
+      fallback: entry.fallback,
+      meta: entry.meta,
+    };
+  });
+  return Object.fromEntries(
+    Object.keys(map)
+      .sort()
+      .map((key) => [key, map[key]])
+  );
+}
+
+export function buildLocatorsJson(repository: LocatorRepository, site?: string): string {
+  return `${JSON.stringify(buildLocatorMap(repository, site), null, 2)}\n`;
+}
+
+export function buildLocatorsYaml(repository: LocatorRepository, site?: string): string {
+  const map = buildLocatorMap(repository, site);
+  const blocks = Object.entries(map).map(([elementKey, entry]) =>
+    [
+      `${yamlString(elementKey)}:`,
+      `  prefer: ${yamlString(entry.prefer)}`,
+      `  fallback:${entry.fallback.length ? "" : " []"}`,
+      ...entry.fallback.map((selector) => `    - ${yamlString(selector)}`),
+      "  meta:",
+      `    url: ${yamlString(entry.meta.url)}`,
+      `    title: ${yamlString(entry.meta.title)}`,
+      `    role: ${yamlString(entry.meta.role || "")}`,
+      `    name: ${yamlString(entry.meta.name || "")}`,
+      `    html: ${yamlString(entry.meta.html)}`,
+    ].join("\n")
+  );
+  return blocks.length ? `${blocks.join("\n\n")}\n` : "{}\n";
+}
+
+/** Double-quoted YAML scalars share JSON's escaping rules. */
+export function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/** Fallback order follows ranking ties, so only the set of selectors counts. */
+function sameSelectors(a: LocatorSelectors, b: LocatorSelectors): boolean {
+  const fallback = new Set(a.fallback);
+  return (
+    a.prefer === b.prefer &&
+    a.fallback.length === b.fallback.length &&
+    b.fallback.every((selector) => fallback.has(selector))
+  );
+}
+
+function uniqueSelectors(selectors: string[]): string[] {
+  return Array.from(new Set(selectors.filter(Boolean)));
+}
+
+function duplicateKey(entry: LocatorEntry): string {
+  return JSON.stringify([entry.elementKey, entry.prefer, entry.fallback]);
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRedactor,
+  DEFAULT_REDACTION_CONFIG,
+  describeRedactions,
+  formatCustomRedactions,
+  normalizeRedactionConfig,
+  parseCustomRedactions,
+  type RedactionConfig,
+} from "./redaction";
+
+const PAGE_URL = "https://shop.example.com/cart";
+
+describe("createRedactor", () => {
+  it("masks emails, card numbers, phone numbers and tokens", () => {
+    const redactor = createRedactor(DEFAULT_REDACTION_CONFIG, PAGE_URL);
+    expect(
+      redactor.redact(
+        "Mail jo@example.com, card 4111 1111 1111 1111, call +44 20 7946 0958, " +
+          "see /reset?email=x&token=abc123&page=2 with Bearer abcdefgh12345678"
+      )
+    ).toBe(
+      "Mail [REDACTED], card [REDACTED], call [REDACTED], " +
+        "see /reset?email=x&token=[REDACTED]&page=2 with Bearer [REDACTED]"
+    );
+    expect(describeRedactions(redactor.findings())).toBe(
+      "2 tokens, 1 email, 1 card number, 1 phone number"
+    );
+  });
+
+  it("keeps order numbers that fail the card check, dates and times", () => {
+    const redactor = createRedactor(DEFAULT_REDACTION_CONFIG, PAGE_URL);
+    expect(redactor.redact("Order 4111111111111112 on 2024-01-15 at 10:30")).toBe(
+      "Order 4111111111111112 on 2024-01-15 at 10:30"
+    );
+    expect(redactor.findings()).toEqual([]);
+  });
+
+  it("masks JWTs", () => {
+    const redactor = createRedactor(DEFAULT_REDACTION_CONFIG, PAGE_URL);
+    expect(redactor.redact("eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl")).toBe("[REDACTED]");
+  });
+
+  it("blanks password and hidden input values in HTML", () => {
+    const redactor = createRedactor(DEFAULT_REDACTION_CONFIG, PAGE_URL);
+    expect(
+      redactor.redactHtml(
+        '<input type="password" value="hunter2"><input type=hidden value=abc><input value="shown">'
+      )
+    ).toBe(
+      '<input type="password" value="[REDACTED]"><input type=hidden value="[REDACTED]"><input value="shown">'
+    );
+    expect(redactor.findings()).toEqual([{ label: "secret input value", count: 2 }]);
+  });
+
+  it("skips disabled rules", () => {
+    const config: RedactionConfig = {
+      ...DEFAULT_REDACTION_CONFIG,
+      rules: { ...DEFAULT_REDACTION_CONFIG.rules, email: false, secretInput: false },
+    };
+    const redactor = createRedactor(config, PAGE_URL);
+    expect(redactor.redact("jo@example.com")).toBe("jo@example.com");
+    expect(redactor.redactHtml('<input type="password" value="x">')).toBe(
+      '<input type="password" value="x">'
+    );
+  });
+
+  it("applies custom rules for the site and its subdomains only", () => {
+    const config: RedactionConfig = {
+      ...DEFAULT_REDACTION_CONFIG,
+      custom: [
+        { site: "example.com", pattern: "CUST-\\d+", flags: "i" },
+        { site: "other.com", pattern: "secret", flags: "" },
+      ],
+    };
+    const redactor = createRedactor(config, PAGE_URL);
+    expect(redactor.redact("cust-42 keeps its secret")).toBe("[REDACTED] keeps its secret");
+    expect(redactor.findings()).toEqual([{ label: "custom rule", count: 1 }]);
+  });
+});
+
+describe("custom redaction rules", () => {
+  it("parses plain and literal patterns and reports invalid lines", () => {
+    const text = "Example.com=CUST-\\d+\n*=/acct \\d+/gi\nbroken\nx.com=/(/";
+    expect(parseCustomRedactions(text)).toEqual({
+      rules: [
+        { site: "example.com", pattern: "CUST-\\d+", flags: "" },
+        { site: "*", pattern: "acct \\d+", flags: "i" },
+      ],
+      invalid: ["broken", "x.com=/(/"],
+    });
+  });
+
+  it("formats rules back into the same lines", () => {
+    const text = "example.com=CUST-\\d+\n*=/acct \\d+/i";
+    expect(formatCustomRedactions(parseCustomRedactions(text).rules)).toBe(text);
+  });
+});
+
+describe("normalizeRedactionConfig", () => {
+  it("keeps stored switches and drops invalid custom rules", () => {
+    expect(
+      normalizeRedactionConfig({
+        rules: { phone: false } as RedactionConfig["rules"],
+        custom: [
+          { site: "a.com", pattern: "ok", flags: "" },
+          { site: "a.com", pattern: "(", flags: "" },
+        ],
+      })
+    ).toEqual({
+      rules: { ...DEFAULT_REDACTION_CONFIG.rules, phone: false },
+      custom: [{ site: "a.com", pattern: "ok", flags: "" }],
+    });
+    expect(normalizeRedactionConfig(undefined)).toEqual(DEFAULT_REDACTION_CONFIG);
+  });
+});
@@ -0,0 +1,244 @@
+export type RedactionRuleId = "email" | "card" | "phone" | "token" | "secretInput" | "maskInputs";
+
+/** A site-specific pattern; `site` is a host, a parent domain or `*` for every site. */
+export type CustomRedaction = {
+  site: string;
+  pattern: string;
+  flags: string;
+};
+
+export type RedactionConfig = {
+  rules: Record<RedactionRuleId, boolean>;
+  custom: CustomRedaction[];
+};
+
+export type RedactionFinding = { label: string; count: number };
+
+/**
+ * Redacts text bound for the AI server or Jira and counts what it replaced,
+ * so one redactor can cover every field of a request.
+ */
+export type Redactor = {
+  redact: (text: string) => string;
+  /** Also blanks `value` on password and hidden inputs. */
+  redactHtml: (html: string) => string;
+  findings: () => RedactionFinding[];
+};
+
+export const REDACTION_RULES: { id: RedactionRuleId; label: string }[] = [
+  { id: "email", label: "Email addresses" },
+  { id: "card", label: "Card numbers (Luhn checked)" },
+  { id: "phone", label: "Phone numbers" },
+  { id: "token", label: "Tokens in query strings, bearer tokens and JWTs" },
+  { id: "secretInput", label: "Values of password and hidden inputs" },
+  { id: "maskInputs", label: "Mask input fields in snapshots" },
+];
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  rules: {
+    email: true,
+    card: true,
+    phone: true,
+    token: true,
+    secretInput: true,
+    maskInputs: true,
+  },
+  custom: [],
+};
+
+const CONFIG_KEY = "redactionConfig";
+const MASK = "[REDACTED]";
+const TOKEN_PARAMS =
+  "[\\w.-]*(?:token|key|secret|passw(?:or)?d|pwd|auth|session|sid|sig(?:nature)?|code|jwt|credential)[\\w.-]*";
+
+type TextRule = {
+  id: RedactionRuleId;
+  label: string;
+  pattern: RegExp;
+  /** `prefix` is the first capture group, kept in front of the mask. Null keeps the match. */
+  replace: (match: string, prefix: string) => string | null;
+};
+
+/** Earlier rules run first, so a card number is never counted as a phone number. */
+const TEXT_RULES: TextRule[] = [
+  {
+    id: "token",
+    label: "token",
+    pattern: new RegExp(`([?&#;]${TOKEN_PARAMS}=)([^&#\\s"'<>]+)`, "gi"),
+    replace: (_match, name) => `${name}${MASK}`,
+  },
+  {
+    id: "token",
+    label: "token",
+    pattern: /\b(Bearer\s+)[\w~+/.-]{8,}=*|\beyJ[\w-]{5,}\.[\w-]{5,}\.[\w-]+/g,
+    replace: (_match, bearer) => `${bearer}${MASK}`,
+  },
+  {
+    id: "email",
+    label: "email",
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi,
+    replace: () => MASK,
+  },
+  {
+    id: "card",
+    label: "card number",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    replace: (match) => (passesLuhn(match.replace(/\D/g, "")) ? MASK : null),
+  },
+  {
+    id: "phone",
+    label: "phone number",
+    pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b/g,
+    replace: (match) => {
+      const digits = match.replace(/\D/g, "").length;
+      return digits >= 9 && digits <= 15 ? MASK : null;
+    },
+  },
+];
+
+export function createRedactor(config: RedactionConfig, url: string): Redactor {
+  const counts = new Map<string, number>();
+  const count = (label: string) => counts.set(label, (counts.get(label) || 0) + 1);
+  const custom = getCustomPatterns(config, url);
+
+  const redact = (text: string): string => {
+    let result = text;
+    custom.forEach((pattern) => {
+      result = result.replace(pattern, () => {
+        count("custom rule");
+        return MASK;
+      });
+    });
+    TEXT_RULES.forEach((rule) => {
+      if (!config.rules[rule.id]) return;
+      // Without groups the second argument is the match offset.
+      result = result.replace(rule.pattern, (match: string, first: unknown) => {
+        const replacement = rule.replace(match, typeof first === "string" ? first : "");
+        if (replacement === null) return match;
+        count(rule.label);
+        return replacement;
+      });
+    });
+    return result;
+  };
+
+  const redactHtml = (html: string): string => {
+    const masked = config.rules.secretInput
+      ? html.replace(/<input\b[^>]*>/gi, (tag) => {
+          if (!/\btype\s*=\s*["']?(?:password|hidden)\b/i.test(tag)) return tag;
+          return tag.replace(/(\bvalue\s*=\s*)(?:"[^"]*"|'[^']*'|[^\s>]+)/i, (_match, name: string) => {
+            count("secret input value");
+            return `${name}"${MASK}"`;
+          });
+        })
+      : html;
+    return redact(masked);
+  };
+
+  return {
+    redact,
+    redactHtml,
+    findings: () => Array.from(counts, ([label, total]) => ({ label, count: total })),
+  };
+}
+
+export function describeRedactions(findings: RedactionFinding[]): string {
+  return findings
+    .map((finding) => `${finding.count} ${finding.label}${finding.count === 1 ? "" : "s"}`)
+    .join(", ");
+}
+
+/** One rule per line: `site=pattern`, or `site=/pattern/flags`. */
+export function parseCustomRedactions(text: string): {
+  rules: CustomRedaction[];
+  invalid: string[];
+} {
+  const rules: CustomRedaction[] = [];
+  const invalid: string[] = [];
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line) => {
+      const separator = line.indexOf("=");
+      const site = line.slice(0, separator).trim().toLowerCase();
+      const source = line.slice(separator + 1).trim();
+      const literal = source.match(/^\/(.+)\/([a-z]*)$/);
+      const rule = {
+        site,
+        pattern: literal ? literal[1] : source,
+        flags: literal ? literal[2].replace(/g/g, "") : "",
+      };
+      if (separator <= 0 || !source || !compileCustom(rule)) invalid.push(line);
+      else rules.push(rule);
+    });
+  return { rules, invalid };
+}
+
+export function formatCustomRedactions(rules: CustomRedaction[]): string {
+  return rules
+    .map((rule) => `${rule.site}=${rule.flags ? `/${rule.pattern}/${rule.flags}` : rule.pattern}`)
+    .join("\n");
+}
+
+export function normalizeRedactionConfig(
+  stored: Partial<RedactionConfig> | undefined
+): RedactionConfig {
+  const rules = { ...DEFAULT_REDACTION_CONFIG.rules };
+  REDACTION_RULES.forEach(({ id }) => {
+    if (typeof stored?.rules?.[id] === "boolean") rules[id] = stored.rules[id];
+  });
+  const custom = Array.isArray(stored?.custom)
+    ? stored.custom.filter(
+        (rule) =>
+          typeof rule?.site === "string" &&
+          typeof rule.pattern === "string" &&
+          typeof rule.flags === "string" &&
+          compileCustom(rule)
+      )
+    : [];
+  return { rules, custom };
+}
+
+export async function loadRedactionConfig(): Promise<RedactionConfig> {
+  const data = await chrome.storage.local.get(CONFIG_KEY);
+  return normalizeRedactionConfig(data[CONFIG_KEY] as Partial<RedactionConfig> | undefined);
+}
+
+export async function saveRedactionConfig(config: RedactionConfig): Promise<void> {
+  await chrome.storage.local.set({ [CONFIG_KEY]: normalizeRedactionConfig(config) });
+}
+
+function getCustomPatterns(config: RedactionConfig, url: string): RegExp[] {
+  let host = "";
+  try {
+    host = new URL(url).hostname.toLowerCase();
+  } catch {
+    host = "";
+  }
+  return config.custom
+    .filter((rule) => rule.site === "*" || host === rule.site || host.endsWith(`.${rule.site}`))
+    .map(compileCustom)
+    .filter((pattern): pattern is RegExp => pattern !== null);
+}
+
+function compileCustom(rule: CustomRedaction): RegExp | null {
+  try {
+    return new RegExp(rule.pattern, `${rule.flags}g`);
+  } catch {
+    return null;
+  }
+}
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
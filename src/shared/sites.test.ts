@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  coversOrigin,
+  DEFAULT_SITE_CONFIG,
+  getSiteMatchPatterns,
+  normalizeSiteConfig,
+  parseSites,
+  toMatchPatterns,
+} from "./sites";
+
+describe("toMatchPatterns", () => {
+  it("covers subdomains of a bare domain over https", () => {
+    expect(toMatchPatterns("Staging.Example.com")).toEqual([
+      "https://staging.example.com/*",
+      "https://*.staging.example.com/*",
+    ]);
+  });
+
+  it("keeps a scheme, wildcard, port or path as written", () => {
+    expect(toMatchPatterns("http://app.example.com")).toEqual(["http://app.example.com/*"]);
+    expect(toMatchPatterns("*.example.com")).toEqual(["https://*.example.com/*"]);
+    expect(toMatchPatterns("https://app.example.com/admin")).toEqual([
+      "https://app.example.com/admin*",
+    ]);
+  });
+
+  it("uses http for local hosts", () => {
+    expect(toMatchPatterns("localhost:3000")).toEqual(["http://localhost:3000/*"]);
+    expect(toMatchPatterns("127.0.0.1:8080/app/*")).toEqual(["http://127.0.0.1:8080/app/*"]);
+  });
+
+  it("rejects entries it cannot read", () => {
+    expect(toMatchPatterns("ftp://example.com")).toBeNull();
+    expect(toMatchPatterns("not a site")).toBeNull();
+  });
+});
+
+describe("getSiteMatchPatterns", () => {
+  it("drops unreadable entries and duplicates", () => {
+    expect(getSiteMatchPatterns(["localhost:3000", "??", "http://localhost:3000"])).toEqual([
+      "http://localhost:3000/*",
+    ]);
+  });
+});
+
+describe("coversOrigin", () => {
+  it("matches scheme, host and port, ignoring the path", () => {
+    expect(coversOrigin("https://jira.example.com/browse/*", "https://jira.example.com")).toBe(true);
+    expect(coversOrigin("https://jira.example.com/*", "http://jira.example.com")).toBe(false);
+    expect(coversOrigin("*://jira.example.com/*", "http://jira.example.com")).toBe(true);
+    expect(coversOrigin("http://localhost:8787/*", "http://localhost:8787/")).toBe(true);
+    expect(coversOrigin("http://localhost:3000/*", "http://localhost:8787")).toBe(false);
+    expect(coversOrigin("http://localhost/*", "http://localhost:8787")).toBe(false);
+  });
+
+  it("matches subdomains only for wildcard patterns", () => {
+    expect(coversOrigin("https://*.example.com/*", "https://jira.example.com")).toBe(true);
+    expect(coversOrigin("https://*.example.com/*", "https://example.com")).toBe(true);
+    expect(coversOrigin("https://example.com/*", "https://jira.example.com")).toBe(false);
+    expect(coversOrigin("https://*.example.com/*", "https://badexample.com")).toBe(false);
+  });
+
+  it("is false for unreadable input", () => {
+    expect(coversOrigin("https://example.com/*", "")).toBe(false);
+    expect(coversOrigin("<all_urls>", "https://example.com")).toBe(false);
+  });
+});
+
+describe("parseSites and normalizeSiteConfig", () => {
+  it("keeps one trimmed entry per line", () => {
+    expect(parseSites(" a.com \n\nb.com\na.com")).toEqual(["a.com", "b.com"]);
+  });
+
+  it("falls back to the default sites only when nothing was stored", () => {
+    expect(normalizeSiteConfig(undefined)).toBe(DEFAULT_SITE_CONFIG);
+    expect(normalizeSiteConfig({ sites: [] })).toEqual({ sites: [] });
+    expect(normalizeSiteConfig({ sites: ["a.com", 3 as unknown as string] })).toEqual({
+      sites: ["a.com"],
+    });
+  });
+});
@@ -0,0 +1,95 @@
+export type SiteConfig = {
+  /** Entries as typed in the options page, e.g. `example.com` or `localhost:3000`. */
+  sites: string[];
+};
+
+/** The local dev server stays a required host permission, so it works out of the box. */
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  sites: ["localhost:3000", "127.0.0.1:3000"],
+};
+
+export const CONTENT_SCRIPT_ID = "test-authoring-helper";
+export const CONTENT_SCRIPT_FILE = "content/content_script.js";
+/** Runs in the page's own world to record console errors and failed requests. */
+export const PAGE_MONITOR_ID = "test-authoring-helper-monitor";
+export const PAGE_MONITOR_FILE = "content/page_monitor.js";
+
+const CONFIG_KEY = "siteConfig";
+const SITE_PATTERN =
+  /^(?:(https?|\*):\/\/)?(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*)(?::(\d{1,5}))?(\/\S*)?$/i;
+
+/**
+ * Chrome match patterns for one site entry, or null when it cannot be read.
+ * A domain typed without a scheme covers its subdomains too; a scheme,
+ * `*.` prefix, port or path is kept as written. Local hosts default to
+ * http, everything else to https.
+ */
+export function toMatchPatterns(site: string): string[] | null {
+  const match = site.trim().match(SITE_PATTERN);
+  if (!match) return null;
+  const [, scheme, wildcard, rawHost, port, path] = match;
+  const host = rawHost.toLowerCase();
+  const local = host === "localhost" || /^\d+(?:\.\d+){3}$/.test(host);
+  const hosts =
+    wildcard ? [`*.${host}`] : scheme || local || !host.includes(".") ? [host] : [host, `*.${host}`];
+  const pathPattern = !path || path === "/" ? "/*" : path.endsWith("*") ? path : `${path}*`;
+  const prefix = scheme || (local ? "http" : "https");
+  return hosts.map((name) => `${prefix}://${name}${port ? `:${port}` : ""}${pathPattern}`);
+}
+
+/** Match patterns for every readable entry, without duplicates. */
+export function getSiteMatchPatterns(sites: string[]): string[] {
+  return Array.from(new Set(sites.flatMap((site) => toMatchPatterns(site) || [])));
+}
+
+/**
+ * Whether a match pattern grants access to the origin of `url`. The path is
+ * ignored: removing the pattern would take the whole origin's access with it.
+ */
+export function coversOrigin(pattern: string, url: string): boolean {
+  const match = pattern.match(/^(\*|https?):\/\/(\*\.)?([^/:]+)(?::(\d+))?\//);
+  if (!match) return false;
+  let target: URL;
+  try {
+    target = new URL(url.trim());
+  } catch {
+    return false;
+  }
+  const [, scheme, wildcard, host, port] = match;
+  const protocol = target.protocol.slice(0, -1);
+  if (scheme === "*" ? protocol !== "http" && protocol !== "https" : scheme !== protocol) {
+    return false;
+  }
+  if ((port || "") !== target.port) return false;
+  const hostname = target.hostname.toLowerCase();
+  return wildcard ? hostname === host || hostname.endsWith(`.${host}`) : hostname === host;
+}
+
+export function parseSites(text: string): string[] {
+  return Array.from(
+    new Set(
+      text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+export function normalizeSiteConfig(stored: Partial<SiteConfig> | undefined): SiteConfig {
+  if (!Array.isArray(stored?.sites)) return DEFAULT_SITE_CONFIG;
+  return { sites: parseSites(stored.sites.filter((site) => typeof site === "string").join("\n")) };
+}
+
+export async function loadSiteConfig(): Promise<SiteConfig> {
+  const data = await chrome.storage.local.get(CONFIG_KEY);
+  return normalizeSiteConfig(data[CONFIG_KEY] as Partial<SiteConfig> | undefined);
+}
+
+export async function saveSiteConfig(config: SiteConfig): Promise<void> {
+  await chrome.storage.local.set({ [CONFIG_KEY]: normalizeSiteConfig(config) });
+}
+
+export function isSiteConfigChange(changes: Record<string, chrome.storage.StorageChange>): boolean {
+  return CONFIG_KEY in changes;
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from "vitest";
+import {
+  addStepSource,
+  compileStepLibrary,
+  findStepMatches,
+  importStepFile,
+  lintStepLibrary,
+  removeStepSource,
+  suggestSteps,
+  type StepDefinition,
+  type StepLibrary,
+} from "./stepLibrary";
+
+const TS_STEPS = [
+  'import { Given, When, Then } from "@cucumber/cucumber";',
+  "",
+  "Given('I am on the {string} page', async function (page: string) {});",
+  'When("I click {string}", async function (key: string) {});',
+  "Then(/^the total is (\\d+)$/i, async function (total: string) {});",
+  "When(`I type ${value}`, async function () {});",
+].join("\n");
+
+function libraryOf(definitions: StepDefinition[]): StepLibrary {
+  return { definitions, importedAt: {} };
+}
+
+describe("importStepFile", () => {
+  it("reads expressions and regular expressions from a step file", () => {
+    const result = importStepFile("steps.ts", TS_STEPS);
+    expect(result.definitions).toEqual([
+      {
+        keyword: "Given",
+        pattern: "I am on the {string} page",
+        kind: "expression",
+        source: "steps.ts",
+        line: 3,
+      },
+      {
+        keyword: "When",
+        pattern: "I click {string}",
+        kind: "expression",
+        source: "steps.ts",
+        line: 4,
+      },
+      {
+        keyword: "Then",
+        pattern: "^the total is (\\d+)$",
+        kind: "regex",
+        flags: "i",
+        source: "steps.ts",
+        line: 5,
+      },
+    ]);
+    expect(result.warnings).toEqual(["steps.ts:6 skips a template literal with interpolation"]);
+  });
+
+  it("treats anchored Java strings as regular expressions", () => {
+    const result = importStepFile(
+      "Steps.java",
+      '@When("^I log in as (\\\\w+)$")\npublic void logIn(String user) {}'
+    );
+    expect(result.definitions[0]).toMatchObject({ pattern: "^I log in as (\\w+)$", kind: "regex" });
+  });
+
+  it("reads usage-json and message reports", () => {
+    const usage = importStepFile(
+      "usage.json",
+      JSON.stringify([
+        { pattern: "I click {string}", patternType: "CucumberExpression", uri: "a.ts", line: 2 },
+      ])
+    );
+    expect(usage.definitions).toEqual([
+      { keyword: "Step", pattern: "I click {string}", kind: "expression", source: "a.ts", line: 2 },
+    ]);
+    const messages = importStepFile(
+      "messages.ndjson",
+      [
+        JSON.stringify({ meta: {} }),
+        JSON.stringify({
+          stepDefinition: {
+            pattern: { source: "^done$", type: "REGULAR_EXPRESSION" },
+            sourceReference: { uri: "b.ts", location: { line: 9 } },
+          },
+        }),
+      ].join("\n")
+    );
+    expect(messages.definitions).toEqual([
+      { keyword: "Step", pattern: "^done$", kind: "regex", source: "b.ts", line: 9 },
+    ]);
+  });
+
+  it("generalises matched steps from a dry-run report", () => {
+    const report = [
+      {
+        elements: [
+          {
+            steps: [
+              {
+                keyword: "When ",
+                name: 'I click "buy" (twice)',
+                match: { location: "steps.ts:12", arguments: [{ val: '"buy"', offset: 8 }] },
+                result: { status: "skipped" },
+              },
+              { keyword: "Then ", name: "nothing", result: { status: "undefined" } },
+            ],
+          },
+        ],
+      },
+    ];
+    expect(importStepFile("report.json", JSON.stringify(report)).definitions).toEqual([
+      {
+        keyword: "When",
+        pattern: "I click {} \\(twice\\)",
+        kind: "expression",
+        source: "steps.ts",
+        line: 12,
+      },
+    ]);
+  });
+
+  it("warns about files without definitions", () => {
+    expect(importStepFile("empty.ts", "export {};").warnings).toEqual([
+      "empty.ts contains no Given/When/Then definitions",
+    ]);
+    expect(importStepFile("broken.json", "{ nope").warnings).toEqual([
+      "broken.json is not valid JSON or NDJSON",
+    ]);
+  });
+});
+
+describe("addStepSource and removeStepSource", () => {
+  it("replace and remove definitions by source", () => {
+    const first = importStepFile("steps.ts", TS_STEPS).definitions;
+    const library = addStepSource(libraryOf(first), "steps.ts", first.slice(0, 1));
+    expect(library.definitions).toHaveLength(1);
+    expect(Object.keys(library.importedAt)).toEqual(["steps.ts"]);
+    expect(removeStepSource(library, "steps.ts")).toEqual({ definitions: [], importedAt: {} });
+  });
+});
+
+describe("matching steps", () => {
+  const compiled = compileStepLibrary(
+    libraryOf([
+      ...importStepFile("steps.ts", TS_STEPS).definitions,
+      { keyword: "Then", pattern: "(unclosed", kind: "regex", source: "bad.ts", line: 1 },
+    ])
+  );
+
+  it("skips definitions that do not compile", () => {
+    expect(compiled).toHaveLength(3);
+  });
+
+  it("finds the definitions a step matches", () => {
+    expect(findStepMatches(compiled, 'I click "buy"').map((match) => match.line)).toEqual([4]);
+    expect(findStepMatches(compiled, "THE TOTAL IS 12")).toHaveLength(1);
+    expect(findStepMatches(compiled, "I press buy")).toEqual([]);
+  });
+
+  it("suggests the closest steps with the sample's values, best first", () => {
+    expect(suggestSteps(compiled, 'I clicked "buy" button')).toEqual([
+      'I click "buy"',
+      'I am on the "buy" page',
+    ]);
+    expect(suggestSteps(compiled, 'I clicked "buy" button', 1)).toEqual(['I click "buy"']);
+  });
+
+  it("reports undefined steps in a feature", () => {
+    const problems = lintStepLibrary(
+      'Feature: F\n  Scenario: S\n    Given I am on the "cart" page\n    When I clicked "buy" button',
+      compiled
+    );
+    expect(problems).toEqual([
+      {
+        line: 4,
+        severity: "warning",
+        message: "Undefined step. Closest existing steps:",
+        suggestions: ['I click "buy"', 'I am on the "buy" page'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,376 @@
+import { compileCucumberExpression, fillCucumberExpression } from "./cucumberExpression";
+import { ENGLISH_KEYWORDS, type GherkinKeywords } from "./gherkin/keywords";
+import { getScenarios, parseGherkin, type GherkinProblem } from "./gherkin/parser";
+
+export type StepDefinition = {
+  /** Given/When/Then as written in the source; Cucumber ignores it when matching. */
+  keyword: string;
+  pattern: string;
+  kind: "expression" | "regex";
+  flags?: string;
+  source: string;
+  line: number;
+};
+
+export type StepLibrary = {
+  definitions: StepDefinition[];
+  importedAt: Record<string, number>;
+};
+
+export type CompiledStep = {
+  definition: StepDefinition;
+  regex: RegExp;
+};
+
+export type StepImportResult = {
+  definitions: StepDefinition[];
+  warnings: string[];
+};
+
+const STORAGE_KEY = "stepLibrary";
+const CALL_PATTERN =
+  /\b(Given|When|Then|And|But|Step|defineStep)\s*\(\s*(?:value\s*=\s*)?(?=["'`/])/g;
+
+export async function loadStepLibrary(): Promise<StepLibrary> {
+  const data = await chrome.storage.local.get(STORAGE_KEY);
+  return (
+    (data[STORAGE_KEY] as StepLibrary | undefined) || { definitions: [], importedAt: {} }
+  );
+}
+
+export async function saveStepLibrary(library: StepLibrary): Promise<void> {
+  await chrome.storage.local.set({ [STORAGE_KEY]: library });
+}
+
+/** Replaces everything previously imported from `source`. */
+export function addStepSource(
+  library: StepLibrary,
+  source: string,
+  definitions: StepDefinition[]
+): StepLibrary {
+  return {
+    definitions: [
+      ...library.definitions.filter((definition) => definition.source !== source),
+      ...definitions,
+    ],
+    importedAt: { ...library.importedAt, [source]: Date.now() },
+  };
+}
+
+export function removeStepSource(library: StepLibrary, source: string): StepLibrary {
+  const importedAt = { ...library.importedAt };
+  delete importedAt[source];
+  return {
+    definitions: library.definitions.filter((definition) => definition.source !== source),
+    importedAt,
+  };
+}
+
+/**
+ * Extracts step definitions from a `.ts`/`.js`/`.java` step file, a
+ * Cucumber `usage-json` or `message` (NDJSON) report, or a `--dry-run` JSON
+ * report. Parsing is textual, so definitions built at runtime are missed.
+ */
+export function importStepFile(name: string, content: string): StepImportResult {
+  const trimmed = content.trim();
+  if (/\.(nd)?json$/i.test(name) || trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    return importCucumberReport(name, trimmed);
+  }
+  return importStepSource(name, content, /\.java$/i.test(name));
+}
+
+function importStepSource(name: string, content: string, isJava: boolean): StepImportResult {
+  const definitions: StepDefinition[] = [];
+  const warnings: string[] = [];
+  for (const match of content.matchAll(CALL_PATTERN)) {
+    const start = (match.index || 0) + match[0].length;
+    const line = content.slice(0, start).split("\n").length;
+    const literal = readLiteral(content, start);
+    if (!literal) {
+      warnings.push(`${name}:${line} could not read the step pattern`);
+      continue;
+    }
+    if (literal.quote === "/") {
+      definitions.push({
+        keyword: match[1],
+        pattern: literal.value,
+        kind: "regex",
+        flags: literal.flags,
+        source: name,
+        line,
+      });
+      continue;
+    }
+    if (literal.quote === "`" && literal.value.includes("${")) {
+      warnings.push(`${name}:${line} skips a template literal with interpolation`);
+      continue;
+    }
+    // Cucumber-JVM treats an anchored string as a regular expression;
+    // cucumber-js only does so for RegExp literals.
+    const isRegex = isJava && (literal.value.startsWith("^") || literal.value.endsWith("$"));
+    definitions.push({
+      keyword: match[1],
+      pattern: literal.value,
+      kind: isRegex ? "regex" : "expression",
+      source: name,
+      line,
+    });
+  }
+  if (!definitions.length) warnings.push(`${name} contains no Given/When/Then definitions`);
+  return { definitions, warnings };
+}
+
+function readLiteral(
+  content: string,
+  start: number
+): { quote: string; value: string; flags?: string } | null {
+  const quote = content[start];
+  let value = "";
+  let inClass = false;
+  for (let index = start + 1; index < content.length; index += 1) {
+    const char = content[index];
+    if (char === "\\") {
+      const next = content[index + 1];
+      // Regex literals keep escapes verbatim; string escapes are resolved.
+      if (quote === "/") value += `${char}${next}`;
+      else value += next === "n" ? "\n" : next === "t" ? "\t" : next;
+      index += 1;
+      continue;
+    }
+    if (quote === "/" && char === "[") inClass = true;
+    if (quote === "/" && char === "]") inClass = false;
+    if (char === quote && !inClass) {
+      const flags = quote === "/" ? content.slice(index + 1).match(/^[a-z]*/)?.[0] : undefined;
+      return { quote, value, flags };
+    }
+    if (char === "\n" && quote !== "`") return null;
+    value += char;
+  }
+  return null;
+}
+
+type UsageEntry = { pattern?: string; patternType?: string; uri?: string; line?: number };
+type ReportStep = {
+  keyword?: string;
+  name?: string;
+  match?: { location?: string; arguments?: { val?: string; offset?: number }[] };
+  result?: { status?: string };
+};
+type ReportFeature = { elements?: { steps?: ReportStep[] }[] };
+
+function importCucumberReport(name: string, content: string): StepImportResult {
+  const definitions: StepDefinition[] = [];
+  const warnings: string[] = [];
+  let records: unknown[];
+  try {
+    const parsed = JSON.parse(content) as unknown;
+    records = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    try {
+      records = content
+        .split("\n")
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line) as unknown);
+    } catch {
+      return { definitions, warnings: [`${name} is not valid JSON or NDJSON`] };
+    }
+  }
+
+  records.forEach((record) => {
+    const value = record as Record<string, unknown>;
+    if (typeof value.pattern === "string") {
+      // cucumber-js --format usage-json
+      const usage = value as UsageEntry;
+      definitions.push({
+        keyword: "Step",
+        pattern: usage.pattern as string,
+        kind: usage.patternType === "RegularExpression" ? "regex" : "expression",
+        source: usage.uri || name,
+        line: usage.line || 0,
+      });
+    } else if (value.stepDefinition) {
+      // --format message
+      const step = value.stepDefinition as {
+        pattern: { source: string; type: string };
+        sourceReference?: { uri?: string; location?: { line?: number } };
+      };
+      definitions.push({
+        keyword: "Step",
+        pattern: step.pattern.source,
+        kind: step.pattern.type === "REGULAR_EXPRESSION" ? "regex" : "expression",
+        source: step.sourceReference?.uri || name,
+        line: step.sourceReference?.location?.line || 0,
+      });
+    } else if (Array.isArray(value.elements)) {
+      // --dry-run --format json only records matched step text, so each
+      // match becomes an expression with its arguments as `{}` parameters.
+      (value as ReportFeature).elements?.forEach((element) =>
+        element.steps?.forEach((step) => {
+          if (!step.name || !step.match?.location || step.result?.status === "undefined") {
+            return;
+          }
+          definitions.push({
+            keyword: (step.keyword || "Step").trim(),
+            pattern: generalizeStep(step.name, step.match.arguments || []),
+            kind: "expression",
+            source: step.match.location.replace(/:\d+$/, ""),
+            line: Number(step.match.location.match(/:(\d+)$/)?.[1] || 0),
+          });
+        })
+      );
+    }
+  });
+
+  const unique = new Map<string, StepDefinition>();
+  definitions.forEach((definition) => {
+    unique.set(`${definition.kind}:${definition.pattern}`, definition);
+  });
+  if (!unique.size) warnings.push(`${name} contains no step definitions`);
+  return { definitions: Array.from(unique.values()), warnings };
+}
+
+function generalizeStep(text: string, args: { val?: string; offset?: number }[]): string {
+  let pattern = "";
+  let cursor = 0;
+  args
+    .filter((arg) => typeof arg.offset === "number" && typeof arg.val === "string")
+    .sort((a, b) => (a.offset as number) - (b.offset as number))
+    .forEach((arg) => {
+      const offset = arg.offset as number;
+      if (offset < cursor) return;
+      pattern += escapeExpression(text.slice(cursor, offset)) + "{}";
+      cursor = offset + (arg.val as string).length;
+    });
+  return pattern + escapeExpression(text.slice(cursor));
+}
+
+function escapeExpression(text: string): string {
+  return text.replace(/[\\(){}/]/g, "\\$&");
+}
+
+/** Definitions whose pattern does not compile are left out. */
+export function compileStepLibrary(library: StepLibrary): CompiledStep[] {
+  return library.definitions.flatMap((definition) => {
+    try {
+      const regex =
+        definition.kind === "regex"
+          ? new RegExp(definition.pattern, (definition.flags || "").replace(/[gy]/g, ""))
+          : compileCucumberExpression(definition.pattern);
+      return [{ definition, regex }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function findStepMatches(library: CompiledStep[], text: string): StepDefinition[] {
+  return library.filter(({ regex }) => regex.test(text)).map(({ definition }) => definition);
+}
+
+/** Step text (without keyword) for the closest definitions, best first. */
+export function suggestSteps(library: CompiledStep[], text: string, limit = 3): string[] {
+  const words = toWords(text);
+  return library
+    .map(({ definition }) => {
+      const suggestion = describeStepDefinition(definition, text);
+      return { suggestion, score: similarity(words, toWords(suggestion)) };
+    })
+    .filter(({ score }) => score >= 0.3)
+    .sort((a, b) => b.score - a.score)
+    .map(({ suggestion }) => suggestion)
+    .filter((suggestion, index, all) => all.indexOf(suggestion) === index)
+    .slice(0, limit);
+}
+
+/**
+ * The definition as step text, with parameters taken from `sample` where it
+ * has quoted strings or numbers to offer.
+ */
+export function describeStepDefinition(definition: StepDefinition, sample = ""): string {
+  return definition.kind === "expression"
+    ? fillCucumberExpression(definition.pattern, sample)
+    : fillRegexPattern(definition.pattern, sample);
+}
+
+/**
+ * Flags steps that no imported definition matches, or that several match.
+ * Outline steps are checked with the values of the first Examples row.
+ */
+export function lintStepLibrary(
+  text: string,
+  library: CompiledStep[],
+  keywords: GherkinKeywords = ENGLISH_KEYWORDS
+): GherkinProblem[] {
+  if (!library.length) return [];
+  const problems: GherkinProblem[] = [];
+  getScenarios(parseGherkin(text, keywords)).forEach((scenario) => {
+    const [header, firstRow] = scenario.examples[0]?.table || [];
+    const substitute = (value: string) =>
+      value.replace(/<([^<>]+)>/g, (placeholder, name: string) => {
+        const column = header?.cells.indexOf(name) ?? -1;
+        return column >= 0 && firstRow ? firstRow.cells[column] ?? placeholder : placeholder;
+      });
+
+    scenario.steps.forEach((step) => {
+      if (!step.text) return;
+      const stepText = scenario.type === "outline" ? substitute(step.text) : step.text;
+      const matches = findStepMatches(library, stepText);
+      if (matches.length === 1) return;
+      if (matches.length > 1) {
+        problems.push({
+          line: step.line,
+          severity: "warning",
+          message: `Ambiguous step: matches ${matches
+            .map((match) => `${match.source}:${match.line}`)
+            .join(", ")}.`,
+        });
+        return;
+      }
+      const suggestions = suggestSteps(library, step.text);
+      problems.push({
+        line: step.line,
+        severity: "warning",
+        message: suggestions.length
+          ? "Undefined step. Closest existing steps:"
+          : "Undefined step: nothing in the step library matches.",
+        suggestions,
+      });
+    });
+  });
+  return problems;
+}
+
+/** Readable form of a regex step: quoted groups take the sample's strings. */
+function fillRegexPattern(pattern: string, sample: string): string {
+  const strings = sample.match(/"[^"]*"/g) || [];
+  return pattern
+    .replace(/^\^|\$$/g, "")
+    .replace(/"\((?!\?)[^)]*\)"/g, () => strings.shift() || '""')
+    .replace(/\((?!\?)[^)]*\)/g, "{}")
+    .replace(/\(\?:([^)]*)\)\??/g, "$1")
+    .replace(/\\(.)/g, "$1");
+}
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/"[^"]*"|'[^']*'|\{[^}]*\}/g, " \u0000 ")
+    .split(/[^a-z0-9\u0000]+/)
+    .filter(Boolean);
+}
+
+/** Dice coefficient over word multisets. */
+function similarity(a: string[], b: string[]): number {
+  if (!a.length || !b.length) return 0;
+  const counts = new Map<string, number>();
+  a.forEach((word) => counts.set(word, (counts.get(word) || 0) + 1));
+  let shared = 0;
+  b.forEach((word) => {
+    const count = counts.get(word) || 0;
+    if (count) {
+      shared += 1;
+      counts.set(word, count - 1);
+    }
+  });
+  return (2 * shared) / (a.length + b.length);
+}
@@ -1,4 +1,45 @@
-const MENU_ID = "generate-assert-visible";
+import { ASSERTION_OPTIONS, type AssertionKind } from "../shared/assertions";
+import { summarizeBugContext, type BugContext } from "../shared/bugContext";
+import {
+  adfToText,
+  codeBlock,
+  heading,
+  renderDescriptionAdf,
+  type AdfDocument,
+  type AdfNode,
+} from "../shared/gherkin/adf";
+import { resolveGherkinKeywords } from "../shared/gherkin/keywords";
+import {
+  buildDuplicateJql,
+  findMatchedTerms,
+  getDuplicateSearchTerms,
+  type JiraIssueCandidate,
+} from "../shared/jiraDuplicates";
+import {
+  selectJiraFields,
+  type CreateMetaField,
+  type JiraField,
+  type JiraFieldOption,
+} from "../shared/jiraFields";
+import {
+  CONTENT_SCRIPT_FILE,
+  CONTENT_SCRIPT_ID,
+  getSiteMatchPatterns,
+  isSiteConfigChange,
+  loadSiteConfig,
+  PAGE_MONITOR_FILE,
+  PAGE_MONITOR_ID,
+} from "../shared/sites";
+
+const MENU_ID = "generate-test-step";
+const ASSERTION_MENU_PREFIX = "assert-";
+const RECORD_MENU_ID = "toggle-recording";
+const RECORD_START_TITLE = "Start recording steps";
+const RECORD_STOP_TITLE = "Stop recording steps";
+const FORM_MENU_ID = "capture-form";
+const TRAY_MENU_ID = "toggle-tray";
+const TRAY_OPEN_TITLE = "Open capture tray";
+const TRAY_CLOSE_TITLE = "Close capture tray";
 
 type JiraConfig = {
   baseUrl: string;
@@ -7,33 +48,132 @@ type JiraConfig = {
   mapping: Record<string, string>;
 };
 
+type JiraIssueType = { id: string; name: string; subtask?: boolean };
+
+type ContentScriptResponse = {
+  ok: boolean;
+  error?: string;
+  recording?: boolean;
+  open?: boolean;
+};
+
 chrome.runtime.onInstalled.addListener(() => {
   chrome.contextMenus.removeAll(() => {
     chrome.contextMenus.create({
       id: MENU_ID,
-      title: "Create JIRA item",
+      title: "Generate test step…",
+      contexts: ["all"],
+    });
+    ASSERTION_OPTIONS.forEach((option) => {
+      chrome.contextMenus.create({
+        id: `${ASSERTION_MENU_PREFIX}${option.kind}`,
+        parentId: MENU_ID,
+        title: option.title,
+        contexts: ["all"],
+      });
+    });
+    chrome.contextMenus.create({
+      id: FORM_MENU_ID,
+      title: "Capture form as Scenario Outline",
+      contexts: ["all"],
+    });
+    chrome.contextMenus.create({
+      id: RECORD_MENU_ID,
+      title: RECORD_START_TITLE,
+      contexts: ["all"],
+    });
+    chrome.contextMenus.create({
+      id: TRAY_MENU_ID,
+      title: TRAY_OPEN_TITLE,
       contexts: ["all"],
     });
   });
+  scheduleContentScriptSync();
 });
 
 chrome.contextMenus.onClicked.addListener((info, tab) => {
-  if (info.menuItemId !== MENU_ID) return;
   if (!tab?.id) return;
+  const tabId = tab.id;
+
+  if (info.menuItemId === RECORD_MENU_ID) {
+    void sendToContentScript(tabId, { type: "recorder:toggle" })
+      .then((response) => {
+        if (!response?.ok) {
+          console.warn("Recording failed:", response?.error || "Unknown error");
+          return;
+        }
+        updateRecordMenu(Boolean(response.recording));
+      })
+      .catch((error) => console.warn("Recording failed:", error?.message || String(error)));
+    return;
+  }
 
-  chrome.tabs.sendMessage(
-    tab.id,
-    { type: "capture-and-copy" },
-    (response) => {
-      if (chrome.runtime.lastError) {
-        console.warn("Capture failed:", chrome.runtime.lastError.message);
-        return;
-      }
+  if (info.menuItemId === FORM_MENU_ID) {
+    void sendToContentScript(tabId, { type: "capture-form" }, true)
+      .then((response) => {
+        if (!response?.ok) {
+          console.warn("Form capture failed:", response?.error || "Unknown error");
+        }
+      })
+      .catch((error) => console.warn("Form capture failed:", error?.message || String(error)));
+    return;
+  }
+
+  if (info.menuItemId === TRAY_MENU_ID) {
+    void sendToContentScript(tabId, { type: "tray:toggle" })
+      .then((response) => {
+        if (!response?.ok) {
+          console.warn("Capture tray failed:", response?.error || "Unknown error");
+          return;
+        }
+        updateTrayMenu(Boolean(response.open));
+      })
+      .catch((error) => console.warn("Capture tray failed:", error?.message || String(error)));
+    return;
+  }
+
+  const assertion = getAssertionFromMenuId(info.menuItemId);
+  if (!assertion) return;
+
+  void sendToContentScript(tabId, { type: "capture-and-copy", assertion }, true)
+    .then((response) => {
       if (!response?.ok) {
         console.warn("Capture failed:", response?.error || "Unknown error");
       }
-    }
-  );
+    })
+    .catch((error) => console.warn("Capture failed:", error?.message || String(error)));
+});
+
+chrome.runtime.onStartup.addListener(() => {
+  scheduleContentScriptSync();
+});
+
+chrome.storage.onChanged.addListener((changes, area) => {
+  if (area === "local" && isSiteConfigChange(changes)) scheduleContentScriptSync();
+});
+
+chrome.permissions.onAdded.addListener(() => {
+  scheduleContentScriptSync();
+});
+
+chrome.permissions.onRemoved.addListener(() => {
+  scheduleContentScriptSync();
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  void chrome.storage.local.remove(getRecorderStateKey(tabId));
+});
+
+// Recording is per tab, so the menu title follows the tab in front.
+chrome.tabs.onActivated.addListener(({ tabId }) => {
+  void refreshRecordMenu(tabId);
+});
+
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId === chrome.windows.WINDOW_ID_NONE) return;
+  void chrome.tabs.query({ active: true, windowId }).then(([tab]) => {
+    if (tab?.id !== undefined) return refreshRecordMenu(tab.id);
+  });
 });
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
@@ -42,6 +182,23 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message?.type === "recorder:state") {
+    if (sender.tab?.active !== false) updateRecordMenu(Boolean(message.recording));
+    sendResponse({ ok: true });
+    return true;
+  }
+
+  if (message?.type === "recorder:tab") {
+    sendResponse({ ok: true, tabId: sender.tab?.id ?? null });
+    return true;
+  }
+
+  if (message?.type === "tray:state") {
+    updateTrayMenu(Boolean(message.open));
+    sendResponse({ ok: true });
+    return true;
+  }
+
   if (message?.type === "jira:test") {
     void handleJiraTest().then(sendResponse);
     return true;
@@ -58,21 +215,164 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message?.type === "jira:create-meta") {
+    void handleJiraCreateMeta(message)
+      .then(sendResponse)
+      .catch((error) => sendResponse({ ok: false, error: error?.message || String(error) }));
+    return true;
+  }
+
+  if (message?.type === "jira:assignable-users") {
+    void handleJiraAssignableUsers(message)
+      .then(sendResponse)
+      .catch((error) => sendResponse({ ok: false, error: error?.message || String(error) }));
+    return true;
+  }
+
+  if (message?.type === "jira:list-sprints") {
+    void handleJiraListSprints(message)
+      .then(sendResponse)
+      .catch((error) => sendResponse({ ok: false, error: error?.message || String(error) }));
+    return true;
+  }
+
   if (message?.type === "jira:create-issue") {
-    void handleJiraCreateIssue(message, sender.tab?.id, sender.tab?.windowId).then(
-      sendResponse
-    );
+    void handleJiraCreateIssue(message, sender.tab?.id, sender.tab?.windowId)
+      .then(sendResponse)
+      .catch((error) => sendResponse({ ok: false, error: error?.message || String(error) }));
     return true;
   }
 
-  if (message?.type === "capture:snapshot-preview") {
-    void handleSnapshotPreview(message, sender.tab?.windowId).then(sendResponse);
+  if (message?.type === "jira:comment-issue") {
+    void handleJiraCommentIssue(message, sender.tab?.id, sender.tab?.windowId)
+      .then(sendResponse)
+      .catch((error) => sendResponse({ ok: false, error: error?.message || String(error) }));
+    return true;
+  }
+
+  if (message?.type === "capture:visible-tab") {
+    void handleVisibleTabCapture(sender.tab?.windowId).then(sendResponse);
     return true;
   }
 
   return false;
 });
 
+let contentScriptSync: Promise<void> = Promise.resolve();
+
+/** Registrations are replaced as a whole, so overlapping syncs are queued. */
+function scheduleContentScriptSync() {
+  contentScriptSync = contentScriptSync
+    .then(syncContentScripts)
+    .catch((error) => console.warn("Content script registration failed:", error));
+}
+
+/**
+ * Registers the content script for the allowed sites Chrome has granted.
+ * Sites still waiting for access are left out until the permission arrives.
+ */
+async function syncContentScripts(): Promise<void> {
+  const config = await loadSiteConfig();
+  const matches: string[] = [];
+  for (const pattern of getSiteMatchPatterns(config.sites)) {
+    if (await chrome.permissions.contains({ origins: [pattern] })) matches.push(pattern);
+  }
+  const registered = await chrome.scripting.getRegisteredContentScripts({
+    ids: [CONTENT_SCRIPT_ID, PAGE_MONITOR_ID],
+  });
+  if (registered.length > 0) {
+    await chrome.scripting.unregisterContentScripts({
+      ids: registered.map((script) => script.id),
+    });
+  }
+  if (matches.length === 0) return;
+  await chrome.scripting.registerContentScripts([
+    {
+      id: PAGE_MONITOR_ID,
+      matches,
+      js: [PAGE_MONITOR_FILE],
+      runAt: "document_start",
+      world: "MAIN",
+    },
+    {
+      id: CONTENT_SCRIPT_ID,
+      matches,
+      js: [CONTENT_SCRIPT_FILE],
+      runAt: "document_idle",
+    },
+  ]);
+}
+
+/**
+ * Sends `message` to the content script, injecting it first on tabs outside
+ * the allowed sites; the context menu click grants activeTab. A freshly
+ * injected script missed the right-click, so captures that need the clicked
+ * element ask for another right-click instead.
+ */
+async function sendToContentScript(
+  tabId: number,
+  message: { type: string; [key: string]: unknown },
+  needsTarget = false
+): Promise<ContentScriptResponse | undefined> {
+  if (await isContentScriptReady(tabId)) {
+    return chrome.tabs.sendMessage(tabId, message);
+  }
+  // The monitor only sees errors and requests from this point on.
+  await chrome.scripting.executeScript({
+    target: { tabId },
+    files: [PAGE_MONITOR_FILE],
+    world: "MAIN",
+  });
+  await chrome.scripting.executeScript({ target: { tabId }, files: [CONTENT_SCRIPT_FILE] });
+  if (needsTarget) {
+    return chrome.tabs.sendMessage(tabId, { type: "content:activated" });
+  }
+  return chrome.tabs.sendMessage(tabId, message);
+}
+
+async function isContentScriptReady(tabId: number): Promise<boolean> {
+  try {
+    const response = await chrome.tabs.sendMessage(tabId, { type: "content:ping" });
+    return Boolean(response?.ok);
+  } catch {
+    return false;
+  }
+}
+
+function getAssertionFromMenuId(menuItemId: string | number): AssertionKind | null {
+  const id = String(menuItemId);
+  if (!id.startsWith(ASSERTION_MENU_PREFIX)) return null;
+  const kind = id.slice(ASSERTION_MENU_PREFIX.length);
+  const option = ASSERTION_OPTIONS.find((item) => item.kind === kind);
+  return option ? option.kind : null;
+}
+
+function updateRecordMenu(recording: boolean) {
+  chrome.contextMenus.update(RECORD_MENU_ID, {
+    title: recording ? RECORD_STOP_TITLE : RECORD_START_TITLE,
+  });
+}
+
+/** Matches the key the content script keeps its recorder state under. */
+function getRecorderStateKey(tabId: number): string {
+  return `recorderState:${tabId}`;
+}
+
+async function refreshRecordMenu(tabId: number): Promise<void> {
+  const key = getRecorderStateKey(tabId);
+  const stored = (await chrome.storage.local.get(key)) as Record<
+    string,
+    { active?: boolean } | undefined
+  >;
+  updateRecordMenu(Boolean(stored[key]?.active));
+}
+
+function updateTrayMenu(open: boolean) {
+  chrome.contextMenus.update(TRAY_MENU_ID, {
+    title: open ? TRAY_CLOSE_TITLE : TRAY_OPEN_TITLE,
+  });
+}
+
 async function getJiraConfig(): Promise<JiraConfig | null> {
   const stored = (await chrome.storage.local.get("jiraConfig")) as {
     jiraConfig?: JiraConfig;
@@ -140,22 +440,189 @@ async function handleJiraListProjects() {
   return { ok: true, projects };
 }
 
+async function jiraGet(config: JiraConfig, path: string): Promise<Response> {
+  return fetch(`${normalizeBaseUrl(config.baseUrl)}${path}`, {
+    headers: {
+      Authorization: buildAuthHeader(config.email, config.token),
+      Accept: "application/json",
+    },
+  });
+}
+
+/** Jira's own messages, e.g. "Component/s is required.", after the status. */
+async function describeJiraError(response: Response): Promise<string> {
+  const payload = await response.json().catch(() => null);
+  const messages = [
+    ...(Array.isArray(payload?.errorMessages) ? payload.errorMessages : []),
+    ...Object.values((payload?.errors as Record<string, string> | undefined) || {}),
+  ].filter((message): message is string => typeof message === "string" && message !== "");
+  const detail = messages.length > 0 ? `: ${messages.join(" ")}` : "";
+  return `Jira error (${response.status})${detail}`;
+}
+
+/**
+ * The issue type the overlay's Feature/Bug choice maps to in this project,
+ * and the fields createmeta reports for it. Features become Stories, or
+ * Tasks in projects without Stories.
+ */
+async function handleJiraCreateMeta(message: {
+  projectKey?: string;
+  issueType?: string;
+}): Promise<
+  | { ok: true; issueTypeId: string; issueTypeName: string; fields: JiraField[] }
+  | { ok: false; error: string }
+> {
+  const config = await getJiraConfig();
+  if (!config?.baseUrl || !config?.email || !config?.token) {
+    return { ok: false, error: "Missing Jira configuration." };
+  }
+  if (!message.projectKey) {
+    return { ok: false, error: "Missing project key." };
+  }
+
+  const project = encodeURIComponent(message.projectKey);
+  const typesResponse = await jiraGet(
+    config,
+    `/rest/api/3/issue/createmeta/${project}/issuetypes?maxResults=100`
+  );
+  if (!typesResponse.ok) {
+    return { ok: false, error: await describeJiraError(typesResponse) };
+  }
+  const typesPayload = await typesResponse.json();
+  const issueTypes: JiraIssueType[] = (
+    typesPayload.issueTypes ||
+    typesPayload.values ||
+    []
+  ).filter((type: JiraIssueType) => !type.subtask);
+  const wanted = message.issueType?.toLowerCase() === "bug" ? ["bug"] : ["story", "task"];
+  const issueType =
+    wanted
+      .map((name) => issueTypes.find((type) => type.name.toLowerCase() === name))
+      .find(Boolean) || issueTypes[0];
+  if (!issueType) {
+    return { ok: false, error: "The project has no issue types you can create." };
+  }
+
+  const fieldsResponse = await jiraGet(
+    config,
+    `/rest/api/3/issue/createmeta/${project}/issuetypes/${issueType.id}?maxResults=200`
+  );
+  if (!fieldsResponse.ok) {
+    return { ok: false, error: await describeJiraError(fieldsResponse) };
+  }
+  const fieldsPayload = await fieldsResponse.json();
+  const rawFields: CreateMetaField[] =
+    fieldsPayload.fields || fieldsPayload.results || fieldsPayload.values || [];
+  return {
+    ok: true,
+    issueTypeId: issueType.id,
+    issueTypeName: issueType.name,
+    fields: selectJiraFields(rawFields),
+  };
+}
+
+async function handleJiraAssignableUsers(message: {
+  projectKey?: string;
+}): Promise<{ ok: true; users: JiraFieldOption[] } | { ok: false; error: string }> {
+  const config = await getJiraConfig();
+  if (!config?.baseUrl || !config?.email || !config?.token || !message.projectKey) {
+    return { ok: false, error: "Missing Jira configuration." };
+  }
+  const response = await jiraGet(
+    config,
+    `/rest/api/3/user/assignable/search?project=${encodeURIComponent(message.projectKey)}&maxResults=100`
+  );
+  if (!response.ok) {
+    return { ok: false, error: await describeJiraError(response) };
+  }
+  const payload = await response.json();
+  const users = (Array.isArray(payload) ? payload : []).map(
+    (user: { accountId: string; displayName?: string }) => ({
+      id: user.accountId,
+      name: user.displayName || user.accountId,
+    })
+  );
+  return { ok: true, users };
+}
+
+/** Active and future sprints of the project's Scrum boards. */
+async function handleJiraListSprints(message: {
+  projectKey?: string;
+}): Promise<{ ok: true; sprints: JiraFieldOption[] } | { ok: false; error: string }> {
+  const config = await getJiraConfig();
+  if (!config?.baseUrl || !config?.email || !config?.token || !message.projectKey) {
+    return { ok: false, error: "Missing Jira configuration." };
+  }
+  const boardsResponse = await jiraGet(
+    config,
+    `/rest/agile/1.0/board?type=scrum&maxResults=5&projectKeyOrId=${encodeURIComponent(message.projectKey)}`
+  );
+  if (!boardsResponse.ok) {
+    return { ok: false, error: await describeJiraError(boardsResponse) };
+  }
+  const boards: { id: number }[] = (await boardsResponse.json()).values || [];
+  const sprints = new Map<string, JiraFieldOption>();
+  for (const board of boards) {
+    const response = await jiraGet(
+      config,
+      `/rest/agile/1.0/board/${board.id}/sprint?state=active,future&maxResults=50`
+    );
+    if (!response.ok) continue;
+    const values: { id: number; name: string; state: string }[] = (await response.json()).values || [];
+    values.forEach((sprint) => {
+      sprints.set(String(sprint.id), {
+        id: String(sprint.id),
+        name: sprint.state === "active" ? `${sprint.name} (active)` : sprint.name,
+      });
+    });
+  }
+  return { ok: true, sprints: Array.from(sprints.values()) };
+}
+
+type JiraIssueMessage = {
+  projectKey?: string;
+  summary?: string;
+  description?: string;
+  /** Linked below the description. */
+  url?: string;
+  /** Gherkin language of the description, unless it has a `# language:` line. */
+  language?: string;
+  /** Searched for in open issues, with the URL path and the selected text. */
+  elementKey?: string;
+  selectedText?: string | null;
+  stepDef?: string;
+  stepDefLanguage?: string;
+  mapping?: string;
+  issueType?: string;
+  snapshotDataUrl?: string | null;
+  captureRect?: { x: number; y: number; width: number; height: number } | null;
+  viewport?: { width: number; height: number };
+  devicePixelRatio?: number;
+  /** Only sent for bugs. */
+  bugContext?: BugContext | null;
+  /** From createmeta; the issue type is looked up by name without it. */
+  issueTypeId?: string | null;
+  /** Extra `fields` entries, already in Jira's shape. */
+  fields?: Record<string, unknown>;
+  /** Set once the user chose to create the issue despite possible duplicates. */
+  skipDuplicateCheck?: boolean;
+  /** Linked to the new issue as "Relates". */
+  relatedIssueKey?: string | null;
+};
+
+/**
+ * Creates the issue, unless open issues in the project already mention the
+ * same element, page or text: then those are returned as `duplicates` and
+ * nothing is created until the user decides.
+ */
 async function handleJiraCreateIssue(
-  message: {
-    projectKey?: string;
-    summary?: string;
-    description?: string;
-    stepDef?: string;
-    mapping?: string;
-    issueType?: string;
-    snapshotDataUrl?: string | null;
-    captureRect?: { x: number; y: number; width: number; height: number } | null;
-    viewport?: { width: number; height: number };
-    devicePixelRatio?: number;
-  },
+  message: JiraIssueMessage,
   tabId?: number,
   windowId?: number
-) {
+): Promise<
+  | { ok: true; key: string; error?: string }
+  | { ok: false; error: string; duplicates?: JiraIssueCandidate[] }
+> {
   const config = await getJiraConfig();
   if (!config?.baseUrl || !config?.email || !config?.token) {
     return { ok: false, error: "Missing Jira configuration." };
@@ -170,21 +637,17 @@ async function handleJiraCreateIssue(
     return { ok: false, error: "Missing summary." };
   }
 
-  const baseUrl = normalizeBaseUrl(config.baseUrl);
-  const descriptionText = message.description?.trim() || "";
-  const description = {
-    type: "doc",
-    version: 1,
-    content: [
-      {
-        type: "paragraph",
-        content: descriptionText
-          ? [{ type: "text", text: descriptionText }]
-          : [],
-      },
-    ],
-  };
+  if (!message.skipDuplicateCheck) {
+    // A failed search must not stop the ticket from being created.
+    const duplicates = await findDuplicateIssues(config, message.projectKey, message).catch(
+      () => []
+    );
+    if (duplicates.length > 0) {
+      return { ok: false, error: "Possible duplicates found.", duplicates };
+    }
+  }
 
+  const baseUrl = normalizeBaseUrl(config.baseUrl);
   const issueType =
     message.issueType?.toLowerCase() === "bug" ? "Bug" : "Story";
 
@@ -197,25 +660,163 @@ async function handleJiraCreateIssue(
     },
     body: JSON.stringify({
       fields: {
+        ...(message.fields || {}),
         project: { key: message.projectKey },
         summary,
-        description,
-        issuetype: { name: issueType },
+        description: buildDescription(message),
+        issuetype: message.issueTypeId ? { id: message.issueTypeId } : { name: issueType },
       },
     }),
   });
 
   if (!response.ok) {
-    return { ok: false, error: `Jira error (${response.status})` };
+    return { ok: false, error: await describeJiraError(response) };
   }
 
   const payload = await response.json();
   const issueKey = payload.key as string;
 
+  await uploadCaptureAttachments(baseUrl, config, issueKey, message, windowId, tabId);
+
+  const comments: { text: string; language: string }[] = [];
+  if (message.stepDef?.trim()) {
+    comments.push({
+      text: message.stepDef.trim(),
+      language: message.stepDefLanguage || "text",
+    });
+  }
+  if (message.mapping?.trim()) {
+    comments.push({ text: message.mapping.trim(), language: "yaml" });
+  }
+
+  for (const comment of comments) {
+    await postComment(baseUrl, config, issueKey, [codeBlock(comment.text, comment.language)]);
+  }
+
+  if (message.relatedIssueKey) {
+    const link = await fetch(`${baseUrl}/rest/api/3/issueLink`, {
+      method: "POST",
+      headers: {
+        Authorization: buildAuthHeader(config.email, config.token),
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        type: { name: "Relates" },
+        inwardIssue: { key: issueKey },
+        outwardIssue: { key: message.relatedIssueKey },
+      }),
+    });
+    if (!link.ok) {
+      return {
+        ok: true,
+        key: issueKey,
+        error: `Created ${issueKey}, but linking it failed. ${await describeJiraError(link)}`,
+      };
+    }
+  }
+
+  return { ok: true, key: issueKey };
+}
+
+/**
+ * Adds the capture to an existing issue instead of creating a new one: one
+ * comment with the description and element mapping, plus the attachments.
+ */
+async function handleJiraCommentIssue(
+  message: JiraIssueMessage & { issueKey?: string },
+  tabId?: number,
+  windowId?: number
+): Promise<{ ok: true; key: string } | { ok: false; error: string }> {
+  const config = await getJiraConfig();
+  if (!config?.baseUrl || !config?.email || !config?.token) {
+    return { ok: false, error: "Missing Jira configuration." };
+  }
+  if (!message.issueKey) {
+    return { ok: false, error: "Missing issue key." };
+  }
+
+  const baseUrl = normalizeBaseUrl(config.baseUrl);
+  const content = buildDescription(message).content;
+  if (message.mapping?.trim()) content.push(codeBlock(message.mapping.trim(), "yaml"));
+  const response = await postComment(baseUrl, config, message.issueKey, content);
+  if (!response.ok) {
+    return { ok: false, error: await describeJiraError(response) };
+  }
+  await uploadCaptureAttachments(baseUrl, config, message.issueKey, message, windowId, tabId);
+  return { ok: true, key: message.issueKey };
+}
+
+async function findDuplicateIssues(
+  config: JiraConfig,
+  projectKey: string,
+  message: JiraIssueMessage
+): Promise<JiraIssueCandidate[]> {
+  const terms = getDuplicateSearchTerms({
+    elementKey: message.elementKey,
+    url: message.url,
+    selectedText: message.selectedText,
+  });
+  if (terms.length === 0) return [];
+
+  const response = await fetch(`${normalizeBaseUrl(config.baseUrl)}/rest/api/3/search/jql`, {
+    method: "POST",
+    headers: {
+      Authorization: buildAuthHeader(config.email, config.token),
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      jql: buildDuplicateJql(projectKey, terms),
+      maxResults: 5,
+      fields: ["summary", "status", "description"],
+    }),
+  });
+  if (!response.ok) return [];
+  const payload = await response.json();
+  const issues: {
+    key: string;
+    fields?: { summary?: string; status?: { name?: string }; description?: unknown };
+  }[] = Array.isArray(payload.issues) ? payload.issues : [];
+  return issues.map((issue) => ({
+    key: issue.key,
+    summary: issue.fields?.summary || "",
+    status: issue.fields?.status?.name || "",
+    matches: findMatchedTerms(
+      terms,
+      `${issue.fields?.summary || ""} ${adfToText(issue.fields?.description)}`
+    ),
+  }));
+}
+
+function buildDescription(message: JiraIssueMessage): AdfDocument {
+  const descriptionText = message.description?.trim() || "";
+  const description = renderDescriptionAdf(descriptionText, {
+    url: message.url,
+    keywords: resolveGherkinKeywords(descriptionText, message.language || "en"),
+  });
+  if (message.bugContext) {
+    description.content.push(
+      heading(3, "Bug context"),
+      codeBlock(summarizeBugContext(message.bugContext).join("\n"), "text")
+    );
+  }
+  return description;
+}
+
+/** The annotated snapshot (or a fresh crop of the tab) and the bug context file. */
+async function uploadCaptureAttachments(
+  baseUrl: string,
+  config: JiraConfig,
+  issueKey: string,
+  message: JiraIssueMessage,
+  windowId?: number,
+  tabId?: number
+) {
   if (message.snapshotDataUrl) {
     const response = await fetch(message.snapshotDataUrl);
     const blob = await response.blob();
-    await uploadAttachment(baseUrl, config, issueKey, blob);
+    await uploadAttachment(baseUrl, config, issueKey, blob, "selection.png");
   } else if (
     message.captureRect &&
     message.captureRect.width > 0 &&
@@ -230,39 +831,33 @@ async function handleJiraCreateIssue(
       message.devicePixelRatio || 1
     );
     if (attachment) {
-      await uploadAttachment(baseUrl, config, issueKey, attachment);
+      await uploadAttachment(baseUrl, config, issueKey, attachment, "selection.png");
     }
   }
 
-  const comments: string[] = [];
-  if (message.stepDef?.trim()) comments.push(message.stepDef.trim());
-  if (message.mapping?.trim()) comments.push(message.mapping.trim());
-
-  for (const comment of comments) {
-    await fetch(`${baseUrl}/rest/api/3/issue/${issueKey}/comment`, {
-      method: "POST",
-      headers: {
-        Authorization: buildAuthHeader(config.email, config.token),
-        Accept: "application/json",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        body: {
-          type: "doc",
-          version: 1,
-          content: [
-            {
-              type: "codeBlock",
-              attrs: { language: "text" },
-              content: [{ type: "text", text: comment }],
-            },
-          ],
-        },
-      }),
+  if (message.bugContext) {
+    const blob = new Blob([JSON.stringify(message.bugContext, null, 2)], {
+      type: "application/json",
     });
+    await uploadAttachment(baseUrl, config, issueKey, blob, "bug-context.json");
   }
+}
 
-  return { ok: true, key: issueKey };
+async function postComment(
+  baseUrl: string,
+  config: JiraConfig,
+  issueKey: string,
+  content: AdfNode[]
+): Promise<Response> {
+  return fetch(`${baseUrl}/rest/api/3/issue/${issueKey}/comment`, {
+    method: "POST",
+    headers: {
+      Authorization: buildAuthHeader(config.email, config.token),
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ body: { type: "doc", version: 1, content } }),
+  });
 }
 
 async function captureAndCropTab(
@@ -280,7 +875,9 @@ async function captureAndCropTab(
   const blob = await response.blob();
   const bitmap = await createImageBitmap(blob);
 
-  const scale = devicePixelRatio || 1;
+  // The screenshot's own width gives the real scale, which the page's
+  // devicePixelRatio misses under browser zoom.
+  const scale = viewport.width > 0 ? bitmap.width / viewport.width : devicePixelRatio || 1;
   const maxWidth = Math.max(0, viewport.width);
   const maxHeight = Math.max(0, viewport.height);
 
@@ -316,10 +913,11 @@ async function uploadAttachment(
   baseUrl: string,
   config: JiraConfig,
   issueKey: string,
-  blob: Blob
+  blob: Blob,
+  filename: string
 ) {
   const form = new FormData();
-  form.append("file", blob, "selection.png");
+  form.append("file", blob, filename);
 
   await fetch(`${baseUrl}/rest/api/3/issue/${issueKey}/attachments`, {
     method: "POST",
@@ -332,56 +930,15 @@ async function uploadAttachment(
   });
 }
 
-async function handleSnapshotPreview(
-  message: { rect?: { x: number; y: number; width: number; height: number } },
-  windowId?: number
-) {
-  if (!message.rect || typeof windowId !== "number") {
-    return { ok: false, error: "Missing rect or window." };
+/** The annotation editor in the overlay crops the screenshot itself. */
+async function handleVisibleTabCapture(windowId?: number) {
+  if (typeof windowId !== "number") {
+    return { ok: false, error: "Missing window." };
   }
 
   const dataUrl = await chrome.tabs.captureVisibleTab(windowId, {
     format: "png",
   });
   if (!dataUrl) return { ok: false, error: "Capture failed." };
-
-  const response = await fetch(dataUrl);
-  const blob = await response.blob();
-  const bitmap = await createImageBitmap(blob);
-
-  const scale = 1;
-  const x = Math.max(0, message.rect.x);
-  const y = Math.max(0, message.rect.y);
-  const width = Math.max(1, message.rect.width);
-  const height = Math.max(1, message.rect.height);
-
-  const canvas = new OffscreenCanvas(Math.ceil(width * scale), Math.ceil(height * scale));
-  const ctx = canvas.getContext("2d");
-  if (!ctx) return { ok: false, error: "Canvas failed." };
-
-  ctx.drawImage(
-    bitmap,
-    x * scale,
-    y * scale,
-    width * scale,
-    height * scale,
-    0,
-    0,
-    width * scale,
-    height * scale
-  );
-
-  const previewBlob = await canvas.convertToBlob({ type: "image/png" });
-  const previewDataUrl = await blobToDataUrl(previewBlob);
-  return { ok: true, dataUrl: previewDataUrl };
-}
-
-async function blobToDataUrl(blob: Blob): Promise<string> {
-  const arrayBuffer = await blob.arrayBuffer();
-  const bytes = new Uint8Array(arrayBuffer);
-  let binary = "";
-  bytes.forEach((b) => {
-    binary += String.fromCharCode(b);
-  });
-  return `data:${blob.type};base64,${btoa(binary)}`;
+  return { ok: true, dataUrl };
 }